@@ -0,0 +1,255 @@
+#!/usr/bin/env node
+
+import fs from 'fs';
+import { generateOutput, version } from './prisma-generator';
+import { getConfig, getDMMF } from '@prisma/internals';
+import { parseArgs } from 'util';
+import path from 'path';
+import { pickStringOptions } from './options-parser';
+import { resolveGeneratorConfig } from './config-file';
+
+const USAGE = `Usage: nestjs-prisma-graphql generate [options]
+
+Options:
+  --schema <path>        Prisma schema file (default: prisma/schema.prisma)
+  --output <dir>         Output directory (default: the generator block's output)
+  --generator <name>     Generator block to read options from (default: the first one using this generator)
+  --option <key=value>   Override a generator option, can be repeated
+  --watch                Regenerate whenever the schema or its config file changes
+  --dry-run              Print which files would be added, changed or removed without writing
+  --stats                Print model, file and line counts and per-phase timings
+  --help                 Show this help
+  --version              Show the generator version`;
+
+/**
+ * Provider names this generator is published under
+ */
+const PROVIDERS = ['nestjs-prisma-graphql-generator', '@k0lyan/nestjs-prisma-graphql-generator'];
+
+export interface CliOptions {
+  command: 'generate' | 'help' | 'version';
+  schema: string;
+  output?: string;
+  generator?: string;
+  options: Record<string, string>;
+  watch: boolean;
+  dryRun: boolean;
+  stats: boolean;
+}
+
+export interface GenerateStats {
+  models: number;
+  files: number;
+  lines: number;
+  /** Milliseconds spent in each phase, in execution order */
+  timings: Record<string, number>;
+}
+
+/**
+ * Parse command line arguments (without the node and script paths)
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      schema: { type: 'string' },
+      output: { type: 'string' },
+      generator: { type: 'string' },
+      option: { type: 'string', multiple: true },
+      watch: { type: 'boolean', default: false },
+      'dry-run': { type: 'boolean', default: false },
+      stats: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+      version: { type: 'boolean', default: false },
+    },
+  });
+
+  const [command = 'generate', ...rest] = positionals;
+  if (command !== 'generate' || rest.length > 0) {
+    throw new Error(`Unknown command "${[command, ...rest].join(' ')}"\n\n${USAGE}`);
+  }
+
+  const options: Record<string, string> = {};
+  for (const option of values.option ?? []) {
+    const separator = option.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`--option expects key=value, got "${option}"`);
+    }
+    options[option.slice(0, separator).trim()] = option.slice(separator + 1).trim();
+  }
+
+  return {
+    command: values.help ? 'help' : values.version ? 'version' : 'generate',
+    schema: values.schema ?? path.join('prisma', 'schema.prisma'),
+    output: values.output,
+    generator: values.generator,
+    options,
+    watch: values.watch ?? false,
+    dryRun: values['dry-run'] ?? false,
+    stats: values.stats ?? false,
+  };
+}
+
+/**
+ * Generate once from the schema, or report what would change with `dryRun`.
+ * `onConfigFile` gets the config file the generator block points to, before
+ * it is loaded.
+ */
+export async function runGenerate(
+  options: CliOptions,
+  log: (message: string) => void = console.log,
+  onConfigFile?: (filePath: string) => void,
+): Promise<GenerateStats> {
+  const timings: Record<string, number> = {};
+  const time = async <T>(phase: string, fn: () => T | Promise<T>): Promise<T> => {
+    const start = performance.now();
+    const result = await fn();
+    timings[phase] = Math.round(performance.now() - start);
+    return result;
+  };
+
+  const schemaPath = path.resolve(options.schema);
+  const { dmmf, generatorConfig, outputDir } = await time('schema', async () => {
+    const datamodel = await fs.promises.readFile(schemaPath, 'utf-8');
+    const { generators } = await getConfig({ datamodel });
+    const generator = options.generator
+      ? generators.find(g => g.name === options.generator)
+      : generators.find(g => PROVIDERS.includes(g.provider.value ?? ''));
+
+    if (options.generator && !generator) {
+      throw new Error(`Generator "${options.generator}" not found in ${schemaPath}`);
+    }
+    const output = options.output ?? generator?.output?.value;
+    if (!output) {
+      throw new Error(
+        `No output directory: add a generator block using ${PROVIDERS[0]} to ${schemaPath} or pass --output`,
+      );
+    }
+
+    const rawConfig = { ...pickStringOptions(generator?.config ?? {}), ...options.options };
+    if (rawConfig['configFile']) {
+      onConfigFile?.(path.resolve(path.dirname(schemaPath), rawConfig['configFile']));
+    }
+
+    return {
+      dmmf: await getDMMF({
+        datamodel,
+        previewFeatures: generators.flatMap(g => g.previewFeatures),
+      }),
+      generatorConfig: await resolveGeneratorConfig(rawConfig, path.dirname(schemaPath)),
+      // The generator block's output is relative to the schema, --output to the working directory
+      outputDir: options.output
+        ? path.resolve(options.output)
+        : path.resolve(path.dirname(schemaPath), output),
+    };
+  });
+
+  const { document, files, plan } = await generateOutput(dmmf, generatorConfig, outputDir, {
+    dryRun: options.dryRun,
+    log,
+    warn: log,
+    phase: time,
+  });
+
+  if (plan) {
+    log(
+      `🔍 Dry run for ${outputDir}: ${plan.added.length} to add, ${plan.changed.length} to change, ` +
+        `${plan.removed.length} to remove, ${plan.unchanged.length} unchanged`,
+    );
+    for (const file of plan.added) log(`  + ${file.path}`);
+    for (const file of plan.changed) log(`  ~ ${file.path}`);
+    for (const filePath of plan.removed) log(`  - ${filePath}`);
+    for (const filePath of plan.edited) log(`  ! ${filePath} was edited by hand`);
+  }
+
+  const stats: GenerateStats = {
+    models: document.models.length,
+    files: files.length,
+    lines: files.reduce((sum, file) => sum + file.content.split('\n').length, 0),
+    timings,
+  };
+  if (options.stats) {
+    log(`📊 ${stats.models} models, ${stats.files} files, ${stats.lines} lines`);
+    log(
+      `   ${Object.entries(timings)
+        .map(([phase, ms]) => `${phase} ${ms}ms`)
+        .join(', ')}`,
+    );
+  }
+  return stats;
+}
+
+/**
+ * Regenerate whenever the schema file or its config file changes, until the
+ * returned function is called
+ */
+export function watchSchema(
+  options: CliOptions,
+  log: (message: string) => void = console.log,
+): () => void {
+  const schemaPath = path.resolve(options.schema);
+  const watchers = new Map<string, fs.FSWatcher>();
+  const watched = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+  let running = Promise.resolve();
+
+  // Watch directories: editors often replace files, which ends a watch on the file itself
+  const watch = (filePath: string) => {
+    watched.add(filePath);
+    const dir = path.dirname(filePath);
+    if (watchers.has(dir)) return;
+    const watcher = fs.watch(dir, (_event, fileName) => {
+      if (!fileName || !watched.has(path.join(dir, fileName.toString()))) return;
+      clearTimeout(timer);
+      timer = setTimeout(regenerate, 100);
+    });
+    watchers.set(dir, watcher);
+  };
+
+  const regenerate = () => {
+    running = running
+      .then(() => runGenerate(options, log, watch))
+      .then(
+        () => log(`👀 Watching ${[...watched].join(', ')} for changes...`),
+        (error: Error) => log(`❌ ${error.message}`),
+      );
+  };
+
+  watch(schemaPath);
+  regenerate();
+  return () => {
+    clearTimeout(timer);
+    for (const watcher of watchers.values()) watcher.close();
+  };
+}
+
+export async function main(argv: string[]): Promise<number> {
+  try {
+    const options = parseCliArgs(argv);
+
+    if (options.command === 'help') {
+      console.log(USAGE);
+    } else if (options.command === 'version') {
+      console.log(version);
+    } else if (options.watch) {
+      console.log(`🚀 NestJS Prisma GraphQL Generator v${version}`);
+      watchSchema(options);
+      // Keep running until interrupted
+      await new Promise<never>(() => {});
+    } else {
+      console.log(`🚀 NestJS Prisma GraphQL Generator v${version}`);
+      await runGenerate(options);
+    }
+    return 0;
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}`);
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
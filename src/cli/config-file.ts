@@ -0,0 +1,296 @@
+import type {
+  BarrelMode,
+  EmitBlock,
+  EventEmitterMode,
+  GeneratorConfig,
+  GeneratorHooks,
+  ModelConfig,
+  ModuleFormat,
+  NamingStyle,
+  PrismaSource,
+} from './options-parser';
+import {
+  GeneratorConfigError,
+  parseGeneratorConfig,
+  validateGeneratorConfig,
+} from './options-parser';
+
+import { CRUD_OPERATIONS, DECORATOR_TARGETS } from '../generator/dmmf/types';
+import type { CrudOperation, ResolverDecorator } from '../generator/dmmf/types';
+import { createRequire } from 'module';
+import fs from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { ts } from 'ts-morph';
+
+/**
+ * Contents of a config file: the generator block options with their actual
+ * types, plus settings a generator block can't express
+ */
+export interface GeneratorConfigFile {
+  emitOnly?: EmitBlock[];
+  generateResolvers?: boolean;
+  generateServices?: boolean;
+  baseResolvers?: boolean;
+  generateEvents?: boolean;
+  eventEmitter?: EventEmitterMode;
+  featureModules?: boolean;
+  groupByModel?: boolean;
+  useValidation?: boolean;
+  prismaClientPath?: string;
+  prismaSource?: PrismaSource;
+  prismaService?: string;
+  prismaServicePath?: string;
+  contextPrismaKey?: string;
+  contextType?: string;
+  contextTypePath?: string;
+  tenantField?: string;
+  contextTenantKey?: string;
+  createdByField?: string;
+  updatedByField?: string;
+  contextUserKey?: string;
+  emitCompiled?: boolean;
+  typePrefix?: string;
+  typeSuffix?: string;
+  namingStyle?: NamingStyle;
+  usePrettier?: boolean;
+  moduleFormat?: ModuleFormat;
+  barrels?: BarrelMode;
+  useRequireForRelations?: boolean;
+  usePrismaEnums?: boolean;
+  operations?: CrudOperation[];
+  includeModels?: string[];
+  excludeModels?: string[];
+  modelsOutput?: string;
+  inputsOutput?: string;
+  argsOutput?: string;
+  enumsOutput?: string;
+  resolversOutput?: string;
+  /** Settings per Prisma model name */
+  models?: Record<string, ModelConfig>;
+  /** Decorators for the resolvers of every model */
+  decorators?: ResolverDecorator[];
+  hooks?: GeneratorHooks;
+}
+
+/**
+ * Package names a config file may import `defineConfig` from
+ */
+const PACKAGE_NAMES = [
+  '@k0lyan/nestjs-prisma-graphql-generator',
+  'nestjs-prisma-graphql-generator',
+];
+
+const MODEL_CONFIG_KEYS: (keyof ModelConfig)[] = [
+  'operations',
+  'name',
+  'plural',
+  'hidden',
+  'subscriptions',
+  'softDelete',
+  'hiddenFields',
+  'scalars',
+  'decorators',
+];
+
+/**
+ * Type a config file's contents
+ *
+ * @example
+ * ```ts
+ * import { defineConfig } from '@k0lyan/nestjs-prisma-graphql-generator';
+ *
+ * export default defineConfig({
+ *   groupByModel: true,
+ *   models: { User: { hiddenFields: ['password'] } },
+ * });
+ * ```
+ */
+export function defineConfig(config: GeneratorConfigFile): GeneratorConfigFile {
+  return config;
+}
+
+/**
+ * Load a `.ts`, `.cts`, `.js`, `.cjs`, `.mjs` or `.json` config file.
+ * TypeScript is transpiled in memory, so no loader or build step is needed;
+ * `.mjs` files, and `.js` files of `"type": "module"` packages, are imported
+ * as ES modules.
+ */
+export async function loadConfigFile(filePath: string): Promise<GeneratorConfigFile> {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Config file ${filePath} not found`);
+  }
+
+  const source = fs.readFileSync(filePath, 'utf-8');
+  if (filePath.endsWith('.json')) {
+    return JSON.parse(source) as GeneratorConfigFile;
+  }
+
+  const config = isEsModule(filePath)
+    ? await importConfigFile(filePath)
+    : evaluateConfigFile(filePath, source);
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    throw new Error(`Config file ${filePath} must export a config object`);
+  }
+  return config as GeneratorConfigFile;
+}
+
+/**
+ * Parse raw generator block options, merged over the options of the config
+ * file they point to. `schemaDir` is what `configFile` is relative to.
+ *
+ * @throws GeneratorConfigError when either source is invalid
+ */
+export async function resolveGeneratorConfig(
+  config: Record<string, string>,
+  schemaDir: string,
+): Promise<GeneratorConfig> {
+  if (!config['configFile']) {
+    return parseGeneratorConfig(config);
+  }
+
+  const filePath = path.resolve(schemaDir, config['configFile']);
+  const { models, decorators, hooks, ...options } = await loadConfigFile(filePath);
+  const fileOptions = toRawOptions(options);
+
+  const errors = [
+    ...validateGeneratorConfig(fileOptions),
+    ...validateModelConfigs(models),
+    ...validateDecorators(decorators, 'decorators'),
+  ].map(e => `${config['configFile']}: ${e}`);
+  if ('configFile' in fileOptions) {
+    errors.push(`${config['configFile']}: configFile can only be set in the generator block`);
+  }
+  if (errors.length > 0) {
+    throw new GeneratorConfigError(errors);
+  }
+
+  return { ...parseGeneratorConfig({ ...fileOptions, ...config }), models, decorators, hooks };
+}
+
+function isEsModule(filePath: string): boolean {
+  if (filePath.endsWith('.mjs')) return true;
+  if (!filePath.endsWith('.js')) return false;
+
+  // A .js file is an ES module when the nearest package.json says so
+  for (let dir = path.dirname(filePath); ; dir = path.dirname(dir)) {
+    const packageJson = path.join(dir, 'package.json');
+    if (fs.existsSync(packageJson)) {
+      return JSON.parse(fs.readFileSync(packageJson, 'utf-8')).type === 'module';
+    }
+    if (path.dirname(dir) === dir) return false;
+  }
+}
+
+// Compiled to CommonJS, a plain import() would turn into require()
+const importModule = new Function('specifier', 'return import(specifier)') as (
+  specifier: string,
+) => Promise<{ default?: unknown }>;
+
+async function importConfigFile(filePath: string): Promise<unknown> {
+  // Import each version of the file once, so watch mode picks up changes
+  const url = pathToFileURL(filePath);
+  url.searchParams.set('mtime', String(fs.statSync(filePath).mtimeMs));
+
+  const module = await importModule(url.href);
+  return module.default ?? module;
+}
+
+function evaluateConfigFile(filePath: string, source: string): unknown {
+  const code = /\.[cm]?ts$/.test(filePath)
+    ? ts.transpileModule(source, {
+        fileName: filePath,
+        compilerOptions: {
+          module: ts.ModuleKind.CommonJS,
+          target: ts.ScriptTarget.ES2021,
+          esModuleInterop: true,
+        },
+      }).outputText
+    : source;
+
+  // Hand out defineConfig directly, without loading the whole package
+  const localRequire = createRequire(filePath);
+  const configRequire = (id: string): unknown =>
+    PACKAGE_NAMES.includes(id) ? { defineConfig } : localRequire(id);
+
+  const module = { exports: {} as { default?: unknown } };
+  new Function('exports', 'require', 'module', '__filename', '__dirname', code)(
+    module.exports,
+    configRequire,
+    module,
+    filePath,
+    path.dirname(filePath),
+  );
+  return module.exports.default ?? module.exports;
+}
+
+/**
+ * Convert typed config file options to generator block strings, so both
+ * sources go through the same validation
+ */
+function toRawOptions(options: Record<string, unknown>): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [key, value] of Object.entries(options)) {
+    if (value === undefined) continue;
+    result[key] = Array.isArray(value) ? value.join(',') : String(value);
+  }
+  return result;
+}
+
+function validateModelConfigs(models: Record<string, ModelConfig> = {}): string[] {
+  const errors: string[] = [];
+
+  for (const [modelName, modelConfig] of Object.entries(models)) {
+    for (const key of Object.keys(modelConfig)) {
+      if (!(MODEL_CONFIG_KEYS as string[]).includes(key)) {
+        errors.push(
+          `Unknown setting "${key}" for model ${modelName}; expected one of ${MODEL_CONFIG_KEYS.join(', ')}`,
+        );
+      }
+    }
+    for (const op of modelConfig.operations ?? []) {
+      if (!CRUD_OPERATIONS.includes(op)) {
+        errors.push(
+          `Invalid operation "${op}" for model ${modelName}; expected one of ${CRUD_OPERATIONS.join(', ')}`,
+        );
+      }
+    }
+    for (const [fieldName, scalar] of Object.entries(modelConfig.scalars ?? {})) {
+      if (typeof scalar?.name !== 'string' || typeof scalar?.from !== 'string') {
+        errors.push(
+          `Scalar for ${modelName}.${fieldName} needs a name and a module to import from`,
+        );
+      }
+    }
+    errors.push(...validateDecorators(modelConfig.decorators, `decorators of model ${modelName}`));
+  }
+
+  return errors;
+}
+
+function validateDecorators(decorators: ResolverDecorator[] = [], location: string): string[] {
+  const errors: string[] = [];
+
+  for (const decorator of decorators) {
+    if (typeof decorator?.expression !== 'string' || decorator.expression.trim() === '') {
+      errors.push(`Every entry of ${location} needs an expression, e.g. "UseGuards(AdminGuard)"`);
+      continue;
+    }
+    for (const { name, from } of decorator.imports ?? []) {
+      if (typeof name !== 'string' || typeof from !== 'string') {
+        errors.push(
+          `Imports of decorator ${decorator.expression} need a name and a module to import from`,
+        );
+      }
+    }
+    for (const target of [decorator.on ?? []].flat()) {
+      if (!DECORATOR_TARGETS.includes(target)) {
+        errors.push(
+          `Invalid target "${target}" for decorator ${decorator.expression}; expected one of ${DECORATOR_TARGETS.join(', ')}`,
+        );
+      }
+    }
+  }
+
+  return errors;
+}
@@ -2,22 +2,24 @@
 
 import { generate } from './prisma-generator';
 import { generatorHandler } from '@prisma/generator-helper';
-import { parseGeneratorConfig } from './options-parser';
+import path from 'path';
+import { pickStringOptions } from './options-parser';
+import { resolveGeneratorConfig } from './config-file';
 
-generatorHandler({
-  onManifest: () => ({
-    defaultOutput: 'node_modules/@generated/nestjs-graphql',
-    prettyName: 'NestJS GraphQL Generator',
-    requiresGenerators: ['prisma-client-js'],
-  }),
-  onGenerate: async options => {
-    const rawConfig: Record<string, string> = {};
-    for (const [key, value] of Object.entries(options.generator.config)) {
-      if (typeof value === 'string') {
-        rawConfig[key] = value;
-      }
-    }
-    const config = parseGeneratorConfig(rawConfig);
-    await generate(options, config);
-  },
-});
+// Only as the provider: ES module config files import defineConfig from the package entry
+if (require.main === module) {
+  generatorHandler({
+    onManifest: () => ({
+      defaultOutput: 'node_modules/@generated/nestjs-graphql',
+      prettyName: 'NestJS GraphQL Generator',
+      requiresGenerators: ['prisma-client-js'],
+    }),
+    onGenerate: async options => {
+      const config = await resolveGeneratorConfig(
+        pickStringOptions(options.generator.config),
+        path.dirname(options.schemaPath),
+      );
+      await generate(options, config);
+    },
+  });
+}
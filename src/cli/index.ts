@@ -1 +1,2 @@
+export * from './config-file';
 export * from './generator';
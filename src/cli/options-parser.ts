@@ -1,3 +1,14 @@
+import type {
+  CrudOperation,
+  GeneratedFile,
+  ResolverDecorator,
+  ScalarOverride,
+  SoftDelete,
+} from '../generator/dmmf/types';
+
+import { CRUD_OPERATIONS } from '../generator/dmmf/types';
+import type { WriteResult } from '../generator/writers/file-writer';
+
 export interface GeneratorConfig {
   /**
    * Whether to emit only specific blocks (models, resolvers, etc.)
@@ -28,6 +39,41 @@ export interface GeneratorConfig {
    */
   generateResolvers?: boolean;
 
+  /**
+   * Generate an injectable `UserService` per model with the CRUD operations,
+   * which the resolvers delegate to. Needs `prismaSource` = `inject`.
+   * Default: false
+   */
+  generateServices?: boolean;
+
+  /**
+   * Generate each CRUD resolver as an abstract `UserResolverBase` with
+   * overridable hooks (`transformArgs`, `beforeFindMany`, `afterCreate`,
+   * `onError`, ...) and a `UserResolver` subclass using the defaults
+   * Default: false
+   */
+  baseResolvers?: boolean;
+
+  /**
+   * Emit typed events (`UserCreatedEvent`, `UserUpdatedManyEvent`, ...) from the
+   * mutation resolvers through the `MUTATION_EVENT_EMITTER` provider
+   * Default: false
+   */
+  generateEvents?: boolean;
+
+  /**
+   * Emitter `MutationEventsModule.forRoot()` defaults to (see `EventEmitterMode`).
+   * Default: 'nest'
+   */
+  eventEmitter?: EventEmitterMode;
+
+  /**
+   * Give every model its own Nest module (`UserGraphQLModule`) for its resolvers,
+   * which `GeneratedGraphQLModule.forRoot()` imports
+   * Default: false
+   */
+  featureModules?: boolean;
+
   /**
    * Whether to use input validation decorators (class-validator)
    * Default: false
@@ -40,6 +86,81 @@ export interface GeneratorConfig {
    */
   prismaClientPath?: string;
 
+  /**
+   * Where resolvers get the Prisma client (see `PrismaSource`).
+   * Default: 'context'
+   */
+  prismaSource?: PrismaSource;
+
+  /**
+   * Class resolvers take through their constructor when `prismaSource` is
+   * `inject`, e.g. a `PrismaService` extending `PrismaClient`.
+   * Default: PrismaClient from `prismaClientPath`
+   */
+  prismaService?: string;
+
+  /**
+   * Module `prismaService` is imported from. Relative paths are relative to
+   * the output directory.
+   */
+  prismaServicePath?: string;
+
+  /**
+   * Property path of the Prisma client on the GraphQL context when
+   * `prismaSource` is `context`, e.g. `req.prisma`.
+   * Default: 'prisma'
+   */
+  contextPrismaKey?: string;
+
+  /**
+   * Type of the `@Context()` parameter of the resolvers.
+   * Default: GraphQLContext<PrismaClient> from the generated helpers, or
+   * `unknown` when `prismaSource` is `inject`
+   */
+  contextType?: string;
+
+  /**
+   * Module `contextType` is imported from. Relative paths are relative to the
+   * output directory.
+   */
+  contextTypePath?: string;
+
+  /**
+   * Scalar field holding the tenant of a record, e.g. `tenantId`. The resolvers
+   * of models with it scope every operation to the tenant on the GraphQL
+   * context, and the field can't be written through the API.
+   * Default: no tenant scoping
+   */
+  tenantField?: string;
+
+  /**
+   * Property path of the tenant on the GraphQL context, e.g. `req.user.tenantId`
+   * Default: `tenantField`
+   */
+  contextTenantKey?: string;
+
+  /**
+   * Scalar field recording who created a record, e.g. `createdById`, on every
+   * model that has it. Like `@gql.createdBy`, the create mutations set it to
+   * the user on the GraphQL context and it can't be written through the API.
+   * Default: none
+   */
+  createdByField?: string;
+
+  /**
+   * Scalar field recording who last wrote a record, e.g. `updatedById`, set by
+   * the create and update mutations like `@gql.updatedBy`
+   * Default: none
+   */
+  updatedByField?: string;
+
+  /**
+   * Property path of the user on the GraphQL context, which the audit fields
+   * are set to, e.g. `req.user.id`
+   * Default: 'user.id'
+   */
+  contextUserKey?: string;
+
   /**
    * Whether to emit compiled JS alongside .d.ts
    * Default: false (emit only .ts source)
@@ -47,15 +168,43 @@ export interface GeneratorConfig {
   emitCompiled?: boolean;
 
   /**
-   * Prefix for generated type names
+   * Prefix for model object type names, applied to the class and every reference to it
    */
   typePrefix?: string;
 
   /**
-   * Suffix for generated type names
+   * Suffix for model object type names, applied to the class and every reference to it
    */
   typeSuffix?: string;
 
+  /**
+   * How query and mutation names are built (see `NamingStyle`).
+   * Default: 'default'
+   */
+  namingStyle?: NamingStyle;
+
+  /**
+   * Format generated sources with the Prettier installation and config of the
+   * project the output lives in. Skipped with a warning when Prettier isn't found.
+   * Default: false
+   */
+  usePrettier?: boolean;
+
+  /**
+   * Module system of the generated code. `esm` emits `.js` import extensions,
+   * `import type` for type-only imports and lazy relation references without
+   * `require()`, for projects using `"module": "NodeNext"`.
+   * Default: 'commonjs'
+   */
+  moduleFormat?: ModuleFormat;
+
+  /**
+   * Which `index.ts` re-export files to emit (see `BarrelMode`). Without the
+   * full set, a `resolvers.ts` listing every resolver class is emitted instead.
+   * Default: 'all'
+   */
+  barrels?: BarrelMode;
+
   /**
    * Use require() instead of ES imports for relation types in models.
    * This helps avoid circular dependency issues in larger projects.
@@ -69,10 +218,254 @@ export interface GeneratorConfig {
    * Default: false (generate new enums with registerEnumType)
    */
   usePrismaEnums?: boolean;
+
+  /**
+   * CRUD operations to generate for every model, e.g. `findMany,findUnique,create`.
+   * Models can override this with `/// @gql.operations(...)`.
+   * Default: all operations
+   */
+  operations?: CrudOperation[];
+
+  /**
+   * Models to generate, as names or globs (`*`, `?`), e.g. `User,Post,Blog*`.
+   * Default: all models
+   */
+  includeModels?: string[];
+
+  /**
+   * Models to leave out of generation, as names or globs, e.g. `Outbox,_*`.
+   * Applied after `includeModels`; models can also opt out with `/// @gql.ignore`.
+   * Default: none
+   */
+  excludeModels?: string[];
+
+  /**
+   * Path of a typed config file (see `defineConfig`), relative to the schema.
+   * Options set in the generator block take precedence over the file.
+   */
+  configFile?: string;
+
+  /**
+   * Per-model settings from the config file, keyed by Prisma model name
+   */
+  models?: Record<string, ModelConfig>;
+
+  /**
+   * Decorators for the resolvers of every model, from the config file
+   */
+  decorators?: ResolverDecorator[];
+
+  /**
+   * Functions called during generation, from the config file
+   */
+  hooks?: GeneratorHooks;
+}
+
+/**
+ * Config file settings for a single model. Schema annotations take precedence.
+ */
+export interface ModelConfig {
+  /** CRUD operations to generate, like `@gql.operations(...)` */
+  operations?: CrudOperation[];
+  /** GraphQL type name, like `@gql.name(...)` */
+  name?: string;
+  /** Plural used in operation names, like `@gql.plural(...)` */
+  plural?: string;
+  /** Leave the model out of the API, like `@gql.ignore` */
+  hidden?: boolean;
+  /** Publish created / updated / deleted subscriptions, like `@gql.subscriptions` */
+  subscriptions?: boolean;
+  /** Set a field instead of deleting records, like `@gql.softDelete(...)` */
+  softDelete?: boolean | Partial<SoftDelete>;
+  /** Fields hidden from the object type and filters, like `@gql.omit(output)` */
+  hiddenFields?: string[];
+  /** Custom GraphQL scalars for scalar fields of the object type, keyed by field name */
+  scalars?: Record<string, ScalarOverride>;
+  /** Decorators for the model's resolvers, added after the global ones */
+  decorators?: ResolverDecorator[];
+}
+
+export interface GeneratorHooks {
+  /** Called with the generated sources before they are compiled and written; may return replacements */
+  afterGenerate?: (
+    files: GeneratedFile[],
+    config: GeneratorConfig,
+  ) => GeneratedFile[] | void | Promise<GeneratedFile[] | void>;
+  /** Called once the output directory has been updated */
+  afterWrite?: (result: WriteResult, outputDir: string) => void | Promise<void>;
 }
 
 export type EmitBlock = 'models' | 'inputs' | 'args' | 'enums' | 'resolvers' | 'helpers';
 
+export const EMIT_BLOCKS: readonly EmitBlock[] = [
+  'models',
+  'inputs',
+  'args',
+  'enums',
+  'resolvers',
+  'helpers',
+];
+
+/**
+ * Operation naming presets, shown for a `User` model:
+ * - `default`: `users`, `user`, `findFirstUser`, `createOneUser`, `updateManyUser`, `userCount`
+ * - `short`: `users`, `user`, `findFirstUser`, `createUser`, `updateManyUsers`, `userCount`
+ * - `prisma`: `findManyUser`, `findUniqueUser`, `findFirstUser`, `createUser`, `updateManyUser`, `countUser`
+ */
+export type NamingStyle = 'default' | 'short' | 'prisma';
+
+export const NAMING_STYLES: readonly NamingStyle[] = ['default', 'short', 'prisma'];
+
+/**
+ * Where resolvers get the Prisma client:
+ * - `context`: from the GraphQL context, at `contextPrismaKey`
+ * - `inject`: through the constructor, as `prismaService` from Nest DI
+ */
+export type PrismaSource = 'context' | 'inject';
+
+export const PRISMA_SOURCES: readonly PrismaSource[] = ['context', 'inject'];
+
+/**
+ * Emitter of the mutation events:
+ * - `nest`: `MutationEventsModule.forRoot()` defaults to an adapter sending them
+ *   through `EventEmitter2` of `@nestjs/event-emitter`
+ * - `custom`: no adapter, so the package isn't needed; `forRoot` takes the emitter
+ */
+export type EventEmitterMode = 'nest' | 'custom';
+
+export const EVENT_EMITTER_MODES: readonly EventEmitterMode[] = ['nest', 'custom'];
+
+export type ModuleFormat = 'commonjs' | 'esm';
+
+export const MODULE_FORMATS: readonly ModuleFormat[] = ['commonjs', 'esm'];
+
+/**
+ * Re-export files to emit:
+ * - `all`: an `index.ts` in the output root and in every directory
+ * - `root`: only the root `index.ts`, re-exporting every file directly
+ * - `none`: no `index.ts` files; import from the files themselves
+ */
+export type BarrelMode = 'all' | 'root' | 'none';
+
+export const BARREL_MODES: readonly BarrelMode[] = ['all', 'root', 'none'];
+
+/**
+ * How a raw generator block option is validated
+ */
+type OptionSchema =
+  | { type: 'boolean' }
+  | { type: 'string'; pattern?: RegExp; expected?: string }
+  | { type: 'enum'; values: readonly string[] }
+  | { type: 'list'; values?: readonly string[] };
+
+const TYPE_AFFIX: OptionSchema = {
+  type: 'string',
+  pattern: /^[_A-Za-z0-9]*$/,
+  expected: 'letters, digits or underscores',
+};
+
+const IDENTIFIER: OptionSchema = {
+  type: 'string',
+  pattern: /^[_$A-Za-z][_$A-Za-z0-9]*$/,
+  expected: 'an identifier',
+};
+
+const PROPERTY_PATH: OptionSchema = {
+  type: 'string',
+  pattern: /^[_$A-Za-z][_$A-Za-z0-9]*(\.[_$A-Za-z][_$A-Za-z0-9]*)*$/,
+  expected: 'identifiers separated by dots',
+};
+
+/**
+ * Options that only apply to one prismaSource
+ */
+const PRISMA_SOURCE_OPTIONS: Record<PrismaSource, string[]> = {
+  context: ['contextPrismaKey'],
+  inject: ['prismaService', 'prismaServicePath'],
+};
+
+/**
+ * Options naming an import, with the option holding its module
+ */
+const IMPORTED_NAME_OPTIONS: [name: string, path: string][] = [
+  ['prismaService', 'prismaServicePath'],
+  ['contextType', 'contextTypePath'],
+];
+
+/**
+ * Options of the audit fields, whose mutations read the user from the context
+ */
+const AUDIT_OPTIONS = ['createdByField', 'updatedByField', 'contextUserKey'];
+
+/**
+ * Every option the generator block accepts
+ */
+const CONFIG_SCHEMA: Record<string, OptionSchema> = {
+  emitOnly: { type: 'list', values: EMIT_BLOCKS },
+  generateResolvers: { type: 'boolean' },
+  generateServices: { type: 'boolean' },
+  baseResolvers: { type: 'boolean' },
+  generateEvents: { type: 'boolean' },
+  eventEmitter: { type: 'enum', values: EVENT_EMITTER_MODES },
+  featureModules: { type: 'boolean' },
+  groupByModel: { type: 'boolean' },
+  useValidation: { type: 'boolean' },
+  prismaClientPath: { type: 'string' },
+  prismaSource: { type: 'enum', values: PRISMA_SOURCES },
+  prismaService: IDENTIFIER,
+  prismaServicePath: { type: 'string' },
+  contextPrismaKey: PROPERTY_PATH,
+  contextType: IDENTIFIER,
+  contextTypePath: { type: 'string' },
+  tenantField: IDENTIFIER,
+  contextTenantKey: PROPERTY_PATH,
+  createdByField: IDENTIFIER,
+  updatedByField: IDENTIFIER,
+  contextUserKey: PROPERTY_PATH,
+  emitCompiled: { type: 'boolean' },
+  typePrefix: TYPE_AFFIX,
+  typeSuffix: TYPE_AFFIX,
+  namingStyle: { type: 'enum', values: NAMING_STYLES },
+  usePrettier: { type: 'boolean' },
+  moduleFormat: { type: 'enum', values: MODULE_FORMATS },
+  barrels: { type: 'enum', values: BARREL_MODES },
+  useRequireForRelations: { type: 'boolean' },
+  usePrismaEnums: { type: 'boolean' },
+  operations: { type: 'list', values: CRUD_OPERATIONS },
+  includeModels: { type: 'list' },
+  excludeModels: { type: 'list' },
+  modelsOutput: { type: 'string' },
+  inputsOutput: { type: 'string' },
+  argsOutput: { type: 'string' },
+  enumsOutput: { type: 'string' },
+  resolversOutput: { type: 'string' },
+  configFile: { type: 'string' },
+};
+
+const OUTPUT_DIR_OPTIONS = [
+  'modelsOutput',
+  'inputsOutput',
+  'argsOutput',
+  'enumsOutput',
+  'resolversOutput',
+];
+
+/**
+ * Blocks the generated resolvers import from
+ */
+const RESOLVER_DEPENDENCIES: EmitBlock[] = ['models', 'args', 'helpers'];
+
+/**
+ * Thrown when the generator block contains unknown options, invalid values
+ * or options that conflict with each other
+ */
+export class GeneratorConfigError extends Error {
+  constructor(readonly errors: string[]) {
+    super(`Invalid generator config:\n${errors.map(e => `  - ${e}`).join('\n')}`);
+    this.name = 'GeneratorConfigError';
+  }
+}
+
 const DEFAULT_CONFIG: GeneratorConfig = {
   emitOnly: undefined,
   outputDirs: {
@@ -84,26 +477,184 @@ const DEFAULT_CONFIG: GeneratorConfig = {
   },
   groupByModel: false,
   generateResolvers: true,
+  generateServices: false,
+  baseResolvers: false,
+  generateEvents: false,
+  eventEmitter: 'nest',
+  featureModules: false,
   useValidation: false,
   prismaClientPath: '@prisma/client',
+  prismaSource: 'context',
+  contextPrismaKey: 'prisma',
   emitCompiled: false,
   typePrefix: '',
   typeSuffix: '',
+  namingStyle: 'default',
+  usePrettier: false,
+  moduleFormat: 'commonjs',
+  barrels: 'all',
   useRequireForRelations: true,
   usePrismaEnums: false,
+  operations: undefined,
+  includeModels: undefined,
+  excludeModels: undefined,
 };
 
+/**
+ * Keep the string options of a Prisma generator block, which is all the generator understands
+ */
+export function pickStringOptions(
+  config: Record<string, string | string[] | undefined>,
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [key, value] of Object.entries(config)) {
+    if (typeof value === 'string') {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Check raw generator block options against the config schema.
+ * Returns one message per problem; an empty list means the config is valid.
+ */
+export function validateGeneratorConfig(config: Record<string, string>): string[] {
+  const errors: string[] = [];
+
+  for (const [key, value] of Object.entries(config)) {
+    const schema = CONFIG_SCHEMA[key];
+    if (!schema) {
+      errors.push(`Unknown option "${key}"${didYouMean(key, Object.keys(CONFIG_SCHEMA))}`);
+      continue;
+    }
+
+    if (schema.type === 'boolean' && value !== 'true' && value !== 'false') {
+      errors.push(`${key} must be "true" or "false", got "${value}"`);
+    } else if (schema.type === 'string' && schema.pattern && !schema.pattern.test(value)) {
+      errors.push(`${key} must only contain ${schema.expected}, got "${value}"`);
+    } else if (schema.type === 'enum' && !schema.values.includes(value)) {
+      errors.push(
+        `Invalid ${key} "${value}"; expected one of ${schema.values.join(', ')}${didYouMean(value, schema.values)}`,
+      );
+    } else if (schema.type === 'list' && schema.values) {
+      for (const item of parseList(value)) {
+        if (!schema.values.includes(item)) {
+          errors.push(
+            `Invalid ${key} value "${item}"; expected one of ${schema.values.join(', ')}${didYouMean(item, schema.values)}`,
+          );
+        }
+      }
+    }
+  }
+
+  // Conflicting combinations
+  if (config['groupByModel'] === 'true') {
+    for (const key of OUTPUT_DIR_OPTIONS.filter(k => config[k] !== undefined)) {
+      errors.push(`${key} only applies when groupByModel is "false"`);
+    }
+    if (config['emitOnly'] !== undefined) {
+      errors.push('emitOnly only applies when groupByModel is "false"');
+    }
+  }
+
+  if (config['moduleFormat'] === 'esm' && config['useRequireForRelations'] === 'true') {
+    errors.push('useRequireForRelations only applies when moduleFormat is "commonjs"');
+  }
+
+  const prismaSource = (config['prismaSource'] ?? 'context') as PrismaSource;
+  for (const source of PRISMA_SOURCES.filter(s => s !== prismaSource)) {
+    for (const key of PRISMA_SOURCE_OPTIONS[source].filter(k => config[k] !== undefined)) {
+      errors.push(`${key} only applies when prismaSource is "${source}"`);
+    }
+  }
+  // Services take the Prisma client from Nest DI
+  if (prismaSource !== 'inject' && config['generateServices'] === 'true') {
+    errors.push('generateServices only applies when prismaSource is "inject"');
+  }
+  // Without a Prisma client on it, only base resolver hooks, mutation events and tenancy take the context
+  if (
+    prismaSource === 'inject' &&
+    config['baseResolvers'] !== 'true' &&
+    config['generateEvents'] !== 'true' &&
+    config['tenantField'] === undefined &&
+    AUDIT_OPTIONS.every(key => config[key] === undefined)
+  ) {
+    for (const key of ['contextType', 'contextTypePath'].filter(k => config[k] !== undefined)) {
+      errors.push(
+        `${key} only applies when prismaSource is "context", baseResolvers or generateEvents is "true", or with tenantField or audit fields`,
+      );
+    }
+  }
+  if (config['eventEmitter'] !== undefined && config['generateEvents'] !== 'true') {
+    errors.push('eventEmitter only applies when generateEvents is "true"');
+  }
+  if (config['contextTenantKey'] !== undefined && config['tenantField'] === undefined) {
+    errors.push('contextTenantKey only applies together with tenantField');
+  }
+  for (const [nameKey, pathKey] of IMPORTED_NAME_OPTIONS) {
+    if (config[nameKey] !== undefined && config[pathKey] === undefined) {
+      errors.push(`${nameKey} needs ${pathKey} to import it from`);
+    } else if (config[pathKey] !== undefined && config[nameKey] === undefined) {
+      errors.push(`${pathKey} only applies together with ${nameKey}`);
+    }
+  }
+
+  const emitOnly = config['emitOnly'] ? parseList(config['emitOnly']) : [];
+  if (emitOnly.includes('resolvers') && config['generateResolvers'] !== 'false') {
+    const missing = RESOLVER_DEPENDENCIES.filter(block => !emitOnly.includes(block));
+    if (missing.length > 0) {
+      errors.push(
+        `emitOnly includes resolvers, which import ${missing.join(', ')}; ` +
+          `add ${missing.length > 1 ? 'them' : 'it'} to emitOnly or set generateResolvers = "false"`,
+      );
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Parse and validate raw generator block options
+ *
+ * @throws GeneratorConfigError when `validateGeneratorConfig` reports problems
+ */
 export function parseGeneratorConfig(config: Record<string, string>): GeneratorConfig {
+  const errors = validateGeneratorConfig(config);
+  if (errors.length > 0) {
+    throw new GeneratorConfigError(errors);
+  }
+
   const result: GeneratorConfig = { ...DEFAULT_CONFIG };
 
   if (config['emitOnly']) {
-    result.emitOnly = config['emitOnly'].split(',').map(s => s.trim() as EmitBlock);
+    result.emitOnly = parseList(config['emitOnly']) as EmitBlock[];
   }
 
   if (config['generateResolvers']) {
     result.generateResolvers = config['generateResolvers'] === 'true';
   }
 
+  if (config['generateServices']) {
+    result.generateServices = config['generateServices'] === 'true';
+  }
+
+  if (config['baseResolvers']) {
+    result.baseResolvers = config['baseResolvers'] === 'true';
+  }
+
+  if (config['generateEvents']) {
+    result.generateEvents = config['generateEvents'] === 'true';
+  }
+
+  if (config['eventEmitter']) {
+    result.eventEmitter = config['eventEmitter'] as EventEmitterMode;
+  }
+
+  if (config['featureModules']) {
+    result.featureModules = config['featureModules'] === 'true';
+  }
+
   if (config['groupByModel']) {
     result.groupByModel = config['groupByModel'] === 'true';
   }
@@ -116,6 +667,50 @@ export function parseGeneratorConfig(config: Record<string, string>): GeneratorC
     result.prismaClientPath = config['prismaClientPath'];
   }
 
+  if (config['prismaSource']) {
+    result.prismaSource = config['prismaSource'] as PrismaSource;
+  }
+
+  if (config['prismaService']) {
+    result.prismaService = config['prismaService'];
+  }
+
+  if (config['prismaServicePath']) {
+    result.prismaServicePath = config['prismaServicePath'];
+  }
+
+  if (config['contextPrismaKey']) {
+    result.contextPrismaKey = config['contextPrismaKey'];
+  }
+
+  if (config['contextType']) {
+    result.contextType = config['contextType'];
+  }
+
+  if (config['contextTypePath']) {
+    result.contextTypePath = config['contextTypePath'];
+  }
+
+  if (config['tenantField']) {
+    result.tenantField = config['tenantField'];
+  }
+
+  if (config['contextTenantKey']) {
+    result.contextTenantKey = config['contextTenantKey'];
+  }
+
+  if (config['createdByField']) {
+    result.createdByField = config['createdByField'];
+  }
+
+  if (config['updatedByField']) {
+    result.updatedByField = config['updatedByField'];
+  }
+
+  if (config['contextUserKey']) {
+    result.contextUserKey = config['contextUserKey'];
+  }
+
   if (config['emitCompiled']) {
     result.emitCompiled = config['emitCompiled'] === 'true';
   }
@@ -128,6 +723,22 @@ export function parseGeneratorConfig(config: Record<string, string>): GeneratorC
     result.typeSuffix = config['typeSuffix'];
   }
 
+  if (config['namingStyle']) {
+    result.namingStyle = config['namingStyle'] as NamingStyle;
+  }
+
+  if (config['usePrettier']) {
+    result.usePrettier = config['usePrettier'] === 'true';
+  }
+
+  if (config['moduleFormat']) {
+    result.moduleFormat = config['moduleFormat'] as ModuleFormat;
+  }
+
+  if (config['barrels']) {
+    result.barrels = config['barrels'] as BarrelMode;
+  }
+
   if (config['useRequireForRelations']) {
     result.useRequireForRelations = config['useRequireForRelations'] === 'true';
   }
@@ -136,6 +747,22 @@ export function parseGeneratorConfig(config: Record<string, string>): GeneratorC
     result.usePrismaEnums = config['usePrismaEnums'] === 'true';
   }
 
+  if (config['operations']) {
+    result.operations = parseList(config['operations']) as CrudOperation[];
+  }
+
+  if (config['includeModels']) {
+    result.includeModels = parseList(config['includeModels']);
+  }
+
+  if (config['excludeModels']) {
+    result.excludeModels = parseList(config['excludeModels']);
+  }
+
+  if (config['configFile']) {
+    result.configFile = config['configFile'];
+  }
+
   // Parse custom output dirs
   if (config['modelsOutput']) {
     result.outputDirs = { ...result.outputDirs, models: config['modelsOutput'] };
@@ -155,3 +782,44 @@ export function parseGeneratorConfig(config: Record<string, string>): GeneratorC
 
   return result;
 }
+
+function parseList(value: string): string[] {
+  return value
+    .split(',')
+    .map(s => s.trim())
+    .filter(s => s !== '');
+}
+
+/**
+ * Suggest the closest candidate for a likely typo
+ */
+function didYouMean(value: string, candidates: readonly string[]): string {
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = editDistance(value.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best && bestDistance <= Math.max(2, Math.floor(value.length / 3))
+    ? ` (did you mean "${best}"?)`
+    : '';
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
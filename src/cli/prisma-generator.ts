@@ -1,15 +1,39 @@
 import { DMMFDocument } from '../generator/dmmf/document';
+import type { GeneratedFile } from '../generator/dmmf/types';
 import { GeneratorConfig } from './options-parser';
+import { addFileHeaders } from '../generator/writers/file-header';
 import type { GeneratorOptions } from '@prisma/generator-helper';
+import { compileGeneratedFiles } from '../generator/compile';
+import { formatWithPrettier } from '../generator/writers/format';
 import fs from 'fs';
 import { generateCode } from '../generator/generate';
 import path from 'path';
-import { writeFiles } from '../generator/writers/file-writer';
+import { planWrites, writeFiles } from '../generator/writers/file-writer';
+import type { WritePlan, WriteResult } from '../generator/writers/file-writer';
 
 // Read version from package.json at runtime
 const packageJsonPath = path.join(__dirname, '../../package.json');
 const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
-const version: string = packageJson.version;
+export const version: string = packageJson.version;
+
+export interface GenerateOutputOptions {
+  /** Plan the writes instead of making them */
+  dryRun?: boolean;
+  log?: (message: string) => void;
+  warn?: (message: string) => void;
+  /** Run a phase of the pipeline, e.g. to time it */
+  phase?: <T>(name: string, fn: () => T | Promise<T>) => Promise<T>;
+}
+
+export interface GenerateOutputResult {
+  document: DMMFDocument;
+  /** Files as written, or as they would be on dry runs */
+  files: GeneratedFile[];
+  /** What a dry run would do */
+  plan?: WritePlan;
+  /** What a write did */
+  result?: WriteResult;
+}
 
 export async function generate(options: GeneratorOptions, config: GeneratorConfig): Promise<void> {
   console.log(`🚀 NestJS Prisma GraphQL Generator v${version}`);
@@ -24,14 +48,69 @@ export async function generate(options: GeneratorOptions, config: GeneratorConfi
     ? outputDir
     : path.join(options.schemaPath, '..', outputDir);
 
+  await generateOutput(options.dmmf, config, absoluteOutputDir);
+}
+
+/**
+ * Generate the files of a DMMF and write them to the output directory, running
+ * the config hooks, Prettier and compilation the config asks for
+ */
+export async function generateOutput(
+  dmmf: GeneratorOptions['dmmf'],
+  config: GeneratorConfig,
+  outputDir: string,
+  {
+    dryRun = false,
+    log = console.log,
+    warn = console.warn,
+    phase = async (_name, fn) => fn(),
+  }: GenerateOutputOptions = {},
+): Promise<GenerateOutputResult> {
   // Parse DMMF into our internal document structure
-  const dmmfDocument = new DMMFDocument(options.dmmf, config);
+  const document = new DMMFDocument(dmmf, config);
+  for (const warning of document.warnings) {
+    warn(`⚠️  ${warning}`);
+  }
 
   // Generate all code files
-  const generatedFiles = await generateCode(dmmfDocument, config);
+  let files = await phase('generate', async () => {
+    const generated = await generateCode(document, config);
+    return (await config.hooks?.afterGenerate?.(generated, config)) ?? generated;
+  });
+
+  if (config.usePrettier) {
+    const formatted = await phase('format', () => formatWithPrettier(files, outputDir));
+    if (formatted) {
+      files = formatted;
+    } else {
+      warn(`⚠️  usePrettier is set but Prettier was not found from ${outputDir}`);
+    }
+  }
+
+  // Ship compiled JavaScript and declarations instead of raw sources
+  if (config.emitCompiled) {
+    files = await phase('compile', () =>
+      compileGeneratedFiles(files, outputDir, config.moduleFormat),
+    );
+  }
+  files = addFileHeaders(files, version);
+
+  if (dryRun) {
+    return { document, files, plan: await phase('plan', () => planWrites(outputDir, files)) };
+  }
 
   // Write files to output directory
-  await writeFiles(absoluteOutputDir, generatedFiles);
+  const result = await phase('write', () => writeFiles(outputDir, files));
+  await config.hooks?.afterWrite?.(result, outputDir);
+
+  for (const filePath of result.edited) {
+    warn(`⚠️  Overwrote hand edits in ${filePath}`);
+  }
 
-  console.log(`✅ NestJS GraphQL types generated to ${absoluteOutputDir}`);
+  log(
+    `✅ NestJS GraphQL types generated to ${outputDir} ` +
+      `(${result.added.length} added, ${result.changed.length} changed, ` +
+      `${result.removed.length} removed, ${result.unchanged.length} unchanged)`,
+  );
+  return { document, files, result };
 }
@@ -0,0 +1,288 @@
+import type { CrudOperation, Model, ModelField } from './dmmf/types';
+import type { GeneratorConfig } from '../cli/options-parser';
+import { getNestedWriteModelNames, getNestedWriteRelations } from './relations';
+import type { ModelSoftDelete } from './soft-delete';
+
+/**
+ * Default property path of the user on the GraphQL context
+ */
+const DEFAULT_CONTEXT_USER_KEY = 'user.id';
+
+/**
+ * How the mutations of a model set audit fields to the user of the request
+ */
+export interface ModelAudit {
+  /** Name of the model, the key of its entry in `AUDIT_MODELS` */
+  model: string;
+  /** Field set to the user creating a record */
+  createdBy?: string;
+  /** Field set to the user creating or updating a record */
+  updatedBy?: string;
+  /** Its nested writes lead to models with audit fields */
+  relations: boolean;
+  /** Property path of the user on the GraphQL context */
+  contextPath: string;
+}
+
+/**
+ * An audit field in `AUDIT_MODELS`, with the relation it is the foreign key of,
+ * which nested writes connect instead of setting the field
+ */
+export interface AuditField {
+  field: string;
+  relation?: { name: string; references: string };
+}
+
+/**
+ * The audit fields of a model in `AUDIT_MODELS`, with its relations leading to
+ * models with audit fields
+ */
+export interface AuditModel {
+  createdBy?: AuditField;
+  updatedBy?: AuditField;
+  /** Related model of each relation */
+  relations?: Record<string, { model: string }>;
+}
+
+/**
+ * Get the audit of a model's mutations: its own audit fields, and whether its
+ * nested writes reach a model that has some. Undefined when neither applies.
+ */
+export function getModelAudit(
+  model: Model,
+  models: Model[],
+  config: GeneratorConfig,
+): ModelAudit | undefined {
+  const createdBy = findAuditField(model, 'createdBy')?.name;
+  const updatedBy = findAuditField(model, 'updatedBy')?.name;
+  const audited = getAuditedModelNames(models);
+  const relations = getNestedWriteRelations(model, audited).length > 0;
+  if (!createdBy && !updatedBy && !relations) return undefined;
+
+  return {
+    model: model.name,
+    ...(createdBy && { createdBy }),
+    ...(updatedBy && { updatedBy }),
+    relations,
+    contextPath: config.contextUserKey ?? DEFAULT_CONTEXT_USER_KEY,
+  };
+}
+
+/**
+ * Statements ahead of the Prisma call of a mutation: `user` reading the user
+ * from the context, then setting the audit fields of the records the mutation
+ * writes, nested ones included. The user is only read, and required, when a
+ * written record has audit fields. The deletes and restore of a soft deleted
+ * model only read it, for the data of getSoftDeleteCall.
+ */
+export function getAuditStatements(
+  operation: CrudOperation | 'restore',
+  audit: ModelAudit | undefined,
+  softDelete?: ModelSoftDelete,
+): string[] {
+  if (!audit) return [];
+
+  const user = `const user = () => getAuditUser(ctx, '${audit.contextPath}');`;
+  if (softDelete?.records && ['delete', 'deleteMany', 'restore'].includes(operation)) {
+    return audit.updatedBy ? [user] : [];
+  }
+
+  const call = (data: string, write: 'create' | 'update', scalars = false) =>
+    `withAuditFields(${data}, '${audit.model}', '${write}', user, AUDIT_MODELS${scalars ? ', true' : ''})`;
+  const statement = (() => {
+    switch (operation) {
+      case 'create':
+        return `args = { ...args, data: ${call('args.data', 'create')} };`;
+      case 'update':
+        return audit.updatedBy || audit.relations
+          ? `args = { ...args, data: ${call('args.data', 'update')} };`
+          : undefined;
+      case 'upsert':
+        return `args = { ...args, create: ${call('args.create', 'create')}, update: ${call('args.update', 'update')} };`;
+      // Bulk writes take no relations, so they set the foreign keys
+      case 'createMany':
+        return audit.createdBy || audit.updatedBy
+          ? `args = { ...args, data: ${call('args.data', 'create', true)} };`
+          : undefined;
+      case 'updateMany':
+        return audit.updatedBy
+          ? `args = { ...args, data: ${call('args.data', 'update', true)} };`
+          : undefined;
+      default:
+        return undefined;
+    }
+  })();
+  return statement ? [user, statement] : [];
+}
+
+/**
+ * The `data` of an update the resolver builds itself, e.g. `{ deletedAt: null }`,
+ * setting the updatedBy field of the model to `user` when it has one
+ */
+export function withAuditedUpdate(data: string, audit: ModelAudit | undefined): string {
+  return audit?.updatedBy
+    ? `withAuditFields(${data}, '${audit.model}', 'update', user, AUDIT_MODELS, true)`
+    : data;
+}
+
+/**
+ * Runtime helpers the audit statements of the given operations call, to import
+ */
+export function getAuditHelpers(
+  operations: Iterable<CrudOperation>,
+  audit: ModelAudit | undefined,
+  softDelete?: ModelSoftDelete,
+): string[] {
+  return [...operations].some(op => getAuditStatements(op, audit, softDelete).length > 0)
+    ? ['getAuditUser', 'withAuditFields', 'AUDIT_MODELS']
+    : [];
+}
+
+/**
+ * The audit fields and relations of each model whose writes set some, for
+ * `AUDIT_MODELS`
+ */
+export function getAuditModels(models: Model[]): Record<string, AuditModel> {
+  const audited = getAuditedModelNames(models);
+
+  return Object.fromEntries(
+    models
+      .filter(model => audited.has(model.name))
+      .map(model => {
+        const relations = getNestedWriteRelations(model, audited).map(field => [
+          field.name,
+          { model: field.type },
+        ]);
+        const createdBy = findAuditField(model, 'createdBy');
+        const updatedBy = findAuditField(model, 'updatedBy');
+        const entry: AuditModel = {
+          ...(createdBy && { createdBy: toAuditField(createdBy, model) }),
+          ...(updatedBy && { updatedBy: toAuditField(updatedBy, model) }),
+          ...(relations.length > 0 && { relations: Object.fromEntries(relations) }),
+        };
+        return [model.name, entry];
+      }),
+  );
+}
+
+/**
+ * Problems with `createdByField` / `updatedByField` worth a warning: they match no model
+ */
+export function getAuditWarnings(models: Model[], config: GeneratorConfig): string[] {
+  return (['createdByField', 'updatedByField'] as const).flatMap(option => {
+    const name = config[option];
+    if (!name) return [];
+    const matches = models.some(model =>
+      model.fields.some(field => field.name === name && field.kind !== 'object'),
+    );
+    return matches ? [] : [`${option} "${name}" is not a scalar field of any model`];
+  });
+}
+
+function findAuditField(model: Model, kind: 'createdBy' | 'updatedBy'): ModelField | undefined {
+  return model.fields.find(field => field.kind !== 'object' && field.annotations.audit === kind);
+}
+
+function toAuditField(field: ModelField, model: Model): AuditField {
+  const relation = model.fields.find(
+    f => f.relationFromFields?.length === 1 && f.relationFromFields[0] === field.name,
+  );
+  return {
+    field: field.name,
+    ...(relation?.relationToFields?.[0] && {
+      relation: { name: relation.name, references: relation.relationToFields[0] },
+    }),
+  };
+}
+
+/**
+ * Models with audit fields, and those whose nested writes lead to one
+ */
+function getAuditedModelNames(models: Model[]): Set<string> {
+  return getNestedWriteModelNames(
+    models,
+    model => !!(findAuditField(model, 'createdBy') || findAuditField(model, 'updatedBy')),
+  );
+}
+
+/**
+ * Runtime helpers of the audit fields, appended to helpers.ts with the audit
+ * fields and relations of each model
+ */
+export function getAuditHelpersSource(auditModels: Record<string, AuditModel>): string {
+  return `
+/**
+ * An audit field, with the relation it is the foreign key of
+ */
+export interface AuditField {
+  field: string;
+  relation?: { name: string; references: string };
+}
+
+/**
+ * The audit fields of a model, with its relations leading to models with audit fields
+ */
+export interface AuditModel {
+  createdBy?: AuditField;
+  updatedBy?: AuditField;
+  relations?: Record<string, { model: string }>;
+}
+
+/**
+ * Audit fields and relations of each model whose writes set some, for withAuditFields
+ */
+export const AUDIT_MODELS: Record<string, AuditModel> = ${JSON.stringify(auditModels, null, 2)};
+
+/**
+ * The user of a request, read from the GraphQL context at \`path\`. Throws when
+ * the context has no user, so no audited record is written without one.
+ */
+export function getAuditUser(ctx: unknown, path: string): unknown {
+  const user = readContextPath(ctx, path);
+  if (user === null || user === undefined) {
+    throw new Error(\`No user found in the GraphQL context at "\${path}"\`);
+  }
+  return user;
+}
+
+/**
+ * Set the audit fields of the records a Prisma \`data\` writes, nested ones
+ * included, to the one \`user\` reads: \`createdBy\` on create, \`updatedBy\` on
+ * create and update. With \`scalars\`, for bulk writes, the foreign keys are
+ * set instead of connecting their relation.
+ */
+export function withAuditFields<T>(
+  data: T,
+  model: string,
+  write: 'create' | 'update',
+  user: () => unknown,
+  models: Record<string, AuditModel>,
+  scalars = false,
+): T {
+  const audit = models[model];
+  if (!audit || data === null || typeof data !== 'object') return data;
+  if (Array.isArray(data)) {
+    return data.map(item => withAuditFields(item, model, write, user, models, scalars)) as T;
+  }
+
+  const result = { ...(data as Record<string, unknown>) };
+  for (const [name, related] of Object.entries(audit.relations ?? {})) {
+    const writes = result[name];
+    if (writes !== null && typeof writes === 'object') {
+      result[name] = mapNestedWrites(writes as Record<string, unknown>, (nested, nestedWrite, bulk) =>
+        withAuditFields(nested, related.model, nestedWrite, user, models, bulk),
+      );
+    }
+  }
+  for (const field of write === 'create' ? [audit.createdBy, audit.updatedBy] : [audit.updatedBy]) {
+    if (!field) continue;
+    if (field.relation && !scalars) {
+      result[field.relation.name] = { connect: { [field.relation.references]: user() } };
+    } else {
+      result[field.field] = user();
+    }
+  }
+  return result as T;
+}
+`;
+}
@@ -0,0 +1,70 @@
+import type { GeneratedFile } from './dmmf/types';
+import type { GeneratorConfig } from '../cli/options-parser';
+
+/**
+ * A resolver class: `@Resolver(...)` followed by its declaration, possibly
+ * with configured decorators in between
+ */
+const RESOLVER_PATTERN = /^@Resolver\(.*\)\n(?:@.*\n)*export class (\w+)/gm;
+
+/**
+ * Apply the `barrels` option to the generated files. Unless every barrel is
+ * kept, directory `index.ts` files are dropped, `resolvers.ts` lists the
+ * resolver classes and, for `root`, the root `index.ts` re-exports every file.
+ */
+export function applyBarrels(files: GeneratedFile[], config: GeneratorConfig): GeneratedFile[] {
+  if (!config.barrels || config.barrels === 'all') return files;
+
+  const modules = files.filter(file => !isBarrel(file.path));
+  const resolverList = generateResolverList(modules);
+  if (resolverList) modules.push(resolverList);
+
+  return config.barrels === 'root' ? [...modules, generateRootBarrel(modules)] : modules;
+}
+
+/**
+ * Generate `resolvers.ts`, importing every resolver class and exporting them
+ * as one list to pass to a module's `providers`
+ */
+export function generateResolverList(files: GeneratedFile[]): GeneratedFile | undefined {
+  const lines: string[] = [];
+  const names: string[] = [];
+
+  const sorted = [...files].sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+  for (const file of sorted) {
+    const classNames = [...file.content.matchAll(RESOLVER_PATTERN)].map(match => match[1]!);
+    if (classNames.length > 0) {
+      lines.push(`import { ${classNames.join(', ')} } from './${toModulePath(file.path)}';`);
+      names.push(...classNames);
+    }
+  }
+  if (names.length === 0) return undefined;
+
+  lines.push('');
+  lines.push('/**');
+  lines.push(' * Every generated resolver class, for the `providers` of a Nest module');
+  lines.push(' */');
+  lines.push('export const resolvers = [');
+  lines.push(...names.map(name => `  ${name},`));
+  lines.push('];');
+
+  return { path: 'resolvers.ts', content: lines.join('\n') + '\n' };
+}
+
+/**
+ * Generate a root `index.ts` re-exporting every module directly
+ */
+function generateRootBarrel(files: GeneratedFile[]): GeneratedFile {
+  const lines = files
+    .filter(file => file.path.endsWith('.ts') && !file.path.endsWith('.d.ts'))
+    .map(file => `export * from './${toModulePath(file.path)}';`);
+  return { path: 'index.ts', content: lines.join('\n') + '\n' };
+}
+
+function isBarrel(filePath: string): boolean {
+  return filePath === 'index.ts' || filePath.endsWith('/index.ts');
+}
+
+function toModulePath(filePath: string): string {
+  return filePath.replace(/\.ts$/, '');
+}
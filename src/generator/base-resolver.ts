@@ -0,0 +1,108 @@
+import type { CrudOperation } from './dmmf/types';
+import type { TypedOperation } from './operations';
+import type { RestoreOperation } from './soft-delete';
+
+/**
+ * A protected, overridable hook method of a base resolver
+ */
+export interface HookMethod {
+  name: string;
+  doc: string;
+  typeParameters: string[];
+  parameters: { name: string; type: string }[];
+  returnType: string;
+  statements: string[];
+}
+
+/**
+ * Hook methods of a base resolver: `transformArgs` and `onError`, shared by
+ * every operation, then a `before*` and `after*` hook per operation, the
+ * restore mutation included
+ */
+export function getHookMethods(
+  operations: (TypedOperation | RestoreOperation)[],
+  contextType: string,
+): HookMethod[] {
+  const hooks: HookMethod[] = [
+    {
+      name: 'transformArgs',
+      doc: 'Called first with the args of every operation; returns the args to use',
+      typeParameters: ['T'],
+      parameters: [
+        { name: 'operation', type: 'string' },
+        { name: 'args', type: 'T' },
+        { name: 'ctx', type: contextType },
+      ],
+      returnType: 'Promise<T>',
+      statements: ['return args;'],
+    },
+    {
+      name: 'onError',
+      doc: 'Called when an operation fails; rethrows unless it returns a result instead',
+      typeParameters: [],
+      parameters: [
+        { name: 'operation', type: 'string' },
+        { name: 'error', type: 'unknown' },
+        { name: 'ctx', type: contextType },
+      ],
+      returnType: 'Promise<unknown>',
+      statements: ['throw error;'],
+    },
+  ];
+
+  for (const { operation, argsType, resultType } of operations) {
+    hooks.push(
+      {
+        name: `before${capitalize(operation)}`,
+        doc: `Called before ${operation} runs`,
+        typeParameters: [],
+        parameters: [
+          { name: 'args', type: argsType },
+          { name: 'ctx', type: contextType },
+        ],
+        returnType: 'Promise<void>',
+        statements: [],
+      },
+      {
+        name: `after${capitalize(operation)}`,
+        doc: `Called with the result of ${operation}; returns what the operation resolves to`,
+        typeParameters: [],
+        parameters: [
+          { name: 'result', type: resultType },
+          { name: 'ctx', type: contextType },
+        ],
+        returnType: `Promise<${resultType}>`,
+        statements: ['return result;'],
+      },
+    );
+  }
+
+  return hooks;
+}
+
+/**
+ * Wrap the body of an operation in its hooks. `statements` are the body
+ * lines, returning the Prisma result from a line starting with `return `.
+ */
+export function wrapWithHooks(
+  operation: CrudOperation | 'restore',
+  statements: string[],
+): string[] {
+  const hook = capitalize(operation);
+  return [
+    'try {',
+    `  args = await this.transformArgs('${operation}', args, ctx);`,
+    `  await this.before${hook}(args, ctx);`,
+    ...statements.map(line =>
+      line.startsWith('return ') ? `  const result = await ${line.slice(7)}` : `  ${line}`,
+    ),
+    `  return await this.after${hook}(result, ctx);`,
+    '} catch (error) {',
+    `  return this.onError('${operation}', error, ctx);`,
+    '}',
+  ];
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
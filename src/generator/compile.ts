@@ -0,0 +1,61 @@
+import { ModuleKind, ModuleResolutionKind, Project, ScriptTarget } from 'ts-morph';
+
+import type { GeneratedFile } from './dmmf/types';
+import type { ModuleFormat } from '../cli/options-parser';
+import path from 'path';
+
+/**
+ * Compile generated TypeScript sources into `.js` + `.d.ts` pairs
+ *
+ * Sources are added to a ts-morph Project as unsaved files rooted at the output
+ * directory, so imports like `@nestjs/graphql` resolve against the consumer's
+ * node_modules and decorator metadata references the real classes.
+ * Non-TypeScript files are passed through unchanged.
+ */
+export function compileGeneratedFiles(
+  files: GeneratedFile[],
+  outputDir: string,
+  moduleFormat: ModuleFormat = 'commonjs',
+): GeneratedFile[] {
+  const rootDir = path.resolve(outputDir);
+  const project = new Project({
+    compilerOptions: {
+      target: ScriptTarget.ES2021,
+      module: moduleFormat === 'esm' ? ModuleKind.ES2022 : ModuleKind.CommonJS,
+      moduleResolution: ModuleResolutionKind.Node10,
+      rootDir,
+      outDir: rootDir,
+      declaration: true,
+      experimentalDecorators: true,
+      emitDecoratorMetadata: true,
+      // Keep property declarations out of the emitted classes so decorated fields
+      // behave exactly like the `tsc` build of the same sources
+      useDefineForClassFields: false,
+      esModuleInterop: true,
+      skipLibCheck: true,
+    },
+    skipAddingFilesFromTsConfig: true,
+  });
+
+  const result: GeneratedFile[] = [];
+
+  for (const file of files) {
+    if (file.path.endsWith('.ts') && !file.path.endsWith('.d.ts')) {
+      project.createSourceFile(path.join(rootDir, file.path), file.content, { overwrite: true });
+    } else {
+      result.push(file);
+    }
+  }
+
+  // Emit regardless of type errors, matching what transpile-only toolchains do
+  const output = project.emitToMemory();
+
+  for (const emitted of output.getFiles()) {
+    result.push({
+      path: path.relative(rootDir, emitted.filePath).split(path.sep).join('/'),
+      content: emitted.text,
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,59 @@
+import type { CrudOperation, DecoratorTarget, Model, ResolverDecorator } from './dmmf/types';
+import type { GeneratorConfig } from '../cli/options-parser';
+import { importFromOutput } from './imports';
+import type { NamedImports } from './imports';
+
+const QUERY_OPERATIONS: readonly CrudOperation[] = [
+  'findMany',
+  'findFirst',
+  'findUnique',
+  'aggregate',
+  'groupBy',
+  'count',
+];
+
+/**
+ * Configured decorator expressions for a model's resolver class or one of its
+ * operations: the global `decorators` first, then the model's own
+ */
+export function getResolverDecorators(
+  model: Model,
+  config: GeneratorConfig,
+  target: 'class' | CrudOperation,
+): string[] {
+  return getDecorators(model, config)
+    .filter(decorator => appliesTo(decorator, target))
+    .map(decorator => decorator.expression);
+}
+
+/**
+ * Imports of the configured decorators attached to any of `targets`, with
+ * paths relative to `filePath` (a path inside the output directory)
+ */
+export function getDecoratorImports(
+  model: Model,
+  config: GeneratorConfig,
+  targets: Iterable<'class' | CrudOperation>,
+  filePath: string,
+): NamedImports[] {
+  const list = [...targets];
+  return getDecorators(model, config)
+    .filter(decorator => list.some(target => appliesTo(decorator, target)))
+    .flatMap(decorator => decorator.imports ?? [])
+    .map(({ name, from }) => ({
+      moduleSpecifier: importFromOutput(filePath, from),
+      namedImports: [name],
+    }));
+}
+
+function getDecorators(model: Model, config: GeneratorConfig): ResolverDecorator[] {
+  return [...(config.decorators ?? []), ...(model.annotations.decorators ?? [])];
+}
+
+function appliesTo(decorator: ResolverDecorator, target: 'class' | CrudOperation): boolean {
+  const on: DecoratorTarget[] = [decorator.on ?? 'class'].flat();
+  if (target === 'class') return on.includes('class');
+  return (
+    on.includes(target) || on.includes(QUERY_OPERATIONS.includes(target) ? 'queries' : 'mutations')
+  );
+}
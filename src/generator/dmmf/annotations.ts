@@ -0,0 +1,786 @@
+import type {
+  AuditKind,
+  CrudOperation,
+  EnumAnnotations,
+  FieldAnnotations,
+  InputOmitTarget,
+  Model,
+  ModelAnnotations,
+  ModelField,
+  SoftDelete,
+} from './types';
+
+import { CRUD_OPERATIONS } from './types';
+import type { DMMFDocument } from './document';
+import type { GeneratorConfig, ModelConfig } from '../../cli/options-parser';
+
+/**
+ * Schema element an annotation is attached to
+ */
+export type AnnotationTarget = 'model' | 'field' | 'enum';
+
+/**
+ * A problem found while parsing schema annotations
+ */
+export interface AnnotationDiagnostic {
+  /** Human readable location, e.g. `model User, field email` */
+  location: string;
+  message: string;
+}
+
+/**
+ * Thrown when the schema contains unknown or malformed `/// @gql.*` annotations
+ */
+export class AnnotationError extends Error {
+  constructor(readonly diagnostics: AnnotationDiagnostic[]) {
+    super(
+      `Invalid schema annotations:\n${diagnostics
+        .map(d => `  - ${d.location}: ${d.message}`)
+        .join('\n')}`,
+    );
+    this.name = 'AnnotationError';
+  }
+}
+
+/**
+ * A single `@gql.<name>(<args>)` occurrence
+ */
+interface RawAnnotation {
+  name: string;
+  args: AnnotationArgument[];
+  source: string;
+}
+
+/**
+ * A parsed annotation argument: `value` or `key: value`
+ */
+interface AnnotationArgument {
+  key?: string;
+  value: AnnotationValue;
+}
+
+type AnnotationValue = string | boolean | string[];
+
+/**
+ * Result of parsing a documentation string
+ */
+export interface ParsedDocumentation<T> {
+  annotations: T;
+  /** Documentation with all annotations removed, or undefined if nothing is left */
+  description?: string;
+  diagnostics: string[];
+}
+
+const GQL_ANNOTATION = '@gql.';
+
+/**
+ * Annotations understood by other tools or by earlier versions of this generator.
+ * They are stripped from descriptions but not validated.
+ */
+const FOREIGN_ANNOTATION_PATTERN = /@(?:Validator\.\w+|HideField|TypeGraphQL\.\w+)\b/;
+
+/**
+ * Placeholder for removed annotations while descriptions are cleaned up
+ */
+const REMOVED = '\u0000';
+
+const LEGACY_HIDE_PATTERN = /@HideField\(\s*\)|@TypeGraphQL\.omit\(output:\s*true\)/;
+
+/**
+ * `@HideField({ input: true, output: true })` as used by other Prisma GraphQL generators
+ */
+const LEGACY_HIDE_OPTIONS_PATTERN = /@HideField\(\s*\{([^}]*)\}\s*\)/;
+
+const INPUT_OMIT_TARGETS: InputOmitTarget[] = ['create', 'update', 'where', 'orderBy'];
+
+const GRAPHQL_NAME_PATTERN = /^[_A-Za-z][_0-9A-Za-z]*$/;
+
+/**
+ * Which schema elements each `@gql.*` annotation may be attached to
+ */
+const ANNOTATION_TARGETS: Record<string, AnnotationTarget[]> = {
+  omit: ['field', 'model'],
+  readonly: ['field'],
+  name: ['model', 'enum'],
+  plural: ['model'],
+  operations: ['model'],
+  ignore: ['model'],
+  subscriptions: ['model'],
+  softDelete: ['model'],
+  createdBy: ['field'],
+  updatedBy: ['field'],
+};
+
+const DEFAULT_SOFT_DELETE_FIELD = 'deletedAt';
+
+/**
+ * Parse annotations from a model field's documentation
+ */
+export function parseFieldAnnotations(
+  documentation?: string,
+): ParsedDocumentation<FieldAnnotations> {
+  const annotations: FieldAnnotations = { omitOutput: false, omitInput: [], readonly: false };
+  const { raw, description, diagnostics } = scanDocumentation(documentation, 'field');
+
+  if (documentation && LEGACY_HIDE_PATTERN.test(documentation)) {
+    annotations.omitOutput = true;
+  }
+
+  const legacyOptions = documentation && LEGACY_HIDE_OPTIONS_PATTERN.exec(documentation);
+  if (legacyOptions) {
+    const options = legacyOptions[1]!;
+    if (/\boutput\s*:\s*true\b/.test(options)) annotations.omitOutput = true;
+    if (/\binput\s*:\s*true\b/.test(options)) annotations.omitInput = ['create', 'update'];
+  }
+
+  for (const annotation of raw) {
+    if (annotation.name === 'omit') {
+      applyOmit(annotation, annotations, diagnostics);
+    } else if (annotation.name === 'readonly') {
+      if (annotation.args.length > 0) {
+        diagnostics.push(`${annotation.source} does not take arguments`);
+      }
+      annotations.readonly = true;
+    } else if (annotation.name === 'createdBy' || annotation.name === 'updatedBy') {
+      if (annotation.args.length > 0) {
+        diagnostics.push(`${annotation.source} does not take arguments`);
+      }
+      annotations.audit = annotation.name;
+    }
+  }
+
+  return { annotations, description, diagnostics };
+}
+
+/**
+ * Parse annotations from a model's documentation
+ */
+export function parseModelAnnotations(
+  documentation?: string,
+): ParsedDocumentation<ModelAnnotations> {
+  const annotations: ModelAnnotations = {};
+  const { raw, description, diagnostics } = scanDocumentation(documentation, 'model');
+
+  if (documentation && LEGACY_HIDE_PATTERN.test(documentation)) {
+    annotations.hidden = true;
+  }
+
+  for (const annotation of raw) {
+    if (annotation.name === 'name') {
+      annotations.name = parseNameArgument(annotation, annotations.name, diagnostics);
+    } else if (annotation.name === 'plural') {
+      annotations.plural = parseNameArgument(annotation, annotations.plural, diagnostics);
+    } else if (annotation.name === 'omit' || annotation.name === 'ignore') {
+      if (annotation.args.length > 0) {
+        diagnostics.push(`${annotation.source} takes no arguments on models`);
+      }
+      annotations.hidden = true;
+    } else if (annotation.name === 'operations') {
+      annotations.operations = parseOperationsArgument(annotation, diagnostics);
+    } else if (annotation.name === 'subscriptions') {
+      if (annotation.args.length > 0) {
+        diagnostics.push(`${annotation.source} does not take arguments`);
+      }
+      annotations.subscriptions = true;
+    } else if (annotation.name === 'softDelete') {
+      annotations.softDelete = parseSoftDeleteArguments(annotation, diagnostics);
+    }
+  }
+
+  return { annotations, description, diagnostics };
+}
+
+/**
+ * Parse annotations from an enum's documentation
+ */
+export function parseEnumAnnotations(documentation?: string): ParsedDocumentation<EnumAnnotations> {
+  const annotations: EnumAnnotations = {};
+  const { raw, description, diagnostics } = scanDocumentation(documentation, 'enum');
+
+  for (const annotation of raw) {
+    if (annotation.name === 'name') {
+      annotations.name = parseNameArgument(annotation, annotations.name, diagnostics);
+    }
+  }
+
+  return { annotations, description, diagnostics };
+}
+
+/**
+ * Collect annotation problems across all models, fields and enums of the schema
+ */
+export function collectAnnotationDiagnostics(dmmf: DMMFDocument): AnnotationDiagnostic[] {
+  const diagnostics: AnnotationDiagnostic[] = [];
+  const report = (location: string, messages: string[]) => {
+    for (const message of messages) diagnostics.push({ location, message });
+  };
+
+  for (const model of dmmf.allModels) {
+    report(`model ${model.name}`, parseModelAnnotations(model.documentation).diagnostics);
+    report(`model ${model.name}`, getSoftDeleteDiagnostics(model));
+    for (const field of model.fields) {
+      report(
+        `model ${model.name}, field ${field.name}`,
+        parseFieldAnnotations(field.documentation).diagnostics,
+      );
+      report(`model ${model.name}, field ${field.name}`, getAuditDiagnostics(field));
+    }
+  }
+
+  for (const enumDef of dmmf.enums) {
+    report(`enum ${enumDef.name}`, parseEnumAnnotations(enumDef.documentation).diagnostics);
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Throw an AnnotationError if the schema contains invalid annotations
+ */
+export function assertValidAnnotations(dmmf: DMMFDocument): void {
+  const diagnostics = collectAnnotationDiagnostics(dmmf);
+  if (diagnostics.length > 0) {
+    throw new AnnotationError(diagnostics);
+  }
+}
+
+/**
+ * Fill in a model's annotations from its config file settings.
+ * Annotations written in the schema take precedence.
+ */
+export function applyModelConfig(model: Model, modelConfig: ModelConfig | undefined): Model {
+  if (!modelConfig) return model;
+
+  return {
+    ...model,
+    annotations: {
+      ...model.annotations,
+      name: model.annotations.name ?? modelConfig.name,
+      plural: model.annotations.plural ?? modelConfig.plural,
+      hidden: model.annotations.hidden || modelConfig.hidden || undefined,
+      operations: model.annotations.operations ?? modelConfig.operations,
+      subscriptions: model.annotations.subscriptions || modelConfig.subscriptions || undefined,
+      softDelete: model.annotations.softDelete ?? toSoftDelete(modelConfig.softDelete),
+      decorators: modelConfig.decorators,
+    },
+    fields: model.fields.map(field => {
+      const hidden = modelConfig.hiddenFields?.includes(field.name) ?? false;
+      const scalar = field.kind === 'scalar' ? modelConfig.scalars?.[field.name] : undefined;
+      if (!hidden && !scalar) return field;
+
+      return {
+        ...field,
+        annotations: {
+          ...field.annotations,
+          omitOutput: field.annotations.omitOutput || hidden,
+          ...(scalar && { scalar }),
+        },
+      };
+    }),
+  };
+}
+
+/**
+ * Make the soft delete field of a model read-only: records are deleted and
+ * restored through the mutations
+ */
+export function applySoftDeleteField(model: Model): Model {
+  const field = model.annotations.softDelete?.field;
+  if (!field) return model;
+
+  return {
+    ...model,
+    fields: model.fields.map(f =>
+      f.name === field ? { ...f, annotations: { ...f.annotations, readonly: true } } : f,
+    ),
+  };
+}
+
+/**
+ * Make a model's `tenantField` read-only, with the relation it is the foreign
+ * key of: the resolvers set the tenant of the records they create, and records
+ * can't move to another tenant.
+ */
+export function applyTenantField(model: Model, tenantField: string | undefined): Model {
+  if (!tenantField) return model;
+
+  return {
+    ...model,
+    fields: model.fields.map(field =>
+      (field.name === tenantField && field.kind !== 'object') ||
+      field.relationFromFields?.includes(tenantField)
+        ? { ...field, annotations: { ...field.annotations, readonly: true } }
+        : field,
+    ),
+  };
+}
+
+/**
+ * Mark the audit fields of a model, annotated or named by `createdByField` /
+ * `updatedByField`, and make them read-only with the relation they are the
+ * foreign key of: the mutations set them to the user of the request.
+ */
+export function applyAuditFields(model: Model, config: GeneratorConfig): Model {
+  const auditOf = (field: ModelField): AuditKind | undefined => {
+    if (field.kind === 'object') return undefined;
+    if (field.annotations.audit) return field.annotations.audit;
+    if (field.name === config.createdByField) return 'createdBy';
+    if (field.name === config.updatedByField) return 'updatedBy';
+    return undefined;
+  };
+  const auditFields = model.fields.filter(field => auditOf(field)).map(field => field.name);
+  if (auditFields.length === 0) return model;
+
+  return {
+    ...model,
+    fields: model.fields.map(field => {
+      const audit = auditOf(field);
+      if (audit) return { ...field, annotations: { ...field.annotations, audit, readonly: true } };
+      return field.relationFromFields?.some(name => auditFields.includes(name))
+        ? { ...field, annotations: { ...field.annotations, readonly: true } }
+        : field;
+    }),
+  };
+}
+
+/**
+ * Make the relations back from an audit relation read-only too, e.g.
+ * `User.createdPosts`: the records nested writes create or connect through
+ * them would get the parent record as their audit user, not the one of the
+ * request. Runs on the models applyAuditFields has marked.
+ */
+export function applyAuditInverseRelations(models: Model[]): Model[] {
+  const isAuditRelation = (model: Model, field: ModelField) =>
+    field.kind === 'object' &&
+    !!field.relationFromFields?.some(name =>
+      model.fields.some(f => f.name === name && f.annotations.audit),
+    );
+  const inverses = new Set(
+    models.flatMap(model =>
+      model.fields
+        .filter(field => isAuditRelation(model, field))
+        .map(field => `${field.type}.${field.relationName}`),
+    ),
+  );
+  if (inverses.size === 0) return models;
+
+  return models.map(model => ({
+    ...model,
+    fields: model.fields.map(field =>
+      field.kind === 'object' &&
+      inverses.has(`${model.name}.${field.relationName}`) &&
+      !isAuditRelation(model, field)
+        ? { ...field, annotations: { ...field.annotations, readonly: true } }
+        : field,
+    ),
+  }));
+}
+
+/**
+ * Report config file model settings that don't apply to anything in the schema
+ */
+export function getModelConfigWarnings(
+  models: Model[],
+  modelConfigs: Record<string, ModelConfig> = {},
+): string[] {
+  const warnings: string[] = [];
+
+  for (const [modelName, modelConfig] of Object.entries(modelConfigs)) {
+    const model = models.find(m => m.name === modelName);
+    if (!model) {
+      warnings.push(`Config file settings for model ${modelName} do not match any model`);
+      continue;
+    }
+
+    for (const fieldName of modelConfig.hiddenFields ?? []) {
+      if (!model.fields.some(f => f.name === fieldName)) {
+        warnings.push(`Config file hides ${modelName}.${fieldName}, which does not exist`);
+      }
+    }
+    for (const fieldName of Object.keys(modelConfig.scalars ?? {})) {
+      const field = model.fields.find(f => f.name === fieldName);
+      if (field?.kind !== 'scalar') {
+        warnings.push(
+          `Config file sets a scalar for ${modelName}.${fieldName}, which is not a scalar field`,
+        );
+      }
+    }
+  }
+
+  return warnings;
+}
+
+/**
+ * Find the index of the parenthesis closing the one at `openIndex`,
+ * skipping over quoted strings. Returns -1 if it is never closed.
+ */
+export function findClosingParen(text: string, openIndex: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let i = openIndex; i < text.length; i++) {
+    const char = text[i]!;
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+      continue;
+    }
+    if (char === "'" || char === '"' || char === '`') quote = char;
+    else if (char === '(') depth++;
+    else if (char === ')' && --depth === 0) return i;
+  }
+
+  return -1;
+}
+
+/**
+ * Extract `@gql.*` annotations from documentation and strip every known
+ * annotation from the remaining description
+ */
+function scanDocumentation(
+  documentation: string | undefined,
+  target: AnnotationTarget,
+): { raw: RawAnnotation[]; description?: string; diagnostics: string[] } {
+  const raw: RawAnnotation[] = [];
+  const diagnostics: string[] = [];
+  if (!documentation) return { raw, diagnostics };
+
+  const spans: [number, number][] = [];
+
+  let index = documentation.indexOf(GQL_ANNOTATION);
+  while (index !== -1) {
+    const nameStart = index + GQL_ANNOTATION.length;
+    const nameMatch = /^[A-Za-z]\w*/.exec(documentation.slice(nameStart));
+    if (!nameMatch) {
+      diagnostics.push(`Malformed annotation "${lineAt(documentation, index)}"`);
+      spans.push([index, nameStart]);
+      index = documentation.indexOf(GQL_ANNOTATION, nameStart);
+      continue;
+    }
+
+    const name = nameMatch[0];
+    let end = nameStart + name.length;
+    let argsSource: string | null = null;
+
+    if (documentation[end] === '(') {
+      const close = findClosingParen(documentation, end);
+      if (close === -1) {
+        diagnostics.push(`Unclosed parenthesis in @gql.${name}(`);
+        spans.push([index, documentation.length]);
+        break;
+      }
+      argsSource = documentation.slice(end + 1, close);
+      end = close + 1;
+    }
+
+    spans.push([index, end]);
+    const source = documentation.slice(index, end);
+    const allowedTargets = ANNOTATION_TARGETS[name];
+
+    if (!allowedTargets) {
+      diagnostics.push(
+        `Unknown annotation @gql.${name}; expected one of ${Object.keys(ANNOTATION_TARGETS)
+          .map(n => `@gql.${n}`)
+          .join(', ')}`,
+      );
+    } else if (!allowedTargets.includes(target)) {
+      diagnostics.push(`@gql.${name} is not supported on ${target}s`);
+    } else {
+      const args = argsSource === null ? [] : parseArguments(argsSource, source, diagnostics);
+      if (args) raw.push({ name, args, source });
+    }
+
+    index = documentation.indexOf(GQL_ANNOTATION, end);
+  }
+
+  return { raw, description: stripAnnotations(documentation, spans), diagnostics };
+}
+
+/**
+ * Parse a comma separated argument list such as `input: [create, update], output`
+ */
+function parseArguments(
+  source: string,
+  annotation: string,
+  diagnostics: string[],
+): AnnotationArgument[] | null {
+  const args: AnnotationArgument[] = [];
+
+  for (const part of splitTopLevel(source)) {
+    if (part === '') {
+      if (source.trim() === '') break;
+      diagnostics.push(`Empty argument in ${annotation}`);
+      return null;
+    }
+
+    const keyMatch = /^([A-Za-z]\w*)\s*:\s*([\s\S]*)$/.exec(part);
+    const value = parseValue(keyMatch ? keyMatch[2]! : part);
+    if (value === null) {
+      diagnostics.push(`Malformed argument "${part}" in ${annotation}`);
+      return null;
+    }
+    args.push(keyMatch ? { key: keyMatch[1]!, value } : { value });
+  }
+
+  return args;
+}
+
+function parseValue(source: string): AnnotationValue | null {
+  const text = source.trim();
+
+  if (text === 'true') return true;
+  if (text === 'false') return false;
+  if (/^[A-Za-z_]\w*$/.test(text)) return text;
+
+  const quoted = /^(['"])(.*)\1$/.exec(text);
+  if (quoted) return quoted[2]!;
+
+  const list = /^\[([\s\S]*)\]$/.exec(text);
+  if (list) {
+    const items = splitTopLevel(list[1]!).filter(item => item !== '');
+    return items.every(item => /^[A-Za-z_]\w*$/.test(item)) ? items : null;
+  }
+
+  return null;
+}
+
+/**
+ * Split on commas that are not nested in brackets or quotes, trimming each part
+ */
+function splitTopLevel(source: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]!;
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === '[') {
+      depth++;
+    } else if (char === ']') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  parts.push(current.trim());
+  return parts;
+}
+
+/**
+ * `@gql.omit` hides from everything, `@gql.omit(output)` from the object type and
+ * `@gql.omit(input: [create, update])` from specific input kinds
+ */
+function applyOmit(
+  annotation: RawAnnotation,
+  annotations: FieldAnnotations,
+  diagnostics: string[],
+): void {
+  if (annotation.args.length === 0) {
+    annotations.omitOutput = true;
+    annotations.omitInput = [...INPUT_OMIT_TARGETS];
+    return;
+  }
+
+  const omitInput = new Set(annotations.omitInput);
+
+  for (const arg of annotation.args) {
+    // A bare `input`/`output` is shorthand for `input: true`/`output: true`
+    const key = arg.key ?? (typeof arg.value === 'string' ? arg.value : undefined);
+    const value = arg.key ? arg.value : true;
+
+    if (key === 'output' && typeof value === 'boolean') {
+      annotations.omitOutput = value;
+    } else if (key === 'input' && typeof value === 'boolean') {
+      if (value) INPUT_OMIT_TARGETS.forEach(t => omitInput.add(t));
+    } else if (key === 'input' && Array.isArray(value)) {
+      for (const item of value) {
+        if ((INPUT_OMIT_TARGETS as string[]).includes(item)) {
+          omitInput.add(item as InputOmitTarget);
+        } else {
+          diagnostics.push(
+            `Unknown input kind "${item}" in ${annotation.source}; expected one of ${INPUT_OMIT_TARGETS.join(', ')}`,
+          );
+        }
+      }
+    } else {
+      diagnostics.push(
+        `Invalid argument in ${annotation.source}; expected input, output, input: [${INPUT_OMIT_TARGETS.join(', ')}] or output: true|false`,
+      );
+    }
+  }
+
+  annotations.omitInput = INPUT_OMIT_TARGETS.filter(t => omitInput.has(t));
+}
+
+/**
+ * `@gql.softDelete` sets `deletedAt` instead of deleting records,
+ * `@gql.softDelete(field: removedAt)` another field. The bare `restore` and
+ * `withDeleted` add the restore mutation and the `withDeleted` query argument.
+ */
+function parseSoftDeleteArguments(annotation: RawAnnotation, diagnostics: string[]): SoftDelete {
+  const softDelete: SoftDelete = {
+    field: DEFAULT_SOFT_DELETE_FIELD,
+    restore: false,
+    withDeleted: false,
+  };
+
+  for (const arg of annotation.args) {
+    if (arg.key === 'field' && typeof arg.value === 'string') {
+      softDelete.field = arg.value;
+    } else if (!arg.key && (arg.value === 'restore' || arg.value === 'withDeleted')) {
+      softDelete[arg.value] = true;
+    } else {
+      diagnostics.push(
+        `Invalid argument in ${annotation.source}; expected field: <name>, restore or withDeleted`,
+      );
+    }
+  }
+
+  return softDelete;
+}
+
+/**
+ * The soft delete setting of the config file, with the defaults of `@gql.softDelete`
+ */
+function toSoftDelete(setting: ModelConfig['softDelete']): SoftDelete | undefined {
+  if (!setting) return undefined;
+  return {
+    field: DEFAULT_SOFT_DELETE_FIELD,
+    restore: false,
+    withDeleted: false,
+    ...(setting === true ? {} : setting),
+  };
+}
+
+/**
+ * The user of the request only fills scalar fields, not relations
+ */
+function getAuditDiagnostics(field: ModelField): string[] {
+  const audit = parseFieldAnnotations(field.documentation).annotations.audit;
+  return audit && field.kind === 'object'
+    ? [`@gql.${audit} only applies to scalar fields, e.g. the foreign key of the relation`]
+    : [];
+}
+
+/**
+ * A soft deleted model needs its field to be a nullable DateTime
+ */
+function getSoftDeleteDiagnostics(model: Model): string[] {
+  const softDelete = model.annotations.softDelete;
+  if (!softDelete) return [];
+
+  const field = model.fields.find(f => f.name === softDelete.field);
+  return field?.kind === 'scalar' && field.type === 'DateTime' && !field.isRequired
+    ? []
+    : [`Soft delete field "${softDelete.field}" must be a nullable DateTime field`];
+}
+
+/**
+ * `@gql.operations(findMany, findUnique)` lists the operations to generate;
+ * `@gql.operations()` disables all of them
+ */
+function parseOperationsArgument(
+  annotation: RawAnnotation,
+  diagnostics: string[],
+): CrudOperation[] | undefined {
+  if (!annotation.source.endsWith(')')) {
+    diagnostics.push(
+      `${annotation.source} expects a list of operations, e.g. @gql.operations(findMany, findUnique)`,
+    );
+    return undefined;
+  }
+
+  const operations: CrudOperation[] = [];
+  for (const arg of annotation.args) {
+    const value = arg.value;
+    if (arg.key || typeof value !== 'string') {
+      diagnostics.push(`Invalid argument in ${annotation.source}; expected operation names`);
+    } else if ((CRUD_OPERATIONS as readonly string[]).includes(value)) {
+      operations.push(value as CrudOperation);
+    } else {
+      diagnostics.push(
+        `Unknown operation "${value}" in ${annotation.source}; expected one of ${CRUD_OPERATIONS.join(', ')}`,
+      );
+    }
+  }
+
+  return operations;
+}
+
+function parseNameArgument(
+  annotation: RawAnnotation,
+  previous: string | undefined,
+  diagnostics: string[],
+): string | undefined {
+  const [arg, ...rest] = annotation.args;
+
+  if (!arg || rest.length > 0 || arg.key || typeof arg.value !== 'string') {
+    const example = annotation.name === 'plural' ? 'People' : 'Account';
+    diagnostics.push(
+      `${annotation.source} expects a single name, e.g. @gql.${annotation.name}(${example})`,
+    );
+    return previous;
+  }
+  if (!GRAPHQL_NAME_PATTERN.test(arg.value)) {
+    diagnostics.push(`"${arg.value}" in ${annotation.source} is not a valid GraphQL name`);
+    return previous;
+  }
+  if (previous !== undefined) {
+    diagnostics.push(`Duplicate @gql.${annotation.name} annotation`);
+  }
+  return arg.value;
+}
+
+/**
+ * Remove annotation spans and other tool annotations, dropping lines that only held annotations
+ */
+function stripAnnotations(documentation: string, spans: [number, number][]): string | undefined {
+  let text = '';
+  let cursor = 0;
+  for (const [start, end] of spans) {
+    text += `${documentation.slice(cursor, start)}${REMOVED}`;
+    cursor = end;
+  }
+  text += documentation.slice(cursor);
+
+  const description = text
+    .split('\n')
+    .map(stripForeignAnnotations)
+    .filter(line => !(line.includes(REMOVED) && line.replaceAll(REMOVED, '').trim() === ''))
+    .map(line => line.replaceAll(REMOVED, '').trimEnd())
+    .join('\n')
+    .trim();
+
+  return description === '' ? undefined : description;
+}
+
+function stripForeignAnnotations(line: string): string {
+  let result = line;
+  let match: RegExpExecArray | null;
+
+  while ((match = FOREIGN_ANNOTATION_PATTERN.exec(result)) !== null) {
+    let end = match.index + match[0].length;
+    if (result[end] === '(') {
+      const close = findClosingParen(result, end);
+      end = close === -1 ? result.length : close + 1;
+    }
+    result = `${result.slice(0, match.index)}${REMOVED}${result.slice(end)}`;
+  }
+
+  return result;
+}
+
+function lineAt(text: string, index: number): string {
+  const start = text.lastIndexOf('\n', index) + 1;
+  const end = text.indexOf('\n', index);
+  return text.slice(start, end === -1 ? undefined : end).trim();
+}
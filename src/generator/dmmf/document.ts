@@ -1,4 +1,12 @@
 import type { Enum, InputType, Model, ModelMapping, OutputType, Relation } from './types';
+import {
+  applyAuditFields,
+  applyAuditInverseRelations,
+  applyModelConfig,
+  applySoftDeleteField,
+  applyTenantField,
+  getModelConfigWarnings,
+} from './annotations';
 import {
   extractRelations,
   generateModelMappings,
@@ -6,6 +14,16 @@ import {
   transformInputType,
   transformModel,
 } from './transformer';
+import {
+  getDroppedRelationWarnings,
+  getVisibleEnums,
+  getVisibleInputTypes,
+  getVisibleModels,
+  isModelSelected,
+  matchesModelPattern,
+} from './visibility';
+import { getTenancyWarnings } from '../tenancy';
+import { getAuditWarnings } from '../audit';
 
 import type { DMMF } from '@prisma/generator-helper';
 import type { GeneratorConfig } from '../../cli/options-parser';
@@ -17,6 +35,8 @@ export class DMMFDocument {
   private readonly _dmmf: DMMF.Document;
   private readonly _config: GeneratorConfig;
 
+  private _allModels: Model[] | null = null;
+  private _hiddenModelNames: Set<string> | null = null;
   private _models: Model[] | null = null;
   private _enums: Enum[] | null = null;
   private _relations: Relation[] | null = null;
@@ -44,11 +64,78 @@ export class DMMFDocument {
   }
 
   /**
-   * Get all transformed models
+   * Get all transformed models, including hidden ones, with config file
+   * model settings and the read-only tenant, soft delete and audit fields applied,
+   * along with the relations back from the audit relations
+   */
+  get allModels(): Model[] {
+    if (!this._allModels) {
+      this._allModels = applyAuditInverseRelations(
+        this._dmmf.datamodel.models.map(m =>
+          applyAuditFields(
+            applyTenantField(
+              applySoftDeleteField(
+                applyModelConfig(transformModel(m), this._config.models?.[m.name]),
+              ),
+              this._config.tenantField,
+            ),
+            this._config,
+          ),
+        ),
+      );
+    }
+    return this._allModels;
+  }
+
+  /**
+   * Names of models left out of the GraphQL API, by annotation or by the
+   * `includeModels` / `excludeModels` options
+   */
+  get hiddenModelNames(): Set<string> {
+    if (!this._hiddenModelNames) {
+      const { includeModels, excludeModels } = this._config;
+      this._hiddenModelNames = new Set(
+        this.allModels
+          .filter(
+            m => m.annotations.hidden || !isModelSelected(m.name, includeModels, excludeModels),
+          )
+          .map(m => m.name),
+      );
+    }
+    return this._hiddenModelNames;
+  }
+
+  /**
+   * Problems worth reporting that don't stop generation: model patterns
+   * matching nothing, config file settings for unknown models or fields,
+   * relation fields dropped along with excluded models and a `tenantField` or
+   * audit field no model has
+   */
+  get warnings(): string[] {
+    const warnings: string[] = [];
+    const modelNames = this.allModels.map(m => m.name);
+
+    for (const option of ['includeModels', 'excludeModels'] as const) {
+      for (const pattern of this._config[option] ?? []) {
+        if (!modelNames.some(name => matchesModelPattern(name, pattern))) {
+          warnings.push(`${option} pattern "${pattern}" does not match any model`);
+        }
+      }
+    }
+
+    warnings.push(...getModelConfigWarnings(this.allModels, this._config.models));
+    warnings.push(...getDroppedRelationWarnings(this.allModels, this.hiddenModelNames));
+    warnings.push(...getTenancyWarnings(this.allModels, this._config));
+    warnings.push(...getAuditWarnings(this.allModels, this._config));
+    return warnings;
+  }
+
+  /**
+   * Get models exposed in the GraphQL API, without relation fields to hidden models
    */
   get models(): Model[] {
     if (!this._models) {
-      this._models = this._dmmf.datamodel.models.map(transformModel);
+      this._models = getVisibleModels(this.allModels, this.hiddenModelNames);
     }
     return this._models;
   }
@@ -58,23 +145,24 @@ export class DMMFDocument {
    */
   get enums(): Enum[] {
     if (!this._enums) {
-      this._enums = [];
+      const enums: Enum[] = [];
 
       // Add enums from datamodel (user-defined enums)
       for (const enumDef of this._dmmf.datamodel.enums) {
-        this._enums.push(transformEnum(enumDef));
+        enums.push(transformEnum(enumDef));
       }
 
       // Add enums from schema (Prisma-generated enums like SortOrder, NullsOrder, etc.)
       const prismaEnums = this._dmmf.schema.enumTypes.prisma ?? [];
       for (const enumDef of prismaEnums) {
-        this._enums.push({
+        enums.push({
           name: enumDef.name,
           values: enumDef.values.map((v: string | { name: string; dbName?: string }) => ({
             name: typeof v === 'string' ? v : v.name,
             documentation: typeof v === 'string' ? undefined : v.dbName,
           })),
           documentation: undefined,
+          annotations: {},
           source: 'schema-prisma',
         });
       }
@@ -83,18 +171,21 @@ export class DMMFDocument {
       const modelEnums = this._dmmf.schema.enumTypes.model ?? [];
       for (const enumDef of modelEnums) {
         // Avoid duplicates
-        if (!this._enums.some(e => e.name === enumDef.name)) {
-          this._enums.push({
+        if (!enums.some(e => e.name === enumDef.name)) {
+          enums.push({
             name: enumDef.name,
             values: enumDef.values.map((v: string | { name: string; dbName?: string }) => ({
               name: typeof v === 'string' ? v : v.name,
               documentation: typeof v === 'string' ? undefined : v.dbName,
             })),
             documentation: undefined,
+            annotations: {},
             source: 'schema-model',
           });
         }
       }
+
+      this._enums = getVisibleEnums(enums, this.allModels, this.hiddenModelNames);
     }
     return this._enums;
   }
@@ -110,11 +201,11 @@ export class DMMFDocument {
   }
 
   /**
-   * Get CRUD operation mappings for all models
+   * Get type and operation names for all models
    */
   get modelMappings(): ModelMapping[] {
     if (!this._modelMappings) {
-      this._modelMappings = generateModelMappings(this.models);
+      this._modelMappings = generateModelMappings(this.models, this._config);
     }
     return this._modelMappings;
   }
@@ -124,19 +215,27 @@ export class DMMFDocument {
    */
   get inputTypes(): Map<string, InputType> {
     if (!this._inputTypes) {
-      this._inputTypes = new Map();
+      const inputTypes: InputType[] = [];
 
       // Process prisma namespace input types
       const prismaInputTypes = this._dmmf.schema.inputObjectTypes.prisma ?? [];
       for (const inputType of prismaInputTypes) {
-        this._inputTypes.set(inputType.name, transformInputType(inputType));
+        inputTypes.push(transformInputType(inputType));
       }
 
       // Process model namespace input types
       const modelInputTypes = this._dmmf.schema.inputObjectTypes.model ?? [];
       for (const inputType of modelInputTypes) {
-        this._inputTypes.set(inputType.name, transformInputType(inputType));
+        inputTypes.push(transformInputType(inputType));
       }
+
+      // Drop hidden models, annotated fields and anything that referenced them
+      this._inputTypes = getVisibleInputTypes(
+        inputTypes,
+        this.allModels,
+        this.hiddenModelNames,
+        new Set(this.enums.map(e => e.name)),
+      );
     }
     return this._inputTypes;
   }
@@ -1,3 +1,5 @@
 export * from './document';
 export * from './transformer';
 export * from './types';
+export * from './annotations';
+export * from './visibility';
@@ -1,20 +1,26 @@
 import type {
+  CrudOperation,
   Enum,
   InputField,
   InputType,
+  InputTypeKind,
   Model,
   ModelField,
   ModelMapping,
   Relation,
 } from './types';
 
+import { parseEnumAnnotations, parseFieldAnnotations, parseModelAnnotations } from './annotations';
+
 import type { DMMF } from '@prisma/generator-helper';
+import type { GeneratorConfig } from '../../cli/options-parser';
 import pluralize from 'pluralize';
 
 /**
  * Transform DMMF Model to internal Model representation
  */
 export function transformModel(dmmfModel: DMMF.Model): Model {
+  const { annotations, description } = parseModelAnnotations(dmmfModel.documentation);
   return {
     name: dmmfModel.name,
     dbName: dmmfModel.dbName,
@@ -31,6 +37,8 @@ export function transformModel(dmmfModel: DMMF.Model): Model {
       fields: [...idx.fields],
     })),
     documentation: dmmfModel.documentation,
+    description,
+    annotations,
     isGenerated: dmmfModel.isGenerated ?? false,
   };
 }
@@ -39,6 +47,7 @@ export function transformModel(dmmfModel: DMMF.Model): Model {
  * Transform DMMF Field to internal ModelField representation
  */
 export function transformField(dmmfField: DMMF.Field): ModelField {
+  const { annotations, description } = parseFieldAnnotations(dmmfField.documentation);
   return {
     name: dmmfField.name,
     type: dmmfField.type,
@@ -58,6 +67,8 @@ export function transformField(dmmfField: DMMF.Field): ModelField {
       : undefined,
     relationToFields: dmmfField.relationToFields ? [...dmmfField.relationToFields] : undefined,
     documentation: dmmfField.documentation,
+    description,
+    annotations,
   };
 }
 
@@ -65,6 +76,7 @@ export function transformField(dmmfField: DMMF.Field): ModelField {
  * Transform DMMF Enum to internal Enum representation
  */
 export function transformEnum(dmmfEnum: DMMF.DatamodelEnum): Enum {
+  const { annotations, description } = parseEnumAnnotations(dmmfEnum.documentation);
   return {
     name: dmmfEnum.name,
     values: dmmfEnum.values.map(v => ({
@@ -73,6 +85,8 @@ export function transformEnum(dmmfEnum: DMMF.DatamodelEnum): Enum {
       documentation: (v as any).documentation,
     })),
     documentation: dmmfEnum.documentation,
+    description,
+    annotations,
     source: 'datamodel',
   };
 }
@@ -122,29 +136,76 @@ export function extractRelations(models: Model[]): Relation[] {
 }
 
 /**
- * Generate model mappings for CRUD operations
+ * Generate the type and operation names of each model.
+ *
+ * Operation names are built from the GraphQL type name (`@gql.name`) and its
+ * plural (`@gql.plural`, else pluralized) following `namingStyle`; `typePrefix`
+ * and `typeSuffix` only apply to the object type class.
  */
-export function generateModelMappings(models: Model[]): ModelMapping[] {
+export function generateModelMappings(
+  models: Model[],
+  config: GeneratorConfig = {},
+): ModelMapping[] {
   return models.map(model => {
-    const lowerName = camelCase(model.name);
-    const pluralName = pluralize(lowerName);
+    const name = model.annotations.name ?? model.name;
+    const lowerName = camelCase(name);
+    const plural = model.annotations.plural ?? pluralize(lowerName);
+    const lowerPlural = camelCase(plural);
+    const upperPlural = pascalCase(plural);
+    // Models named in the plural need distinct list and single-record queries
+    const isAlreadyPlural = lowerPlural === lowerName;
+
+    const operations: Record<CrudOperation, string> =
+      config.namingStyle === 'prisma'
+        ? {
+            findMany: `findMany${name}`,
+            findFirst: `findFirst${name}`,
+            findUnique: `findUnique${name}`,
+            create: `create${name}`,
+            createMany: `createMany${name}`,
+            update: `update${name}`,
+            updateMany: `updateMany${name}`,
+            upsert: `upsert${name}`,
+            delete: `delete${name}`,
+            deleteMany: `deleteMany${name}`,
+            aggregate: `aggregate${name}`,
+            groupBy: `groupBy${name}`,
+            count: `count${name}`,
+          }
+        : {
+            findMany: isAlreadyPlural ? `findMany${name}` : lowerPlural,
+            findFirst: `findFirst${name}`,
+            findUnique: isAlreadyPlural ? `findUnique${name}` : lowerName,
+            ...(config.namingStyle === 'short'
+              ? {
+                  create: `create${name}`,
+                  createMany: `createMany${upperPlural}`,
+                  update: `update${name}`,
+                  updateMany: `updateMany${upperPlural}`,
+                  upsert: `upsert${name}`,
+                  delete: `delete${name}`,
+                  deleteMany: `deleteMany${upperPlural}`,
+                }
+              : {
+                  create: `createOne${name}`,
+                  createMany: `createMany${name}`,
+                  update: `updateOne${name}`,
+                  updateMany: `updateMany${name}`,
+                  upsert: `upsertOne${name}`,
+                  delete: `deleteOne${name}`,
+                  deleteMany: `deleteMany${name}`,
+                }),
+            aggregate: `aggregate${name}`,
+            groupBy: `groupBy${name}`,
+            count: `${lowerName}Count`,
+          };
 
     return {
       model: model.name,
-      plural: pluralName,
-      findUnique: `${lowerName}`,
-      findFirst: `findFirst${model.name}`,
-      findMany: pluralName,
-      create: `createOne${model.name}`,
-      createMany: `createMany${model.name}`,
-      update: `updateOne${model.name}`,
-      updateMany: `updateMany${model.name}`,
-      upsert: `upsertOne${model.name}`,
-      delete: `deleteOne${model.name}`,
-      deleteMany: `deleteMany${model.name}`,
-      aggregate: `aggregate${model.name}`,
-      groupBy: `groupBy${model.name}`,
-      count: `${lowerName}Count`,
+      typeName: `${config.typePrefix ?? ''}${model.name}${config.typeSuffix ?? ''}`,
+      delegate: camelCase(model.name),
+      plural: lowerPlural,
+      ...operations,
     };
   });
 }
@@ -188,7 +249,7 @@ export function transformInputField(dmmfArg: DMMF.SchemaArg): InputField {
  * Prefers non-null, non-list, object types
  * Returns both the type name and its isList property
  */
-function getMainInputTypeWithListInfo(
+export function getMainInputTypeWithListInfo(
   inputTypes: readonly {
     type: string | DMMF.InputType | DMMF.SchemaEnum;
     location: string;
@@ -224,6 +285,94 @@ function getMainInputTypeWithListInfo(
   return { type: String(firstType?.type ?? 'unknown'), isList: firstType?.isList ?? false };
 }
 
+/**
+ * Find which model owns an input type by checking which model name the input type starts with.
+ * Uses longest match to handle cases like City vs CityType correctly.
+ */
+export function findOwningModel(
+  inputTypeName: string,
+  allModelNames: Iterable<string>,
+): string | null {
+  let longestMatch: string | null = null;
+  let longestLength = 0;
+
+  for (const modelName of allModelNames) {
+    if (inputTypeName.startsWith(modelName) && modelName.length > longestLength) {
+      // Verify it's a proper prefix (followed by a capital letter or end of known suffix patterns)
+      const remainder = inputTypeName.slice(modelName.length);
+      // Check if the remainder starts with a typical input type suffix pattern
+      // Note: compound unique inputs have pattern like {FieldNames}CompoundUniqueInput
+      if (
+        remainder.length === 0 ||
+        /^(Where|Create|Update|Upsert|Delete|OrderBy|Scalar|List|Nullable|Nested|Unchecked|Count|Avg|Sum|Min|Max|Aggregate|GroupBy|RelationFilter)/.test(
+          remainder,
+        ) ||
+        /CompoundUniqueInput$/.test(remainder)
+      ) {
+        longestMatch = modelName;
+        longestLength = modelName.length;
+      }
+    }
+  }
+
+  return longestMatch;
+}
+
+/**
+ * Classify a model-owned input type whose fields mirror the model's fields,
+ * based on the suffix that follows the model name (e.g. UserCreateWithoutPostsInput -> create).
+ * Relation wrappers such as UserCreateNestedManyWithoutPostsInput are 'other'.
+ */
+export function getInputTypeKind(inputTypeName: string, modelName: string): InputTypeKind {
+  const remainder = inputTypeName.slice(modelName.length);
+  if (remainder.endsWith('NestedInput')) return 'other';
+
+  if (/^(Unchecked)?Create(Many\w*|Without\w+)?Input$/.test(remainder)) return 'create';
+  if (/^(Unchecked)?Update(ManyMutation|Many)?(Without\w+)?Input$/.test(remainder)) return 'update';
+  if (/^(Scalar)?Where(Unique)?(WithAggregates)?Input$/.test(remainder)) return 'where';
+  if (
+    /^((Count|Avg|Sum|Min|Max)OrderByAggregate|OrderByWith(Relation|Aggregation))Input$/.test(
+      remainder,
+    )
+  ) {
+    return 'orderBy';
+  }
+  return 'other';
+}
+
+/**
+ * Check whether a model field is left out of input types of the given kind
+ * via `@gql.omit(input: [...])`, `@gql.readonly` or `@HideField({ input: true })`.
+ * Fields hidden from the output can't be filtered or sorted on either, as that
+ * would let clients probe their values.
+ */
+export function isOmittedFromInput(field: ModelField, kind: InputTypeKind): boolean {
+  if (kind === 'other') return false;
+  if (field.annotations.readonly && (kind === 'create' || kind === 'update')) return true;
+  if (field.annotations.omitOutput && (kind === 'where' || kind === 'orderBy')) return true;
+  return field.annotations.omitInput.includes(kind);
+}
+
+/**
+ * Remove annotated model fields from an input type owned by one of the models.
+ * Only input types whose fields mirror the model's fields are touched, so relation
+ * wrappers (e.g. `connect`, `create` in nested inputs) are left intact.
+ */
+export function omitAnnotatedInputFields(inputType: InputType, models: Model[]): InputType {
+  const modelName = findOwningModel(
+    inputType.name,
+    models.map(m => m.name),
+  );
+  if (!modelName) return inputType;
+
+  const kind = getInputTypeKind(inputType.name, modelName);
+  const model = models.find(m => m.name === modelName)!;
+  const omitted = new Set(model.fields.filter(f => isOmittedFromInput(f, kind)).map(f => f.name));
+  if (omitted.size === 0) return inputType;
+
+  return { ...inputType, fields: inputType.fields.filter(f => !omitted.has(f.name)) };
+}
+
 /**
  * Convert string to camelCase
  */
@@ -259,6 +408,22 @@ export function isRelationField(field: ModelField): boolean {
   return field.kind === 'object';
 }
 
+/**
+ * Group the custom scalars of a model's visible fields by the module they are imported from
+ */
+export function getScalarOverrideImports(model: Model): Map<string, string[]> {
+  const imports = new Map<string, string[]>();
+  for (const field of model.fields) {
+    const { scalar, omitOutput } = field.annotations;
+    if (!scalar || omitOutput) continue;
+
+    const names = imports.get(scalar.from) ?? [];
+    if (!names.includes(scalar.name)) names.push(scalar.name);
+    imports.set(scalar.from, names);
+  }
+  return imports;
+}
+
 /**
  * Get ID fields from a model
  */
@@ -64,6 +64,9 @@ export interface ModelField {
   relationFromFields?: string[];
   relationToFields?: string[];
   documentation?: string;
+  /** Documentation with annotations stripped, used for GraphQL descriptions */
+  description?: string;
+  annotations: FieldAnnotations;
 }
 
 /**
@@ -77,6 +80,9 @@ export interface Model {
   uniqueFields: string[][];
   uniqueIndexes: UniqueIndex[];
   documentation?: string;
+  /** Documentation with annotations stripped, used for GraphQL descriptions */
+  description?: string;
+  annotations: ModelAnnotations;
   isGenerated: boolean;
 }
 
@@ -103,6 +109,9 @@ export interface Enum {
   name: string;
   values: EnumValue[];
   documentation?: string;
+  /** Documentation with annotations stripped, used for GraphQL descriptions */
+  description?: string;
+  annotations: EnumAnnotations;
   source: 'datamodel' | 'schema-prisma' | 'schema-model';
 }
 
@@ -115,6 +124,105 @@ export interface EnumValue {
   documentation?: string;
 }
 
+/**
+ * Input type kinds a field can be omitted from with `@gql.omit(input: [...])`
+ */
+export type InputOmitTarget = Exclude<InputTypeKind, 'other'>;
+
+/**
+ * Parsed `/// @gql.*` annotations of a model field
+ */
+export interface FieldAnnotations {
+  /** Hidden from the object type (`@gql.omit(output)`, `@HideField()`) */
+  omitOutput: boolean;
+  /** Input type kinds the field is left out of */
+  omitInput: InputOmitTarget[];
+  /** Readable but not writable (`@gql.readonly`) */
+  readonly: boolean;
+  /** Set to the user of the request by the mutations (`@gql.createdBy`, `@gql.updatedBy`) */
+  audit?: AuditKind;
+  /** GraphQL scalar replacing the default one on the object type (set from the config file) */
+  scalar?: ScalarOverride;
+}
+
+/**
+ * Which writes set an audit field to the user of the request: `createdBy`
+ * the creates, `updatedBy` the creates and updates
+ */
+export type AuditKind = 'createdBy' | 'updatedBy';
+
+/**
+ * A custom GraphQL scalar for a model field, e.g. `{ name: 'GraphQLEmailAddress', from: 'graphql-scalars' }`
+ */
+export interface ScalarOverride {
+  /** Exported name of the scalar */
+  name: string;
+  /** Module specifier the scalar is imported from in generated files */
+  from: string;
+  /** TypeScript type of the property, defaults to the one of the Prisma type */
+  tsType?: string;
+}
+
+/**
+ * Where a configured decorator is attached: `class` for the resolver classes
+ * holding the operations, `queries` or `mutations` for every operation of
+ * that kind, or a single operation
+ */
+export type DecoratorTarget = 'class' | 'queries' | 'mutations' | CrudOperation;
+
+/**
+ * A decorator added to generated resolvers, e.g.
+ * `{ expression: 'UseGuards(AdminGuard)', imports: [{ name: 'UseGuards', from: '@nestjs/common' }], on: 'mutations' }`
+ */
+export interface ResolverDecorator {
+  /** Decorator expression without the `@` */
+  expression: string;
+  /** Names the expression uses. Relative `from` paths are relative to the output directory. */
+  imports?: { name: string; from: string }[];
+  /** Where to attach it. Default: 'class' */
+  on?: DecoratorTarget | DecoratorTarget[];
+}
+
+/**
+ * Parsed `/// @gql.*` annotations of a model
+ */
+export interface ModelAnnotations {
+  /** GraphQL type name (`@gql.name(Account)`) */
+  name?: string;
+  /** Left out of the GraphQL API entirely (`@gql.omit`, `@gql.ignore`, `@HideField()`) */
+  hidden?: boolean;
+  /** Plural form used in operation names (`@gql.plural(People)`) */
+  plural?: string;
+  /** CRUD operations to generate, overriding the `operations` option (`@gql.operations(...)`) */
+  operations?: CrudOperation[];
+  /** Publish created / updated / deleted subscriptions (`@gql.subscriptions`) */
+  subscriptions?: boolean;
+  /** Set a field instead of deleting records (`@gql.softDelete`) */
+  softDelete?: SoftDelete;
+  /** Decorators for the model's resolvers (set from the config file) */
+  decorators?: ResolverDecorator[];
+}
+
+/**
+ * Soft deletion of a model's records
+ */
+export interface SoftDelete {
+  /** Nullable DateTime field set when a record is deleted, `deletedAt` by default */
+  field: string;
+  /** Generate a mutation clearing `field` again */
+  restore: boolean;
+  /** Add a `withDeleted` argument to the queries, to include deleted records */
+  withDeleted: boolean;
+}
+
+/**
+ * Parsed `/// @gql.*` annotations of an enum
+ */
+export interface EnumAnnotations {
+  /** GraphQL enum name (`@gql.name(AccountRole)`) */
+  name?: string;
+}
+
 /**
  * Relation information between models
  */
@@ -147,24 +255,44 @@ export type CrudOperation =
   | 'count';
 
 /**
- * Model mapping for CRUD operations
+ * Every CRUD operation, in the order they are generated
+ */
+export const CRUD_OPERATIONS: readonly CrudOperation[] = [
+  'findMany',
+  'findFirst',
+  'findUnique',
+  'create',
+  'createMany',
+  'update',
+  'updateMany',
+  'upsert',
+  'delete',
+  'deleteMany',
+  'aggregate',
+  'groupBy',
+  'count',
+];
+
+export const DECORATOR_TARGETS: readonly DecoratorTarget[] = [
+  'class',
+  'queries',
+  'mutations',
+  ...CRUD_OPERATIONS,
+];
+
+/**
+ * Names generated for a model: its object type class and the GraphQL
+ * operation for every CRUD operation
  */
-export interface ModelMapping {
+export interface ModelMapping extends Record<CrudOperation, string> {
+  /** Prisma model name */
   model: string;
+  /** Object type class name, including `typePrefix` / `typeSuffix` */
+  typeName: string;
+  /** Prisma client delegate, e.g. `user` for `prisma.user` */
+  delegate: string;
+  /** Plural form used by list operations */
   plural: string;
-  findUnique?: string;
-  findFirst?: string;
-  findMany?: string;
-  create?: string;
-  createMany?: string;
-  update?: string;
-  updateMany?: string;
-  upsert?: string;
-  delete?: string;
-  deleteMany?: string;
-  aggregate?: string;
-  groupBy?: string;
-  count?: string;
 }
 
 /**
@@ -197,6 +325,11 @@ export interface InputTypeRef {
   namespace?: 'prisma' | 'model';
 }
 
+/**
+ * Operation an input type is used for, derived from its name
+ */
+export type InputTypeKind = 'create' | 'update' | 'where' | 'orderBy' | 'other';
+
 /**
  * Input type definition
  */
@@ -0,0 +1,166 @@
+import type { Enum, InputField, InputType, Model } from './types';
+import {
+  findOwningModel,
+  getMainInputTypeWithListInfo,
+  omitAnnotatedInputFields,
+} from './transformer';
+
+/**
+ * Check whether a model name matches a name or glob pattern (`*`, `?`)
+ */
+export function matchesModelPattern(name: string, pattern: string): boolean {
+  const source = pattern
+    .split('')
+    .map(c => (c === '*' ? '.*' : c === '?' ? '.' : c.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`).test(name);
+}
+
+/**
+ * Check whether a model passes the `includeModels` / `excludeModels` patterns
+ */
+export function isModelSelected(
+  name: string,
+  includeModels: string[] = [],
+  excludeModels: string[] = [],
+): boolean {
+  if (includeModels.length > 0 && !includeModels.some(p => matchesModelPattern(name, p))) {
+    return false;
+  }
+  return !excludeModels.some(p => matchesModelPattern(name, p));
+}
+
+/**
+ * Describe relation fields of visible models that are dropped because they
+ * point at hidden models
+ */
+export function getDroppedRelationWarnings(models: Model[], hiddenModels: Set<string>): string[] {
+  const warnings: string[] = [];
+  for (const model of models) {
+    if (hiddenModels.has(model.name)) continue;
+    for (const field of model.fields) {
+      if (field.kind === 'object' && hiddenModels.has(field.type)) {
+        warnings.push(
+          `Relation ${model.name}.${field.name} points at excluded model ${field.type} and was dropped`,
+        );
+      }
+    }
+  }
+  return warnings;
+}
+
+/**
+ * Remove hidden models and relation fields pointing at them
+ */
+export function getVisibleModels(models: Model[], hiddenModels: Set<string>): Model[] {
+  return models
+    .filter(model => !hiddenModels.has(model.name))
+    .map(model => {
+      const fields = model.fields.filter(f => !(f.kind === 'object' && hiddenModels.has(f.type)));
+      return fields.length === model.fields.length ? model : { ...model, fields };
+    });
+}
+
+/**
+ * Remove enums owned by hidden models and hidden fields from the
+ * `*ScalarFieldEnum` / `*OrderByRelevanceFieldEnum` enums of visible ones,
+ * so hidden columns can't be used in `distinct` or `groupBy.by`
+ */
+export function getVisibleEnums(enums: Enum[], models: Model[], hiddenModels: Set<string>): Enum[] {
+  const modelNames = models.map(m => m.name);
+  const result: Enum[] = [];
+
+  for (const enumDef of enums) {
+    const modelName =
+      enumDef.source !== 'datamodel' && enumDef.name.endsWith('FieldEnum')
+        ? findOwningModel(enumDef.name, modelNames)
+        : null;
+
+    if (!modelName) {
+      result.push(enumDef);
+      continue;
+    }
+    if (hiddenModels.has(modelName)) continue;
+
+    const model = models.find(m => m.name === modelName)!;
+    const hiddenFields = new Set(
+      model.fields.filter(f => f.annotations.omitOutput).map(f => f.name),
+    );
+    const values = enumDef.values.filter(v => !hiddenFields.has(v.name));
+
+    if (values.length === enumDef.values.length) {
+      result.push(enumDef);
+    } else if (values.length > 0) {
+      result.push({ ...enumDef, values });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Remove input types owned by hidden models and annotated fields from the rest.
+ *
+ * Dropping types cascades: fields that can no longer be typed are removed,
+ * input types losing a required field or all of their fields this way are
+ * dropped as well, until nothing changes. This keeps e.g. `PostCreateInput.author`
+ * from exposing a hidden `User` model through nested writes.
+ */
+export function getVisibleInputTypes(
+  inputTypes: Iterable<InputType>,
+  models: Model[],
+  hiddenModels: Set<string>,
+  enumNames: Set<string>,
+): Map<string, InputType> {
+  const modelNames = models.map(m => m.name);
+  const result = new Map<string, InputType>();
+
+  for (const inputType of inputTypes) {
+    const owner = findOwningModel(inputType.name, modelNames);
+    if (owner && hiddenModels.has(owner)) continue;
+    result.set(inputType.name, omitAnnotatedInputFields(inputType, models));
+  }
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+
+    for (const [name, inputType] of result) {
+      const fields: InputField[] = [];
+      let dropType = false;
+
+      for (const field of inputType.fields) {
+        const inputTypes = field.inputTypes.filter(t =>
+          t.location === 'inputObjectTypes'
+            ? result.has(t.type)
+            : t.location === 'enumTypes'
+              ? enumNames.has(t.type)
+              : true,
+        );
+
+        if (inputTypes.length === field.inputTypes.length) {
+          fields.push(field);
+        } else if (inputTypes.length > 0) {
+          fields.push({ ...field, ...getMainInputTypeWithListInfo(inputTypes), inputTypes });
+        } else if (field.isRequired) {
+          dropType = true;
+          break;
+        }
+      }
+
+      const modified =
+        fields.length !== inputType.fields.length ||
+        fields.some((f, i) => f !== inputType.fields[i]);
+
+      if (dropType || (modified && fields.length === 0)) {
+        result.delete(name);
+        changed = true;
+      } else if (modified) {
+        result.set(name, { ...inputType, fields });
+        changed = true;
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,282 @@
+import type { CrudOperation } from './dmmf/types';
+import type { EventEmitterMode, GeneratorConfig } from '../cli/options-parser';
+import type { TypedOperation } from './operations';
+import { camelCase, pascalCase } from './dmmf/transformer';
+import { getPrismaAccess } from './prisma-access';
+import type { NamedImports } from './imports';
+
+/**
+ * Kind of change a mutation event reports
+ */
+export type MutationEventKind =
+  | 'created'
+  | 'updated'
+  | 'deleted'
+  | 'createdMany'
+  | 'updatedMany'
+  | 'deletedMany';
+
+/**
+ * Mutations emitting each event. An upsert emits `created` or `updated`
+ * depending on whether the record existed when read before it ran.
+ */
+const EVENT_OPERATIONS: Record<MutationEventKind, CrudOperation[]> = {
+  created: ['create', 'upsert'],
+  updated: ['update', 'upsert'],
+  deleted: ['delete'],
+  createdMany: ['createMany'],
+  updatedMany: ['updateMany'],
+  deletedMany: ['deleteMany'],
+};
+
+/**
+ * File of the emitter token, interface and `@nestjs/event-emitter` adapter
+ */
+export const EVENT_EMITTER_FILE = 'event-emitter.ts';
+
+/**
+ * A typed event of a model's mutations, e.g. `UserCreatedEvent`
+ */
+export interface ModelEvent {
+  kind: MutationEventKind;
+  className: string;
+  /** Name it is emitted under, e.g. `user.created` */
+  eventName: string;
+  doc: string;
+  /** Constructor parameters, kept as readonly properties */
+  properties: { name: string; type: string }[];
+  /** Args class the property types of bulk events refer to */
+  argsType?: string;
+}
+
+/**
+ * Get the events emitted by the enabled mutations of a model, whose records
+ * are typed as `typeName` and context as `contextType`
+ */
+export function getModelEvents(
+  modelName: string,
+  typeName: string,
+  operations: TypedOperation[],
+  contextType: string,
+): ModelEvent[] {
+  const argsTypes = new Map(operations.map(o => [o.operation, o.argsType]));
+  const describe: Record<MutationEventKind, string> = {
+    created: `A ${modelName} was created, by create or by an upsert finding no record`,
+    updated: `A ${modelName} was updated, by update or upsert, from the record in \`before\``,
+    deleted: `A ${modelName} was deleted`,
+    createdMany: `${modelName} records were created by createMany`,
+    updatedMany: `${modelName} records matching \`where\` were updated by updateMany`,
+    deletedMany: `${modelName} records matching \`where\` were deleted by deleteMany`,
+  };
+
+  return (Object.keys(EVENT_OPERATIONS) as MutationEventKind[])
+    .filter(kind => EVENT_OPERATIONS[kind].some(op => argsTypes.has(op)))
+    .map(kind => {
+      const argsType = kind.endsWith('Many')
+        ? argsTypes.get(EVENT_OPERATIONS[kind][0]!)
+        : undefined;
+      const properties: Record<MutationEventKind, [string, string][]> = {
+        created: [
+          ['before', 'null'],
+          ['after', typeName],
+        ],
+        updated: [
+          ['before', `${typeName} | null`],
+          ['after', typeName],
+        ],
+        deleted: [
+          ['before', typeName],
+          ['after', 'null'],
+        ],
+        createdMany: [
+          ['data', `${argsType}['data']`],
+          ['count', 'number'],
+        ],
+        updatedMany: [
+          ['where', `${argsType}['where']`],
+          ['data', `${argsType}['data']`],
+          ['count', 'number'],
+        ],
+        deletedMany: [
+          ['where', `${argsType}['where']`],
+          ['count', 'number'],
+        ],
+      };
+      const eventName = `${camelCase(modelName)}.${kind}`;
+      const entries: [string, string][] = [...properties[kind], ['ctx', contextType]];
+      return {
+        kind,
+        className: `${modelName}${pascalCase(kind)}Event`,
+        eventName,
+        doc: `${describe[kind]}. Emitted as \`${eventName}\`.`,
+        properties: entries.map(([name, type]) => ({ name, type })),
+        ...(argsType ? { argsType } : {}),
+      };
+    });
+}
+
+/**
+ * Whether an operation reads the record it changes first, for the `before`
+ * of its event, when the mutations emit events
+ */
+export function readsExisting(operation: CrudOperation | 'restore', emitsEvents: boolean): boolean {
+  return emitsEvents && ['update', 'upsert', 'restore'].includes(operation);
+}
+
+/**
+ * Whether an operation emits the record it returns, which then needs every
+ * scalar field selected
+ */
+export function emitsRecord(operation: CrudOperation | 'restore', events: ModelEvent[]): boolean {
+  return (
+    events.length > 0 && ['create', 'update', 'upsert', 'delete', 'restore'].includes(operation)
+  );
+}
+
+/**
+ * The events a restore emits: it reports the record it restores as updated,
+ * when the update or upsert mutations give the model an `updated` event
+ */
+export function getRestoreEvents(events: ModelEvent[]): ModelEvent[] {
+  return events.filter(event => event.kind === 'updated');
+}
+
+/**
+ * Statements of a resolver method reading the record an update, upsert or
+ * restore changes, as `before`, through the Prisma client or the model
+ * service (`findExisting`)
+ */
+export function getExistingLookup(
+  operation: CrudOperation | 'restore',
+  events: ModelEvent[],
+  client: string,
+  delegate: string,
+  viaService: boolean,
+): string[] {
+  if (!readsExisting(operation, events.length > 0)) return [];
+  return viaService
+    ? [`const before = await ${client}.findExisting(args.where);`]
+    : [`const before = await ${client}.${delegate}.findUnique({ where: args.where } as any);`];
+}
+
+/**
+ * Statements of a resolver method emitting the events of a mutation once it
+ * produced its result (`record`), through `this.events`
+ */
+export function getEmitStatements(
+  operation: CrudOperation | 'restore',
+  events: ModelEvent[],
+): string[] {
+  const emit = (kind: MutationEventKind, args: string) => {
+    const { className } = events.find(event => event.kind === kind)!;
+    return `await this.events.emit(${className}.eventName, new ${className}(${args}, ctx));`;
+  };
+  if (events.length === 0) return [];
+
+  switch (operation) {
+    case 'create':
+      return [emit('created', 'null, record')];
+    case 'update':
+    case 'restore':
+      return ['if (record) {', `  ${emit('updated', 'before, record')}`, '}'];
+    case 'upsert':
+      return [
+        'if (before) {',
+        `  ${emit('updated', 'before, record')}`,
+        '} else {',
+        `  ${emit('created', 'null, record')}`,
+        '}',
+      ];
+    case 'delete':
+      return ['if (record) {', `  ${emit('deleted', 'record, null')}`, '}'];
+    case 'createMany':
+      return [emit('createdMany', 'args.data, record.count')];
+    case 'updateMany':
+      return [emit('updatedMany', 'args.where, args.data, record.count')];
+    case 'deleteMany':
+      return [emit('deletedMany', 'args.where, record.count')];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Type of the `ctx` of the events, and its imports relative to `filePath`:
+ * the GraphQL context resolvers get, `unknown` when it isn't typed
+ */
+export function getEventContext(
+  config: GeneratorConfig,
+  filePath: string,
+): { contextType: string; imports: NamedImports[] } {
+  if (config.prismaSource === 'inject' && !config.contextType) {
+    return { contextType: 'unknown', imports: [] };
+  }
+  const { contextType, imports } = getPrismaAccess(
+    { ...config, prismaSource: 'context' },
+    filePath,
+  );
+  return { contextType: contextType!, imports };
+}
+
+/**
+ * Source of `event-emitter.ts`: the `MUTATION_EVENT_EMITTER` token the
+ * resolvers emit through and its interface, plus the `@nestjs/event-emitter`
+ * adapter `forRoot()` defaults to unless `eventEmitter` is `custom`
+ */
+export function getEventEmitterSource(mode: EventEmitterMode = 'nest'): string {
+  const nest = mode === 'nest';
+  return `import { DynamicModule, ${nest ? 'Injectable, ' : ''}Module, Type } from '@nestjs/common';
+${nest ? "import { EventEmitter2 } from '@nestjs/event-emitter';\n" : ''}
+/**
+ * Injection token of the emitter the generated mutation resolvers send their events to
+ */
+export const MUTATION_EVENT_EMITTER = 'MUTATION_EVENT_EMITTER';
+
+/**
+ * Receives the events of the generated mutation resolvers once a mutation
+ * succeeded. The resolvers wait for \`emit\` before they return.
+ */
+export interface MutationEventEmitter {
+  emit(eventName: string, event: object): void | Promise<void>;
+}
+${
+  nest
+    ? `
+/**
+ * Emits the events through \`@nestjs/event-emitter\`, for listeners like
+ * \`@OnEvent(UserCreatedEvent.eventName)\`
+ */
+@Injectable()
+export class NestMutationEventEmitter implements MutationEventEmitter {
+  constructor(private readonly eventEmitter: EventEmitter2) {}
+
+  emit(eventName: string, event: object): void {
+    this.eventEmitter.emit(eventName, event);
+  }
+}
+`
+    : ''
+}
+/**
+ * Provides \`MUTATION_EVENT_EMITTER\` to the generated resolvers. ${
+   nest
+     ? `Import
+ * \`MutationEventsModule.forRoot()\` next to \`EventEmitterModule.forRoot()\`, or
+ * pass an emitter of your own.`
+     : `Import
+ * \`MutationEventsModule.forRoot(emitter)\` with an emitter of your own.`
+ }
+ */
+@Module({})
+export class MutationEventsModule {
+  static forRoot(emitter: Type<MutationEventEmitter>${nest ? ' = NestMutationEventEmitter' : ''}): DynamicModule {
+    return {
+      module: MutationEventsModule,
+      global: true,
+      providers: [{ provide: MUTATION_EVENT_EMITTER, useClass: emitter }],
+      exports: [MUTATION_EVENT_EMITTER],
+    };
+  }
+}
+`;
+}
@@ -1,11 +1,90 @@
-import type { GeneratedFile, InputType, Model, ModelField } from './dmmf/types';
+import type {
+  CrudOperation,
+  GeneratedFile,
+  InputField,
+  InputType,
+  Model,
+  ModelField,
+  ModelMapping,
+} from './dmmf/types';
 import { PRISMA_TO_GRAPHQL_SCALAR, PRISMA_TO_TS_TYPE } from './dmmf/types';
-import { camelCase, isEnumField, isRelationField, isScalarField } from './dmmf/transformer';
+import {
+  findOwningModel,
+  getScalarOverrideImports,
+  isEnumField,
+  isRelationField,
+  isScalarField,
+} from './dmmf/transformer';
 
 import type { DMMFDocument } from './dmmf/document';
 import type { GeneratorConfig } from '../cli/options-parser';
-import { isHiddenField } from './templates/utils';
-import pluralize from 'pluralize';
+import {
+  getArgValidators,
+  getInputFieldValidators,
+  getValidatedSetClass,
+  renderDecorators,
+  renderValidationImports,
+} from './templates/validation';
+import type { ValidationDecorator } from './templates/validation';
+import { getModelOperations, getUnusedInputTypes } from './operations';
+import type { TypedOperation } from './operations';
+import { generateNestModules } from './nest-module';
+import type { ModelResolvers } from './nest-module';
+import { getDecoratorImports, getResolverDecorators } from './decorators';
+import { getHookMethods, wrapWithHooks } from './base-resolver';
+import type { HookMethod } from './base-resolver';
+import { getServiceCall, getServiceMethods } from './services';
+import type { ServiceMethod } from './services';
+import {
+  getModelSubscriptions,
+  getPublishStatement,
+  getPublishedSubscription,
+  getRecordKey,
+  getResolveStatements,
+} from './subscriptions';
+import type { ModelSubscription } from './subscriptions';
+import {
+  EVENT_EMITTER_FILE,
+  emitsRecord,
+  getEmitStatements,
+  getEventContext,
+  getEventEmitterSource,
+  getExistingLookup,
+  getModelEvents,
+  getRestoreEvents,
+  readsExisting,
+} from './events';
+import type { ModelEvent } from './events';
+import { beforeReturn, getRecordSelectCall, withReturnedRecord } from './mutation-effects';
+import { getFeatureHelpers } from './helpers-generator';
+import type { HelperFeatures } from './helpers-generator';
+import { getInjectedPrisma, getPrismaAccess } from './prisma-access';
+import {
+  SCOPE_WHERE_HELPER,
+  getModelTenancy,
+  getScopeHelpers,
+  getScopeStatements,
+  getTenantModels,
+  getTenantScopeCall,
+  scopesRelations,
+} from './tenancy';
+import type { ModelTenancy } from './tenancy';
+import {
+  getDeletedFields,
+  getModelSoftDelete,
+  getRestoreCall,
+  getRestoreName,
+  getRestoreOperation,
+  getSoftDeleteCall,
+  getSoftDeleteHelpers,
+  getSoftDeleteStatements,
+} from './soft-delete';
+import type { ModelSoftDelete } from './soft-delete';
+import { getAuditHelpers, getAuditModels, getAuditStatements, getModelAudit } from './audit';
+import type { ModelAudit } from './audit';
+import type { PrismaAccess } from './prisma-access';
+import { mergeImports } from './imports';
+import type { NamedImports } from './imports';
 
 /**
  * Available input types for a model
@@ -19,10 +98,13 @@ interface AvailableInputs {
   hasUpdateInput: boolean;
   hasUpdateManyInput: boolean;
   hasScalarWhereWithAggregates: boolean;
-  /** True if the model is read-only (e.g., a database view) - no mutation inputs exist */
-  isReadOnly: boolean;
 }
 
+/**
+ * Operations served by the separate aggregations resolver
+ */
+const AGGREGATION_OPERATIONS: CrudOperation[] = ['aggregate', 'groupBy', 'count'];
+
 /**
  * Generate code with files grouped by model using direct string generation
  * (faster than ts-morph AST manipulation)
@@ -37,26 +119,57 @@ export async function generateCodeGrouped(
   const inputTypeNames = new Set(dmmf.inputTypes.keys());
   // Pre-compute all model names for better input type matching
   const allModelNames = new Set(dmmf.models.map(m => m.name));
+  // Input types only needed by operations that are turned off
+  const unusedInputTypes = getUnusedInputTypes(dmmf, config);
 
   // Generate shared enums
   files.push(...generateEnumsGrouped(dmmf, config));
 
   // Generate common types (including shared input types like IntFilter, StringFilter, etc.)
-  files.push(...generateCommonTypesGrouped(dmmf, allModelNames, config));
+  files.push(...generateCommonTypesGrouped(dmmf, allModelNames, unusedInputTypes, config));
 
   // Generate helpers
-  files.push(generateHelpersGrouped(config));
+  const features: HelperFeatures = {
+    subscriptions: dmmf.models.some(model => model.annotations.subscriptions),
+    events: config.generateEvents && config.generateResolvers,
+    tenantModels:
+      config.tenantField && config.generateResolvers
+        ? getTenantModels(dmmf.models, config.tenantField)
+        : undefined,
+    deletedFields: config.generateResolvers ? getDeletedFields(dmmf.models) : undefined,
+    auditModels: config.generateResolvers ? getAuditModels(dmmf.models) : undefined,
+  };
+  files.push(generateHelpersGrouped(config, features));
+
+  // Generate the emitter the mutation events go through
+  if (features.events) {
+    files.push({ path: EVENT_EMITTER_FILE, content: getEventEmitterSource(config.eventEmitter) });
+  }
 
   // Generate per-model files under models/ folder
   for (const model of dmmf.models) {
-    files.push(...generateModelGrouped(model, dmmf, config, inputTypeNames, allModelNames));
+    files.push(
+      ...generateModelGrouped(model, dmmf, config, inputTypeNames, allModelNames, unusedInputTypes),
+    );
   }
 
   // Generate models/index.ts that exports all models
   files.push(generateModelsIndex(dmmf, inputTypeNames));
 
+  // Generate the Nest module registering the resolvers
+  const moduleFiles = config.generateResolvers
+    ? generateNestModules(
+        dmmf.models.map(model => getModelResolvers(model.name, files)),
+        config,
+        model => `models/${model}/module.ts`,
+      )
+    : [];
+  files.push(...moduleFiles);
+
   // Generate root index
-  files.push(generateRootIndexGrouped(dmmf, inputTypeNames));
+  files.push(
+    generateRootIndexGrouped(dmmf, inputTypeNames, moduleFiles.length > 0, !!features.events),
+  );
 
   return files;
 }
@@ -70,30 +183,23 @@ function generateModelGrouped(
   config: GeneratorConfig,
   inputTypeNames: Set<string>,
   allModelNames: Set<string>,
+  unusedInputTypes: Set<string>,
 ): GeneratedFile[] {
   const files: GeneratedFile[] = [];
   const modelDir = `models/${model.name}`;
 
-  const hasCreateInput = inputTypeNames.has(`${model.name}CreateInput`);
-  const hasCreateManyInput = inputTypeNames.has(`${model.name}CreateManyInput`);
-  const hasUpdateInput = inputTypeNames.has(`${model.name}UpdateInput`);
-  const hasUpdateManyInput = inputTypeNames.has(`${model.name}UpdateManyMutationInput`);
-
-  // A model is read-only (e.g., a database view) if it has no mutation-related inputs
-  const isReadOnly =
-    !hasCreateInput && !hasCreateManyInput && !hasUpdateInput && !hasUpdateManyInput;
-
   const available: AvailableInputs = {
     hasWhereInput: inputTypeNames.has(`${model.name}WhereInput`),
     hasWhereUniqueInput: inputTypeNames.has(`${model.name}WhereUniqueInput`),
     hasOrderByInput: inputTypeNames.has(`${model.name}OrderByWithRelationInput`),
-    hasCreateInput,
-    hasCreateManyInput,
-    hasUpdateInput,
-    hasUpdateManyInput,
+    hasCreateInput: inputTypeNames.has(`${model.name}CreateInput`),
+    hasCreateManyInput: inputTypeNames.has(`${model.name}CreateManyInput`),
+    hasUpdateInput: inputTypeNames.has(`${model.name}UpdateInput`),
+    hasUpdateManyInput: inputTypeNames.has(`${model.name}UpdateManyMutationInput`),
     hasScalarWhereWithAggregates: inputTypeNames.has(`${model.name}ScalarWhereWithAggregatesInput`),
-    isReadOnly,
   };
+  const operations = getModelOperations(model, inputTypeNames, config);
+  const names = dmmf.getModelMapping(model.name)!;
 
   // Skip models with no query capability
   if (!available.hasWhereInput && !available.hasWhereUniqueInput) {
@@ -107,7 +213,7 @@ function generateModelGrouped(
   });
 
   // Generate inputs.ts
-  const modelInputTypes = getInputTypesForModel(model.name, dmmf, allModelNames);
+  const modelInputTypes = getInputTypesForModel(model.name, dmmf, allModelNames, unusedInputTypes);
   if (modelInputTypes.length > 0) {
     files.push({
       path: `${modelDir}/inputs.ts`,
@@ -118,19 +224,60 @@ function generateModelGrouped(
   // Generate args.ts
   files.push({
     path: `${modelDir}/args.ts`,
-    content: generateModelArgs(model, available),
+    content: config.useValidation
+      ? addArgsValidation(generateModelArgs(model, available, operations, config), dmmf)
+      : generateModelArgs(model, available, operations, config),
   });
 
   // Generate resolver.ts
-  const relationFields = model.fields.filter(f => isRelationField(f));
+  const relationFields = model.fields.filter(f => isRelationField(f) && !f.annotations.omitOutput);
   const hasRelations = relationFields.length > 0;
+  const hasAggregations = AGGREGATION_OPERATIONS.some(op => operations.has(op));
+  const subscriptions = available.hasWhereInput ? getModelSubscriptions(model, operations) : [];
+  const events = config.generateEvents
+    ? getModelEvents(
+        model.name,
+        names.typeName,
+        getTypedOperations(operations, model.name, names.typeName),
+        getEventContext(config, `${modelDir}/events.ts`).contextType,
+      )
+    : [];
+  const tenancy = getModelTenancy(model, dmmf.models, config);
+  const softDelete = getModelSoftDelete(model, dmmf.models);
+  const audit = getModelAudit(model, dmmf.models, config);
 
   if (config.generateResolvers) {
     files.push({
       path: `${modelDir}/resolver.ts`,
-      content: generateModelResolver(model, available, config),
+      content: generateModelResolver(
+        model,
+        names,
+        operations,
+        subscriptions,
+        events,
+        tenancy,
+        softDelete,
+        audit,
+        config,
+      ),
     });
 
+    // Generate service.ts (the operations the resolvers delegate to)
+    if (config.generateServices) {
+      files.push({
+        path: `${modelDir}/service.ts`,
+        content: generateModelService(model, names, operations, events, softDelete, config),
+      });
+    }
+
+    // Generate events.ts (the events the mutation resolvers emit)
+    if (events.length > 0) {
+      files.push({
+        path: `${modelDir}/events.ts`,
+        content: generateModelEvents(model, names, events, config),
+      });
+    }
+
     // Generate relations.ts (separate file for relation resolvers)
     if (hasRelations) {
       files.push({
@@ -139,11 +286,26 @@ function generateModelGrouped(
       });
     }
 
-    // Generate aggregations.ts (separate file for aggregate/groupBy)
-    if (available.hasWhereInput) {
+    // Generate aggregations.ts (separate file for aggregate/groupBy/count)
+    if (hasAggregations) {
       files.push({
         path: `${modelDir}/aggregations.ts`,
-        content: generateAggregationsFile(model, available, config),
+        content: generateAggregationsFile(model, names, operations, tenancy, softDelete, config),
+      });
+    }
+
+    // Generate subscriptions.ts (created/updated/deleted, with @gql.subscriptions)
+    if (subscriptions.length > 0) {
+      files.push({
+        path: `${modelDir}/subscriptions.ts`,
+        content: generateSubscriptionsResolver(
+          model,
+          names,
+          subscriptions,
+          tenancy,
+          softDelete,
+          config,
+        ),
       });
     }
   }
@@ -155,18 +317,46 @@ function generateModelGrouped(
       model.name,
       config,
       modelInputTypes.length > 0,
-      available.hasWhereInput,
+      hasAggregations,
       hasRelations,
+      subscriptions.length > 0,
+      events.length > 0,
     ),
   });
 
   return files;
 }
 
+/**
+ * The resolver classes generated for a model, in registration order, and its service
+ */
+function getModelResolvers(modelName: string, files: GeneratedFile[]): ModelResolvers {
+  const resolverFiles: [string, string][] = [
+    ['resolver', 'Resolver'],
+    ['relations', 'RelationsResolver'],
+    ['aggregations', 'AggregateResolver'],
+    ['subscriptions', 'SubscriptionsResolver'],
+  ];
+  const paths = new Set(files.map(f => f.path));
+  return {
+    model: modelName,
+    resolvers: resolverFiles
+      .map(([file, suffix]) => ({
+        className: `${modelName}${suffix}`,
+        filePath: `models/${modelName}/${file}.ts`,
+      }))
+      .filter(resolver => paths.has(resolver.filePath)),
+    service: paths.has(`models/${modelName}/service.ts`)
+      ? { className: `${modelName}Service`, filePath: `models/${modelName}/service.ts` }
+      : undefined,
+  };
+}
+
 function getInputTypesForModel(
   modelName: string,
   dmmf: DMMFDocument,
   allModelNames: Set<string>,
+  unusedInputTypes: Set<string>,
 ): InputType[] {
   const result: InputType[] = [];
   // Match inputs that start with modelName
@@ -174,7 +364,7 @@ function getInputTypesForModel(
 
   for (const [name, inputType] of dmmf.inputTypes) {
     // Check if it starts with modelName
-    if (!name.startsWith(modelName)) continue;
+    if (!name.startsWith(modelName) || unusedInputTypes.has(name)) continue;
 
     // Check it doesn't belong to a longer model name (e.g., ClinicType vs Clinic)
     let belongsToLongerModel = false;
@@ -193,7 +383,7 @@ function getInputTypesForModel(
       result.push(inputType);
     }
   }
-  return result;
+  return result.sort(byName);
 }
 
 // ============ Model ObjectType ============
@@ -214,18 +404,25 @@ function generateModelObjectType(
   const enumTypes = [...new Set(enumFields.map(f => f.type))];
 
   // Check if any field needs to be hidden
-  const hasHiddenField = model.fields.some(f => isHiddenField(f.documentation));
+  const hasHiddenField = model.fields.some(f => f.annotations.omitOutput);
 
   // Imports - paths are relative to models/{ModelName}/model.ts
   const nestjsImports = ['ObjectType', 'Field', 'ID', 'Int', 'Float'];
   if (hasHiddenField) nestjsImports.push('HideField');
   lines.push(`import { ${nestjsImports.join(', ')} } from '@nestjs/graphql';`);
+  const customScalars = getScalarOverrideImports(model);
   const scalarImports: string[] = [];
   if (hasJson) scalarImports.push('GraphQLJSON');
   if (hasBigInt) scalarImports.push('GraphQLBigInt');
+  for (const name of customScalars.get('graphql-scalars') ?? []) {
+    if (!scalarImports.includes(name)) scalarImports.push(name);
+  }
   if (scalarImports.length > 0) {
     lines.push(`import { ${scalarImports.join(', ')} } from 'graphql-scalars';`);
   }
+  for (const [from, names] of customScalars) {
+    if (from !== 'graphql-scalars') lines.push(`import { ${names.join(', ')} } from '${from}';`);
+  }
   // Import GraphQLDecimal from helpers
   if (hasDecimal) {
     lines.push(`import { GraphQLDecimal } from '../../helpers';`);
@@ -238,22 +435,21 @@ function generateModelObjectType(
   // Import related models for the relation field types
   if (relatedModels.length > 0) {
     for (const relatedModel of relatedModels) {
-      lines.push(`import type { ${relatedModel} } from '../${relatedModel}/model';`);
+      const { typeName } = dmmf.getModelMapping(relatedModel)!;
+      lines.push(`import type { ${typeName} } from '../${relatedModel}/model';`);
     }
   }
-  if (enumTypes.length > 0) {
-    lines.push(`import { ${enumTypes.join(', ')} } from '../../enums';`);
-  }
+  lines.push(...importEnums(enumTypes, '../../enums', config));
 
   lines.push('');
 
   // Single class with scalar fields having @Field() and relation fields as plain properties
   // Relations are resolved by @ResolveField() in the relations resolver
-  const className = `${config.typePrefix ?? ''}${model.name}${config.typeSuffix ?? ''}`;
-  const descOption = model.documentation
-    ? `{ description: '${escapeStr(model.documentation)}' }`
-    : '';
-  lines.push(`@ObjectType(${descOption})`);
+  const className = dmmf.getModelMapping(model.name)!.typeName;
+  const objectTypeArgs: string[] = [];
+  if (model.annotations.name) objectTypeArgs.push(`'${model.annotations.name}'`);
+  if (model.description) objectTypeArgs.push(`{ description: '${escapeStr(model.description)}' }`);
+  lines.push(`@ObjectType(${objectTypeArgs.join(', ')})`);
   lines.push(`export class ${className} {`);
 
   // Scalar fields with @Field()
@@ -263,7 +459,7 @@ function generateModelObjectType(
 
   // Relation fields as plain properties (no @Field() - resolved by @ResolveField())
   for (const field of relationFields) {
-    lines.push(generateRelationProperty(field));
+    lines.push(generateRelationProperty(field, dmmf.getModelMapping(field.type)!.typeName));
   }
 
   lines.push('}');
@@ -271,8 +467,7 @@ function generateModelObjectType(
   return lines.join('\n');
 }
 
-function generateRelationProperty(field: ModelField): string {
-  const relatedType = field.type;
+function generateRelationProperty(field: ModelField, relatedType: string): string {
   let propertyType = relatedType;
   if (field.isList) propertyType = `${propertyType}[]`;
   if (!field.isRequired) propertyType = `${propertyType} | null`;
@@ -286,18 +481,21 @@ function generateModelField(
   _dmmf: DMMFDocument,
   _config: GeneratorConfig,
 ): string {
-  const { graphqlType, tsType } = getFieldTypes(field);
+  const { scalar } = field.annotations;
+  const { graphqlType, tsType } = scalar
+    ? { graphqlType: scalar.name, tsType: scalar.tsType ?? getFieldTypes(field).tsType }
+    : getFieldTypes(field);
   const lines: string[] = [];
 
   // Check if the field should be hidden from the GraphQL schema
-  if (isHiddenField(field.documentation)) {
+  if (field.annotations.omitOutput) {
     lines.push(`  @HideField()`);
   } else {
     // Generate @Field() decorator for scalar/enum fields
     const typeArg = field.isList ? `() => [${graphqlType}]` : `() => ${graphqlType}`;
     const options: string[] = [];
     if (!field.isRequired && !field.isList) options.push('nullable: true');
-    if (field.documentation) options.push(`description: '${escapeStr(field.documentation)}'`);
+    if (field.description) options.push(`description: '${escapeStr(field.description)}'`);
     const optionsStr = options.length > 0 ? `, { ${options.join(', ')} }` : '';
     lines.push(`  @Field(${typeArg}${optionsStr})`);
   }
@@ -407,17 +605,23 @@ function generateModelInputs(
     const prismaClientPath = config.prismaClientPath || '@prisma/client';
     lines.push(`import { Prisma } from '${prismaClientPath}';`);
   }
-  if (enumTypes.size > 0) lines.push(`import { ${[...enumTypes].join(', ')} } from '../../enums';`);
+  lines.push(...importEnums(enumTypes, '../../enums', config));
   if (commonInputs.size > 0) {
     lines.push(`import { ${[...commonInputs].join(', ')} } from '../../common/inputs';`);
   }
   for (const [otherModel, types] of modelInputs) {
     lines.push(`import { ${[...types].join(', ')} } from '../${otherModel}/inputs';`);
   }
+
+  const validators: ValidationDecorator[] = [];
+  const classes = inputTypes.map(inputType =>
+    generateInputClass(inputType, dmmf, model.name, allModelNames, config, validators),
+  );
+  lines.push(...renderValidationImports(validators));
   lines.push('');
 
-  for (const inputType of inputTypes) {
-    lines.push(generateInputClass(inputType, dmmf, model.name, allModelNames));
+  for (const inputClass of classes) {
+    lines.push(inputClass);
     lines.push('');
   }
 
@@ -429,25 +633,62 @@ function generateInputClass(
   dmmf: DMMFDocument,
   modelName: string,
   allModelNames: Set<string>,
+  config: GeneratorConfig,
+  validators: ValidationDecorator[],
 ): string {
   const lines: string[] = [];
   lines.push(`@InputType()`);
   lines.push(`export class ${inputType.name} {`);
 
   for (const field of inputType.fields) {
-    lines.push(generateInputField(field, dmmf, inputType.name, modelName, allModelNames));
+    lines.push(
+      generateInputField(field, dmmf, inputType.name, modelName, allModelNames, config, validators),
+    );
   }
 
   lines.push('}');
+  if (config.useValidation) lines.push(...renderValidatedSetClasses(inputType, dmmf, validators));
   return lines.join('\n');
 }
 
+/**
+ * The classes validating the `set` of the update wrappers of an input's fields
+ * with validators (see getValidatedSetClass), after the input class
+ */
+function renderValidatedSetClasses(
+  inputType: InputType,
+  dmmf: DMMFDocument,
+  validators: ValidationDecorator[],
+): string[] {
+  const lines: string[] = [];
+  for (const field of inputType.fields) {
+    const setClass = getValidatedSetClass(field, inputType.name, dmmf);
+    if (!setClass) continue;
+
+    lines.push('');
+    lines.push(
+      `/** Validates ${inputType.name}.${field.name}, whose GraphQL type is ${field.type} */`,
+    );
+    lines.push(`class ${setClass.name} {`);
+    for (const { field: wrapperField, decorators } of setClass.fields) {
+      const { tsType } = getInputFieldTypes(wrapperField, dmmf);
+      lines.push(...renderDecorators(decorators));
+      lines.push(`  ${wrapperField.name}?: ${wrapperField.isList ? `${tsType}[]` : tsType};`);
+      validators.push(...decorators);
+    }
+    lines.push('}');
+  }
+  return lines;
+}
+
 function generateInputField(
-  field: { name: string; type: string; isList: boolean; isRequired: boolean },
+  field: InputField,
   dmmf: DMMFDocument,
   currentTypeName: string,
   _modelName: string,
   _allModelNames: Set<string>,
+  config: GeneratorConfig,
+  validators: ValidationDecorator[],
 ): string {
   const { graphqlType, tsType, isInputObjectType } = getInputFieldTypes(field, dmmf);
   const lines: string[] = [];
@@ -463,6 +704,12 @@ function generateInputField(
   const optionsStr = !field.isRequired ? ', { nullable: true }' : '';
   lines.push(`  @Field(${typeArg}${optionsStr})`);
 
+  if (config.useValidation) {
+    const fieldValidators = getInputFieldValidators(field, currentTypeName, dmmf);
+    lines.push(...renderDecorators(fieldValidators));
+    validators.push(...fieldValidators);
+  }
+
   let propertyType = tsType;
   if (field.isList) propertyType = `${tsType}[]`;
   if (!field.isRequired) propertyType = `${propertyType} | undefined`;
@@ -474,36 +721,6 @@ function generateInputField(
   return lines.join('\n');
 }
 
-/**
- * Find which model owns an input type by checking which model name the input type starts with.
- * Uses longest match to handle cases like City vs CityType correctly.
- */
-function findOwningModel(inputTypeName: string, allModelNames: Set<string>): string | null {
-  let longestMatch: string | null = null;
-  let longestLength = 0;
-
-  for (const modelName of allModelNames) {
-    if (inputTypeName.startsWith(modelName) && modelName.length > longestLength) {
-      // Verify it's a proper prefix (followed by a capital letter or end of known suffix patterns)
-      const remainder = inputTypeName.slice(modelName.length);
-      // Check if the remainder starts with a typical input type suffix pattern
-      // Note: compound unique inputs have pattern like {FieldNames}CompoundUniqueInput
-      if (
-        remainder.length === 0 ||
-        /^(Where|Create|Update|Upsert|Delete|OrderBy|Scalar|List|Nullable|Nested|Unchecked|Count|Avg|Sum|Min|Max|Aggregate|GroupBy|RelationFilter)/.test(
-          remainder,
-        ) ||
-        /CompoundUniqueInput$/.test(remainder)
-      ) {
-        longestMatch = modelName;
-        longestLength = modelName.length;
-      }
-    }
-  }
-
-  return longestMatch;
-}
-
 function getInputFieldTypes(
   field: { type: string },
   dmmf: DMMFDocument,
@@ -524,58 +741,89 @@ function getInputFieldTypes(
 
 // ============ Args ============
 
-function generateModelArgs(model: Model, available: AvailableInputs): string {
-  const lines: string[] = [];
+function generateModelArgs(
+  model: Model,
+  available: AvailableInputs,
+  operations: Set<CrudOperation>,
+  config: GeneratorConfig,
+): string {
   const m = model.name;
 
-  // Imports
-  lines.push(`import { ArgsType, Field, Int } from '@nestjs/graphql';`);
-
-  const inputImports: string[] = [];
-  if (available.hasWhereInput) inputImports.push(`${m}WhereInput`);
-  if (available.hasWhereUniqueInput) inputImports.push(`${m}WhereUniqueInput`);
-  if (available.hasOrderByInput) inputImports.push(`${m}OrderByWithRelationInput`);
-  if (available.hasCreateInput) inputImports.push(`${m}CreateInput`);
-  if (available.hasCreateManyInput) inputImports.push(`${m}CreateManyInput`);
-  if (available.hasUpdateInput) inputImports.push(`${m}UpdateInput`);
-  if (available.hasUpdateManyInput) inputImports.push(`${m}UpdateManyMutationInput`);
-  if (available.hasScalarWhereWithAggregates)
-    inputImports.push(`${m}ScalarWhereWithAggregatesInput`);
+  // Generate args classes
+  const classes: string[] = [];
+  // @gql.softDelete(withDeleted) lets the queries include the deleted records
+  const queryArgs = (args: string) =>
+    model.annotations.softDelete?.withDeleted ? addWithDeletedArg(args) : args;
+  if (operations.has('findMany')) classes.push(queryArgs(generateFindManyArgs(m, available)));
+  if (operations.has('findFirst')) classes.push(queryArgs(generateFindFirstArgs(m, available)));
+  if (operations.has('deleteMany')) classes.push(generateDeleteManyArgs(m));
+  // count reuses the aggregate args
+  if (operations.has('aggregate') || operations.has('count')) {
+    classes.push(queryArgs(generateAggregateArgs(m, available)));
+  }
+  if (operations.has('groupBy')) classes.push(queryArgs(generateGroupByArgs(m, available)));
+  if (operations.has('findUnique')) classes.push(queryArgs(generateFindUniqueArgs(m)));
+  if (operations.has('delete')) classes.push(generateDeleteArgs(m));
+  if (operations.has('create')) classes.push(generateCreateArgs(m));
+  if (operations.has('createMany')) classes.push(generateCreateManyArgs(m));
+  if (operations.has('update')) classes.push(generateUpdateArgs(m));
+  if (operations.has('updateMany')) classes.push(generateUpdateManyArgs(m));
+  if (operations.has('upsert')) classes.push(generateUpsertArgs(m));
+
+  // Import only the inputs the generated classes reference
+  const body = classes.join('\n');
+  const references = (name: string) => new RegExp(`\\b${name}\\b`).test(body);
+  const inputImports = [
+    `${m}WhereInput`,
+    `${m}WhereUniqueInput`,
+    `${m}OrderByWithRelationInput`,
+    `${m}CreateInput`,
+    `${m}CreateManyInput`,
+    `${m}UpdateInput`,
+    `${m}UpdateManyMutationInput`,
+    `${m}ScalarWhereWithAggregatesInput`,
+  ].filter(references);
 
+  const lines: string[] = [];
+  lines.push(`import { ArgsType, Field, Int } from '@nestjs/graphql';`);
   if (inputImports.length > 0) {
     lines.push(`import { ${inputImports.join(', ')} } from './inputs';`);
   }
-  lines.push(`import { ${m}ScalarFieldEnum } from '../../enums';`);
+  if (references(`${m}ScalarFieldEnum`)) {
+    lines.push(...importEnums([`${m}ScalarFieldEnum`], '../../enums', config));
+  }
   lines.push('');
+  lines.push(...classes);
 
-  // Generate args classes
-  if (available.hasWhereInput) {
-    lines.push(generateFindManyArgs(m, available));
-    lines.push(generateFindFirstArgs(m, available));
-    // Only generate delete args for non-read-only models (not views)
-    if (!available.isReadOnly) {
-      lines.push(generateDeleteManyArgs(m));
-    }
-    lines.push(generateAggregateArgs(m, available));
-    lines.push(generateGroupByArgs(m, available));
-  }
-  if (available.hasWhereUniqueInput) {
-    lines.push(generateFindUniqueArgs(m));
-    // Only generate delete args for non-read-only models (not views)
-    if (!available.isReadOnly) {
-      lines.push(generateDeleteArgs(m));
-    }
-  }
-  if (available.hasCreateInput) lines.push(generateCreateArgs(m));
-  if (available.hasCreateManyInput) lines.push(generateCreateManyArgs(m));
-  if (available.hasUpdateInput && available.hasWhereUniqueInput) lines.push(generateUpdateArgs(m));
-  if (available.hasUpdateManyInput && available.hasWhereInput)
-    lines.push(generateUpdateManyArgs(m));
-  if (available.hasCreateInput && available.hasUpdateInput && available.hasWhereUniqueInput) {
-    lines.push(generateUpsertArgs(m));
+  return lines.join('\n');
+}
+
+/**
+ * Insert class-validator decorators below every @Field of the generated args classes
+ */
+function addArgsValidation(content: string, dmmf: DMMFDocument): string {
+  const lines = content.split('\n');
+  const result: string[] = [];
+  const validators: ValidationDecorator[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+    result.push(line);
+
+    const match = /^ {2}@Field\(\(\) => (\[)?(\w+)\]?(, \{ nullable: true \})?\)$/.exec(line);
+    if (!match) continue;
+
+    const isOptional = /^\s+\w+\?:/.test(lines[i + 1] ?? '');
+    const fieldValidators = getArgValidators(match[2]!, match[1] !== undefined, isOptional, dmmf);
+    result.push(...renderDecorators(fieldValidators));
+    validators.push(...fieldValidators);
   }
 
-  return lines.join('\n');
+  // Validation imports go right after the existing import block
+  const importEnd = result.findIndex(l => !l.startsWith('import '));
+  result.splice(importEnd, 0, ...renderValidationImports(validators));
+
+  return result.join('\n');
 }
 
 function generateFindManyArgs(m: string, a: AvailableInputs): string {
@@ -787,200 +1035,461 @@ ${
 `;
 }
 
+/**
+ * Add the `withDeleted` argument to a generated args class
+ */
+function addWithDeletedArg(args: string): string {
+  return args.replace(
+    /\n}\n$/,
+    '\n\n  @Field(() => Boolean, { nullable: true })\n  withDeleted?: boolean;\n}\n',
+  );
+}
+
 // ============ Resolver ============
 
 function generateModelResolver(
   model: Model,
-  ops: AvailableInputs,
+  names: ModelMapping,
+  ops: Set<CrudOperation>,
+  subscriptions: ModelSubscription[],
+  events: ModelEvent[],
+  tenancy: ModelTenancy | undefined,
+  softDelete: ModelSoftDelete | undefined,
+  audit: ModelAudit | undefined,
   config: GeneratorConfig,
 ): string {
   const m = model.name;
-  const lowerName = camelCase(m);
-  const pluralName = pluralize(lowerName);
-  const isAlreadyPlural = pluralName === lowerName;
-  const findManyMethod = isAlreadyPlural ? `findMany${m}` : pluralName;
-  const findUniqueMethod = isAlreadyPlural ? `findUnique${m}` : lowerName;
+  const t = names.typeName;
 
   const lines: string[] = [];
-  const prismaClientPath = config.prismaClientPath || '@prisma/client';
+  const filePath = `models/${m}/resolver.ts`;
+  // The mutations setting audit fields read the user from the context
+  const access = getPrismaAccess(
+    audit ? { ...config, contextUserKey: audit.contextPath } : config,
+    filePath,
+    getModelService(model, config),
+  );
+  const decorate = (target: 'class' | CrudOperation) =>
+    getResolverDecorators(model, config, target);
+  const resolverOps = [...ops].filter(op => !AGGREGATION_OPERATIONS.includes(op));
+  const typed = getTypedOperations(resolverOps, m, t);
 
   // Check if any mutations will be generated (views/read-only models have no mutations)
-  const hasMutations =
-    !ops.isReadOnly &&
-    (ops.hasCreateInput ||
-      ops.hasCreateManyInput ||
-      (ops.hasUpdateInput && ops.hasWhereUniqueInput) ||
-      (ops.hasUpdateManyInput && ops.hasWhereInput) ||
-      ops.hasWhereUniqueInput ||
-      ops.hasWhereInput); // delete operations
+  const mutations: CrudOperation[] = [
+    'create',
+    'createMany',
+    'update',
+    'updateMany',
+    'upsert',
+    'delete',
+    'deleteMany',
+  ];
+  const hasMutations = mutations.some(op => ops.has(op));
 
   // Imports
-  const nestjsImports = ['Resolver', 'Query', 'Args', 'Info', 'Context'];
+  const nestjsImports = ['Resolver', 'Query', 'Args', 'Info'];
+  if (access.contextType) nestjsImports.push('Context');
   if (hasMutations) nestjsImports.push('Mutation');
 
+  const publishes = subscriptions.length > 0;
+  const emits = events.length > 0;
+  if (publishes || emits) lines.push(`import { Inject } from '@nestjs/common';`);
   lines.push(`import { ${nestjsImports.join(', ')} } from '@nestjs/graphql';`);
   lines.push(`import { GraphQLResolveInfo } from 'graphql';`);
-  lines.push(`import { PrismaClient } from '${prismaClientPath}';`);
-  lines.push(`import { ${m} } from './model';`);
+  lines.push(`import { ${t} } from './model';`);
   lines.push(`import { AffectedRows } from '../../common/AffectedRows';`);
-  lines.push(`import { transformInfoIntoPrismaArgs, GraphQLContext } from '../../helpers';`);
+  lines.push(
+    ...renderNamedImports([
+      {
+        moduleSpecifier: '../../helpers',
+        namedImports: [
+          'transformInfoIntoPrismaArgs',
+          ...(publishes || emits ? ['includeScalars'] : []),
+          ...(publishes ? ['GraphQLPubSub', 'PUB_SUB'] : []),
+          ...getScopeHelpers(resolverOps, tenancy),
+          ...(config.generateServices ? [] : getSoftDeleteHelpers(resolverOps, softDelete)),
+          ...(softDelete?.relations ? ['DELETED_FIELDS'] : []),
+          ...getAuditHelpers(resolverOps, audit, softDelete),
+        ],
+      },
+      ...(emits
+        ? [
+            {
+              moduleSpecifier: '../../event-emitter',
+              namedImports: ['MUTATION_EVENT_EMITTER', 'MutationEventEmitter'],
+            },
+            { moduleSpecifier: './events', namedImports: events.map(e => e.className) },
+          ]
+        : []),
+      ...access.imports,
+      ...getDecoratorImports(model, config, ['class', ...resolverOps], filePath),
+    ]),
+  );
 
   const argsImports: string[] = [];
-  if (ops.hasWhereInput) argsImports.push(`FindMany${m}Args`, `FindFirst${m}Args`);
-  if (ops.hasWhereUniqueInput) argsImports.push(`FindUnique${m}Args`);
-  // Only include delete args for non-read-only models
-  if (!ops.isReadOnly && ops.hasWhereInput) argsImports.push(`DeleteMany${m}Args`);
-  if (!ops.isReadOnly && ops.hasWhereUniqueInput) argsImports.push(`Delete${m}Args`);
-  if (ops.hasCreateInput) argsImports.push(`Create${m}Args`);
-  if (ops.hasCreateManyInput) argsImports.push(`CreateMany${m}Args`);
-  if (ops.hasUpdateInput && ops.hasWhereUniqueInput) argsImports.push(`Update${m}Args`);
-  if (ops.hasUpdateManyInput && ops.hasWhereInput) argsImports.push(`UpdateMany${m}Args`);
-  if (ops.hasCreateInput && ops.hasUpdateInput && ops.hasWhereUniqueInput)
-    argsImports.push(`Upsert${m}Args`);
+  if (ops.has('findMany')) argsImports.push(`FindMany${m}Args`);
+  if (ops.has('findFirst')) argsImports.push(`FindFirst${m}Args`);
+  if (ops.has('findUnique')) argsImports.push(`FindUnique${m}Args`);
+  if (ops.has('deleteMany')) argsImports.push(`DeleteMany${m}Args`);
+  if (ops.has('delete')) argsImports.push(`Delete${m}Args`);
+  if (ops.has('create')) argsImports.push(`Create${m}Args`);
+  if (ops.has('createMany')) argsImports.push(`CreateMany${m}Args`);
+  if (ops.has('update')) argsImports.push(`Update${m}Args`);
+  if (ops.has('updateMany')) argsImports.push(`UpdateMany${m}Args`);
+  if (ops.has('upsert')) argsImports.push(`Upsert${m}Args`);
 
   if (argsImports.length > 0) {
     lines.push(`import { ${argsImports.join(', ')} } from './args';`);
   }
 
-  lines.push('');
-  lines.push(`@Resolver(() => ${m})`);
-  lines.push(`export class ${m}Resolver {`);
-
-  // Queries
-  if (ops.hasWhereInput) {
-    lines.push(
+  const methods: string[] = [];
+  const addMethod = (
+    type: 'Query' | 'Mutation',
+    operation: CrudOperation,
+    graphqlReturn: string,
+    nullable = false,
+  ) => {
+    methods.push(
       resolverMethod(
-        'Query',
-        findManyMethod,
-        `FindMany${m}Args`,
-        `[${m}]`,
-        `Promise<${m}[]>`,
-        lowerName,
-        'findMany',
-      ),
-    );
-    lines.push(
-      resolverMethod(
-        'Query',
-        `findFirst${m}`,
-        `FindFirst${m}Args`,
-        `${m}`,
-        `Promise<${m} | null>`,
-        lowerName,
-        'findFirst',
-        true,
+        type,
+        names[operation],
+        typed.find(o => o.operation === operation)!.argsType,
+        graphqlReturn,
+        names,
+        access,
+        decorate(operation),
+        operation,
+        nullable,
+        getPublishedSubscription(subscriptions, operation),
+        events,
+        tenancy,
+        softDelete,
+        audit,
+        config,
       ),
     );
+  };
+
+  // Queries
+  if (ops.has('findMany')) {
+    addMethod('Query', 'findMany', `[${t}]`);
   }
-  if (ops.hasWhereUniqueInput) {
-    lines.push(
-      resolverMethod(
-        'Query',
-        findUniqueMethod,
-        `FindUnique${m}Args`,
-        `${m}`,
-        `Promise<${m} | null>`,
-        lowerName,
-        'findUnique',
-        true,
-      ),
-    );
+  if (ops.has('findFirst')) {
+    addMethod('Query', 'findFirst', t, true);
+  }
+  if (ops.has('findUnique')) {
+    addMethod('Query', 'findUnique', t, true);
   }
 
   // Mutations
-  if (ops.hasCreateInput) {
-    lines.push(
-      resolverMethod(
-        'Mutation',
-        `createOne${m}`,
-        `Create${m}Args`,
-        `${m}`,
-        `Promise<${m}>`,
-        lowerName,
-        'create',
+  if (ops.has('create')) {
+    addMethod('Mutation', 'create', t);
+  }
+  if (ops.has('createMany')) {
+    addMethod('Mutation', 'createMany', 'AffectedRows');
+  }
+  if (ops.has('update')) {
+    addMethod('Mutation', 'update', t, true);
+  }
+  if (ops.has('updateMany')) {
+    addMethod('Mutation', 'updateMany', 'AffectedRows');
+  }
+  if (ops.has('upsert')) {
+    addMethod('Mutation', 'upsert', t);
+  }
+  // Delete mutations - not available on read-only models (views)
+  if (ops.has('delete')) {
+    addMethod('Mutation', 'delete', t, true);
+  }
+  if (ops.has('deleteMany')) {
+    addMethod('Mutation', 'deleteMany', 'AffectedRows');
+  }
+  // Restore mutation - clears the field a soft delete set
+  const restore = getRestoreOperation(typed, softDelete);
+  if (restore) {
+    methods.push(
+      restoreResolverMethod(
+        names,
+        access,
+        decorate('delete'),
+        getPublishedSubscription(subscriptions, 'restore'),
+        events,
+        tenancy,
+        softDelete!,
+        audit,
+        config,
       ),
     );
   }
-  if (ops.hasCreateManyInput) {
+
+  lines.push('');
+  if (config.baseResolvers) {
+    lines.push(`@Resolver({ isAbstract: true })`);
+    lines.push(...decorate('class').map(expression => `@${expression}`));
+    lines.push(`export abstract class ${m}ResolverBase {`);
+    lines.push(...renderConstructor(access, publishes, emits, 'protected'));
     lines.push(
-      resolverMethod(
-        'Mutation',
-        `createMany${m}`,
-        `CreateMany${m}Args`,
-        'AffectedRows',
-        'Promise<AffectedRows>',
-        lowerName,
-        'createMany',
+      ...renderHookMethods(
+        getHookMethods(restore ? [...typed, restore] : typed, access.contextType!),
       ),
     );
+  } else {
+    lines.push(`@Resolver(() => ${t})`);
+    lines.push(...decorate('class').map(expression => `@${expression}`));
+    lines.push(`export class ${m}Resolver {`);
+    lines.push(...renderConstructor(access, publishes, emits));
   }
-  if (ops.hasUpdateInput && ops.hasWhereUniqueInput) {
-    lines.push(
-      resolverMethod(
-        'Mutation',
-        `updateOne${m}`,
-        `Update${m}Args`,
-        `${m}`,
-        `Promise<${m} | null>`,
-        lowerName,
-        'update',
-        true,
-      ),
-    );
+  lines.push(...methods);
+  lines.push('}');
+  if (config.baseResolvers) {
+    lines.push('');
+    lines.push(`@Resolver(() => ${t})`);
+    lines.push(`export class ${m}Resolver extends ${m}ResolverBase {}`);
   }
-  if (ops.hasUpdateManyInput && ops.hasWhereInput) {
-    lines.push(
-      resolverMethod(
-        'Mutation',
-        `updateMany${m}`,
-        `UpdateMany${m}Args`,
-        'AffectedRows',
-        'Promise<AffectedRows>',
-        lowerName,
-        'updateMany',
-      ),
-    );
+  return lines.join('\n');
+}
+
+// ============ Service ============
+
+/**
+ * Generate service.ts: an injectable service running the model's operations,
+ * for the resolvers and any other code of the app
+ */
+function generateModelService(
+  model: Model,
+  names: ModelMapping,
+  ops: Set<CrudOperation>,
+  events: ModelEvent[],
+  softDelete: ModelSoftDelete | undefined,
+  config: GeneratorConfig,
+): string {
+  const m = model.name;
+  const t = names.typeName;
+  const typed = getTypedOperations(ops, m, t);
+  const methods = getServiceMethods(typed, names.delegate, softDelete);
+  const findsExisting = [...ops].some(op => readsExisting(op, events.length > 0));
+  const { serviceType, imports } = getInjectedPrisma(config, `models/${m}/service.ts`);
+  const parameterTypes = new Set(methods.flatMap(method => method.parameters.map(p => p.type)));
+  const resultTypes = typed.map(o => o.resultType);
+
+  const lines: string[] = [];
+  lines.push(`import { Injectable } from '@nestjs/common';`);
+  lines.push(...renderNamedImports(imports));
+  lines.push(`import { ${t} } from './model';`);
+  if (resultTypes.includes('AffectedRows')) {
+    lines.push(`import { AffectedRows } from '../../common/AffectedRows';`);
+  }
+  const helpers = [
+    ...['PrismaSelect', 'PrismaAggregateArgs'].filter(type => parameterTypes.has(type)),
+    ...getSoftDeleteHelpers(ops, softDelete),
+  ];
+  if (helpers.length > 0) {
+    lines.push(`import { ${helpers.join(', ')} } from '../../helpers';`);
   }
-  if (ops.hasCreateInput && ops.hasUpdateInput && ops.hasWhereUniqueInput) {
-    lines.push(
-      resolverMethod(
-        'Mutation',
-        `upsertOne${m}`,
-        `Upsert${m}Args`,
-        `${m}`,
-        `Promise<${m}>`,
-        lowerName,
-        'upsert',
-      ),
-    );
+  const argsTypes = [...new Set(typed.map(o => o.argsType))];
+  if (argsTypes.length > 0) {
+    lines.push(`import { ${argsTypes.join(', ')} } from './args';`);
   }
-  // Delete mutations - only for non-read-only models (not views)
-  if (!ops.isReadOnly && ops.hasWhereUniqueInput) {
-    lines.push(
-      resolverMethod(
-        'Mutation',
-        `deleteOne${m}`,
-        `Delete${m}Args`,
-        `${m}`,
-        `Promise<${m} | null>`,
-        lowerName,
-        'delete',
-        true,
-      ),
-    );
+  if (findsExisting) lines.push(`import { ${m}WhereUniqueInput } from './inputs';`);
+  // Only used as types, and aggregations.ts imports this file
+  const aggregateTypes = [`Aggregate${m}`, `${m}GroupBy`].filter(type =>
+    resultTypes.some(resultType => resultType.startsWith(type)),
+  );
+  if (aggregateTypes.length > 0) {
+    lines.push(`import type { ${aggregateTypes.join(', ')} } from './aggregations';`);
+  }
+
+  lines.push('');
+  lines.push('/**');
+  lines.push(` * Operations on ${m}. Resolvers pass the selection of the GraphQL query;`);
+  lines.push(' * other callers can pass their own or leave it out.');
+  lines.push(' */');
+  lines.push('@Injectable()');
+  lines.push(`export class ${m}Service {`);
+  lines.push(`  constructor(private readonly prisma: ${serviceType}) {}`);
+  lines.push(...renderServiceMethods(methods));
+  if (findsExisting) {
+    lines.push('');
+    lines.push('  /** The record `where` points at, read by updates for their events */');
+    lines.push(`  async findExisting(where: ${m}WhereUniqueInput): Promise<${t} | null> {`);
+    lines.push(`    return this.prisma.${names.delegate}.findUnique({ where } as any);`);
+    lines.push('  }');
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * The methods of a model service, as class members
+ */
+function renderServiceMethods(methods: ServiceMethod[]): string[] {
+  const lines: string[] = [];
+  for (const method of methods) {
+    const params = method.parameters
+      .map(p => `${p.name}: ${p.type}${p.initializer ? ` = ${p.initializer}` : ''}`)
+      .join(', ');
+    lines.push('');
+    lines.push(`  async ${method.name}(${params}): ${method.returnType} {`);
+    lines.push(...method.statements.map(statement => `    ${statement}`));
+    lines.push('  }');
   }
-  if (!ops.isReadOnly && ops.hasWhereInput) {
+  return lines;
+}
+
+// ============ Events ============
+
+/**
+ * Generate events.ts: the typed events the mutation resolvers emit, each with
+ * the name it is emitted under as `eventName`
+ */
+function generateModelEvents(
+  model: Model,
+  names: ModelMapping,
+  events: ModelEvent[],
+  config: GeneratorConfig,
+): string {
+  const m = model.name;
+  const { imports } = getEventContext(config, `models/${m}/events.ts`);
+  const argsTypes = events.flatMap(event => (event.argsType ? [event.argsType] : []));
+
+  const lines: string[] = [];
+  lines.push(`import { ${names.typeName} } from './model';`);
+  if (argsTypes.length > 0) lines.push(`import { ${argsTypes.join(', ')} } from './args';`);
+  lines.push(...renderNamedImports(imports));
+  for (const event of events) {
+    lines.push('');
+    lines.push('/**');
+    lines.push(` * ${event.doc}`);
+    lines.push(' */');
+    lines.push(`export class ${event.className} {`);
+    lines.push(`  static readonly eventName = '${event.eventName}';`);
+    lines.push('');
+    lines.push('  constructor(');
+    lines.push(...event.properties.map(p => `    readonly ${p.name}: ${p.type},`));
+    lines.push('  ) {}');
+    lines.push('}');
+  }
+  return lines.join('\n');
+}
+
+// ============ Subscriptions ============
+
+/**
+ * Generate subscriptions.ts: created/updated/deleted subscriptions listening on
+ * the PubSub the mutation resolvers publish to, with a `where` filter evaluated
+ * against the published record
+ */
+function generateSubscriptionsResolver(
+  model: Model,
+  names: ModelMapping,
+  subscriptions: ModelSubscription[],
+  tenancy: ModelTenancy | undefined,
+  softDelete: ModelSoftDelete | undefined,
+  config: GeneratorConfig,
+): string {
+  const m = model.name;
+  const t = names.typeName;
+  const className = `${m}SubscriptionsResolver`;
+  const filePath = `models/${m}/subscriptions.ts`;
+  // There are no hooks or events here, so the context is only read for the client
+  const access = getPrismaAccess(
+    { ...config, baseResolvers: false, generateEvents: false },
+    filePath,
+  );
+  const key = getRecordKey(model);
+  const refetches = key !== undefined && subscriptions.some(s => s.event !== 'deleted');
+  const decorators = getResolverDecorators(model, config, 'class');
+  // Scoped models filter the events on the tenant, refetches keep their relations to it
+  const scopesEvents = !!tenancy?.scoped;
+  const readsContext = scopesEvents || (refetches && tenancy !== undefined);
+
+  const lines: string[] = [];
+  lines.push(`import { Inject } from '@nestjs/common';`);
+  lines.push(`import { Args, Resolver, Subscription } from '@nestjs/graphql';`);
+  if (refetches) lines.push(`import { GraphQLResolveInfo } from 'graphql';`);
+  lines.push(`import { ${t} } from './model';`);
+  lines.push(`import { ${m}WhereInput } from './inputs';`);
+  lines.push(
+    ...renderNamedImports([
+      {
+        moduleSpecifier: '../../helpers',
+        namedImports: [
+          'GraphQLPubSub',
+          'PUB_SUB',
+          'matchesWhere',
+          ...(refetches ? ['transformInfoIntoPrismaArgs'] : []),
+          ...(refetches && softDelete?.relations ? ['DELETED_FIELDS'] : []),
+          ...(readsContext ? ['getTenantScope'] : []),
+          ...(scopesEvents ? ['scopeWhere'] : []),
+        ],
+      },
+      ...(refetches || readsContext ? access.imports : []),
+      ...getDecoratorImports(model, config, ['class'], filePath),
+    ]),
+  );
+
+  lines.push('');
+  lines.push(`@Resolver(() => ${t})`);
+  lines.push(...decorators.map(expression => `@${expression}`));
+  lines.push(`export class ${className} {`);
+  const params = [`@Inject(PUB_SUB) private readonly pubSub: GraphQLPubSub`];
+  if (refetches && access.serviceType) {
+    params.push(`private readonly ${access.serviceName}: ${access.serviceType}`);
+  }
+  if (params.length === 1) {
+    lines.push(`  constructor(${params[0]}) {}`);
+  } else {
+    lines.push('  constructor(', ...params.map(param => `    ${param},`), '  ) {}');
+  }
+
+  for (const subscription of subscriptions) {
+    const resolveStatements = getResolveStatements(
+      subscription,
+      key,
+      access.client,
+      names.delegate,
+      renderSelectCall(m, 'findUnique', tenancy, softDelete),
+    );
+    const statements =
+      tenancy && resolveStatements.length > 1
+        ? [`const scope = ${getTenantScopeCall(tenancy)};`, ...resolveStatements]
+        : resolveStatements;
+    lines.push('');
+    lines.push(`  @Subscription(() => ${t}, {`);
+    if (scopesEvents) {
+      lines.push(
+        `    filter: (payload: ${t}, variables: { where?: ${m}WhereInput }, ctx: ${access.contextType}) =>`,
+      );
+      lines.push(
+        `      matchesWhere(payload, scopeWhere(variables.where, ${getTenantScopeCall(tenancy!)})),`,
+      );
+    } else {
+      lines.push(`    filter: (payload: ${t}, variables: { where?: ${m}WhereInput }) =>`);
+      lines.push('      matchesWhere(payload, variables.where),');
+    }
+    if (statements.length === 1) {
+      lines.push(`    resolve: (payload: ${t}) => payload,`);
+    } else {
+      const clientOnContext = access.client.startsWith('ctx.');
+      const usesContext = clientOnContext || tenancy !== undefined;
+      lines.push('    resolve(');
+      if (!clientOnContext) lines.push(`      this: ${className},`);
+      lines.push(`      payload: ${t},`);
+      lines.push('      _args: unknown,');
+      lines.push(usesContext ? `      ctx: ${access.contextType},` : '      _ctx: unknown,');
+      lines.push('      info: GraphQLResolveInfo,');
+      lines.push('    ) {');
+      lines.push(...statements.map(statement => `      ${statement}`));
+      lines.push('    },');
+    }
+    lines.push('  })');
+    lines.push(`  ${subscription.name}(`);
     lines.push(
-      resolverMethod(
-        'Mutation',
-        `deleteMany${m}`,
-        `DeleteMany${m}Args`,
-        'AffectedRows',
-        'Promise<AffectedRows>',
-        lowerName,
-        'deleteMany',
-      ),
+      `    @Args('where', { type: () => ${m}WhereInput, nullable: true }) _where?: ${m}WhereInput,`,
     );
+    lines.push('  ) {');
+    lines.push(`    return this.pubSub.asyncIterableIterator<${t}>('${subscription.name}');`);
+    lines.push('  }');
   }
 
   lines.push('}');
@@ -995,19 +1504,21 @@ function generateRelationsResolver(
   dmmf: DMMFDocument,
 ): string {
   const m = model.name;
-  const relationFields = model.fields.filter(f => isRelationField(f));
+  const typeNameOf = (modelName: string) => dmmf.getModelMapping(modelName)!.typeName;
+  // Hidden relations are not part of the object type, so they get no field resolver
+  const relationFields = model.fields.filter(f => isRelationField(f) && !f.annotations.omitOutput);
   const listRelations = relationFields.filter(f => f.isList);
 
   const lines: string[] = [];
 
   // Imports
   lines.push(`import { Resolver, ResolveField, Parent, Args, Int } from '@nestjs/graphql';`);
-  lines.push(`import { ${m} } from './model';`);
+  lines.push(`import { ${typeNameOf(m)} } from './model';`);
 
   // Import related model types for return types
   const relatedModelsToImport = new Set(relationFields.map(f => f.type).filter(t => t !== m));
   for (const relatedModel of relatedModelsToImport) {
-    lines.push(`import { ${relatedModel} } from '../${relatedModel}/model';`);
+    lines.push(`import { ${typeNameOf(relatedModel)} } from '../${relatedModel}/model';`);
   }
 
   // Import related input types for @ResolveField() arguments
@@ -1036,7 +1547,7 @@ function generateRelationsResolver(
   }
 
   lines.push('');
-  lines.push(`@Resolver(() => ${m})`);
+  lines.push(`@Resolver(() => ${typeNameOf(m)})`);
   lines.push(`export class ${m}RelationsResolver {`);
 
   // Add @ResolveField() methods for ALL relation fields
@@ -1044,12 +1555,12 @@ function generateRelationsResolver(
     const relatedModelName = field.type;
     const fieldName = field.name;
     const isList = field.isList;
-    const relatedType = `${relatedModelName}`;
+    const relatedType = typeNameOf(relatedModelName);
     const returnTypeExpr = isList ? `[${relatedType}]` : relatedType;
     const nullable = !field.isRequired;
 
     // Build parameters
-    const params: string[] = [`@Parent() parent: ${m}`];
+    const params: string[] = [`@Parent() parent: ${typeNameOf(m)}`];
 
     // Only list relations get filtering/pagination args
     if (isList) {
@@ -1091,44 +1602,280 @@ function resolverMethod(
   methodName: string,
   argsType: string,
   graphqlReturn: string,
-  _tsReturn: string,
-  prismaModel: string,
-  prismaMethod: string,
-  nullable = false,
+  names: ModelMapping,
+  access: PrismaAccess,
+  decorators: string[],
+  prismaMethod: CrudOperation,
+  nullable: boolean,
+  published: ModelSubscription | undefined,
+  events: ModelEvent[],
+  tenancy: ModelTenancy | undefined,
+  softDelete: ModelSoftDelete | undefined,
+  audit: ModelAudit | undefined,
+  config: GeneratorConfig,
 ): string {
   const nullableOpt = nullable ? ', { nullable: true }' : '';
-  // Extract the model name from prismaModel (e.g., 'user' -> 'User')
-  const modelName = prismaModel.charAt(0).toUpperCase() + prismaModel.slice(1);
+  const querySelect = renderSelectCall(names.model, prismaMethod, tenancy, softDelete);
+  const selectCall =
+    published || emitsRecord(prismaMethod, events) ? getRecordSelectCall(querySelect) : querySelect;
+  // Soft deleted models set their field instead of deleting
+  const { method, data } = getSoftDeleteCall(prismaMethod, softDelete, audit);
+  const body = beforeReturn(
+    [
+      ...getScopeStatements(prismaMethod, tenancy),
+      ...getAuditStatements(prismaMethod, audit, softDelete),
+      ...(config.generateServices
+        ? getServiceCall(prismaMethod, access.client, selectCall, data)
+        : [
+            ...getSoftDeleteStatements(prismaMethod, softDelete),
+            `const select = ${selectCall};`,
+            `return ${access.client}.${names.delegate}.${method}({ ...args${data ? `, data: ${data}` : ''}, ...select } as any);`,
+          ]),
+    ],
+    getExistingLookup(
+      prismaMethod,
+      events,
+      access.client,
+      names.delegate,
+      !!config.generateServices,
+    ),
+  );
+  const effects = [
+    ...(published ? [getPublishStatement(published.name)] : []),
+    ...getEmitStatements(prismaMethod, events),
+  ];
   return `
   @${type}(() => ${graphqlReturn}${nullableOpt})
-  async ${methodName}(
-    @Context() ctx: GraphQLContext<PrismaClient>,
-    @Info() info: GraphQLResolveInfo,
+${renderMethodDecorators(decorators)}  async ${methodName}(
+${renderContextParam(access)}    @Info() info: GraphQLResolveInfo,
     @Args() args: ${argsType},
   ) {
-    const select = transformInfoIntoPrismaArgs(info, '${modelName}');
-    return ctx.prisma.${prismaModel}.${prismaMethod}({ ...args, ...select } as any);
+${renderBody(withReturnedRecord(config.baseResolvers ? wrapWithHooks(prismaMethod, body) : body, effects))}
+  }
+`;
+}
+
+/**
+ * The restore mutation of a soft deleted model, clearing the field its delete
+ * mutation sets. It takes the delete args and goes through the hooks and
+ * effects of an update.
+ */
+function restoreResolverMethod(
+  names: ModelMapping,
+  access: PrismaAccess,
+  decorators: string[],
+  published: ModelSubscription | undefined,
+  events: ModelEvent[],
+  tenancy: ModelTenancy | undefined,
+  softDelete: ModelSoftDelete,
+  audit: ModelAudit | undefined,
+  config: GeneratorConfig,
+): string {
+  const restoreEvents = getRestoreEvents(events);
+  const querySelect = renderSelectCall(names.model, 'update', tenancy, softDelete);
+  const selectCall =
+    published || emitsRecord('restore', restoreEvents)
+      ? getRecordSelectCall(querySelect)
+      : querySelect;
+  const { data } = getSoftDeleteCall('restore', softDelete, audit);
+  const body = beforeReturn(
+    [
+      ...getScopeStatements('delete', tenancy),
+      ...getAuditStatements('restore', audit, softDelete),
+      ...(config.generateServices
+        ? getServiceCall('restore', access.client, selectCall, data)
+        : [
+            `const select = ${selectCall};`,
+            `return ${getRestoreCall(`${access.client}.${names.delegate}`, softDelete.records!, 'select', data!)};`,
+          ]),
+    ],
+    getExistingLookup(
+      'restore',
+      restoreEvents,
+      access.client,
+      names.delegate,
+      !!config.generateServices,
+    ),
+  );
+  const effects = [
+    ...(published ? [getPublishStatement(published.name)] : []),
+    ...getEmitStatements('restore', restoreEvents),
+  ];
+  return `
+  @Mutation(() => ${names.typeName}, { nullable: true })
+${renderMethodDecorators(decorators)}  async ${getRestoreName(names.delete)}(
+${renderContextParam(access)}    @Info() info: GraphQLResolveInfo,
+    @Args() args: Delete${names.model}Args,
+  ) {
+${renderBody(withReturnedRecord(config.baseResolvers ? wrapWithHooks('restore', body) : body, effects))}
   }
 `;
 }
 
+/**
+ * The transformInfoIntoPrismaArgs call building the selection of an
+ * operation, with the tenant its list relations keep to and the soft deleted
+ * models they leave the deleted records of out
+ */
+function renderSelectCall(
+  modelName: string,
+  operation: CrudOperation,
+  tenancy: ModelTenancy | undefined,
+  softDelete: ModelSoftDelete | undefined,
+): string {
+  const options = [
+    ...(scopesRelations(operation, tenancy) ? ['relationScope: scope'] : []),
+    ...(softDelete?.relations ? ['deletedFields: DELETED_FIELDS'] : []),
+  ];
+  return options.length > 0
+    ? `transformInfoIntoPrismaArgs(info, '${modelName}', { ${options.join(', ')} })`
+    : `transformInfoIntoPrismaArgs(info, '${modelName}')`;
+}
+
+/**
+ * The operations of a model with the args and result types of the grouped output
+ */
+function getTypedOperations(ops: Iterable<CrudOperation>, m: string, t: string): TypedOperation[] {
+  const types: Record<CrudOperation, [argsType: string, resultType: string]> = {
+    findMany: [`FindMany${m}Args`, `${t}[]`],
+    findFirst: [`FindFirst${m}Args`, `${t} | null`],
+    findUnique: [`FindUnique${m}Args`, `${t} | null`],
+    create: [`Create${m}Args`, t],
+    createMany: [`CreateMany${m}Args`, 'AffectedRows'],
+    update: [`Update${m}Args`, `${t} | null`],
+    updateMany: [`UpdateMany${m}Args`, 'AffectedRows'],
+    upsert: [`Upsert${m}Args`, t],
+    delete: [`Delete${m}Args`, `${t} | null`],
+    deleteMany: [`DeleteMany${m}Args`, 'AffectedRows'],
+    aggregate: [`Aggregate${m}Args`, `Aggregate${m}`],
+    groupBy: [`GroupBy${m}Args`, `${m}GroupBy[]`],
+    count: [`Aggregate${m}Args`, 'number'],
+  };
+  return [...ops].map(operation => {
+    const [argsType, resultType] = types[operation];
+    return { operation, argsType, resultType };
+  });
+}
+
+/**
+ * The generated service the resolvers of a model delegate to, with `generateServices`
+ */
+function getModelService(
+  model: Model,
+  config: GeneratorConfig,
+): { className: string; modulePath: string } | undefined {
+  return config.generateServices
+    ? { className: `${model.name}Service`, modulePath: `./models/${model.name}/service` }
+    : undefined;
+}
+
+/**
+ * Indent the statements of a resolver method body
+ */
+function renderBody(statements: string[]): string {
+  return statements.map(line => `    ${line}`).join('\n');
+}
+
+/**
+ * The overridable hooks of a base resolver, as class members
+ */
+function renderHookMethods(hooks: HookMethod[]): string[] {
+  const lines: string[] = [];
+  for (const hook of hooks) {
+    const typeParams = hook.typeParameters.length > 0 ? `<${hook.typeParameters.join(', ')}>` : '';
+    const params = hook.parameters.map(p => `${p.name}: ${p.type}`).join(', ');
+    const signature = `  protected async ${hook.name}${typeParams}(${params}): ${hook.returnType}`;
+    lines.push('');
+    lines.push(`  /** ${hook.doc} */`);
+    if (hook.statements.length === 0) {
+      lines.push(`${signature} {}`);
+    } else {
+      lines.push(`${signature} {`);
+      lines.push(...hook.statements.map(statement => `    ${statement}`));
+      lines.push('  }');
+    }
+  }
+  return lines;
+}
+
+/**
+ * The `@Context()` parameter line of a resolver method, when the Prisma
+ * client is read from the context
+ */
+function renderContextParam(access: PrismaAccess): string {
+  return access.contextType ? `    @Context() ctx: ${access.contextType},\n` : '';
+}
+
+/**
+ * Configured decorator lines of a resolver method
+ */
+function renderMethodDecorators(decorators: string[]): string {
+  return decorators.map(expression => `  @${expression}\n`).join('');
+}
+
+/**
+ * The resolver constructor, when the Prisma client or the model service is
+ * injected, or the resolver publishes to subscriptions or emits events
+ */
+function renderConstructor(
+  access: PrismaAccess,
+  publishes: boolean,
+  emits: boolean,
+  scope: 'private' | 'protected' = 'private',
+): string[] {
+  const params: string[] = [];
+  if (access.serviceType) {
+    params.push(`${scope} readonly ${access.serviceName}: ${access.serviceType}`);
+  }
+  if (publishes) params.push(`@Inject(PUB_SUB) ${scope} readonly pubSub: GraphQLPubSub`);
+  if (emits) {
+    params.push(`@Inject(MUTATION_EVENT_EMITTER) ${scope} readonly events: MutationEventEmitter`);
+  }
+
+  if (params.length === 0) return [];
+  if (params.length === 1) return [`  constructor(${params[0]}) {}`];
+  return ['  constructor(', ...params.map(param => `    ${param},`), '  ) {}'];
+}
+
+function renderNamedImports(imports: NamedImports[]): string[] {
+  return mergeImports(imports).map(
+    ({ moduleSpecifier, namedImports }) =>
+      `import { ${namedImports.join(', ')} } from '${moduleSpecifier}';`,
+  );
+}
+
 // ============ Aggregations ============
 
 function generateAggregationsFile(
   model: Model,
-  _ops: AvailableInputs,
+  names: ModelMapping,
+  ops: Set<CrudOperation>,
+  tenancy: ModelTenancy | undefined,
+  softDelete: ModelSoftDelete | undefined,
   config: GeneratorConfig,
 ): string {
   const m = model.name;
-  const lowerName = camelCase(m);
+  // Aggregate result types are shared by aggregate and groupBy
+  const hasAggregateTypes = ops.has('aggregate') || ops.has('groupBy');
   const lines: string[] = [];
   const prismaClientPath = config.prismaClientPath || '@prisma/client';
+  const filePath = `models/${m}/aggregations.ts`;
+  // Aggregations emit no events, so only their hooks take the context
+  const access = getPrismaAccess(
+    { ...config, generateEvents: false },
+    filePath,
+    getModelService(model, config),
+  );
+  const aggregationOps = AGGREGATION_OPERATIONS.filter(op => ops.has(op));
+  const decorate = (target: 'class' | CrudOperation) =>
+    getResolverDecorators(model, config, target);
 
-  // Get numeric and string fields for aggregation
-  const numericFields = model.fields.filter(
+  // Get numeric and string fields for aggregation, leaving out hidden fields
+  const visibleFields = model.fields.filter(f => !f.annotations.omitOutput);
+  const numericFields = visibleFields.filter(
     f => isScalarField(f) && ['Int', 'Float', 'BigInt', 'Decimal'].includes(f.type),
   );
-  const allScalarFields = model.fields.filter(f => isScalarField(f) && !isRelationField(f));
+  const allScalarFields = visibleFields.filter(f => isScalarField(f) && !isRelationField(f));
 
   // Check what types are needed for imports
   const hasIdField = allScalarFields.some(f => f.isId);
@@ -1142,22 +1889,17 @@ function generateAggregationsFile(
     'Query',
     'Args',
     'Info',
-    'Context',
     'ObjectType',
     'Field',
     'Int',
     'Float',
   ];
   if (hasIdField) nestjsImports.push('ID');
+  if (access.contextType) nestjsImports.push('Context');
 
   // Imports
   lines.push(`import { ${nestjsImports.join(', ')} } from '@nestjs/graphql';`);
   lines.push(`import { GraphQLResolveInfo } from 'graphql';`);
-  if (hasDecimal) {
-    lines.push(`import { PrismaClient, Prisma } from '${prismaClientPath}';`);
-  } else {
-    lines.push(`import { PrismaClient } from '${prismaClientPath}';`);
-  }
 
   // graphql-scalars imports
   const scalarImports: string[] = [];
@@ -1168,14 +1910,168 @@ function generateAggregationsFile(
   }
 
   // Import from helpers (include GraphQLDecimal if needed)
-  const helpersImports = ['transformInfoIntoPrismaAggregateArgs', 'GraphQLContext'];
+  const helpersImports = ['transformInfoIntoPrismaAggregateArgs'];
   if (hasDecimal) {
     helpersImports.push('GraphQLDecimal');
   }
-  lines.push(`import { ${helpersImports.join(', ')} } from '../../helpers';`);
-  lines.push(`import { Aggregate${m}Args, GroupBy${m}Args } from './args';`);
+  helpersImports.push(...getScopeHelpers(aggregationOps, tenancy));
+  if (!config.generateServices) {
+    helpersImports.push(...getSoftDeleteHelpers(aggregationOps, softDelete));
+  }
+  lines.push(
+    ...renderNamedImports([
+      { moduleSpecifier: '../../helpers', namedImports: helpersImports },
+      ...access.imports,
+      ...(hasDecimal ? [{ moduleSpecifier: prismaClientPath, namedImports: ['Prisma'] }] : []),
+      ...getDecoratorImports(model, config, ['class', ...aggregationOps], filePath),
+    ]),
+  );
+  const argsImports: string[] = [];
+  if (ops.has('aggregate') || ops.has('count')) argsImports.push(`Aggregate${m}Args`);
+  if (ops.has('groupBy')) argsImports.push(`GroupBy${m}Args`);
+  lines.push(`import { ${argsImports.join(', ')} } from './args';`);
   lines.push('');
 
+  if (hasAggregateTypes) {
+    lines.push(...generateAggregateTypes(model, allScalarFields, numericFields));
+  }
+
+  // Generate GroupBy result type
+  if (ops.has('groupBy')) {
+    lines.push(`@ObjectType()`);
+    lines.push(`export class ${m}GroupBy {`);
+    // Include all scalar fields as potential grouping fields
+    for (const field of allScalarFields) {
+      const { graphqlType, tsType } = getFieldTypes(field);
+      const nullable = !field.isRequired;
+      lines.push(`  @Field(() => ${graphqlType}, { nullable: ${nullable} })`);
+      lines.push(`  ${field.name}${nullable ? '?' : '!'}: ${tsType}${nullable ? ' | null' : ''};`);
+      lines.push('');
+    }
+    // Aggregate fields on groupBy
+    lines.push(`  @Field(() => ${m}CountAggregate, { nullable: true })`);
+    lines.push(`  _count?: ${m}CountAggregate;`);
+    lines.push('');
+    if (numericFields.length > 0) {
+      lines.push(`  @Field(() => ${m}AvgAggregate, { nullable: true })`);
+      lines.push(`  _avg?: ${m}AvgAggregate;`);
+      lines.push('');
+      lines.push(`  @Field(() => ${m}SumAggregate, { nullable: true })`);
+      lines.push(`  _sum?: ${m}SumAggregate;`);
+      lines.push('');
+    }
+    lines.push(`  @Field(() => ${m}MinAggregate, { nullable: true })`);
+    lines.push(`  _min?: ${m}MinAggregate;`);
+    lines.push('');
+    lines.push(`  @Field(() => ${m}MaxAggregate, { nullable: true })`);
+    lines.push(`  _max?: ${m}MaxAggregate;`);
+    lines.push(`}`);
+    lines.push('');
+  }
+
+  // Generate Aggregation Resolver
+  const typed = getTypedOperations(
+    AGGREGATION_OPERATIONS.filter(op => ops.has(op)),
+    m,
+    names.typeName,
+  );
+  const body = (operation: CrudOperation, statements: string[]) => {
+    const delegated = [
+      ...getScopeStatements(operation, tenancy),
+      ...(config.generateServices
+        ? getServiceCall(operation, access.client, '')
+        : [...getSoftDeleteStatements(operation, softDelete), ...statements]),
+    ];
+    return renderBody(config.baseResolvers ? wrapWithHooks(operation, delegated) : delegated);
+  };
+
+  if (config.baseResolvers) {
+    lines.push(`@Resolver({ isAbstract: true })`);
+    lines.push(...decorate('class').map(expression => `@${expression}`));
+    lines.push(`export abstract class ${m}AggregateResolverBase {`);
+    lines.push(...renderConstructor(access, false, false, 'protected'));
+    lines.push(...renderHookMethods(getHookMethods(typed, access.contextType!)));
+  } else {
+    lines.push(`@Resolver()`);
+    lines.push(...decorate('class').map(expression => `@${expression}`));
+    lines.push(`export class ${m}AggregateResolver {`);
+    lines.push(...renderConstructor(access, false, false));
+  }
+
+  // Aggregate query
+  if (ops.has('aggregate')) {
+    lines.push('');
+    lines.push(`  @Query(() => Aggregate${m})`);
+    lines.push(...decorate('aggregate').map(expression => `  @${expression}`));
+    lines.push(`  async ${names.aggregate}(`);
+    if (access.contextType) lines.push(`    @Context() ctx: ${access.contextType},`);
+    lines.push(`    @Info() info: GraphQLResolveInfo,`);
+    lines.push(`    @Args() args: Aggregate${m}Args,`);
+    lines.push(`  ) {`);
+    lines.push(
+      body('aggregate', [
+        `const aggregateArgs = transformInfoIntoPrismaAggregateArgs(info);`,
+        `return ${access.client}.${names.delegate}.aggregate({ ...args, ...aggregateArgs } as any);`,
+      ]),
+    );
+    lines.push(`  }`);
+  }
+
+  // GroupBy query
+  if (ops.has('groupBy')) {
+    lines.push('');
+    lines.push(`  @Query(() => [${m}GroupBy])`);
+    lines.push(...decorate('groupBy').map(expression => `  @${expression}`));
+    lines.push(`  async ${names.groupBy}(`);
+    if (access.contextType) lines.push(`    @Context() ctx: ${access.contextType},`);
+    lines.push(`    @Info() info: GraphQLResolveInfo,`);
+    lines.push(`    @Args() args: GroupBy${m}Args,`);
+    lines.push(`  ) {`);
+    lines.push(
+      body('groupBy', [
+        `const aggregateArgs = transformInfoIntoPrismaAggregateArgs(info);`,
+        `return ${access.client}.${names.delegate}.groupBy({ ...args, ...aggregateArgs } as any);`,
+      ]),
+    );
+    lines.push(`  }`);
+  }
+
+  // Count query
+  if (ops.has('count')) {
+    lines.push('');
+    lines.push(`  @Query(() => Int)`);
+    lines.push(...decorate('count').map(expression => `  @${expression}`));
+    lines.push(`  async ${names.count}(`);
+    if (access.contextType) lines.push(`    @Context() ctx: ${access.contextType},`);
+    lines.push(`    @Args() args: Aggregate${m}Args,`);
+    lines.push(`  ) {`);
+    lines.push(
+      body('count', [`return ${access.client}.${names.delegate}.count({ where: args.where });`]),
+    );
+    lines.push(`  }`);
+  }
+
+  lines.push(`}`);
+  if (config.baseResolvers) {
+    lines.push('');
+    lines.push(`@Resolver()`);
+    lines.push(`export class ${m}AggregateResolver extends ${m}AggregateResolverBase {}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Generate the Count/Avg/Sum/Min/Max aggregate types and the Aggregate result type
+ */
+function generateAggregateTypes(
+  model: Model,
+  allScalarFields: ModelField[],
+  numericFields: ModelField[],
+): string[] {
+  const m = model.name;
+  const lines: string[] = [];
+
   // Generate Count aggregate type
   lines.push(`@ObjectType()`);
   lines.push(`export class ${m}CountAggregate {`);
@@ -1269,78 +2165,7 @@ function generateAggregationsFile(
   lines.push(`}`);
   lines.push('');
 
-  // Generate GroupBy result type
-  lines.push(`@ObjectType()`);
-  lines.push(`export class ${m}GroupBy {`);
-  // Include all scalar fields as potential grouping fields
-  for (const field of allScalarFields) {
-    const { graphqlType, tsType } = getFieldTypes(field);
-    const nullable = !field.isRequired;
-    lines.push(`  @Field(() => ${graphqlType}, { nullable: ${nullable} })`);
-    lines.push(`  ${field.name}${nullable ? '?' : '!'}: ${tsType}${nullable ? ' | null' : ''};`);
-    lines.push('');
-  }
-  // Aggregate fields on groupBy
-  lines.push(`  @Field(() => ${m}CountAggregate, { nullable: true })`);
-  lines.push(`  _count?: ${m}CountAggregate;`);
-  lines.push('');
-  if (numericFields.length > 0) {
-    lines.push(`  @Field(() => ${m}AvgAggregate, { nullable: true })`);
-    lines.push(`  _avg?: ${m}AvgAggregate;`);
-    lines.push('');
-    lines.push(`  @Field(() => ${m}SumAggregate, { nullable: true })`);
-    lines.push(`  _sum?: ${m}SumAggregate;`);
-    lines.push('');
-  }
-  lines.push(`  @Field(() => ${m}MinAggregate, { nullable: true })`);
-  lines.push(`  _min?: ${m}MinAggregate;`);
-  lines.push('');
-  lines.push(`  @Field(() => ${m}MaxAggregate, { nullable: true })`);
-  lines.push(`  _max?: ${m}MaxAggregate;`);
-  lines.push(`}`);
-  lines.push('');
-
-  // Generate Aggregation Resolver
-  lines.push(`@Resolver()`);
-  lines.push(`export class ${m}AggregateResolver {`);
-  lines.push('');
-
-  // Aggregate query
-  lines.push(`  @Query(() => Aggregate${m})`);
-  lines.push(`  async aggregate${m}(`);
-  lines.push(`    @Context() ctx: GraphQLContext<PrismaClient>,`);
-  lines.push(`    @Info() info: GraphQLResolveInfo,`);
-  lines.push(`    @Args() args: Aggregate${m}Args,`);
-  lines.push(`  ) {`);
-  lines.push(`    const aggregateArgs = transformInfoIntoPrismaAggregateArgs(info);`);
-  lines.push(`    return ctx.prisma.${lowerName}.aggregate({ ...args, ...aggregateArgs } as any);`);
-  lines.push(`  }`);
-  lines.push('');
-
-  // GroupBy query
-  lines.push(`  @Query(() => [${m}GroupBy])`);
-  lines.push(`  async groupBy${m}(`);
-  lines.push(`    @Context() ctx: GraphQLContext<PrismaClient>,`);
-  lines.push(`    @Info() info: GraphQLResolveInfo,`);
-  lines.push(`    @Args() args: GroupBy${m}Args,`);
-  lines.push(`  ) {`);
-  lines.push(`    const aggregateArgs = transformInfoIntoPrismaAggregateArgs(info);`);
-  lines.push(`    return ctx.prisma.${lowerName}.groupBy({ ...args, ...aggregateArgs } as any);`);
-  lines.push(`  }`);
-  lines.push('');
-
-  // Count query
-  lines.push(`  @Query(() => Int)`);
-  lines.push(`  async ${lowerName}Count(`);
-  lines.push(`    @Context() ctx: GraphQLContext<PrismaClient>,`);
-  lines.push(`    @Args() args: Aggregate${m}Args,`);
-  lines.push(`  ) {`);
-  lines.push(`    return ctx.prisma.${lowerName}.count({ where: args.where });`);
-  lines.push(`  }`);
-
-  lines.push(`}`);
-
-  return lines.join('\n');
+  return lines;
 }
 
 // ============ Model Index ============
@@ -1351,6 +2176,8 @@ function generateModelIndex(
   hasInputs: boolean,
   hasAggregations: boolean,
   hasRelations: boolean,
+  hasSubscriptions: boolean,
+  hasEvents: boolean,
 ): string {
   const lines: string[] = [];
   lines.push(`export * from './model';`);
@@ -1358,8 +2185,12 @@ function generateModelIndex(
   lines.push(`export * from './args';`);
   if (config.generateResolvers) {
     lines.push(`export * from './resolver';`);
+    if (config.generateServices) lines.push(`export * from './service';`);
     if (hasRelations) lines.push(`export * from './relations';`);
     if (hasAggregations) lines.push(`export * from './aggregations';`);
+    if (hasSubscriptions) lines.push(`export * from './subscriptions';`);
+    if (hasEvents) lines.push(`export * from './events';`);
+    if (config.featureModules) lines.push(`export * from './module';`);
   }
   return lines.join('\n');
 }
@@ -1371,7 +2202,8 @@ function generateEnumsGrouped(dmmf: DMMFDocument, config: GeneratorConfig): Gene
   const prismaPath = config.prismaClientPath ?? '@prisma/client';
 
   for (const enumDef of dmmf.enums) {
-    const desc = enumDef.documentation ? `'${escapeStr(enumDef.documentation)}'` : 'undefined';
+    const desc = enumDef.description ? `'${escapeStr(enumDef.description)}'` : 'undefined';
+    const graphqlName = enumDef.annotations.name ?? enumDef.name;
     const shouldReExportFromPrisma = config.usePrismaEnums && enumDef.source === 'datamodel';
 
     let content: string;
@@ -1382,7 +2214,7 @@ import { ${enumDef.name} } from '${prismaPath}';
 export { ${enumDef.name} } from '${prismaPath}';
 
 registerEnumType(${enumDef.name}, {
-  name: '${enumDef.name}',
+  name: '${graphqlName}',
   description: ${desc},
 });
 `;
@@ -1396,7 +2228,7 @@ ${values}
 }
 
 registerEnumType(${enumDef.name}, {
-  name: '${enumDef.name}',
+  name: '${graphqlName}',
   description: ${desc},
 });
 `;
@@ -1420,6 +2252,7 @@ registerEnumType(${enumDef.name}, {
 function generateCommonTypesGrouped(
   dmmf: DMMFDocument,
   allModelNames: Set<string>,
+  unusedInputTypes: Set<string>,
   config: GeneratorConfig,
 ): GeneratedFile[] {
   const files: GeneratedFile[] = [
@@ -1437,7 +2270,7 @@ export class AffectedRows {
   ];
 
   // Generate shared input types (types that don't belong to any model)
-  const sharedInputTypes = getSharedInputTypes(dmmf, allModelNames);
+  const sharedInputTypes = getSharedInputTypes(dmmf, allModelNames, unusedInputTypes);
   if (sharedInputTypes.length > 0) {
     files.push({
       path: 'common/inputs.ts',
@@ -1462,17 +2295,22 @@ export class AffectedRows {
 /**
  * Get input types that don't belong to any model (shared types like IntFilter, StringFilter, etc.)
  */
-function getSharedInputTypes(dmmf: DMMFDocument, allModelNames: Set<string>): InputType[] {
+function getSharedInputTypes(
+  dmmf: DMMFDocument,
+  allModelNames: Set<string>,
+  unusedInputTypes: Set<string>,
+): InputType[] {
   const result: InputType[] = [];
 
   for (const [name, inputType] of dmmf.inputTypes) {
+    if (unusedInputTypes.has(name)) continue;
     const owningModel = findOwningModel(name, allModelNames);
     if (!owningModel) {
       result.push(inputType);
     }
   }
 
-  return result;
+  return result.sort(byName);
 }
 
 /**
@@ -1531,14 +2369,20 @@ function generateSharedInputs(
     const prismaClientPath = config.prismaClientPath || '@prisma/client';
     lines.push(`import { Prisma } from '${prismaClientPath}';`);
   }
-  if (enumTypes.size > 0) lines.push(`import { ${[...enumTypes].join(', ')} } from '../enums';`);
+  lines.push(...importEnums(enumTypes, '../enums', config));
   for (const [model, types] of modelInputs) {
     lines.push(`import { ${[...types].join(', ')} } from '../models/${model}/inputs';`);
   }
+
+  const validators: ValidationDecorator[] = [];
+  const classes = inputTypes.map(inputType =>
+    generateSharedInputClass(inputType, dmmf, config, validators),
+  );
+  lines.push(...renderValidationImports(validators));
   lines.push('');
 
-  for (const inputType of inputTypes) {
-    lines.push(generateSharedInputClass(inputType, dmmf));
+  for (const inputClass of classes) {
+    lines.push(inputClass);
     lines.push('');
   }
 
@@ -1548,16 +2392,22 @@ function generateSharedInputs(
 /**
  * Generate a shared input class (for common/inputs.ts)
  */
-function generateSharedInputClass(inputType: InputType, dmmf: DMMFDocument): string {
+function generateSharedInputClass(
+  inputType: InputType,
+  dmmf: DMMFDocument,
+  config: GeneratorConfig,
+  validators: ValidationDecorator[],
+): string {
   const lines: string[] = [];
   lines.push(`@InputType()`);
   lines.push(`export class ${inputType.name} {`);
 
   for (const field of inputType.fields) {
-    lines.push(generateSharedInputField(field, dmmf, inputType.name));
+    lines.push(generateSharedInputField(field, dmmf, inputType.name, config, validators));
   }
 
   lines.push('}');
+  if (config.useValidation) lines.push(...renderValidatedSetClasses(inputType, dmmf, validators));
   return lines.join('\n');
 }
 
@@ -1565,9 +2415,11 @@ function generateSharedInputClass(inputType: InputType, dmmf: DMMFDocument): str
  * Generate a field for a shared input class
  */
 function generateSharedInputField(
-  field: { name: string; type: string; isList: boolean; isRequired: boolean },
+  field: InputField,
   dmmf: DMMFDocument,
   currentTypeName: string,
+  config: GeneratorConfig,
+  validators: ValidationDecorator[],
 ): string {
   const { graphqlType, tsType, isInputObjectType } = getInputFieldTypes(field, dmmf);
   const lines: string[] = [];
@@ -1583,6 +2435,12 @@ function generateSharedInputField(
   const optionsStr = !field.isRequired ? ', { nullable: true }' : '';
   lines.push(`  @Field(${typeArg}${optionsStr})`);
 
+  if (config.useValidation) {
+    const fieldValidators = getInputFieldValidators(field, currentTypeName, dmmf);
+    lines.push(...renderDecorators(fieldValidators));
+    validators.push(...fieldValidators);
+  }
+
   let propertyType = tsType;
   if (field.isList) propertyType = `${tsType}[]`;
   if (!field.isRequired) propertyType = `${propertyType} | undefined`;
@@ -1596,7 +2454,7 @@ function generateSharedInputField(
 
 // ============ Helpers ============
 
-function generateHelpersGrouped(config: GeneratorConfig): GeneratedFile {
+function generateHelpersGrouped(config: GeneratorConfig, features: HelperFeatures): GeneratedFile {
   const prismaClientPath = config.prismaClientPath || '@prisma/client';
   return {
     path: 'helpers.ts',
@@ -1685,6 +2543,7 @@ export interface GraphQLContext<PrismaClient = unknown> {
 interface ModelFieldInfo {
   scalars: Set<string>;
   relations: Map<string, string>;
+  listRelations: Set<string>;
 }
 
 /**
@@ -1707,16 +2566,18 @@ function getModelFields(modelName: string): ModelFieldInfo {
 
   const scalars = new Set<string>();
   const relations = new Map<string, string>();
+  const listRelations = new Set<string>();
 
   for (const field of model.fields) {
     if (field.kind === 'object') {
       relations.set(field.name, field.type);
+      if (field.isList) listRelations.add(field.name);
     } else {
       scalars.add(field.name);
     }
   }
 
-  const info: ModelFieldInfo = { scalars, relations };
+  const info: ModelFieldInfo = { scalars, relations, listRelations };
   modelFieldsCache.set(modelName, info);
   return info;
 }
@@ -1810,12 +2671,16 @@ function extractFieldArgs(
  * Parse a selection set into a Prisma select object.
  * When modelName is provided, filters out fields not in the Prisma model.
  * When defaultScalars is provided, includes scalar fields even if not queried.
+ * When relationScope is provided, keeps list relations within it.
+ * When deletedFields is provided, leaves deleted records out of list relations.
  */
 function parseSelectionSetSimple(
   selectionSet: SelectionSetNode | undefined,
   info: GraphQLResolveInfo,
   modelFields?: ModelFieldInfo,
   defaultScalars?: true | Set<string>,
+  relationScope?: Record<string, unknown>,
+  deletedFields?: Record<string, string>,
 ): Record<string, boolean | PrismaRelation> {
   const select: Record<string, boolean | PrismaRelation> = {};
 
@@ -1865,8 +2730,27 @@ function parseSelectionSetSimple(
             info,
             relatedModelFields,
             defaultScalars,
+            relationScope,
+            deletedFields,
           );
           const relationArgs = extractFieldArgs(fieldNode, variableValues);
+          if (
+            relationScope &&
+            modelFields.listRelations.has(fieldName) &&
+            Object.keys(relationScope).every((key) => relatedModelFields.scalars.has(key))
+          ) {
+            relationArgs.where = scopeWhere(
+              relationArgs.where as Record<string, unknown> | undefined,
+              relationScope,
+            );
+          }
+          const deletedField = deletedFields?.[relatedModelName];
+          if (deletedField && modelFields.listRelations.has(fieldName)) {
+            relationArgs.where = scopeWhere(
+              relationArgs.where as Record<string, unknown> | undefined,
+              { [deletedField]: null },
+            );
+          }
 
           if (Object.keys(nestedSelect).length > 0) {
             select[fieldName] = { select: nestedSelect, ...relationArgs };
@@ -1909,14 +2793,28 @@ function parseSelectionSetSimple(
       const fragment = info.fragments[fragmentName];
 
       if (fragment) {
-        const fragmentSelect = parseSelectionSetSimple(fragment.selectionSet, info, modelFields, defaultScalars);
+        const fragmentSelect = parseSelectionSetSimple(
+          fragment.selectionSet,
+          info,
+          modelFields,
+          defaultScalars,
+          relationScope,
+          deletedFields,
+        );
         Object.assign(select, fragmentSelect);
       }
     }
     // Handle inline fragments
     else if (selection.kind === 'InlineFragment') {
       if (selection.selectionSet) {
-        const inlineSelect = parseSelectionSetSimple(selection.selectionSet, info, modelFields, defaultScalars);
+        const inlineSelect = parseSelectionSetSimple(
+          selection.selectionSet,
+          info,
+          modelFields,
+          defaultScalars,
+          relationScope,
+          deletedFields,
+        );
         Object.assign(select, inlineSelect);
       }
     }
@@ -1935,6 +2833,18 @@ export interface TransformOptions {
    * - string[]: include only the specified scalar fields
    */
   includeDefaultScalars?: boolean | string[];
+
+  /**
+   * Filter ANDed into the \`where\` of every selected list relation whose model
+   * has all of its fields, e.g. the tenant of the request. Requires modelName.
+   */
+  relationScope?: Record<string, unknown>;
+
+  /**
+   * Field set on the deletion of records, by soft deleted model name. Selected
+   * list relations to those models leave their deleted records out. Requires modelName.
+   */
+  deletedFields?: Record<string, string>;
 }
 
 /**
@@ -1981,7 +2891,14 @@ export function transformInfoIntoPrismaArgs(
   }
 
   // Parse the selection set directly from AST
-  const select = parseSelectionSetSimple(fieldNode.selectionSet, info, modelFields, defaultScalars);
+  const select = parseSelectionSetSimple(
+    fieldNode.selectionSet,
+    info,
+    modelFields,
+    defaultScalars,
+    options?.relationScope,
+    options?.deletedFields,
+  );
 
   if (Object.keys(select).length === 0) {
     return {};
@@ -2077,7 +2994,7 @@ export function mergePrismaSelects(...selects: PrismaSelect[]): PrismaSelect {
   }
   return result;
 }
-`,
+${SCOPE_WHERE_HELPER}${getFeatureHelpers(features)}`,
   };
 }
 
@@ -2086,12 +3003,16 @@ export function mergePrismaSelects(...selects: PrismaSelect[]): PrismaSelect {
 function generateRootIndexGrouped(
   _dmmf: DMMFDocument,
   _inputTypeNames: Set<string>,
+  hasModule: boolean,
+  hasEvents: boolean,
 ): GeneratedFile {
   const lines: string[] = [];
   lines.push(`export * from './enums';`);
   lines.push(`export * from './common';`);
   lines.push(`export * from './helpers';`);
+  if (hasEvents) lines.push(`export * from './event-emitter';`);
   lines.push(`export * from './models';`);
+  if (hasModule) lines.push(`export * from './module';`);
 
   return { path: 'index.ts', content: lines.join('\n') + '\n' };
 }
@@ -2113,6 +3034,29 @@ function generateModelsIndex(dmmf: DMMFDocument, inputTypeNames: Set<string>): G
 
 // ============ Utilities ============
 
+/**
+ * Import enums from the enums barrel, or from their own files when it isn't generated
+ */
+function importEnums(
+  enumNames: Iterable<string>,
+  enumsDir: string,
+  config: GeneratorConfig,
+): string[] {
+  const names = [...enumNames];
+  if (names.length === 0) return [];
+  if (config.barrels && config.barrels !== 'all') {
+    return names.map(name => `import { ${name} } from '${enumsDir}/${name}';`);
+  }
+  return [`import { ${names.join(', ')} } from '${enumsDir}';`];
+}
+
+/**
+ * Order types by name, independent of DMMF order and locale
+ */
+function byName(a: { name: string }, b: { name: string }): number {
+  return a.name < b.name ? -1 : a.name > b.name ? 1 : 0;
+}
+
 function escapeStr(text: string): string {
   return text.replace(/'/g, "\\'").replace(/\n/g, '\\n');
 }
@@ -1,6 +1,7 @@
 import { Project, SourceFile } from 'ts-morph';
 
 import type { DMMFDocument } from './dmmf/document';
+import { assertValidAnnotations } from './dmmf/annotations';
 import type { GeneratedFile } from './dmmf/types';
 import type { GeneratorConfig } from '../cli/options-parser';
 import { generateArgs } from './templates/args';
@@ -10,20 +11,36 @@ import { generateEnums } from './templates/enum';
 import { generateHelpers } from './helpers-generator';
 import { generateInputs } from './templates/input';
 import { generateModels } from './templates/model';
+import { generateNestModules } from './nest-module';
+import { applyBarrels } from './barrels';
+import { convertToEsm } from './writers/esm';
 import { generateResolvers } from './templates/resolver';
+import { generateServices } from './templates/service';
+import { generateSubscriptions } from './templates/subscription';
+import { generateEvents } from './templates/event';
+import { EVENT_EMITTER_FILE, getEventEmitterSource } from './events';
+import { normalizeGeneratedFiles } from './writers/format';
+import { getDeletedFields } from './soft-delete';
+import { getAuditModels } from './audit';
+import { getTenantModels } from './tenancy';
 
 /**
  * Main code generation orchestrator
  *
- * Coordinates generation of all code files from the DMMF document
+ * Coordinates generation of all code files from the DMMF document. The result
+ * is trimmed to the configured barrels, normalized so it only depends on the
+ * schema and the config, and converted to ES modules when `moduleFormat` is `esm`.
  */
 export async function generateCode(
   dmmf: DMMFDocument,
   config: GeneratorConfig,
 ): Promise<GeneratedFile[]> {
+  // Fail early with schema locations instead of silently ignoring bad annotations
+  assertValidAnnotations(dmmf);
+
   // Use grouped generation if enabled (uses fast string-based generation)
   if (config.groupByModel) {
-    return generateCodeGrouped(dmmf, config);
+    return finishFiles(await generateCodeGrouped(dmmf, config), config);
   }
   const project = new Project({
     useInMemoryFileSystem: true,
@@ -73,12 +90,65 @@ export async function generateCode(
     }
   }
 
-  // Generate resolvers
+  // Generate resolvers, their subscriptions and events and the services they delegate to
   if (shouldEmit('resolvers') && config.generateResolvers) {
     const resolverFiles = generateResolvers(project, dmmf, config);
     for (const [path, file] of resolverFiles) {
       allFiles.set(path, file);
     }
+    for (const [path, file] of generateSubscriptions(project, dmmf, config, resolverFiles)) {
+      allFiles.set(path, file);
+    }
+    if (config.generateServices) {
+      for (const [path, file] of generateServices(project, dmmf, config, resolverFiles)) {
+        allFiles.set(path, file);
+      }
+    }
+    if (config.generateEvents) {
+      for (const [path, file] of generateEvents(project, dmmf, config, resolverFiles)) {
+        allFiles.set(path, file);
+      }
+      allFiles.set(
+        EVENT_EMITTER_FILE,
+        project.createSourceFile(EVENT_EMITTER_FILE, getEventEmitterSource(config.eventEmitter), {
+          overwrite: true,
+        }),
+      );
+    }
+  }
+
+  // Generate the Nest module registering the resolvers, and the feature modules it imports
+  const moduleFiles: GeneratedFile[] = [];
+  if (shouldEmit('resolvers') && config.generateResolvers) {
+    const resolversDir = config.outputDirs?.resolvers ?? 'resolvers';
+    moduleFiles.push(
+      ...generateNestModules(
+        dmmf.models.map(model => ({
+          model: model.name,
+          resolvers: [`${model.name}Resolver`, `${model.name}SubscriptionsResolver`]
+            .map(className => ({ className, filePath: `${resolversDir}/${className}.ts` }))
+            .filter(resolver => allFiles.has(resolver.filePath)),
+          service: allFiles.has(`services/${model.name}Service.ts`)
+            ? {
+                className: `${model.name}Service`,
+                filePath: `services/${model.name}Service.ts`,
+              }
+            : undefined,
+        })),
+        config,
+        model => `modules/${model}GraphQLModule.ts`,
+      ),
+    );
+  }
+  const featureModules = moduleFiles.filter(file => file.path.startsWith('modules/'));
+  if (featureModules.length > 0) {
+    moduleFiles.push({
+      path: 'modules/index.ts',
+      content: featureModules
+        .map(file => file.path.replace(/^modules\/(\w+)\.ts$/, "export * from './$1';"))
+        .join('\n')
+        .concat('\n'),
+    });
   }
 
   // Generate common types (AffectedRows, etc.)
@@ -89,7 +159,22 @@ export async function generateCode(
 
   // Generate helpers (always needed when resolvers are generated)
   if (shouldEmit('helpers') || (shouldEmit('resolvers') && config.generateResolvers)) {
-    const helperFiles = generateHelpers(project, config);
+    const helperFiles = generateHelpers(project, config, {
+      subscriptions: dmmf.models.some(model => model.annotations.subscriptions),
+      events: config.generateEvents && config.generateResolvers && shouldEmit('resolvers'),
+      tenantModels:
+        config.tenantField && config.generateResolvers && shouldEmit('resolvers')
+          ? getTenantModels(dmmf.models, config.tenantField)
+          : undefined,
+      deletedFields:
+        config.generateResolvers && shouldEmit('resolvers')
+          ? getDeletedFields(dmmf.models)
+          : undefined,
+      auditModels:
+        config.generateResolvers && shouldEmit('resolvers')
+          ? getAuditModels(dmmf.models)
+          : undefined,
+    });
     for (const [path, file] of helperFiles) {
       allFiles.set(path, file);
     }
@@ -97,11 +182,11 @@ export async function generateCode(
 
   // Generate root index file
   const indexFile = project.createSourceFile('index.ts', '', { overwrite: true });
-  generateRootIndex(indexFile, config, dmmf);
+  generateRootIndex(indexFile, config, dmmf, moduleFiles);
   allFiles.set('index.ts', indexFile);
 
   // Convert to GeneratedFile array
-  const result: GeneratedFile[] = [];
+  const result: GeneratedFile[] = [...moduleFiles];
   for (const [path, sourceFile] of allFiles) {
     result.push({
       path,
@@ -109,7 +194,12 @@ export async function generateCode(
     });
   }
 
-  return result;
+  return finishFiles(result, config);
+}
+
+function finishFiles(files: GeneratedFile[], config: GeneratorConfig): GeneratedFile[] {
+  const normalized = normalizeGeneratedFiles(applyBarrels(files, config));
+  return config.moduleFormat === 'esm' ? convertToEsm(normalized) : normalized;
 }
 
 /**
@@ -119,6 +209,7 @@ function generateRootIndex(
   sourceFile: SourceFile,
   config: GeneratorConfig,
   dmmf: DMMFDocument,
+  moduleFiles: GeneratedFile[],
 ): void {
   const emitAll = !config.emitOnly || config.emitOnly.length === 0;
   const shouldEmit = (block: string) => emitAll || config.emitOnly?.includes(block as any);
@@ -151,6 +242,13 @@ function generateRootIndex(
     sourceFile.addExportDeclaration({
       moduleSpecifier: `./${config.outputDirs?.resolvers ?? 'resolvers'}`,
     });
+    if (config.generateServices) {
+      sourceFile.addExportDeclaration({ moduleSpecifier: './services' });
+    }
+    if (config.generateEvents) {
+      sourceFile.addExportDeclaration({ moduleSpecifier: './events' });
+      sourceFile.addExportDeclaration({ moduleSpecifier: './event-emitter' });
+    }
   }
 
   // Always export common types and helpers
@@ -161,4 +259,12 @@ function generateRootIndex(
   sourceFile.addExportDeclaration({
     moduleSpecifier: './helpers',
   });
+
+  // The Nest module, and the feature modules it imports
+  if (moduleFiles.some(file => file.path === 'module.ts')) {
+    sourceFile.addExportDeclaration({ moduleSpecifier: './module' });
+  }
+  if (moduleFiles.some(file => file.path === 'modules/index.ts')) {
+    sourceFile.addExportDeclaration({ moduleSpecifier: './modules' });
+  }
 }
@@ -1,13 +1,75 @@
 import { Project, SourceFile } from 'ts-morph';
 
 import type { GeneratorConfig } from '../cli/options-parser';
+import { SUBSCRIPTION_HELPERS } from './subscriptions';
+import { RECORD_HELPERS } from './mutation-effects';
+import { SCOPE_WHERE_HELPER, getTenancyHelpersSource } from './tenancy';
+import type { TenantModel } from './tenancy';
+import { getSoftDeleteHelpersSource } from './soft-delete';
+import { getAuditHelpersSource } from './audit';
+import type { AuditModel } from './audit';
+import { NESTED_WRITES_HELPER } from './relations';
 
 /**
- * Generate runtime helper files that will be included in the output
+ * Optional parts of helpers.ts
+ */
+export interface HelperFeatures {
+  /** A model has subscriptions */
+  subscriptions?: boolean;
+  /** The mutation resolvers emit events */
+  events?: boolean;
+  /** The resolvers are scoped to a tenant (`tenantField`): the models whose writes set it */
+  tenantModels?: Record<string, TenantModel>;
+  /** Soft delete field of each soft deleted model */
+  deletedFields?: Record<string, string>;
+  /** Audit fields and relations of each model whose mutations set some */
+  auditModels?: Record<string, AuditModel>;
+}
+
+/**
+ * Runtime helper reading the tenant and the audit user from the GraphQL context
+ */
+const CONTEXT_PATH_HELPER = `
+/**
+ * The value at a property path of the GraphQL context, e.g. \`req.user.id\`, or
+ * undefined when a property along the path is missing
+ */
+export function readContextPath(ctx: unknown, path: string): unknown {
+  let value = ctx;
+  for (const key of path.split('.')) {
+    value = value === null || value === undefined
+      ? undefined
+      : (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+`;
+
+/**
+ * Runtime helpers appended to helpers.ts for the given features
+ */
+export function getFeatureHelpers(features: HelperFeatures): string {
+  const audited = !!features.auditModels && Object.keys(features.auditModels).length > 0;
+  return [
+    features.subscriptions || features.events ? RECORD_HELPERS : '',
+    features.subscriptions ? SUBSCRIPTION_HELPERS : '',
+    features.tenantModels || audited ? CONTEXT_PATH_HELPER + NESTED_WRITES_HELPER : '',
+    features.tenantModels ? getTenancyHelpersSource(features.tenantModels) : '',
+    features.deletedFields && Object.keys(features.deletedFields).length > 0
+      ? getSoftDeleteHelpersSource(features.deletedFields)
+      : '',
+    audited ? getAuditHelpersSource(features.auditModels!) : '',
+  ].join('');
+}
+
+/**
+ * Generate runtime helper files that will be included in the output, with the
+ * helpers of the subscriptions, events, tenancy, soft delete and audit fields when they are generated
  */
 export function generateHelpers(
   project: Project,
   config: GeneratorConfig,
+  features: HelperFeatures = {},
 ): Map<string, SourceFile> {
   const files = new Map<string, SourceFile>();
 
@@ -15,6 +77,8 @@ export function generateHelpers(
   const helpersPath = 'helpers.ts';
   const helpersFile = project.createSourceFile(helpersPath, '', { overwrite: true });
   generateHelpersFile(helpersFile, config);
+  const featureHelpers = getFeatureHelpers(features);
+  if (featureHelpers) helpersFile.addStatements(featureHelpers);
   files.set(helpersPath, helpersFile);
 
   return files;
@@ -91,6 +155,7 @@ export interface PrismaDMMF {
         name: string;
         kind: string;
         type: string;
+        isList?: boolean;
       }>;
     }>;
   };
@@ -104,6 +169,8 @@ export interface ModelFieldInfo {
   scalars: Set<string>;
   /** Relation field name -> related model name */
   relations: Map<string, string>;
+  /** Names of the relation fields holding lists */
+  listRelations: Set<string>;
 }
 
 /**
@@ -128,16 +195,18 @@ export function getModelFields(dmmf: PrismaDMMF, modelName: string): ModelFieldI
 
   const scalars = new Set<string>();
   const relations = new Map<string, string>();
+  const listRelations = new Set<string>();
 
   for (const field of model.fields) {
     if (field.kind === 'object') {
       relations.set(field.name, field.type);
+      if (field.isList) listRelations.add(field.name);
     } else {
       scalars.add(field.name);
     }
   }
 
-  const info: ModelFieldInfo = { scalars, relations };
+  const info: ModelFieldInfo = { scalars, relations, listRelations };
   modelFieldsCache.set(cacheKey, info);
   return info;
 }
@@ -175,6 +244,18 @@ export interface TransformOptions {
    * When set to an array of field names, only those specific fields are added.
    */
   includeDefaultScalars?: boolean | string[];
+
+  /**
+   * Filter ANDed into the \`where\` of every selected list relation whose model
+   * has all of its fields, e.g. the tenant of the request. Requires dmmf and modelName.
+   */
+  relationScope?: Record<string, unknown>;
+
+  /**
+   * Field set on the deletion of records, by soft deleted model name. Selected
+   * list relations to those models leave their deleted records out. Requires dmmf and modelName.
+   */
+  deletedFields?: Record<string, string>;
 }
 
 /**
@@ -268,6 +349,8 @@ function extractFieldArgs(
  * It also extracts relation arguments (where, orderBy, take, skip, cursor, distinct).
  * When dmmf and modelFields are provided, filters out fields not in Prisma model.
  * When defaultScalars is provided, includes scalar fields even if not queried.
+ * When relationScope is provided, keeps list relations within it.
+ * When deletedFields is provided, leaves deleted records out of list relations.
  */
 function parseSelectionSetSimple(
   selectionSet: SelectionSetNode | undefined,
@@ -276,6 +359,8 @@ function parseSelectionSetSimple(
   dmmf?: PrismaDMMF,
   modelFields?: ModelFieldInfo,
   defaultScalars?: true | Set<string>,
+  relationScope?: Record<string, unknown>,
+  deletedFields?: Record<string, string>,
 ): Record<string, boolean | PrismaRelation> {
   const select: Record<string, boolean | PrismaRelation> = {};
 
@@ -327,9 +412,28 @@ function parseSelectionSetSimple(
             dmmf,
             relatedModelFields,
             defaultScalars,
+            relationScope,
+            deletedFields,
           );
 
           const relationArgs = extractFieldArgs(fieldNode, variableValues);
+          if (
+            relationScope &&
+            modelFields.listRelations.has(fieldName) &&
+            Object.keys(relationScope).every((key) => relatedModelFields.scalars.has(key))
+          ) {
+            relationArgs.where = scopeWhere(
+              relationArgs.where as Record<string, unknown> | undefined,
+              relationScope,
+            );
+          }
+          const deletedField = deletedFields?.[relatedModelName];
+          if (deletedField && modelFields.listRelations.has(fieldName)) {
+            relationArgs.where = scopeWhere(
+              relationArgs.where as Record<string, unknown> | undefined,
+              { [deletedField]: null },
+            );
+          }
 
           if (Object.keys(nestedSelect).length > 0) {
             select[fieldName] = { select: nestedSelect, ...relationArgs };
@@ -387,6 +491,8 @@ function parseSelectionSetSimple(
           dmmf,
           modelFields,
           defaultScalars,
+          relationScope,
+          deletedFields,
         );
         Object.assign(select, fragmentSelect);
       }
@@ -401,6 +507,8 @@ function parseSelectionSetSimple(
           dmmf,
           modelFields,
           defaultScalars,
+          relationScope,
+          deletedFields,
         );
         Object.assign(select, inlineSelect);
       }
@@ -480,6 +588,8 @@ export function transformInfoIntoPrismaArgs(
     options?.dmmf,
     modelFields,
     defaultScalars,
+    options?.relationScope,
+    options?.deletedFields,
   );
 
   if (Object.keys(select).length === 0) {
@@ -594,5 +704,5 @@ export function mergePrismaSelects(...selects: PrismaSelect[]): PrismaSelect {
 
   return result;
 }
-`);
+${SCOPE_WHERE_HELPER}`);
 }
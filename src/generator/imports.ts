@@ -0,0 +1,34 @@
+import path from 'path';
+
+/**
+ * Named imports from one module
+ */
+export interface NamedImports {
+  moduleSpecifier: string;
+  namedImports: string[];
+}
+
+/**
+ * Combine imports from the same module, keeping the order modules first appear in
+ */
+export function mergeImports(imports: NamedImports[]): NamedImports[] {
+  const merged = new Map<string, string[]>();
+  for (const { moduleSpecifier, namedImports } of imports) {
+    const names = merged.get(moduleSpecifier) ?? [];
+    merged.set(moduleSpecifier, [...names, ...namedImports.filter(n => !names.includes(n))]);
+  }
+  return [...merged].map(([moduleSpecifier, namedImports]) => ({ moduleSpecifier, namedImports }));
+}
+
+/**
+ * Module specifier for `filePath` to import a module given relative to the
+ * output directory; package names are kept as they are
+ */
+export function importFromOutput(filePath: string, moduleSpecifier: string): string {
+  if (!moduleSpecifier.startsWith('.')) return moduleSpecifier;
+  const relative = path.posix.relative(
+    path.posix.dirname(filePath),
+    path.posix.normalize(moduleSpecifier),
+  );
+  return relative.startsWith('.') ? relative : `./${relative}`;
+}
@@ -1,6 +1,10 @@
 export * from './dmmf';
 export * from './templates';
 export * from './generate';
+export * from './compile';
 export * from './common';
 export * from './helpers-generator';
 export * from './writers';
+export * from './operations';
+export * from './barrels';
+export * from './nest-module';
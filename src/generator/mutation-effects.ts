@@ -0,0 +1,68 @@
+/**
+ * Selection of a mutation whose record is published or emitted: the query's
+ * own plus every scalar field, so it doesn't depend on what the client asked for
+ */
+export function getRecordSelectCall(selectCall: string): string {
+  return `includeScalars(${selectCall})`;
+}
+
+/**
+ * Insert `lines` into a resolver method body right before the line starting
+ * with `return `, i.e. ahead of the Prisma call
+ */
+export function beforeReturn(statements: string[], lines: string[]): string[] {
+  const start = statements.findIndex(line => line.trimStart().startsWith('return '));
+  if (start === -1 || lines.length === 0) return statements;
+
+  const line = statements[start]!;
+  const indent = line.slice(0, line.length - line.trimStart().length);
+  return [
+    ...statements.slice(0, start),
+    ...lines.map(statement => `${indent}${statement}`),
+    ...statements.slice(start),
+  ];
+}
+
+/**
+ * Run `effects` with the result of a resolver method body, available to them
+ * as `record`, before returning it. The result is the expression of the first
+ * line starting with `return `, which may continue on the following lines up
+ * to the one ending with `;`.
+ */
+export function withReturnedRecord(statements: string[], effects: string[]): string[] {
+  const start = statements.findIndex(line => line.trimStart().startsWith('return '));
+  if (start === -1 || effects.length === 0) return statements;
+  const end = statements.findIndex((line, i) => i >= start && line.endsWith(';'));
+
+  const line = statements[start]!;
+  const indent = line.slice(0, line.length - line.trimStart().length);
+  const expression = line.trimStart().slice('return '.length);
+  return [
+    ...statements.slice(0, start),
+    `${indent}const record = ${expression.startsWith('await ') ? '' : 'await '}${expression}`,
+    ...statements.slice(start + 1, end + 1),
+    ...effects.map(effect => `${indent}${effect}`),
+    `${indent}return record;`,
+    ...statements.slice(end + 1),
+  ];
+}
+
+/**
+ * Runtime helper of the mutations publishing or emitting their record,
+ * appended to helpers.ts when a model has subscriptions or events
+ */
+export const RECORD_HELPERS = `
+/**
+ * Select every scalar field next to the selected relations, so the record a
+ * mutation publishes or emits has all of its fields
+ */
+export function includeScalars(select: PrismaSelect): PrismaSelect {
+  if (!select.select) return select;
+
+  const include: Record<string, boolean | PrismaRelation> = {};
+  for (const [field, value] of Object.entries(select.select)) {
+    if (typeof value === 'object' || field === '_count') include[field] = value;
+  }
+  return Object.keys(include).length > 0 ? { include } : {};
+}
+`;
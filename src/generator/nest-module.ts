@@ -0,0 +1,159 @@
+import type { GeneratedFile } from './dmmf/types';
+import type { GeneratorConfig } from '../cli/options-parser';
+import path from 'path';
+
+/**
+ * The resolver classes generated for one model and the files they live in
+ */
+export interface ModelResolvers {
+  /** Prisma model name */
+  model: string;
+  resolvers: { className: string; filePath: string }[];
+  /** The model's service, with `generateServices` */
+  service?: { className: string; filePath: string };
+}
+
+/**
+ * Generate `module.ts` with `GeneratedGraphQLModule`, which registers the
+ * resolvers of every model or of the ones picked with `include` / `exclude`.
+ * With `featureModules`, each model also gets a module of its own at
+ * `featureModulePath(model)`, which the root module imports instead.
+ * Generated services are registered too and exported for the rest of the app.
+ */
+export function generateNestModules(
+  models: ModelResolvers[],
+  config: GeneratorConfig,
+  featureModulePath: (model: string) => string,
+): GeneratedFile[] {
+  const withResolvers = models.filter(m => m.resolvers.length > 0);
+  if (withResolvers.length === 0) return [];
+
+  const files: GeneratedFile[] = [];
+  const lines: string[] = [
+    config.featureModules
+      ? `import { DynamicModule, Module } from '@nestjs/common';`
+      : `import { DynamicModule, Module, Provider } from '@nestjs/common';`,
+  ];
+  const entries: string[] = [];
+  const serviceEntries: string[] = [];
+
+  for (const { model, resolvers, service } of withResolvers) {
+    if (config.featureModules) {
+      const filePath = featureModulePath(model);
+      files.push({
+        path: filePath,
+        content: generateFeatureModule(model, resolvers, service, filePath),
+      });
+      lines.push(`import { ${model}GraphQLModule } from '${importPath('module.ts', filePath)}';`);
+      entries.push(`  ${model}: ${model}GraphQLModule,`);
+    } else {
+      for (const { className, filePath } of service ? [service, ...resolvers] : resolvers) {
+        lines.push(`import { ${className} } from '${importPath('module.ts', filePath)}';`);
+      }
+      entries.push(`  ${model}: [${resolvers.map(r => r.className).join(', ')}],`);
+      if (service) serviceEntries.push(`  ${model}: ${service.className},`);
+    }
+  }
+  const hasServices = withResolvers.some(m => m.service);
+
+  const registry = config.featureModules ? 'MODEL_MODULES' : 'MODEL_RESOLVERS';
+  lines.push('');
+  lines.push('/**');
+  lines.push(
+    config.featureModules
+      ? ' * Generated feature module of each model, by Prisma model name'
+      : ' * Generated resolver classes of each model, by Prisma model name',
+  );
+  lines.push(' */');
+  lines.push(`export const ${registry} = {`);
+  lines.push(...entries);
+  lines.push('};');
+  lines.push('');
+  lines.push(`export type GeneratedModelName = keyof typeof ${registry};`);
+  lines.push('');
+  if (serviceEntries.length > 0) {
+    lines.push('/**');
+    lines.push(' * Generated service of each model, by Prisma model name');
+    lines.push(' */');
+    lines.push('export const MODEL_SERVICES: Partial<Record<GeneratedModelName, Provider>> = {');
+    lines.push(...serviceEntries);
+    lines.push('};');
+    lines.push('');
+  }
+  lines.push('export interface GeneratedGraphQLModuleOptions {');
+  lines.push('  /** Models to register the resolvers of. Default: all */');
+  lines.push('  include?: GeneratedModelName[];');
+  lines.push('  /** Models to leave out */');
+  lines.push('  exclude?: GeneratedModelName[];');
+  lines.push('}');
+  lines.push('');
+  lines.push('/**');
+  lines.push(' * Registers the generated resolvers. Import `GeneratedGraphQLModule.forRoot()`');
+  lines.push(' * next to `GraphQLModule.forRoot()`.');
+  lines.push(' */');
+  lines.push('@Module({})');
+  lines.push('export class GeneratedGraphQLModule {');
+  lines.push('  static forRoot(options: GeneratedGraphQLModuleOptions = {}): DynamicModule {');
+  lines.push(
+    `    const models = (options.include ?? (Object.keys(${registry}) as GeneratedModelName[])).filter(`,
+  );
+  lines.push('      model => !options.exclude?.includes(model),');
+  lines.push('    );');
+  if (config.featureModules) {
+    lines.push('    return {');
+    lines.push('      module: GeneratedGraphQLModule,');
+    lines.push(`      imports: models.map(model => ${registry}[model]),`);
+    if (hasServices) lines.push(`      exports: models.map(model => ${registry}[model]),`);
+    lines.push('    };');
+  } else if (serviceEntries.length > 0) {
+    lines.push('    const services = models.flatMap(model => MODEL_SERVICES[model] ?? []);');
+    lines.push('    return {');
+    lines.push('      module: GeneratedGraphQLModule,');
+    lines.push(
+      `      providers: [...services, ...models.flatMap<Provider>(model => ${registry}[model])],`,
+    );
+    lines.push('      exports: services,');
+    lines.push('    };');
+  } else {
+    lines.push('    return {');
+    lines.push('      module: GeneratedGraphQLModule,');
+    lines.push(`      providers: models.flatMap<Provider>(model => ${registry}[model]),`);
+    lines.push('    };');
+  }
+  lines.push('  }');
+  lines.push('}');
+
+  files.push({ path: 'module.ts', content: lines.join('\n') + '\n' });
+  return files;
+}
+
+function generateFeatureModule(
+  model: string,
+  resolvers: ModelResolvers['resolvers'],
+  service: ModelResolvers['service'],
+  filePath: string,
+): string {
+  const providers = service ? [service, ...resolvers] : resolvers;
+  const lines: string[] = [`import { Module } from '@nestjs/common';`];
+  for (const { className, filePath: providerPath } of providers) {
+    lines.push(`import { ${className} } from '${importPath(filePath, providerPath)}';`);
+  }
+  lines.push('');
+  lines.push('/**');
+  lines.push(` * Registers the generated resolvers of ${model}`);
+  lines.push(' */');
+  lines.push('@Module({');
+  lines.push(`  providers: [${providers.map(p => p.className).join(', ')}],`);
+  if (service) lines.push(`  exports: [${service.className}],`);
+  lines.push('})');
+  lines.push(`export class ${model}GraphQLModule {}`);
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Relative import specifier from one generated file to another
+ */
+function importPath(fromFile: string, toFile: string): string {
+  const relative = path.posix.relative(path.posix.dirname(fromFile), toFile.replace(/\.ts$/, ''));
+  return relative.startsWith('.') ? relative : `./${relative}`;
+}
@@ -0,0 +1,165 @@
+import type { CrudOperation, InputType, Model } from './dmmf/types';
+
+import { CRUD_OPERATIONS } from './dmmf/types';
+import type { DMMFDocument } from './dmmf/document';
+import type { GeneratorConfig } from '../cli/options-parser';
+import { isRelationField } from './dmmf/transformer';
+
+/**
+ * Input types (relative to the model name) an operation's args class needs
+ * and the ones it only uses when Prisma generated them
+ */
+const OPERATION_INPUTS: Record<CrudOperation, { required: string[]; optional: string[] }> = {
+  findMany: {
+    required: ['WhereInput'],
+    optional: ['OrderByWithRelationInput', 'WhereUniqueInput'],
+  },
+  findFirst: {
+    required: ['WhereInput'],
+    optional: ['OrderByWithRelationInput', 'WhereUniqueInput'],
+  },
+  findUnique: { required: ['WhereUniqueInput'], optional: [] },
+  create: { required: ['CreateInput'], optional: [] },
+  createMany: { required: ['CreateManyInput'], optional: [] },
+  update: { required: ['UpdateInput', 'WhereUniqueInput'], optional: [] },
+  updateMany: { required: ['UpdateManyMutationInput', 'WhereInput'], optional: [] },
+  upsert: { required: ['CreateInput', 'UpdateInput', 'WhereUniqueInput'], optional: [] },
+  delete: { required: ['WhereUniqueInput'], optional: [] },
+  deleteMany: { required: ['WhereInput'], optional: [] },
+  aggregate: {
+    required: ['WhereInput'],
+    optional: ['OrderByWithRelationInput', 'WhereUniqueInput'],
+  },
+  groupBy: {
+    required: ['WhereInput'],
+    optional: ['OrderByWithRelationInput', 'ScalarWhereWithAggregatesInput'],
+  },
+  count: {
+    required: ['WhereInput'],
+    optional: ['OrderByWithRelationInput', 'WhereUniqueInput'],
+  },
+};
+
+/**
+ * Inputs whose absence marks a model as read-only (e.g. a database view)
+ */
+const MUTATION_INPUTS = [
+  'CreateInput',
+  'CreateManyInput',
+  'UpdateInput',
+  'UpdateManyMutationInput',
+];
+
+/**
+ * Get the operations Prisma supports for a model, based on the generated input types
+ */
+export function getAvailableOperations(
+  model: Model,
+  inputTypeNames: ReadonlySet<string>,
+): CrudOperation[] {
+  const has = (suffix: string) => inputTypeNames.has(`${model.name}${suffix}`);
+  // Read-only models have no mutation inputs and can't be deleted from either
+  const isReadOnly = !MUTATION_INPUTS.some(has);
+
+  return CRUD_OPERATIONS.filter(
+    op =>
+      OPERATION_INPUTS[op].required.every(has) &&
+      !(isReadOnly && (op === 'delete' || op === 'deleteMany')),
+  );
+}
+
+/**
+ * Get the operations to generate for a model: the `@gql.operations(...)`
+ * annotation, else the `operations` option, limited to what Prisma supports
+ */
+export function getModelOperations(
+  model: Model,
+  inputTypeNames: ReadonlySet<string>,
+  config: GeneratorConfig,
+): Set<CrudOperation> {
+  const selected: readonly CrudOperation[] =
+    model.annotations.operations ?? config.operations ?? CRUD_OPERATIONS;
+  return new Set(getAvailableOperations(model, inputTypeNames).filter(op => selected.includes(op)));
+}
+
+/**
+ * An operation of a model with the TypeScript types of its args and result
+ */
+export interface TypedOperation {
+  operation: CrudOperation;
+  argsType: string;
+  /** What the operation resolves to, e.g. `User[]` */
+  resultType: string;
+}
+
+/**
+ * Get input types that no enabled operation references.
+ *
+ * Nothing is pruned while every operation Prisma supports is enabled, so the
+ * output only changes once operations are actually restricted.
+ */
+export function getUnusedInputTypes(dmmf: DMMFDocument, config: GeneratorConfig): Set<string> {
+  const inputTypeNames = new Set(dmmf.inputTypes.keys());
+  const operations = new Map(
+    dmmf.models.map(model => [model, getModelOperations(model, inputTypeNames, config)]),
+  );
+
+  const isRestricted = dmmf.models.some(
+    model => operations.get(model)!.size < getAvailableOperations(model, inputTypeNames).length,
+  );
+  if (!isRestricted) return new Set();
+
+  const used = getReachableInputTypes(dmmf, config, model => operations.get(model)!);
+  return new Set([...inputTypeNames].filter(name => !used.has(name)));
+}
+
+/**
+ * Collect the input types referenced, directly or through nested fields,
+ * by the args of the given operations
+ */
+function getReachableInputTypes(
+  dmmf: DMMFDocument,
+  config: GeneratorConfig,
+  operationsFor: (model: Model) => Iterable<CrudOperation>,
+): Set<string> {
+  const pending: string[] = [];
+
+  for (const model of dmmf.models) {
+    for (const op of operationsFor(model)) {
+      const { required, optional } = OPERATION_INPUTS[op];
+      for (const suffix of [...required, ...optional]) {
+        pending.push(`${model.name}${suffix}`);
+      }
+    }
+
+    // Subscriptions take a where filter, whichever operations are enabled
+    if (model.annotations.subscriptions && config.generateResolvers) {
+      pending.push(`${model.name}WhereInput`);
+    }
+
+    // List relations resolved by the grouped relations resolver take where/orderBy args
+    if (config.groupByModel && config.generateResolvers) {
+      for (const field of model.fields) {
+        if (isRelationField(field) && field.isList && !field.annotations.omitOutput) {
+          pending.push(`${field.type}WhereInput`, `${field.type}OrderByWithRelationInput`);
+        }
+      }
+    }
+  }
+
+  const result = new Set<string>();
+  while (pending.length > 0) {
+    const name = pending.pop()!;
+    const inputType: InputType | undefined = dmmf.inputTypes.get(name);
+    if (!inputType || result.has(name)) continue;
+
+    result.add(name);
+    for (const field of inputType.fields) {
+      for (const t of field.inputTypes) {
+        if (t.location === 'inputObjectTypes') pending.push(t.type);
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,110 @@
+import type { GeneratorConfig } from '../cli/options-parser';
+import { importFromOutput } from './imports';
+import type { NamedImports } from './imports';
+
+/**
+ * How the resolvers of one file get the Prisma client, from `prismaSource`
+ */
+export interface PrismaAccess {
+  /** Imports of the context or service type */
+  imports: NamedImports[];
+  /** Type of the `@Context()` parameter, when the client is on the context */
+  contextType?: string;
+  /** Class taken through the constructor, when the client is injected */
+  serviceType?: string;
+  /** Name of the constructor parameter holding `serviceType` */
+  serviceName?: string;
+  /** Expression for the Prisma client, or the model service, inside a resolver method */
+  client: string;
+}
+
+/**
+ * The Prisma client class to inject and its import, from `prismaService`
+ */
+export function getInjectedPrisma(
+  config: GeneratorConfig,
+  filePath: string,
+): { serviceType: string; imports: NamedImports[] } {
+  if (!config.prismaService) {
+    const prismaClientPath = config.prismaClientPath || '@prisma/client';
+    return {
+      serviceType: 'PrismaClient',
+      imports: [{ moduleSpecifier: prismaClientPath, namedImports: ['PrismaClient'] }],
+    };
+  }
+  return {
+    serviceType: config.prismaService,
+    imports: [
+      {
+        moduleSpecifier: importFromOutput(filePath, config.prismaServicePath!),
+        namedImports: [config.prismaService],
+      },
+    ],
+  };
+}
+
+/**
+ * Resolve the Prisma client access for a resolver file, with import paths
+ * relative to `filePath` (a path inside the output directory). With
+ * `service` (`modulePath` relative to the output directory too), the resolvers
+ * take the generated model service instead of the client.
+ */
+export function getPrismaAccess(
+  config: GeneratorConfig,
+  filePath: string,
+  service?: { className: string; modulePath: string },
+): PrismaAccess {
+  const prismaClientPath = config.prismaClientPath || '@prisma/client';
+
+  const contextImports: NamedImports[] = config.contextType
+    ? [
+        {
+          moduleSpecifier: importFromOutput(filePath, config.contextTypePath!),
+          namedImports: [config.contextType],
+        },
+      ]
+    : [];
+
+  if (config.prismaSource === 'inject') {
+    const { serviceType, imports } = service
+      ? {
+          serviceType: service.className,
+          imports: [
+            {
+              moduleSpecifier: importFromOutput(filePath, service.modulePath),
+              namedImports: [service.className],
+            },
+          ],
+        }
+      : getInjectedPrisma(config, filePath);
+    const serviceName = service ? 'service' : 'prisma';
+    const injected = { serviceType, serviceName, client: `this.${serviceName}` };
+    // Base resolver hooks, mutation events, tenancy and audit fields still get the context
+    return config.baseResolvers ||
+      config.generateEvents ||
+      config.tenantField ||
+      config.contextUserKey
+      ? {
+          imports: [...imports, ...contextImports],
+          contextType: config.contextType ?? 'unknown',
+          ...injected,
+        }
+      : { imports, ...injected };
+  }
+
+  const client = `ctx.${config.contextPrismaKey ?? 'prisma'}`;
+  if (config.contextType) {
+    return { imports: contextImports, contextType: config.contextType, client };
+  }
+  return {
+    imports: [
+      { moduleSpecifier: prismaClientPath, namedImports: ['PrismaClient'] },
+      {
+        moduleSpecifier: importFromOutput(filePath, './helpers'),
+        namedImports: ['GraphQLContext'],
+      },
+    ],
+    contextType: 'GraphQLContext<PrismaClient>',
+    client,
+  };
+}
@@ -0,0 +1,112 @@
+import type { Model, ModelField } from './dmmf/types';
+
+/**
+ * Relations nested writes go through: read-only ones are left out of the inputs
+ */
+export function isWritableRelation(field: ModelField): boolean {
+  return field.kind === 'object' && !field.annotations.readonly;
+}
+
+/**
+ * The relations of a model whose nested writes lead to one of `names`
+ */
+export function getNestedWriteRelations(model: Model, names: Set<string>): ModelField[] {
+  return model.fields.filter(field => isWritableRelation(field) && names.has(field.type));
+}
+
+/**
+ * Models that `matches`, and those whose nested writes lead to one
+ */
+export function getNestedWriteModelNames(
+  models: Model[],
+  matches: (model: Model) => boolean,
+): Set<string> {
+  const names = new Set(models.filter(matches).map(model => model.name));
+  let grown = true;
+  while (grown) {
+    grown = false;
+    for (const model of models) {
+      if (names.has(model.name)) continue;
+      if (getNestedWriteRelations(model, names).length > 0) {
+        names.add(model.name);
+        grown = true;
+      }
+    }
+  }
+  return names;
+}
+
+/**
+ * Whether a relation, or a relation of the related models in turn, leads to a
+ * model that `matches`
+ */
+export function reachesRelatedModel(
+  model: Model,
+  models: Model[],
+  matches: (related: Model) => boolean,
+): boolean {
+  const byName = new Map(models.map(m => [m.name, m]));
+  const seen = new Set<string>();
+  const pending = [model];
+  while (pending.length > 0) {
+    for (const field of pending.pop()!.fields) {
+      const related = field.kind === 'object' ? byName.get(field.type) : undefined;
+      if (!related || seen.has(related.name)) continue;
+      if (matches(related)) return true;
+      seen.add(related.name);
+      pending.push(related);
+    }
+  }
+  return false;
+}
+
+/**
+ * Runtime helper walking the nested writes of a relation, part of helpers.ts
+ * with the tenancy and audit helpers that set fields of nested records
+ */
+export const NESTED_WRITES_HELPER = `
+/**
+ * Map the data of each record the nested writes of a relation create or
+ * update, e.g. \`{ create: [...], update: [{ where, data }] }\`. \`scalars\` is
+ * set for the bulk writes, which take no relations.
+ */
+function mapNestedWrites(
+  writes: Record<string, unknown>,
+  apply: (data: unknown, write: 'create' | 'update', scalars: boolean) => unknown,
+): Record<string, unknown> {
+  const each = (value: unknown, map: (write: Record<string, unknown>) => unknown) =>
+    Array.isArray(value)
+      ? value.map(map)
+      : value !== null && typeof value === 'object'
+        ? map(value as Record<string, unknown>)
+        : value;
+  // A to-one update is its data, a to-many one has \`where\` and \`data\`
+  const isWhereData = (write: Record<string, unknown>) =>
+    'data' in write && Object.keys(write).every(key => key === 'where' || key === 'data');
+
+  const result = { ...writes };
+  if ('create' in result) result.create = apply(result.create, 'create', false);
+  if ('createMany' in result) {
+    result.createMany = each(result.createMany, w => ({ ...w, data: apply(w.data, 'create', true) }));
+  }
+  if ('connectOrCreate' in result) {
+    result.connectOrCreate = each(result.connectOrCreate, w => ({ ...w, create: apply(w.create, 'create', false) }));
+  }
+  if ('upsert' in result) {
+    result.upsert = each(result.upsert, w => ({
+      ...w,
+      create: apply(w.create, 'create', false),
+      update: apply(w.update, 'update', false),
+    }));
+  }
+  if ('update' in result) {
+    result.update = each(result.update, w =>
+      isWhereData(w) ? { ...w, data: apply(w.data, 'update', false) } : apply(w, 'update', false),
+    );
+  }
+  if ('updateMany' in result) {
+    result.updateMany = each(result.updateMany, w => ({ ...w, data: apply(w.data, 'update', true) }));
+  }
+  return result;
+}
+`;
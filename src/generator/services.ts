@@ -0,0 +1,130 @@
+import type { CrudOperation } from './dmmf/types';
+import type { TypedOperation } from './operations';
+import {
+  getRestoreCall,
+  getRestoreOperation,
+  getSoftDeleteCall,
+  getSoftDeleteStatements,
+} from './soft-delete';
+import type { ModelSoftDelete } from './soft-delete';
+
+/**
+ * Operations whose Prisma call takes the `select` built from the GraphQL selection
+ */
+const SELECT_OPERATIONS: readonly CrudOperation[] = [
+  'findMany',
+  'findFirst',
+  'findUnique',
+  'create',
+  'update',
+  'upsert',
+  'delete',
+];
+
+/**
+ * Parameter of the soft deletes and restore taking the data they update the
+ * record with
+ */
+const DATA_PARAMETER = { name: 'data', type: 'Record<string, unknown>' };
+
+/**
+ * A method of a generated model service
+ */
+export interface ServiceMethod {
+  name: CrudOperation | 'restore';
+  parameters: { name: string; type: string; initializer?: string }[];
+  returnType: string;
+  statements: string[];
+}
+
+/**
+ * Methods of a model service: each runs one operation on
+ * `this.prisma.<delegate>` with the given args and, where Prisma takes one, a
+ * selection that defaults to Prisma's own. The deletes of a soft deleted model
+ * set its field, and `restore` clears it again when opted in; they take the
+ * `data` to update the record with, which resolvers add the audit fields to.
+ */
+export function getServiceMethods(
+  operations: TypedOperation[],
+  delegate: string,
+  softDelete?: ModelSoftDelete,
+): ServiceMethod[] {
+  const methods: ServiceMethod[] = operations.map(({ operation, argsType, resultType }) => {
+    const selection = getSelectionParameter(operation);
+    const { method, data } = getSoftDeleteCall(operation, softDelete);
+    const call = `this.prisma.${delegate}.${method}`;
+    const dataArg = data ? ', data' : '';
+    let statement: string;
+    if (selection) {
+      statement = `return ${call}({ ...args${dataArg}, ...${selection.name} } as any);`;
+    } else if (operation === 'count') {
+      statement = `return ${call}({ where: args.where } as any);`;
+    } else if (data) {
+      statement = `return ${call}({ ...args${dataArg} } as any);`;
+    } else {
+      statement = `return ${call}(args as any);`;
+    }
+
+    return {
+      name: operation,
+      parameters: [
+        { name: 'args', type: argsType },
+        ...(selection ? [{ ...selection, initializer: '{}' }] : []),
+        ...(data ? [{ ...DATA_PARAMETER, initializer: data }] : []),
+      ],
+      returnType: `Promise<${resultType}>`,
+      statements: [...getSoftDeleteStatements(operation, softDelete), statement],
+    };
+  });
+
+  const restore = getRestoreOperation(operations, softDelete);
+  if (restore) {
+    methods.push({
+      name: 'restore',
+      parameters: [
+        { name: 'args', type: restore.argsType },
+        { ...getSelectionParameter('restore')!, initializer: '{}' },
+        { ...DATA_PARAMETER, initializer: getSoftDeleteCall('restore', softDelete).data! },
+      ],
+      returnType: `Promise<${restore.resultType}>`,
+      statements: [
+        `return ${getRestoreCall(`this.prisma.${delegate}`, softDelete!.records!, 'select', 'data')};`,
+      ],
+    });
+  }
+  return methods;
+}
+
+/**
+ * Body of a resolver method handing an operation to the model service
+ * (`service`), with the selection built by `selectCall`, e.g.
+ * `transformInfoIntoPrismaArgs(info)`, and the `data` of a soft delete or restore
+ */
+export function getServiceCall(
+  operation: CrudOperation | 'restore',
+  service: string,
+  selectCall: string,
+  data?: string,
+): string[] {
+  const selection = getSelectionParameter(operation);
+  const dataArg = data ? `, ${data}` : '';
+  if (!selection) return [`return ${service}.${operation}(args${dataArg});`];
+
+  const build =
+    selection.name === 'select' ? selectCall : 'transformInfoIntoPrismaAggregateArgs(info)';
+  return [
+    `const ${selection.name} = ${build};`,
+    `return ${service}.${operation}(args, ${selection.name}${dataArg});`,
+  ];
+}
+
+function getSelectionParameter(
+  operation: CrudOperation | 'restore',
+): { name: string; type: string } | undefined {
+  if (operation === 'restore' || SELECT_OPERATIONS.includes(operation))
+    return { name: 'select', type: 'PrismaSelect' };
+  if (operation === 'aggregate' || operation === 'groupBy') {
+    return { name: 'aggregateArgs', type: 'PrismaAggregateArgs' };
+  }
+  return undefined;
+}
@@ -0,0 +1,181 @@
+import type { CrudOperation, Model, SoftDelete } from './dmmf/types';
+import type { TypedOperation } from './operations';
+import { withAuditedUpdate } from './audit';
+import type { ModelAudit } from './audit';
+import { reachesRelatedModel } from './relations';
+
+/**
+ * Operations reading records, which leave the deleted ones out unless
+ * `withDeleted` asks for them
+ */
+const READ_OPERATIONS: readonly CrudOperation[] = [
+  'findMany',
+  'findFirst',
+  'findUnique',
+  'aggregate',
+  'groupBy',
+  'count',
+];
+
+/**
+ * How the resolvers of a model deal with soft deleted records
+ */
+export interface ModelSoftDelete {
+  /** Soft delete of the model's own records, with `@gql.softDelete` */
+  records?: SoftDelete;
+  /** Its selections lead to soft deleted models, whose deleted records list relations leave out */
+  relations: boolean;
+}
+
+/**
+ * Get the soft delete of a model's resolvers: of its own records when it is
+ * annotated, of its relations when they lead to a model that is. Undefined
+ * when neither applies.
+ */
+export function getModelSoftDelete(model: Model, models: Model[]): ModelSoftDelete | undefined {
+  const records = model.annotations.softDelete;
+  const relations = reachesRelatedModel(model, models, m => !!m.annotations.softDelete);
+  if (!records && !relations) return undefined;
+  return { ...(records && { records }), relations };
+}
+
+/**
+ * The soft delete field of each soft deleted model, for `DELETED_FIELDS`
+ */
+export function getDeletedFields(models: Model[]): Record<string, string> {
+  return Object.fromEntries(
+    models.flatMap(model =>
+      model.annotations.softDelete ? [[model.name, model.annotations.softDelete.field]] : [],
+    ),
+  );
+}
+
+/**
+ * Statements ahead of the Prisma call of an operation on a soft deleted
+ * model: reads and deletes leave the deleted records out
+ */
+export function getSoftDeleteStatements(
+  operation: CrudOperation,
+  softDelete: ModelSoftDelete | undefined,
+): string[] {
+  const field = softDelete?.records?.field;
+  if (!field || ![...READ_OPERATIONS, 'delete', 'deleteMany'].includes(operation)) return [];
+  return [`args = excludeDeleted(args, '${field}');`];
+}
+
+/**
+ * The Prisma method an operation calls and the `data` it adds to the args:
+ * the deletes of a soft deleted model set its field instead, and its restore
+ * clears it. Both update the record, so with `audit` they set its updatedBy
+ * field too.
+ */
+export function getSoftDeleteCall(
+  operation: CrudOperation | 'restore',
+  softDelete: ModelSoftDelete | undefined,
+  audit?: ModelAudit,
+): { method: string; data?: string } {
+  const field = softDelete?.records?.field;
+  if (field && operation === 'delete') {
+    return { method: 'update', data: withAuditedUpdate(`{ ${field}: new Date() }`, audit) };
+  }
+  if (field && operation === 'deleteMany') {
+    return { method: 'updateMany', data: withAuditedUpdate(`{ ${field}: new Date() }`, audit) };
+  }
+  if (field && operation === 'restore') {
+    return { method: 'update', data: withAuditedUpdate(`{ ${field}: null }`, audit) };
+  }
+  return { method: operation };
+}
+
+/**
+ * Whether the restore mutation is generated: opted in, next to a delete mutation
+ */
+export function hasRestore(
+  operations: Iterable<CrudOperation>,
+  softDelete: ModelSoftDelete | undefined,
+): boolean {
+  return !!softDelete?.records?.restore && [...operations].includes('delete');
+}
+
+/**
+ * The restore mutation as an operation, taking the args of the delete one and
+ * resolving to its result
+ */
+export interface RestoreOperation extends Omit<TypedOperation, 'operation'> {
+  operation: 'restore';
+}
+
+/**
+ * Get the restore operation of a model, typed like its delete operation, when
+ * the restore mutation is generated
+ */
+export function getRestoreOperation(
+  operations: TypedOperation[],
+  softDelete: ModelSoftDelete | undefined,
+): RestoreOperation | undefined {
+  const deletion = operations.find(o => o.operation === 'delete');
+  if (!deletion || !hasRestore([deletion.operation], softDelete)) return undefined;
+  return { ...deletion, operation: 'restore' };
+}
+
+/**
+ * Name of the restore mutation, after the delete one, e.g. `restoreOneUser`
+ */
+export function getRestoreName(deleteName: string): string {
+  return deleteName.replace(/^delete/, 'restore');
+}
+
+/**
+ * Expression restoring the record `args.where` points at, through `delegate`,
+ * e.g. `ctx.prisma.user`: updating it with `data` when its soft delete field is
+ * set, so records that aren't deleted aren't found
+ */
+export function getRestoreCall(
+  delegate: string,
+  softDelete: SoftDelete,
+  select: string,
+  data: string,
+): string {
+  const where = `{ ...args.where, ${softDelete.field}: { not: null } }`;
+  return `${delegate}.update({ where: ${where}, ${data === 'data' ? data : `data: ${data}`}, ...${select} } as any)`;
+}
+
+/**
+ * Runtime helpers the soft delete statements of the given operations call, to import
+ */
+export function getSoftDeleteHelpers(
+  operations: Iterable<CrudOperation>,
+  softDelete: ModelSoftDelete | undefined,
+): string[] {
+  return [...operations].some(op => getSoftDeleteStatements(op, softDelete).length > 0)
+    ? ['excludeDeleted']
+    : [];
+}
+
+/**
+ * Runtime helpers of soft deleted models, appended to helpers.ts with the
+ * soft delete field of each of them
+ */
+export function getSoftDeleteHelpersSource(deletedFields: Record<string, string>): string {
+  const entries = Object.entries(deletedFields).map(([model, field]) => `${model}: '${field}'`);
+  return `
+/**
+ * Soft delete field of each soft deleted model, for the \`deletedFields\` of
+ * transformInfoIntoPrismaArgs
+ */
+export const DELETED_FIELDS: Record<string, string> = { ${entries.join(', ')} };
+
+/**
+ * Leave the records whose soft delete \`field\` is set out of the args of a
+ * Prisma query, unless \`withDeleted\` asks for them
+ */
+export function excludeDeleted<T extends { where?: object | null; withDeleted?: boolean | null }>(
+  args: T,
+  field: string,
+): T {
+  const { withDeleted, ...rest } = args;
+  if (withDeleted) return rest as T;
+  return { ...rest, where: scopeWhere(rest.where as object | undefined, { [field]: null }) } as T;
+}
+`;
+}
@@ -0,0 +1,221 @@
+import type { CrudOperation, Model } from './dmmf/types';
+import { camelCase } from './dmmf/transformer';
+
+/**
+ * Kind of change a model subscription reports
+ */
+export type SubscriptionEvent = 'created' | 'updated' | 'deleted';
+
+/**
+ * Mutations publishing each event. Prisma doesn't tell which branch an upsert
+ * took, so upserts are reported as updates.
+ */
+const EVENT_OPERATIONS: Record<SubscriptionEvent, CrudOperation[]> = {
+  created: ['create'],
+  updated: ['update', 'upsert'],
+  deleted: ['delete'],
+};
+
+/**
+ * A subscription of a model, e.g. `userCreated`
+ */
+export interface ModelSubscription {
+  event: SubscriptionEvent;
+  /** Subscription field name, also the PubSub trigger it listens on */
+  name: string;
+  /** Mutations publishing to it */
+  operations: CrudOperation[];
+}
+
+/**
+ * Get the subscriptions of a model with `@gql.subscriptions`: one per event
+ * that an enabled mutation publishes
+ */
+export function getModelSubscriptions(
+  model: Model,
+  ops: ReadonlySet<CrudOperation>,
+): ModelSubscription[] {
+  if (!model.annotations.subscriptions) return [];
+
+  const prefix = camelCase(model.annotations.name ?? model.name);
+  return (Object.keys(EVENT_OPERATIONS) as SubscriptionEvent[])
+    .map(event => ({
+      event,
+      name: `${prefix}${event.charAt(0).toUpperCase()}${event.slice(1)}`,
+      operations: EVENT_OPERATIONS[event].filter(op => ops.has(op)),
+    }))
+    .filter(subscription => subscription.operations.length > 0);
+}
+
+/**
+ * The subscription a mutation publishes to, if any. A restore publishes to the
+ * `updated` one, when the update or upsert mutations give the model one.
+ */
+export function getPublishedSubscription(
+  subscriptions: ModelSubscription[],
+  operation: CrudOperation | 'restore',
+): ModelSubscription | undefined {
+  if (operation === 'restore') {
+    return subscriptions.find(subscription => subscription.event === 'updated');
+  }
+  return subscriptions.find(subscription => subscription.operations.includes(operation));
+}
+
+/**
+ * Statement publishing the result of a mutation (`record`) to `trigger`
+ */
+export function getPublishStatement(trigger: string): string {
+  return `await this.pubSub.publish('${trigger}', record);`;
+}
+
+/**
+ * Fields identifying a record of the model, to fetch it again for subscribers:
+ * the primary key, else the first unique field or constraint
+ */
+export function getRecordKey(model: Model): string[] | undefined {
+  const ids = model.fields.filter(field => field.isId).map(field => field.name);
+  if (ids.length > 0) return ids;
+  if (model.primaryKey) return model.primaryKey.fields;
+
+  const unique = model.fields.find(field => field.isUnique);
+  return unique ? [unique.name] : model.uniqueFields[0];
+}
+
+/**
+ * Body of a subscription's `resolve`, fetching the published record (`payload`)
+ * again with the subscriber's selection, built by `selectCall`. Deleted
+ * records, or ones without a key, are returned as published.
+ */
+export function getResolveStatements(
+  subscription: ModelSubscription,
+  key: string[] | undefined,
+  client: string,
+  delegate: string,
+  selectCall: string,
+): string[] {
+  if (subscription.event === 'deleted' || !key) return ['return payload;'];
+
+  const where = key.map(field => `${field}: payload.${field}`).join(', ');
+  return [
+    `const select = ${selectCall};`,
+    `return ${client}.${delegate}.findFirst({ where: { ${where} }, ...select } as any);`,
+  ];
+}
+
+/**
+ * Runtime helpers of the generated subscriptions, appended to helpers.ts when
+ * a model has `@gql.subscriptions`
+ */
+export const SUBSCRIPTION_HELPERS = `
+/**
+ * Injection token of the PubSub engine the generated subscriptions use, e.g.
+ * \`{ provide: PUB_SUB, useValue: new PubSub() }\` with PubSub from graphql-subscriptions
+ */
+export const PUB_SUB = 'PUB_SUB';
+
+/**
+ * The PubSub methods the generated resolvers call, as provided by a
+ * graphql-subscriptions (v3) \`PubSubEngine\`
+ */
+export interface GraphQLPubSub {
+  publish(triggerName: string, payload: unknown): Promise<void>;
+  asyncIterableIterator<T>(triggers: string | readonly string[]): AsyncIterableIterator<T>;
+}
+
+/**
+ * Whether a record matches a Prisma \`where\` filter. Scalar filters (equals, in,
+ * lt, contains, ...) and AND / OR / NOT are evaluated; relation filters never match.
+ */
+export function matchesWhere(record: object, where?: object | null): boolean {
+  if (!where) return true;
+
+  return Object.entries(where).every(([key, condition]) => {
+    if (condition === undefined) return true;
+    const conditions: object[] = Array.isArray(condition) ? condition : [condition];
+    if (key === 'AND') return conditions.every(c => matchesWhere(record, c));
+    if (key === 'OR') return conditions.some(c => matchesWhere(record, c));
+    if (key === 'NOT') return !conditions.some(c => matchesWhere(record, c));
+    return key in record && matchesFilter((record as Record<string, unknown>)[key], condition);
+  });
+}
+
+function matchesFilter(value: unknown, filter: unknown): boolean {
+  if (!isFilterObject(filter)) return isEqual(value, filter);
+
+  const insensitive = filter.mode === 'insensitive';
+  const text = (v: unknown) => (insensitive && typeof v === 'string' ? v.toLowerCase() : v);
+
+  return Object.entries(filter).every(([operator, operand]) => {
+    if (operand === undefined || operator === 'mode') return true;
+    switch (operator) {
+      case 'equals':
+        return isEqual(text(value), text(operand));
+      case 'not':
+        return isFilterObject(operand)
+          ? !matchesFilter(value, operand)
+          : !isEqual(text(value), text(operand));
+      case 'in':
+        return Array.isArray(operand) && operand.some(o => isEqual(text(value), text(o)));
+      case 'notIn':
+        return Array.isArray(operand) && !operand.some(o => isEqual(text(value), text(o)));
+      case 'lt':
+        return compare(value, operand) < 0;
+      case 'lte':
+        return compare(value, operand) <= 0;
+      case 'gt':
+        return compare(value, operand) > 0;
+      case 'gte':
+        return compare(value, operand) >= 0;
+      case 'contains':
+      case 'startsWith':
+      case 'endsWith': {
+        const [a, b] = [text(value), text(operand)];
+        if (typeof a !== 'string' || typeof b !== 'string') return false;
+        return operator === 'contains'
+          ? a.includes(b)
+          : operator === 'startsWith'
+            ? a.startsWith(b)
+            : a.endsWith(b);
+      }
+      default:
+        return false;
+    }
+  });
+}
+
+function isFilterObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date) &&
+    !isDecimalLike(value)
+  );
+}
+
+function isDecimalLike(value: unknown): value is { toNumber(): number } {
+  return typeof (value as { toNumber?: unknown } | null)?.toNumber === 'function';
+}
+
+/**
+ * Dates and decimals compare by value
+ */
+function toComparable(value: unknown): unknown {
+  if (value instanceof Date) return value.getTime();
+  if (isDecimalLike(value)) return value.toNumber();
+  return value;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return toComparable(a) === toComparable(b);
+}
+
+/**
+ * Order of two values, NaN when either is missing
+ */
+function compare(a: unknown, b: unknown): number {
+  const [x, y] = [toComparable(a), toComparable(b)];
+  if (x === null || x === undefined || y === null || y === undefined) return NaN;
+  return (x as number) < (y as number) ? -1 : (x as number) > (y as number) ? 1 : 0;
+}
+`;
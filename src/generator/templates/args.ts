@@ -3,6 +3,9 @@ import { Project, SourceFile } from 'ts-morph';
 import type { DMMFDocument } from '../dmmf/document';
 import type { GeneratorConfig } from '../../cli/options-parser';
 import type { Model } from '../dmmf/types';
+import { getModelOperations } from '../operations';
+import type { ValidationDecorator } from './validation';
+import { getArgValidators, getValidationImports } from './validation';
 
 /**
  * Available input types for a model
@@ -76,9 +79,10 @@ function generateModelArgs(
     hasUpdateManyInput: inputTypeNames.has(`${model.name}UpdateManyMutationInput`),
     hasScalarWhereWithAggregates: inputTypeNames.has(`${model.name}ScalarWhereWithAggregatesInput`),
   };
+  const operations = getModelOperations(model, inputTypeNames, config);
 
-  // FindMany Args (needs WhereInput)
-  if (available.hasWhereInput) {
+  // FindMany Args (also used by count)
+  if (operations.has('findMany') || operations.has('count')) {
     const argsName = `FindMany${model.name}Args`;
     const findManyPath = `${basePath}/${argsName}.ts`;
     const findManyFile = project.createSourceFile(findManyPath, '', { overwrite: true });
@@ -87,8 +91,8 @@ function generateModelArgs(
     argsNames.push(argsName);
   }
 
-  // FindUnique Args (needs WhereUniqueInput)
-  if (available.hasWhereUniqueInput) {
+  // FindUnique Args
+  if (operations.has('findUnique')) {
     const argsName = `FindUnique${model.name}Args`;
     const findUniquePath = `${basePath}/${argsName}.ts`;
     const findUniqueFile = project.createSourceFile(findUniquePath, '', { overwrite: true });
@@ -97,8 +101,8 @@ function generateModelArgs(
     argsNames.push(argsName);
   }
 
-  // FindFirst Args (needs WhereInput)
-  if (available.hasWhereInput) {
+  // FindFirst Args
+  if (operations.has('findFirst')) {
     const argsName = `FindFirst${model.name}Args`;
     const findFirstPath = `${basePath}/${argsName}.ts`;
     const findFirstFile = project.createSourceFile(findFirstPath, '', { overwrite: true });
@@ -107,8 +111,8 @@ function generateModelArgs(
     argsNames.push(argsName);
   }
 
-  // Create Args (needs CreateInput)
-  if (available.hasCreateInput) {
+  // Create Args
+  if (operations.has('create')) {
     const argsName = `Create${model.name}Args`;
     const createPath = `${basePath}/${argsName}.ts`;
     const createFile = project.createSourceFile(createPath, '', { overwrite: true });
@@ -117,8 +121,8 @@ function generateModelArgs(
     argsNames.push(argsName);
   }
 
-  // CreateMany Args (needs CreateManyInput)
-  if (available.hasCreateManyInput) {
+  // CreateMany Args
+  if (operations.has('createMany')) {
     const argsName = `CreateMany${model.name}Args`;
     const createManyPath = `${basePath}/${argsName}.ts`;
     const createManyFile = project.createSourceFile(createManyPath, '', { overwrite: true });
@@ -127,8 +131,8 @@ function generateModelArgs(
     argsNames.push(argsName);
   }
 
-  // Update Args (needs UpdateInput and WhereUniqueInput)
-  if (available.hasUpdateInput && available.hasWhereUniqueInput) {
+  // Update Args
+  if (operations.has('update')) {
     const argsName = `Update${model.name}Args`;
     const updatePath = `${basePath}/${argsName}.ts`;
     const updateFile = project.createSourceFile(updatePath, '', { overwrite: true });
@@ -137,8 +141,8 @@ function generateModelArgs(
     argsNames.push(argsName);
   }
 
-  // UpdateMany Args (needs UpdateManyMutationInput and WhereInput)
-  if (available.hasUpdateManyInput && available.hasWhereInput) {
+  // UpdateMany Args
+  if (operations.has('updateMany')) {
     const argsName = `UpdateMany${model.name}Args`;
     const updateManyPath = `${basePath}/${argsName}.ts`;
     const updateManyFile = project.createSourceFile(updateManyPath, '', { overwrite: true });
@@ -147,8 +151,8 @@ function generateModelArgs(
     argsNames.push(argsName);
   }
 
-  // Upsert Args (needs CreateInput, UpdateInput, and WhereUniqueInput)
-  if (available.hasCreateInput && available.hasUpdateInput && available.hasWhereUniqueInput) {
+  // Upsert Args
+  if (operations.has('upsert')) {
     const argsName = `Upsert${model.name}Args`;
     const upsertPath = `${basePath}/${argsName}.ts`;
     const upsertFile = project.createSourceFile(upsertPath, '', { overwrite: true });
@@ -157,8 +161,8 @@ function generateModelArgs(
     argsNames.push(argsName);
   }
 
-  // Delete Args (needs WhereUniqueInput)
-  if (available.hasWhereUniqueInput) {
+  // Delete Args
+  if (operations.has('delete')) {
     const argsName = `Delete${model.name}Args`;
     const deletePath = `${basePath}/${argsName}.ts`;
     const deleteFile = project.createSourceFile(deletePath, '', { overwrite: true });
@@ -167,8 +171,8 @@ function generateModelArgs(
     argsNames.push(argsName);
   }
 
-  // DeleteMany Args (needs WhereInput)
-  if (available.hasWhereInput) {
+  // DeleteMany Args
+  if (operations.has('deleteMany')) {
     const argsName = `DeleteMany${model.name}Args`;
     const deleteManyPath = `${basePath}/${argsName}.ts`;
     const deleteManyFile = project.createSourceFile(deleteManyPath, '', { overwrite: true });
@@ -177,8 +181,8 @@ function generateModelArgs(
     argsNames.push(argsName);
   }
 
-  // Aggregate Args (needs WhereInput)
-  if (available.hasWhereInput) {
+  // Aggregate Args
+  if (operations.has('aggregate')) {
     const argsName = `Aggregate${model.name}Args`;
     const aggregatePath = `${basePath}/${argsName}.ts`;
     const aggregateFile = project.createSourceFile(aggregatePath, '', { overwrite: true });
@@ -187,8 +191,8 @@ function generateModelArgs(
     argsNames.push(argsName);
   }
 
-  // GroupBy Args (needs WhereInput)
-  if (available.hasWhereInput) {
+  // GroupBy Args
+  if (operations.has('groupBy')) {
     const argsName = `GroupBy${model.name}Args`;
     const groupByPath = `${basePath}/${argsName}.ts`;
     const groupByFile = project.createSourceFile(groupByPath, '', { overwrite: true });
@@ -197,9 +201,69 @@ function generateModelArgs(
     argsNames.push(argsName);
   }
 
+  // @gql.softDelete(withDeleted) lets the queries include the deleted records
+  if (model.annotations.softDelete?.withDeleted) {
+    for (const query of ['FindMany', 'FindUnique', 'FindFirst', 'Aggregate', 'GroupBy']) {
+      const argsName = `${query}${model.name}Args`;
+      files
+        .get(`${basePath}/${argsName}.ts`)
+        ?.getClass(argsName)
+        ?.addProperty({
+          name: 'withDeleted',
+          type: 'boolean',
+          hasQuestionToken: true,
+          decorators: [{ name: 'Field', arguments: ['() => Boolean', '{ nullable: true }'] }],
+        });
+    }
+  }
+
+  if (config.useValidation) {
+    for (const sourceFile of files.values()) {
+      addArgsValidation(sourceFile, dmmf);
+    }
+  }
+
   return { files, argsNames };
 }
 
+/**
+ * Attach class-validator decorators to every @ArgsType property, inferred from its @Field type
+ */
+function addArgsValidation(sourceFile: SourceFile, dmmf: DMMFDocument): void {
+  const validators: ValidationDecorator[] = [];
+
+  for (const classDecl of sourceFile.getClasses()) {
+    for (const property of classDecl.getProperties()) {
+      const typeArg = property.getDecorator('Field')?.getArguments()[0]?.getText();
+      const match = typeArg ? /^\(\) => (\[)?(\w+)\]?$/.exec(typeArg) : null;
+      if (!match) continue;
+
+      const decorators = getArgValidators(
+        match[2]!,
+        match[1] !== undefined,
+        property.hasQuestionToken(),
+        dmmf,
+      );
+      property.addDecorators(decorators);
+      validators.push(...decorators);
+    }
+  }
+
+  const { classValidator, classTransformer } = getValidationImports(validators);
+  if (classValidator.length > 0) {
+    sourceFile.addImportDeclaration({
+      moduleSpecifier: 'class-validator',
+      namedImports: classValidator,
+    });
+  }
+  if (classTransformer.length > 0) {
+    sourceFile.addImportDeclaration({
+      moduleSpecifier: 'class-transformer',
+      namedImports: classTransformer,
+    });
+  }
+}
+
 /**
  * Generate FindMany args
  */
@@ -60,8 +60,8 @@ function generateEnumFile(sourceFile: SourceFile, enumDef: Enum, config: Generat
     });
   } else {
     // Add documentation comment if present
-    if (enumDef.documentation) {
-      sourceFile.addStatements(`/** ${enumDef.documentation} */`);
+    if (enumDef.description) {
+      sourceFile.addStatements(`/** ${enumDef.description} */`);
     }
 
     // Create the enum
@@ -79,8 +79,8 @@ function generateEnumFile(sourceFile: SourceFile, enumDef: Enum, config: Generat
   // Add registerEnumType call
   sourceFile.addStatements(`
 registerEnumType(${enumDef.name}, {
-  name: '${enumDef.name}',
-  description: ${enumDef.documentation ? `'${escapeDescription(enumDef.documentation)}'` : 'undefined'},
+  name: '${enumDef.annotations.name ?? enumDef.name}',
+  description: ${enumDef.description ? `'${escapeDescription(enumDef.description)}'` : 'undefined'},
 });
 `);
 }
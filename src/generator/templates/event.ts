@@ -0,0 +1,81 @@
+import { Project, SourceFile } from 'ts-morph';
+
+import type { DMMFDocument } from '../dmmf/document';
+import type { GeneratorConfig } from '../../cli/options-parser';
+import { getModelOperations } from '../operations';
+import { getEventContext, getModelEvents } from '../events';
+import { mergeImports } from '../imports';
+import { getTypedOperations } from './resolver';
+
+/**
+ * Generate the typed events of each model with a resolver, for `generateEvents`
+ */
+export function generateEvents(
+  project: Project,
+  dmmf: DMMFDocument,
+  config: GeneratorConfig,
+  resolverFiles: ReadonlyMap<string, SourceFile>,
+): Map<string, SourceFile> {
+  const files = new Map<string, SourceFile>();
+  const resolversDir = config.outputDirs?.resolvers ?? 'resolvers';
+  const inputTypeNames = new Set(dmmf.inputTypes.keys());
+  const exported: string[] = [];
+
+  for (const model of dmmf.models) {
+    if (!resolverFiles.has(`${resolversDir}/${model.name}Resolver.ts`)) continue;
+
+    const names = dmmf.getModelMapping(model.name)!;
+    const ops = getModelOperations(model, inputTypeNames, config);
+    const typed = getTypedOperations(ops, model.name, names.typeName);
+    const filePath = `events/${model.name}Events.ts`;
+    const context = getEventContext(config, filePath);
+    const events = getModelEvents(model.name, names.typeName, typed, context.contextType);
+    if (events.length === 0) continue;
+
+    const sourceFile = project.createSourceFile(filePath, '', { overwrite: true });
+    sourceFile.addImportDeclaration({
+      moduleSpecifier: `../${config.outputDirs?.models ?? 'models'}/${model.name}`,
+      namedImports: [names.typeName],
+    });
+    for (const argsType of events.flatMap(event => (event.argsType ? [event.argsType] : []))) {
+      sourceFile.addImportDeclaration({
+        moduleSpecifier: `../${config.outputDirs?.args ?? 'args'}/${argsType}`,
+        namedImports: [argsType],
+      });
+    }
+    sourceFile.addImportDeclarations(mergeImports(context.imports));
+
+    for (const event of events) {
+      sourceFile.addClass({
+        name: event.className,
+        isExported: true,
+        docs: [event.doc],
+        properties: [
+          {
+            name: 'eventName',
+            isStatic: true,
+            isReadonly: true,
+            initializer: `'${event.eventName}'`,
+          },
+        ],
+        ctors: [
+          {
+            parameters: event.properties.map(property => ({ ...property, isReadonly: true })),
+          },
+        ],
+      });
+    }
+    files.set(filePath, sourceFile);
+    exported.push(model.name);
+  }
+
+  if (exported.length > 0) {
+    const indexFile = project.createSourceFile('events/index.ts', '', { overwrite: true });
+    for (const modelName of exported) {
+      indexFile.addExportDeclaration({ moduleSpecifier: `./${modelName}Events` });
+    }
+    files.set('events/index.ts', indexFile);
+  }
+
+  return files;
+}
@@ -3,3 +3,6 @@ export * from './model';
 export * from './input';
 export * from './args';
 export * from './resolver';
+export * from './service';
+export * from './subscription';
+export * from './event';
@@ -4,6 +4,9 @@ import { Project, SourceFile } from 'ts-morph';
 
 import type { DMMFDocument } from '../dmmf/document';
 import type { GeneratorConfig } from '../../cli/options-parser';
+import { getUnusedInputTypes } from '../operations';
+import type { ValidationDecorator } from './validation';
+import { getInputFieldValidators, getValidatedSetClass, getValidationImports } from './validation';
 
 /**
  * Generate input type files
@@ -15,10 +18,11 @@ export function generateInputs(
 ): Map<string, SourceFile> {
   const files = new Map<string, SourceFile>();
   const generatedInputTypes = new Set<string>();
+  const unusedInputTypes = getUnusedInputTypes(dmmf, config);
 
-  // Generate ALL input types from the DMMF
+  // Generate ALL input types from the DMMF, except those only disabled operations need
   for (const [name, inputType] of dmmf.inputTypes) {
-    if (!generatedInputTypes.has(name)) {
+    if (!generatedInputTypes.has(name) && !unusedInputTypes.has(name)) {
       generatedInputTypes.add(name);
 
       const fileName = `${name}.ts`;
@@ -107,8 +111,25 @@ function generateInputTypeFile(
     });
   }
 
-  // NO imports for other input types - we use lazy require() to avoid circular deps
-  // TypeScript types are declared inline using the class name directly
+  // NO imports for other input types with CommonJS - we use lazy require() to avoid circular deps.
+  // ES modules, and output without barrels to load every input up front, import them
+  // instead: the @Field thunks only run once every module is loaded, and the `any`
+  // property types keep them out of decorator metadata.
+  if (importsInputTypes(config)) {
+    const inputObjectTypes = new Set<string>();
+    for (const field of inputType.fields) {
+      const { graphqlType, isInputObjectType } = getInputFieldTypes(field, dmmf);
+      if (isInputObjectType && graphqlType !== inputType.name) {
+        inputObjectTypes.add(graphqlType);
+      }
+    }
+    for (const name of inputObjectTypes) {
+      sourceFile.addImportDeclaration({
+        moduleSpecifier: `./${name}`,
+        namedImports: [name],
+      });
+    }
+  }
 
   // Create the class with @InputType decorator
   const classDecl = sourceFile.addClass({
@@ -123,8 +144,45 @@ function generateInputTypeFile(
   });
 
   // Add fields
+  const validators: ValidationDecorator[] = [];
   for (const field of inputType.fields) {
-    addInputFieldToClass(classDecl, field, dmmf, inputType.name);
+    validators.push(...addInputFieldToClass(classDecl, field, dmmf, inputType.name, config));
+  }
+
+  // Update wrappers of fields with validators validate their `set` through a class of their own
+  for (const field of config.useValidation ? inputType.fields : []) {
+    const setClass = getValidatedSetClass(field, inputType.name, dmmf);
+    if (!setClass) continue;
+
+    sourceFile.addClass({
+      name: setClass.name,
+      docs: [`Validates ${inputType.name}.${field.name}, whose GraphQL type is ${field.type}`],
+      properties: setClass.fields.map(({ field: wrapperField, decorators }) => {
+        const { tsType } = getInputFieldTypes(wrapperField, dmmf);
+        validators.push(...decorators);
+        return {
+          name: wrapperField.name,
+          type: wrapperField.isList ? `${tsType}[]` : tsType,
+          hasQuestionToken: true,
+          decorators,
+        };
+      }),
+    });
+  }
+
+  // Import class-validator / class-transformer decorators used by the fields
+  const { classValidator, classTransformer } = getValidationImports(validators);
+  if (classValidator.length > 0) {
+    sourceFile.addImportDeclaration({
+      moduleSpecifier: 'class-validator',
+      namedImports: classValidator,
+    });
+  }
+  if (classTransformer.length > 0) {
+    sourceFile.addImportDeclaration({
+      moduleSpecifier: 'class-transformer',
+      namedImports: classTransformer,
+    });
   }
 }
 
@@ -168,24 +226,30 @@ function isScalarType(typeName: string): boolean {
 
 /**
  * Add a field to the input type class
+ * Returns the validation decorators attached to the field (empty unless useValidation is on)
  */
 function addInputFieldToClass(
   classDecl: ReturnType<SourceFile['addClass']>,
   field: InputField,
   dmmf: DMMFDocument,
   currentTypeName: string,
-): void {
+  config: GeneratorConfig,
+): ValidationDecorator[] {
   const { graphqlType, tsType, isInputObjectType } = getInputFieldTypes(field, dmmf);
 
   // Build @Field decorator arguments
   const fieldDecoratorArgs: string[] = [];
 
   // Type function - use lazy require() for input object types to avoid circular deps
+  const typeExpression =
+    isInputObjectType && graphqlType !== currentTypeName && !importsInputTypes(config)
+      ? `require('./${graphqlType}').${graphqlType}`
+      : graphqlType;
   if (isInputObjectType && graphqlType !== currentTypeName) {
     if (field.isList) {
-      fieldDecoratorArgs.push(`() => [require('./${graphqlType}').${graphqlType}]`);
+      fieldDecoratorArgs.push(`() => [${typeExpression}]`);
     } else {
-      fieldDecoratorArgs.push(`() => require('./${graphqlType}').${graphqlType}`);
+      fieldDecoratorArgs.push(`() => ${typeExpression}`);
     }
   } else {
     if (field.isList) {
@@ -218,7 +282,11 @@ function addInputFieldToClass(
     propertyType = `${propertyType} | undefined`;
   }
 
-  // Add property with @Field decorator
+  const validators = config.useValidation
+    ? getInputFieldValidators(field, currentTypeName, dmmf, typeExpression)
+    : [];
+
+  // Add property with @Field decorator (followed by validators, if enabled)
   classDecl.addProperty({
     name: field.name,
     type: propertyType,
@@ -228,8 +296,11 @@ function addInputFieldToClass(
         name: 'Field',
         arguments: fieldDecoratorArgs,
       },
+      ...validators,
     ],
   });
+
+  return validators;
 }
 
 /**
@@ -266,6 +337,14 @@ function getInputFieldTypes(
   return { graphqlType: mainType, tsType: 'any', isInputObjectType: true };
 }
 
+/**
+ * Whether input types import the input types they reference instead of
+ * requiring them lazily
+ */
+function importsInputTypes(config: GeneratorConfig): boolean {
+  return config.moduleFormat === 'esm' || (config.barrels ?? 'all') !== 'all';
+}
+
 /**
  * Generate input types index file
  */
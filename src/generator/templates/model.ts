@@ -1,8 +1,13 @@
 import type { Model, ModelField } from '../dmmf/types';
 import { PRISMA_TO_GRAPHQL_SCALAR, PRISMA_TO_TS_TYPE } from '../dmmf/types';
 import { Project, SourceFile, Writers } from 'ts-morph';
-import { escapeDescription, isHiddenField } from './utils';
-import { isEnumField, isRelationField, isScalarField } from '../dmmf/transformer';
+import { escapeDescription } from './utils';
+import {
+  getScalarOverrideImports,
+  isEnumField,
+  isRelationField,
+  isScalarField,
+} from '../dmmf/transformer';
 
 import type { DMMFDocument } from '../dmmf/document';
 import type { GeneratorConfig } from '../../cli/options-parser';
@@ -47,7 +52,7 @@ function generateModelFile(
   config: GeneratorConfig,
 ): void {
   const nestjsImports: string[] = ['ObjectType', 'Field', 'ID', 'Int', 'Float'];
-  const hasHiddenField = model.fields.some(f => isHiddenField(f.documentation));
+  const hasHiddenField = model.fields.some(f => f.annotations.omitOutput);
   if (hasHiddenField) nestjsImports.push('HideField');
   const hasJson = model.fields.some(f => f.type === 'Json');
   const hasBigInt = model.fields.some(f => f.type === 'BigInt');
@@ -62,16 +67,25 @@ function generateModelFile(
     namedImports: nestjsImports,
   });
 
-  // Import scalars from graphql-scalars
+  // Import scalars from graphql-scalars, and custom scalars from the config file
+  const customScalars = getScalarOverrideImports(model);
   const scalarImports: string[] = [];
   if (hasJson) scalarImports.push('GraphQLJSON');
   if (hasBigInt) scalarImports.push('GraphQLBigInt');
+  for (const name of customScalars.get('graphql-scalars') ?? []) {
+    if (!scalarImports.includes(name)) scalarImports.push(name);
+  }
   if (scalarImports.length > 0) {
     sourceFile.addImportDeclaration({
       moduleSpecifier: 'graphql-scalars',
       namedImports: scalarImports,
     });
   }
+  for (const [moduleSpecifier, namedImports] of customScalars) {
+    if (moduleSpecifier !== 'graphql-scalars') {
+      sourceFile.addImportDeclaration({ moduleSpecifier, namedImports });
+    }
+  }
 
   // Import GraphQLDecimal from helpers
   if (hasDecimal) {
@@ -90,40 +104,61 @@ function generateModelFile(
   }
 
   // Import related models as TYPE ONLY - used for TypeScript types but not at runtime
-  // The actual class reference is loaded via lazy require() in @Field decorator
-  if (relatedModels.length > 0) {
+  // The actual class reference is loaded via lazy require() in @Field decorator,
+  // or through namespace imports with ES modules
+  const hasBarrels = !config.barrels || config.barrels === 'all';
+  if (relatedModels.length > 0 && hasBarrels) {
     sourceFile.addStatements(
-      `// eslint-disable-next-line @typescript-eslint/no-unused-vars\nimport type { ${relatedModels.join(', ')} } from './index';`,
+      `import type { ${relatedModels.map(m => dmmf.getModelMapping(m)!.typeName).join(', ')} } from './index';`,
     );
   }
+  for (const relatedModel of relatedModels) {
+    if (!hasBarrels) {
+      sourceFile.addStatements(
+        `import type { ${dmmf.getModelMapping(relatedModel)!.typeName} } from './${relatedModel}';`,
+      );
+    }
+    if (config.moduleFormat === 'esm') {
+      sourceFile.addStatements(`import * as ${relatedModel}Module from './${relatedModel}';`);
+    }
+  }
 
   // Import enums
   const enumFields = model.fields.filter(f => isEnumField(f));
   const enumTypes = [...new Set(enumFields.map(f => f.type))];
-
-  if (enumTypes.length > 0) {
+  const enumsDir = `../${config.outputDirs?.enums ?? 'enums'}`;
+
+  if (!hasBarrels) {
+    for (const enumType of enumTypes) {
+      sourceFile.addImportDeclaration({
+        moduleSpecifier: `${enumsDir}/${enumType}`,
+        namedImports: [enumType],
+      });
+    }
+  } else if (enumTypes.length > 0) {
     sourceFile.addImportDeclaration({
-      moduleSpecifier: `../${config.outputDirs?.enums ?? 'enums'}`,
+      moduleSpecifier: enumsDir,
       namedImports: enumTypes,
     });
   }
 
   // Add documentation comment if present
-  if (model.documentation) {
-    sourceFile.addStatements(`/** ${model.documentation} */`);
+  if (model.description) {
+    sourceFile.addStatements(`/** ${model.description} */`);
   }
 
   // Create the class with @ObjectType decorator
   const classDecl = sourceFile.addClass({
-    name: `${config.typePrefix ?? ''}${model.name}${config.typeSuffix ?? ''}`,
+    name: dmmf.getModelMapping(model.name)!.typeName,
     isExported: true,
     decorators: [
       {
         name: 'ObjectType',
         arguments: [
+          ...(model.annotations.name ? [`'${model.annotations.name}'`] : []),
           Writers.object({
-            description: model.documentation
-              ? `'${escapeDescription(model.documentation)}'`
+            description: model.description
+              ? `'${escapeDescription(model.description)}'`
               : 'undefined',
           }),
         ],
@@ -144,9 +179,12 @@ function addFieldToClass(
   classDecl: ReturnType<SourceFile['addClass']>,
   field: ModelField,
   dmmf: DMMFDocument,
-  _config: GeneratorConfig,
+  config: GeneratorConfig,
 ): void {
-  const { graphqlType, tsType } = getFieldTypes(field, dmmf);
+  const { scalar } = field.annotations;
+  const { graphqlType, tsType } = scalar
+    ? { graphqlType: scalar.name, tsType: scalar.tsType ?? getFieldTypes(field, dmmf).tsType }
+    : getFieldTypes(field, dmmf);
   const isRelation = isRelationField(field);
 
   // Build @Field decorator arguments
@@ -154,10 +192,16 @@ function addFieldToClass(
 
   // Type function - use lazy require for relations to avoid circular deps
   if (isRelation) {
+    const relatedType =
+      config.moduleFormat !== 'esm'
+        ? `require('./${field.type}').${graphqlType}`
+        : graphqlType === classDecl.getName()
+          ? graphqlType
+          : `${field.type}Module.${graphqlType}`;
     if (field.isList) {
-      fieldDecoratorArgs.push(`() => [require('./${field.type}').${field.type}]`);
+      fieldDecoratorArgs.push(`() => [${relatedType}]`);
     } else {
-      fieldDecoratorArgs.push(`() => require('./${field.type}').${field.type}`);
+      fieldDecoratorArgs.push(`() => ${relatedType}`);
     }
   } else {
     if (field.isList) {
@@ -174,8 +218,8 @@ function addFieldToClass(
     options['nullable'] = 'true';
   }
 
-  if (field.documentation) {
-    options['description'] = `'${escapeDescription(field.documentation)}'`;
+  if (field.description) {
+    options['description'] = `'${escapeDescription(field.description)}'`;
   }
 
   if (Object.keys(options).length > 0) {
@@ -195,7 +239,7 @@ function addFieldToClass(
   }
 
   // Check if field should be hidden from GraphQL schema
-  const hidden = isHiddenField(field.documentation);
+  const hidden = field.annotations.omitOutput;
 
   // Add property with @Field or @HideField decorator
   classDecl.addProperty({
@@ -214,7 +258,7 @@ function addFieldToClass(
  */
 function getFieldTypes(
   field: ModelField,
-  _dmmf: DMMFDocument,
+  dmmf: DMMFDocument,
 ): { graphqlType: string; tsType: string } {
   // Handle scalar fields (including ID fields)
   if (isScalarField(field)) {
@@ -236,7 +280,8 @@ function getFieldTypes(
 
   // Handle relation fields
   if (isRelationField(field)) {
-    return { graphqlType: field.type, tsType: field.type };
+    const { typeName } = dmmf.getModelMapping(field.type)!;
+    return { graphqlType: typeName, tsType: typeName };
   }
 
   // Fallback
@@ -1,21 +1,42 @@
-import { Project, SourceFile } from 'ts-morph';
+import { Project, Scope, SourceFile } from 'ts-morph';
+import type { OptionalKind, ParameterDeclarationStructure } from 'ts-morph';
 
 import type { DMMFDocument } from '../dmmf/document';
 import type { GeneratorConfig } from '../../cli/options-parser';
-import type { Model } from '../dmmf/types';
-import { camelCase } from '../dmmf/transformer';
-import pluralize from 'pluralize';
-
-/**
- * Available operations for a model based on input types
- */
-interface ModelOperations {
-  hasWhereInput: boolean;
-  hasWhereUniqueInput: boolean;
-  hasCreateInput: boolean;
-  hasCreateManyInput: boolean;
-  hasUpdateInput: boolean;
-}
+import type { CrudOperation, Model } from '../dmmf/types';
+import { getModelOperations } from '../operations';
+import type { TypedOperation } from '../operations';
+import { getDecoratorImports, getResolverDecorators } from '../decorators';
+import { getPrismaAccess } from '../prisma-access';
+import { mergeImports } from '../imports';
+import { getHookMethods, wrapWithHooks } from '../base-resolver';
+import { getServiceCall } from '../services';
+import {
+  getModelSubscriptions,
+  getPublishStatement,
+  getPublishedSubscription,
+} from '../subscriptions';
+import {
+  emitsRecord,
+  getEmitStatements,
+  getEventContext,
+  getExistingLookup,
+  getModelEvents,
+  getRestoreEvents,
+} from '../events';
+import type { ModelEvent } from '../events';
+import { beforeReturn, getRecordSelectCall, withReturnedRecord } from '../mutation-effects';
+import { getModelTenancy, getScopeHelpers, getScopeStatements, scopesRelations } from '../tenancy';
+import {
+  getModelSoftDelete,
+  getRestoreCall,
+  getRestoreName,
+  getRestoreOperation,
+  getSoftDeleteCall,
+  getSoftDeleteHelpers,
+  getSoftDeleteStatements,
+} from '../soft-delete';
+import { getAuditHelpers, getAuditStatements, getModelAudit } from '../audit';
 
 /**
  * Generate resolver files for all models
@@ -31,15 +52,17 @@ export function generateResolvers(
     return files;
   }
 
-  for (const model of dmmf.models) {
-    // Determine available operations based on input types
-    const ops = getModelOperations(dmmf, model.name);
+  const inputTypeNames = new Set(dmmf.inputTypes.keys());
 
+  for (const model of dmmf.models) {
     // Skip models with no available operations (e.g., views with nothing)
-    if (!ops.hasWhereInput && !ops.hasWhereUniqueInput) {
+    if (!hasQueryInputs(dmmf, model.name)) {
       continue;
     }
 
+    // Determine enabled operations based on input types and configuration
+    const ops = getModelOperations(model, inputTypeNames, config);
+
     const fileName = `${model.name}Resolver.ts`;
     const filePath = `${config.outputDirs?.resolvers ?? 'resolvers'}/${fileName}`;
 
@@ -49,10 +72,7 @@ export function generateResolvers(
   }
 
   // Generate index file only for generated resolvers
-  const generatedModels = dmmf.models.filter(m => {
-    const ops = getModelOperations(dmmf, m.name);
-    return ops.hasWhereInput || ops.hasWhereUniqueInput;
-  });
+  const generatedModels = dmmf.models.filter(m => hasQueryInputs(dmmf, m.name));
 
   if (generatedModels.length > 0) {
     const indexPath = `${config.outputDirs?.resolvers ?? 'resolvers'}/index.ts`;
@@ -65,85 +85,97 @@ export function generateResolvers(
 }
 
 /**
- * Get available operations for a model based on input types
+ * Check whether a model has the inputs needed to query it at all
  */
-function getModelOperations(dmmf: DMMFDocument, modelName: string): ModelOperations {
-  return {
-    hasWhereInput: dmmf.inputTypes.has(`${modelName}WhereInput`),
-    hasWhereUniqueInput: dmmf.inputTypes.has(`${modelName}WhereUniqueInput`),
-    hasCreateInput: dmmf.inputTypes.has(`${modelName}CreateInput`),
-    hasCreateManyInput: dmmf.inputTypes.has(`${modelName}CreateManyInput`),
-    hasUpdateInput: dmmf.inputTypes.has(`${modelName}UpdateInput`),
-  };
+function hasQueryInputs(dmmf: DMMFDocument, modelName: string): boolean {
+  return (
+    dmmf.inputTypes.has(`${modelName}WhereInput`) ||
+    dmmf.inputTypes.has(`${modelName}WhereUniqueInput`)
+  );
 }
 
 /**
- * Generate a single resolver file with CRUD operations based on available inputs
+ * Generate a single resolver file with the enabled CRUD operations
  */
 function generateResolverFile(
   sourceFile: SourceFile,
   model: Model,
-  _dmmf: DMMFDocument,
+  dmmf: DMMFDocument,
   config: GeneratorConfig,
-  ops: ModelOperations,
+  ops: Set<CrudOperation>,
 ): void {
   const modelName = model.name;
-  const lowerModelName = camelCase(modelName);
-  const pluralName = pluralize(lowerModelName);
-  const prismaClientPath = config.prismaClientPath || '@prisma/client';
-  const contextType = 'GraphQLContext<PrismaClient>';
-
-  // Handle models that are already plural - use different method names to avoid duplicates
-  const isAlreadyPlural = pluralName === lowerModelName;
-  const findManyMethodName = isAlreadyPlural ? `findMany${modelName}` : pluralName;
-  const findUniqueMethodName = isAlreadyPlural ? `findUnique${modelName}` : lowerModelName;
-
-  // Determine which args to import based on available operations
+  const names = dmmf.getModelMapping(modelName)!;
+  const typeName = names.typeName;
+  const filePath = `${config.outputDirs?.resolvers ?? 'resolvers'}/${modelName}Resolver.ts`;
+  const audit = getModelAudit(model, dmmf.models, config);
+  // The mutations setting audit fields read the user from the context
+  const access = getPrismaAccess(
+    audit ? { ...config, contextUserKey: audit.contextPath } : config,
+    filePath,
+    config.generateServices
+      ? { className: `${modelName}Service`, modulePath: `./services/${modelName}Service` }
+      : undefined,
+  );
+  const typed = getTypedOperations(ops, modelName, typeName);
+  const subscriptions = dmmf.inputTypes.has(`${modelName}WhereInput`)
+    ? getModelSubscriptions(model, ops)
+    : [];
+  const events = config.generateEvents
+    ? getModelEvents(
+        modelName,
+        typeName,
+        typed,
+        getEventContext(config, `events/${modelName}Events.ts`).contextType,
+      )
+    : [];
+  const tenancy = getModelTenancy(model, dmmf.models, config);
+  const softDelete = getModelSoftDelete(model, dmmf.models);
+  const scopedSelect = [...ops].some(op => scopesRelations(op, tenancy)) || !!softDelete?.relations;
+  const contextParams: OptionalKind<ParameterDeclarationStructure>[] = access.contextType
+    ? [{ name: 'ctx', type: access.contextType, decorators: [{ name: 'Context', arguments: [] }] }]
+    : [];
+
+  // Determine which args to import based on enabled operations
   const argsImports: string[] = [];
 
-  if (ops.hasWhereInput) {
-    argsImports.push(`FindMany${modelName}Args`);
-    argsImports.push(`FindFirst${modelName}Args`);
-    argsImports.push(`DeleteMany${modelName}Args`);
-    argsImports.push(`Aggregate${modelName}Args`);
-    argsImports.push(`GroupBy${modelName}Args`);
-  }
-
-  if (ops.hasWhereUniqueInput) {
-    argsImports.push(`FindUnique${modelName}Args`);
-    argsImports.push(`Delete${modelName}Args`);
-  }
-
-  if (ops.hasCreateInput) {
-    argsImports.push(`Create${modelName}Args`);
-  }
-
-  if (ops.hasCreateManyInput) {
-    argsImports.push(`CreateMany${modelName}Args`);
-  }
-
-  if (ops.hasUpdateInput && ops.hasWhereUniqueInput) {
-    argsImports.push(`Update${modelName}Args`);
-  }
-
-  if (ops.hasUpdateInput && ops.hasWhereInput) {
-    argsImports.push(`UpdateMany${modelName}Args`);
-  }
-
-  if (ops.hasCreateInput && ops.hasUpdateInput && ops.hasWhereUniqueInput) {
-    argsImports.push(`Upsert${modelName}Args`);
-  }
+  // count reuses the findMany args
+  if (ops.has('findMany') || ops.has('count')) argsImports.push(`FindMany${modelName}Args`);
+  if (ops.has('findFirst')) argsImports.push(`FindFirst${modelName}Args`);
+  if (ops.has('deleteMany')) argsImports.push(`DeleteMany${modelName}Args`);
+  if (ops.has('aggregate')) argsImports.push(`Aggregate${modelName}Args`);
+  if (ops.has('groupBy')) argsImports.push(`GroupBy${modelName}Args`);
+  if (ops.has('findUnique')) argsImports.push(`FindUnique${modelName}Args`);
+  if (ops.has('delete')) argsImports.push(`Delete${modelName}Args`);
+  if (ops.has('create')) argsImports.push(`Create${modelName}Args`);
+  if (ops.has('createMany')) argsImports.push(`CreateMany${modelName}Args`);
+  if (ops.has('update')) argsImports.push(`Update${modelName}Args`);
+  if (ops.has('updateMany')) argsImports.push(`UpdateMany${modelName}Args`);
+  if (ops.has('upsert')) argsImports.push(`Upsert${modelName}Args`);
 
   // Check if we have any mutations
-  const hasMutations =
-    ops.hasCreateInput ||
-    ops.hasCreateManyInput ||
-    (ops.hasUpdateInput && ops.hasWhereUniqueInput) ||
-    (ops.hasUpdateInput && ops.hasWhereInput) ||
-    ops.hasWhereUniqueInput; // delete needs unique
+  const mutations: CrudOperation[] = [
+    'create',
+    'createMany',
+    'update',
+    'updateMany',
+    'upsert',
+    'delete',
+    'deleteMany',
+  ];
+  const hasMutations = mutations.some(op => ops.has(op));
 
   // Add imports
-  const nestjsImports = ['Resolver', 'Query', 'Args', 'Info', 'Int', 'Context'];
+  if (subscriptions.length > 0 || events.length > 0) {
+    sourceFile.addImportDeclaration({
+      moduleSpecifier: '@nestjs/common',
+      namedImports: ['Inject'],
+    });
+  }
+  const nestjsImports = ['Resolver', 'Query', 'Args', 'Info', 'Int'];
+  if (access.contextType) {
+    nestjsImports.push('Context');
+  }
   if (hasMutations) {
     nestjsImports.push('Mutation');
   }
@@ -158,14 +190,9 @@ function generateResolverFile(
     namedImports: ['GraphQLResolveInfo'],
   });
 
-  sourceFile.addImportDeclaration({
-    moduleSpecifier: prismaClientPath,
-    namedImports: ['PrismaClient'],
-  });
-
   sourceFile.addImportDeclaration({
     moduleSpecifier: `../${config.outputDirs?.models ?? 'models'}/${modelName}`,
-    namedImports: [modelName],
+    namedImports: [typeName],
   });
 
   // Import only the args that exist
@@ -176,50 +203,185 @@ function generateResolverFile(
     });
   }
 
-  // Import runtime helpers
-  sourceFile.addImportDeclaration({
-    moduleSpecifier: '../helpers',
-    namedImports: [
-      'transformInfoIntoPrismaArgs',
-      'transformInfoIntoPrismaAggregateArgs',
-      'PrismaSelect',
-      'GraphQLContext',
-    ],
-  });
+  // Import runtime helpers, the context or Prisma service type and configured decorators
+  sourceFile.addImportDeclarations(
+    mergeImports([
+      {
+        moduleSpecifier: '../helpers',
+        namedImports: [
+          'transformInfoIntoPrismaArgs',
+          'transformInfoIntoPrismaAggregateArgs',
+          'PrismaSelect',
+          ...(subscriptions.length > 0 || events.length > 0 ? ['includeScalars'] : []),
+          ...(subscriptions.length > 0 ? ['GraphQLPubSub', 'PUB_SUB'] : []),
+          ...getScopeHelpers(ops, tenancy),
+          ...(config.generateServices ? [] : getSoftDeleteHelpers(ops, softDelete)),
+          ...(softDelete?.relations ? ['DELETED_FIELDS'] : []),
+          ...getAuditHelpers(ops, audit, softDelete),
+        ],
+      },
+      // The selections keeping to the tenant or leaving out soft deleted records
+      // read the relations from the DMMF
+      ...(scopedSelect
+        ? [
+            {
+              moduleSpecifier: config.prismaClientPath || '@prisma/client',
+              namedImports: ['Prisma'],
+            },
+          ]
+        : []),
+      ...(events.length > 0
+        ? [
+            {
+              moduleSpecifier: '../event-emitter',
+              namedImports: ['MUTATION_EVENT_EMITTER', 'MutationEventEmitter'],
+            },
+            {
+              moduleSpecifier: `../events/${modelName}Events`,
+              namedImports: events.map(event => event.className),
+            },
+          ]
+        : []),
+      ...access.imports,
+      ...getDecoratorImports(model, config, ['class', ...ops], filePath),
+    ]),
+  );
 
   // Import AffectedRows type only if needed
-  if (
-    ops.hasCreateManyInput ||
-    (ops.hasUpdateInput && ops.hasWhereInput) ||
-    ops.hasWhereInput // deleteMany
-  ) {
+  if (ops.has('createMany') || ops.has('updateMany') || ops.has('deleteMany')) {
     sourceFile.addImportDeclaration({
       moduleSpecifier: '../common/AffectedRows',
       namedImports: ['AffectedRows'],
     });
   }
 
-  // Create the resolver class
+  // Create the resolver class, or with baseResolvers an abstract base with hooks
   const resolverClass = sourceFile.addClass({
-    name: `${modelName}Resolver`,
+    name: config.baseResolvers ? `${modelName}ResolverBase` : `${modelName}Resolver`,
     isExported: true,
+    isAbstract: config.baseResolvers,
     decorators: [
       {
         name: 'Resolver',
-        arguments: [`() => ${modelName}`],
+        arguments: [config.baseResolvers ? '{ isAbstract: true }' : `() => ${typeName}`],
       },
     ],
   });
 
-  // Add findMany query (if WhereInput exists)
-  if (ops.hasWhereInput) {
+  const scope = config.baseResolvers ? Scope.Protected : Scope.Private;
+  const constructorParams: OptionalKind<ParameterDeclarationStructure>[] = [];
+  if (access.serviceType) {
+    constructorParams.push({
+      name: access.serviceName!,
+      type: access.serviceType,
+      scope,
+      isReadonly: true,
+    });
+  }
+  // Mutations publish to the model's subscriptions
+  if (subscriptions.length > 0) {
+    constructorParams.push({
+      name: 'pubSub',
+      type: 'GraphQLPubSub',
+      scope,
+      isReadonly: true,
+      decorators: [{ name: 'Inject', arguments: ['PUB_SUB'] }],
+    });
+  }
+  // Mutations emit the model's events
+  if (events.length > 0) {
+    constructorParams.push({
+      name: 'events',
+      type: 'MutationEventEmitter',
+      scope,
+      isReadonly: true,
+      decorators: [{ name: 'Inject', arguments: ['MUTATION_EVENT_EMITTER'] }],
+    });
+  }
+  if (constructorParams.length > 0) {
+    resolverClass.addConstructor({ parameters: constructorParams });
+  }
+
+  const restore = getRestoreOperation(typed, softDelete);
+  if (config.baseResolvers) {
+    for (const hook of getHookMethods(restore ? [...typed, restore] : typed, access.contextType!)) {
+      resolverClass.addMethod({
+        name: hook.name,
+        docs: [hook.doc],
+        scope: Scope.Protected,
+        isAsync: true,
+        typeParameters: hook.typeParameters,
+        parameters: hook.parameters,
+        returnType: hook.returnType,
+        statements: hook.statements,
+      });
+    }
+  }
+  // A restore reports the record it restores as updated
+  const eventsOf = (operation: CrudOperation | 'restore'): ModelEvent[] =>
+    operation === 'restore' ? getRestoreEvents(events) : events;
+  const effects = (operation: CrudOperation | 'restore'): string[] => {
+    const published = getPublishedSubscription(subscriptions, operation);
+    return [
+      ...(published ? [getPublishStatement(published.name)] : []),
+      ...getEmitStatements(operation, eventsOf(operation)),
+    ];
+  };
+  const selectCall = (operation: CrudOperation | 'restore'): string => {
+    const options = [
+      ...(scopesRelations(operation === 'restore' ? 'update' : operation, tenancy)
+        ? ['relationScope: scope']
+        : []),
+      ...(softDelete?.relations ? ['deletedFields: DELETED_FIELDS'] : []),
+    ];
+    const querySelect =
+      options.length > 0
+        ? `transformInfoIntoPrismaArgs(info, { dmmf: Prisma.dmmf, modelName: '${modelName}', ${options.join(', ')} })`
+        : 'transformInfoIntoPrismaArgs(info)';
+    return getPublishedSubscription(subscriptions, operation) ||
+      emitsRecord(operation, eventsOf(operation))
+      ? getRecordSelectCall(querySelect)
+      : querySelect;
+  };
+  const body = (operation: CrudOperation | 'restore', statements: string[]): string[] => {
+    const delegated = beforeReturn(
+      [
+        // A restore is scoped like the delete whose args it takes
+        ...getScopeStatements(operation === 'restore' ? 'delete' : operation, tenancy),
+        ...getAuditStatements(operation, audit, softDelete),
+        ...(config.generateServices
+          ? getServiceCall(
+              operation,
+              access.client,
+              selectCall(operation),
+              getSoftDeleteCall(operation, softDelete, audit).data,
+            )
+          : [
+              ...(operation === 'restore' ? [] : getSoftDeleteStatements(operation, softDelete)),
+              ...statements,
+            ]),
+      ],
+      getExistingLookup(
+        operation,
+        eventsOf(operation),
+        access.client,
+        names.delegate,
+        !!config.generateServices,
+      ),
+    );
+    const hooked = config.baseResolvers ? wrapWithHooks(operation, delegated) : delegated;
+    return withReturnedRecord(hooked, effects(operation));
+  };
+
+  // Add findMany query
+  if (ops.has('findMany')) {
     resolverClass.addMethod({
-      name: findManyMethodName,
+      name: names.findMany,
       isAsync: true,
       decorators: [
         {
           name: 'Query',
-          arguments: [`() => [${modelName}]`, `{ name: '${findManyMethodName}' }`],
+          arguments: [`() => [${typeName}]`, `{ name: '${names.findMany}' }`],
         },
       ],
       parameters: [
@@ -228,29 +390,29 @@ function generateResolverFile(
           type: `FindMany${modelName}Args`,
           decorators: [{ name: 'Args', arguments: [] }],
         },
-        { name: 'ctx', type: contextType, decorators: [{ name: 'Context', arguments: [] }] },
+        ...contextParams,
         { name: 'info', type: 'GraphQLResolveInfo', decorators: [{ name: 'Info', arguments: [] }] },
       ],
-      statements: [
-        `const select = transformInfoIntoPrismaArgs(info);`,
+      statements: body('findMany', [
+        `const select = ${selectCall('findMany')};`,
 
-        `return ctx.prisma.${lowerModelName}.findMany({`,
+        `return ${access.client}.${names.delegate}.findMany({`,
         `  ...args,`,
         `  ...select,`,
         `} as any);`,
-      ],
+      ]),
     });
   }
 
-  // Add findUnique query (if WhereUniqueInput exists)
-  if (ops.hasWhereUniqueInput) {
+  // Add findUnique query
+  if (ops.has('findUnique')) {
     resolverClass.addMethod({
-      name: findUniqueMethodName,
+      name: names.findUnique,
       isAsync: true,
       decorators: [
         {
           name: 'Query',
-          arguments: [`() => ${modelName}`, `{ name: '${findUniqueMethodName}', nullable: true }`],
+          arguments: [`() => ${typeName}`, `{ name: '${names.findUnique}', nullable: true }`],
         },
       ],
       parameters: [
@@ -259,29 +421,29 @@ function generateResolverFile(
           type: `FindUnique${modelName}Args`,
           decorators: [{ name: 'Args', arguments: [] }],
         },
-        { name: 'ctx', type: contextType, decorators: [{ name: 'Context', arguments: [] }] },
+        ...contextParams,
         { name: 'info', type: 'GraphQLResolveInfo', decorators: [{ name: 'Info', arguments: [] }] },
       ],
-      statements: [
-        `const select = transformInfoIntoPrismaArgs(info);`,
+      statements: body('findUnique', [
+        `const select = ${selectCall('findUnique')};`,
 
-        `return ctx.prisma.${lowerModelName}.findUnique({`,
+        `return ${access.client}.${names.delegate}.findUnique({`,
         `  ...args,`,
         `  ...select,`,
         `} as any);`,
-      ],
+      ]),
     });
   }
 
-  // Add findFirst query (if WhereInput exists)
-  if (ops.hasWhereInput) {
+  // Add findFirst query
+  if (ops.has('findFirst')) {
     resolverClass.addMethod({
-      name: `findFirst${modelName}`,
+      name: names.findFirst,
       isAsync: true,
       decorators: [
         {
           name: 'Query',
-          arguments: [`() => ${modelName}`, `{ name: 'findFirst${modelName}', nullable: true }`],
+          arguments: [`() => ${typeName}`, `{ name: '${names.findFirst}', nullable: true }`],
         },
       ],
       parameters: [
@@ -290,29 +452,29 @@ function generateResolverFile(
           type: `FindFirst${modelName}Args`,
           decorators: [{ name: 'Args', arguments: [] }],
         },
-        { name: 'ctx', type: contextType, decorators: [{ name: 'Context', arguments: [] }] },
+        ...contextParams,
         { name: 'info', type: 'GraphQLResolveInfo', decorators: [{ name: 'Info', arguments: [] }] },
       ],
-      statements: [
-        `const select = transformInfoIntoPrismaArgs(info);`,
+      statements: body('findFirst', [
+        `const select = ${selectCall('findFirst')};`,
 
-        `return ctx.prisma.${lowerModelName}.findFirst({`,
+        `return ${access.client}.${names.delegate}.findFirst({`,
         `  ...args,`,
         `  ...select,`,
         `} as any);`,
-      ],
+      ]),
     });
   }
 
-  // Add create mutation (if CreateInput exists)
-  if (ops.hasCreateInput) {
+  // Add create mutation
+  if (ops.has('create')) {
     resolverClass.addMethod({
-      name: `createOne${modelName}`,
+      name: names.create,
       isAsync: true,
       decorators: [
         {
           name: 'Mutation',
-          arguments: [`() => ${modelName}`, `{ name: 'createOne${modelName}' }`],
+          arguments: [`() => ${typeName}`, `{ name: '${names.create}' }`],
         },
       ],
       parameters: [
@@ -321,29 +483,29 @@ function generateResolverFile(
           type: `Create${modelName}Args`,
           decorators: [{ name: 'Args', arguments: [] }],
         },
-        { name: 'ctx', type: contextType, decorators: [{ name: 'Context', arguments: [] }] },
+        ...contextParams,
         { name: 'info', type: 'GraphQLResolveInfo', decorators: [{ name: 'Info', arguments: [] }] },
       ],
-      statements: [
-        `const select = transformInfoIntoPrismaArgs(info);`,
+      statements: body('create', [
+        `const select = ${selectCall('create')};`,
 
-        `return ctx.prisma.${lowerModelName}.create({`,
+        `return ${access.client}.${names.delegate}.create({`,
         `  ...args,`,
         `  ...select,`,
         `} as any);`,
-      ],
+      ]),
     });
   }
 
-  // Add createMany mutation (if CreateManyInput exists)
-  if (ops.hasCreateManyInput) {
+  // Add createMany mutation
+  if (ops.has('createMany')) {
     resolverClass.addMethod({
-      name: `createMany${modelName}`,
+      name: names.createMany,
       isAsync: true,
       decorators: [
         {
           name: 'Mutation',
-          arguments: [`() => AffectedRows`, `{ name: 'createMany${modelName}' }`],
+          arguments: [`() => AffectedRows`, `{ name: '${names.createMany}' }`],
         },
       ],
       parameters: [
@@ -352,22 +514,24 @@ function generateResolverFile(
           type: `CreateMany${modelName}Args`,
           decorators: [{ name: 'Args', arguments: [] }],
         },
-        { name: 'ctx', type: contextType, decorators: [{ name: 'Context', arguments: [] }] },
+        ...contextParams,
         { name: 'info', type: 'GraphQLResolveInfo', decorators: [{ name: 'Info', arguments: [] }] },
       ],
-      statements: [`return ctx.prisma.${lowerModelName}.createMany(args);`],
+      statements: body('createMany', [
+        `return ${access.client}.${names.delegate}.createMany(args);`,
+      ]),
     });
   }
 
-  // Add update mutation (if UpdateInput and WhereUniqueInput exist)
-  if (ops.hasUpdateInput && ops.hasWhereUniqueInput) {
+  // Add update mutation
+  if (ops.has('update')) {
     resolverClass.addMethod({
-      name: `updateOne${modelName}`,
+      name: names.update,
       isAsync: true,
       decorators: [
         {
           name: 'Mutation',
-          arguments: [`() => ${modelName}`, `{ name: 'updateOne${modelName}', nullable: true }`],
+          arguments: [`() => ${typeName}`, `{ name: '${names.update}', nullable: true }`],
         },
       ],
       parameters: [
@@ -376,29 +540,29 @@ function generateResolverFile(
           type: `Update${modelName}Args`,
           decorators: [{ name: 'Args', arguments: [] }],
         },
-        { name: 'ctx', type: contextType, decorators: [{ name: 'Context', arguments: [] }] },
+        ...contextParams,
         { name: 'info', type: 'GraphQLResolveInfo', decorators: [{ name: 'Info', arguments: [] }] },
       ],
-      statements: [
-        `const select = transformInfoIntoPrismaArgs(info);`,
+      statements: body('update', [
+        `const select = ${selectCall('update')};`,
 
-        `return ctx.prisma.${lowerModelName}.update({`,
+        `return ${access.client}.${names.delegate}.update({`,
         `  ...args,`,
         `  ...select,`,
         `} as any);`,
-      ],
+      ]),
     });
   }
 
-  // Add updateMany mutation (if UpdateInput and WhereInput exist)
-  if (ops.hasUpdateInput && ops.hasWhereInput) {
+  // Add updateMany mutation
+  if (ops.has('updateMany')) {
     resolverClass.addMethod({
-      name: `updateMany${modelName}`,
+      name: names.updateMany,
       isAsync: true,
       decorators: [
         {
           name: 'Mutation',
-          arguments: [`() => AffectedRows`, `{ name: 'updateMany${modelName}' }`],
+          arguments: [`() => AffectedRows`, `{ name: '${names.updateMany}' }`],
         },
       ],
       parameters: [
@@ -407,22 +571,24 @@ function generateResolverFile(
           type: `UpdateMany${modelName}Args`,
           decorators: [{ name: 'Args', arguments: [] }],
         },
-        { name: 'ctx', type: contextType, decorators: [{ name: 'Context', arguments: [] }] },
+        ...contextParams,
         { name: 'info', type: 'GraphQLResolveInfo', decorators: [{ name: 'Info', arguments: [] }] },
       ],
-      statements: [`return ctx.prisma.${lowerModelName}.updateMany(args);`],
+      statements: body('updateMany', [
+        `return ${access.client}.${names.delegate}.updateMany(args);`,
+      ]),
     });
   }
 
-  // Add upsert mutation (if CreateInput, UpdateInput, and WhereUniqueInput exist)
-  if (ops.hasCreateInput && ops.hasUpdateInput && ops.hasWhereUniqueInput) {
+  // Add upsert mutation
+  if (ops.has('upsert')) {
     resolverClass.addMethod({
-      name: `upsertOne${modelName}`,
+      name: names.upsert,
       isAsync: true,
       decorators: [
         {
           name: 'Mutation',
-          arguments: [`() => ${modelName}`, `{ name: 'upsertOne${modelName}' }`],
+          arguments: [`() => ${typeName}`, `{ name: '${names.upsert}' }`],
         },
       ],
       parameters: [
@@ -431,29 +597,33 @@ function generateResolverFile(
           type: `Upsert${modelName}Args`,
           decorators: [{ name: 'Args', arguments: [] }],
         },
-        { name: 'ctx', type: contextType, decorators: [{ name: 'Context', arguments: [] }] },
+        ...contextParams,
         { name: 'info', type: 'GraphQLResolveInfo', decorators: [{ name: 'Info', arguments: [] }] },
       ],
-      statements: [
-        `const select = transformInfoIntoPrismaArgs(info);`,
+      statements: body('upsert', [
+        `const select = ${selectCall('upsert')};`,
 
-        `return ctx.prisma.${lowerModelName}.upsert({`,
+        `return ${access.client}.${names.delegate}.upsert({`,
         `  ...args,`,
         `  ...select,`,
         `} as any);`,
-      ],
+      ]),
     });
   }
 
-  // Add delete mutation (if WhereUniqueInput exists)
-  if (ops.hasWhereUniqueInput) {
+  // Soft deleted models set their field instead of deleting
+  const deleteCall = getSoftDeleteCall('delete', softDelete, audit);
+  const deleteManyCall = getSoftDeleteCall('deleteMany', softDelete, audit);
+
+  // Add delete mutation
+  if (ops.has('delete')) {
     resolverClass.addMethod({
-      name: `deleteOne${modelName}`,
+      name: names.delete,
       isAsync: true,
       decorators: [
         {
           name: 'Mutation',
-          arguments: [`() => ${modelName}`, `{ name: 'deleteOne${modelName}', nullable: true }`],
+          arguments: [`() => ${typeName}`, `{ name: '${names.delete}', nullable: true }`],
         },
       ],
       parameters: [
@@ -462,29 +632,30 @@ function generateResolverFile(
           type: `Delete${modelName}Args`,
           decorators: [{ name: 'Args', arguments: [] }],
         },
-        { name: 'ctx', type: contextType, decorators: [{ name: 'Context', arguments: [] }] },
+        ...contextParams,
         { name: 'info', type: 'GraphQLResolveInfo', decorators: [{ name: 'Info', arguments: [] }] },
       ],
-      statements: [
-        `const select = transformInfoIntoPrismaArgs(info);`,
+      statements: body('delete', [
+        `const select = ${selectCall('delete')};`,
 
-        `return ctx.prisma.${lowerModelName}.delete({`,
+        `return ${access.client}.${names.delegate}.${deleteCall.method}({`,
         `  ...args,`,
+        ...(deleteCall.data ? [`  data: ${deleteCall.data},`] : []),
         `  ...select,`,
         `} as any);`,
-      ],
+      ]),
     });
   }
 
-  // Add deleteMany mutation (if WhereInput exists)
-  if (ops.hasWhereInput) {
+  // Add deleteMany mutation
+  if (ops.has('deleteMany')) {
     resolverClass.addMethod({
-      name: `deleteMany${modelName}`,
+      name: names.deleteMany,
       isAsync: true,
       decorators: [
         {
           name: 'Mutation',
-          arguments: [`() => AffectedRows`, `{ name: 'deleteMany${modelName}' }`],
+          arguments: [`() => AffectedRows`, `{ name: '${names.deleteMany}' }`],
         },
       ],
       parameters: [
@@ -493,22 +664,64 @@ function generateResolverFile(
           type: `DeleteMany${modelName}Args`,
           decorators: [{ name: 'Args', arguments: [] }],
         },
-        { name: 'ctx', type: contextType, decorators: [{ name: 'Context', arguments: [] }] },
+        ...contextParams,
+        { name: 'info', type: 'GraphQLResolveInfo', decorators: [{ name: 'Info', arguments: [] }] },
+      ],
+      statements: body(
+        'deleteMany',
+        deleteManyCall.data
+          ? [
+              `return ${access.client}.${names.delegate}.${deleteManyCall.method}({`,
+              `  ...args,`,
+              `  data: ${deleteManyCall.data},`,
+              `} as any);`,
+            ]
+          : [`return ${access.client}.${names.delegate}.deleteMany(args);`],
+      ),
+    });
+  }
+
+  // Add restore mutation, clearing the field a soft delete set
+  if (restore) {
+    const restoreName = getRestoreName(names.delete);
+    resolverClass.addMethod({
+      name: restoreName,
+      isAsync: true,
+      decorators: [
+        {
+          name: 'Mutation',
+          arguments: [`() => ${typeName}`, `{ name: '${restoreName}', nullable: true }`],
+        },
+        ...getResolverDecorators(model, config, 'delete').map(expression => ({
+          name: expression,
+        })),
+      ],
+      parameters: [
+        {
+          name: 'args',
+          type: `Delete${modelName}Args`,
+          decorators: [{ name: 'Args', arguments: [] }],
+        },
+        ...contextParams,
         { name: 'info', type: 'GraphQLResolveInfo', decorators: [{ name: 'Info', arguments: [] }] },
       ],
-      statements: [`return ctx.prisma.${lowerModelName}.deleteMany(args);`],
+      statements: body('restore', [
+        `const select = ${selectCall('restore')};`,
+
+        `return ${getRestoreCall(`${access.client}.${names.delegate}`, softDelete!.records!, 'select', getSoftDeleteCall('restore', softDelete, audit).data!)};`,
+      ]),
     });
   }
 
-  // Add aggregate query (if WhereInput exists)
-  if (ops.hasWhereInput) {
+  // Add aggregate query
+  if (ops.has('aggregate')) {
     resolverClass.addMethod({
-      name: `aggregate${modelName}`,
+      name: names.aggregate,
       isAsync: true,
       decorators: [
         {
           name: 'Query',
-          arguments: [`() => ${modelName}`, `{ name: 'aggregate${modelName}' }`],
+          arguments: [`() => ${typeName}`, `{ name: '${names.aggregate}' }`],
         },
       ],
       parameters: [
@@ -517,29 +730,29 @@ function generateResolverFile(
           type: `Aggregate${modelName}Args`,
           decorators: [{ name: 'Args', arguments: [] }],
         },
-        { name: 'ctx', type: contextType, decorators: [{ name: 'Context', arguments: [] }] },
+        ...contextParams,
         { name: 'info', type: 'GraphQLResolveInfo', decorators: [{ name: 'Info', arguments: [] }] },
       ],
-      statements: [
+      statements: body('aggregate', [
         `const aggregateArgs = transformInfoIntoPrismaAggregateArgs(info);`,
 
-        `return ctx.prisma.${lowerModelName}.aggregate({`,
+        `return ${access.client}.${names.delegate}.aggregate({`,
         `  ...args,`,
         `  ...aggregateArgs,`,
         `} as any);`,
-      ],
+      ]),
     });
   }
 
-  // Add groupBy query (if WhereInput exists)
-  if (ops.hasWhereInput) {
+  // Add groupBy query
+  if (ops.has('groupBy')) {
     resolverClass.addMethod({
-      name: `groupBy${modelName}`,
+      name: names.groupBy,
       isAsync: true,
       decorators: [
         {
           name: 'Query',
-          arguments: [`() => [${modelName}]`, `{ name: 'groupBy${modelName}' }`],
+          arguments: [`() => [${typeName}]`, `{ name: '${names.groupBy}' }`],
         },
       ],
       parameters: [
@@ -548,29 +761,29 @@ function generateResolverFile(
           type: `GroupBy${modelName}Args`,
           decorators: [{ name: 'Args', arguments: [] }],
         },
-        { name: 'ctx', type: contextType, decorators: [{ name: 'Context', arguments: [] }] },
+        ...contextParams,
         { name: 'info', type: 'GraphQLResolveInfo', decorators: [{ name: 'Info', arguments: [] }] },
       ],
-      statements: [
+      statements: body('groupBy', [
         `const aggregateArgs = transformInfoIntoPrismaAggregateArgs(info);`,
 
-        `return ctx.prisma.${lowerModelName}.groupBy({`,
+        `return ${access.client}.${names.delegate}.groupBy({`,
         `  ...args,`,
         `  ...aggregateArgs,`,
         `} as any);`,
-      ],
+      ]),
     });
   }
 
-  // Add count query (if WhereInput exists)
-  if (ops.hasWhereInput) {
+  // Add count query
+  if (ops.has('count')) {
     resolverClass.addMethod({
-      name: `${lowerModelName}Count`,
+      name: names.count,
       isAsync: true,
       decorators: [
         {
           name: 'Query',
-          arguments: [`() => Int`, `{ name: '${lowerModelName}Count' }`],
+          arguments: [`() => Int`, `{ name: '${names.count}' }`],
         },
       ],
       parameters: [
@@ -579,16 +792,67 @@ function generateResolverFile(
           type: `FindMany${modelName}Args`,
           decorators: [{ name: 'Args', arguments: [] }],
         },
-        { name: 'ctx', type: contextType, decorators: [{ name: 'Context', arguments: [] }] },
+        ...contextParams,
         { name: 'info', type: 'GraphQLResolveInfo', decorators: [{ name: 'Info', arguments: [] }] },
       ],
-      statements: [
-        `return ctx.prisma.${lowerModelName}.count({`,
+      statements: body('count', [
+        `return ${access.client}.${names.delegate}.count({`,
         `  where: args.where,`,
         `} as any);`,
-      ],
+      ]),
     });
   }
+
+  // Configured decorators go after the ones above
+  resolverClass.addDecorators(
+    getResolverDecorators(model, config, 'class').map(expression => ({ name: expression })),
+  );
+  for (const op of ops) {
+    resolverClass
+      .getMethod(names[op])
+      ?.addDecorators(
+        getResolverDecorators(model, config, op).map(expression => ({ name: expression })),
+      );
+  }
+
+  // The default resolver just extends the base
+  if (config.baseResolvers) {
+    sourceFile.addClass({
+      name: `${modelName}Resolver`,
+      isExported: true,
+      extends: `${modelName}ResolverBase`,
+      decorators: [{ name: 'Resolver', arguments: [`() => ${typeName}`] }],
+    });
+  }
+}
+
+/**
+ * The enabled operations of a model with their args and result types
+ */
+export function getTypedOperations(
+  ops: Set<CrudOperation>,
+  modelName: string,
+  typeName: string,
+): TypedOperation[] {
+  const types: Record<CrudOperation, [string, string]> = {
+    findMany: [`FindMany${modelName}Args`, `${typeName}[]`],
+    findFirst: [`FindFirst${modelName}Args`, `${typeName} | null`],
+    findUnique: [`FindUnique${modelName}Args`, `${typeName} | null`],
+    create: [`Create${modelName}Args`, typeName],
+    createMany: [`CreateMany${modelName}Args`, 'AffectedRows'],
+    update: [`Update${modelName}Args`, `${typeName} | null`],
+    updateMany: [`UpdateMany${modelName}Args`, 'AffectedRows'],
+    upsert: [`Upsert${modelName}Args`, typeName],
+    delete: [`Delete${modelName}Args`, `${typeName} | null`],
+    deleteMany: [`DeleteMany${modelName}Args`, 'AffectedRows'],
+    aggregate: [`Aggregate${modelName}Args`, 'unknown'],
+    groupBy: [`GroupBy${modelName}Args`, 'unknown[]'],
+    count: [`FindMany${modelName}Args`, 'number'],
+  };
+  return [...ops].map(operation => {
+    const [argsType, resultType] = types[operation];
+    return { operation, argsType, resultType };
+  });
 }
 
 /**
@@ -0,0 +1,144 @@
+import { Project, Scope, SourceFile } from 'ts-morph';
+
+import type { DMMFDocument } from '../dmmf/document';
+import type { GeneratorConfig } from '../../cli/options-parser';
+import type { CrudOperation, Model } from '../dmmf/types';
+import { getModelOperations } from '../operations';
+import { getInjectedPrisma } from '../prisma-access';
+import { getServiceMethods } from '../services';
+import { readsExisting } from '../events';
+import { getModelSoftDelete, getSoftDeleteHelpers } from '../soft-delete';
+import { getTypedOperations } from './resolver';
+
+/**
+ * Generate a service per model with a resolver, for `generateServices`
+ */
+export function generateServices(
+  project: Project,
+  dmmf: DMMFDocument,
+  config: GeneratorConfig,
+  resolverFiles: ReadonlyMap<string, SourceFile>,
+): Map<string, SourceFile> {
+  const files = new Map<string, SourceFile>();
+  const resolversDir = config.outputDirs?.resolvers ?? 'resolvers';
+  const inputTypeNames = new Set(dmmf.inputTypes.keys());
+  const models = dmmf.models.filter(model =>
+    resolverFiles.has(`${resolversDir}/${model.name}Resolver.ts`),
+  );
+
+  for (const model of models) {
+    const filePath = `services/${model.name}Service.ts`;
+    const sourceFile = project.createSourceFile(filePath, '', { overwrite: true });
+    const ops = getModelOperations(model, inputTypeNames, config);
+    generateServiceFile(sourceFile, filePath, model, dmmf, config, ops);
+    files.set(filePath, sourceFile);
+  }
+
+  if (models.length > 0) {
+    const indexFile = project.createSourceFile('services/index.ts', '', { overwrite: true });
+    for (const model of models) {
+      indexFile.addExportDeclaration({ moduleSpecifier: `./${model.name}Service` });
+    }
+    files.set('services/index.ts', indexFile);
+  }
+
+  return files;
+}
+
+/**
+ * Generate a single injectable service running the model's operations
+ */
+function generateServiceFile(
+  sourceFile: SourceFile,
+  filePath: string,
+  model: Model,
+  dmmf: DMMFDocument,
+  config: GeneratorConfig,
+  ops: Set<CrudOperation>,
+): void {
+  const names = dmmf.getModelMapping(model.name)!;
+  const typed = getTypedOperations(ops, model.name, names.typeName);
+  const softDelete = getModelSoftDelete(model, dmmf.models);
+  const methods = getServiceMethods(typed, names.delegate, softDelete);
+  const prisma = getInjectedPrisma(config, filePath);
+  const findsExisting = [...ops].some(op => readsExisting(op, !!config.generateEvents));
+  const whereUniqueInput = `${model.name}WhereUniqueInput`;
+
+  sourceFile.addImportDeclaration({
+    moduleSpecifier: '@nestjs/common',
+    namedImports: ['Injectable'],
+  });
+  sourceFile.addImportDeclarations(prisma.imports);
+  sourceFile.addImportDeclaration({
+    moduleSpecifier: `../${config.outputDirs?.models ?? 'models'}/${model.name}`,
+    namedImports: [names.typeName],
+  });
+
+  for (const argsType of new Set(typed.map(o => o.argsType))) {
+    sourceFile.addImportDeclaration({
+      moduleSpecifier: `../${config.outputDirs?.args ?? 'args'}/${argsType}`,
+      namedImports: [argsType],
+    });
+  }
+
+  if (findsExisting) {
+    sourceFile.addImportDeclaration({
+      moduleSpecifier: `../${config.outputDirs?.inputs ?? 'inputs'}/${whereUniqueInput}`,
+      namedImports: [whereUniqueInput],
+    });
+  }
+
+  const parameterTypes = new Set(methods.flatMap(method => method.parameters.map(p => p.type)));
+  const helpers = [
+    ...['PrismaSelect', 'PrismaAggregateArgs'].filter(type => parameterTypes.has(type)),
+    ...getSoftDeleteHelpers(ops, softDelete),
+  ];
+  if (helpers.length > 0) {
+    sourceFile.addImportDeclaration({ moduleSpecifier: '../helpers', namedImports: helpers });
+  }
+
+  if (typed.some(o => o.resultType === 'AffectedRows')) {
+    sourceFile.addImportDeclaration({
+      moduleSpecifier: '../common/AffectedRows',
+      namedImports: ['AffectedRows'],
+    });
+  }
+
+  sourceFile.addClass({
+    name: `${model.name}Service`,
+    isExported: true,
+    docs: [
+      `Operations on ${model.name}. Resolvers pass the selection of the GraphQL query;\n` +
+        'other callers can pass their own or leave it out.',
+    ],
+    decorators: [{ name: 'Injectable', arguments: [] }],
+    ctors: [
+      {
+        parameters: [
+          { name: 'prisma', type: prisma.serviceType, scope: Scope.Private, isReadonly: true },
+        ],
+      },
+    ],
+    methods: [
+      ...methods.map(method => ({
+        name: method.name,
+        isAsync: true,
+        parameters: method.parameters,
+        returnType: method.returnType,
+        statements: method.statements,
+      })),
+      ...(findsExisting
+        ? [
+            {
+              name: 'findExisting',
+              docs: ['The record `where` points at, read by updates for their events'],
+              isAsync: true,
+              parameters: [{ name: 'where', type: whereUniqueInput }],
+              returnType: `Promise<${names.typeName} | null>`,
+              statements: [`return this.prisma.${names.delegate}.findUnique({ where } as any);`],
+            },
+          ]
+        : []),
+    ],
+  });
+}
@@ -0,0 +1,228 @@
+import { Project, Scope, SourceFile } from 'ts-morph';
+import type { OptionalKind, ParameterDeclarationStructure } from 'ts-morph';
+
+import type { DMMFDocument } from '../dmmf/document';
+import type { GeneratorConfig } from '../../cli/options-parser';
+import type { Model } from '../dmmf/types';
+import { getModelOperations } from '../operations';
+import { getDecoratorImports, getResolverDecorators } from '../decorators';
+import { getPrismaAccess } from '../prisma-access';
+import { mergeImports } from '../imports';
+import { getModelSubscriptions, getRecordKey, getResolveStatements } from '../subscriptions';
+import type { ModelSubscription } from '../subscriptions';
+import { getModelTenancy, getTenantScopeCall } from '../tenancy';
+import { getModelSoftDelete } from '../soft-delete';
+
+/**
+ * Generate a subscriptions resolver per model with `@gql.subscriptions` and a
+ * resolver, next to the resolvers and exported from their index
+ */
+export function generateSubscriptions(
+  project: Project,
+  dmmf: DMMFDocument,
+  config: GeneratorConfig,
+  resolverFiles: ReadonlyMap<string, SourceFile>,
+): Map<string, SourceFile> {
+  const files = new Map<string, SourceFile>();
+  const resolversDir = config.outputDirs?.resolvers ?? 'resolvers';
+  const inputTypeNames = new Set(dmmf.inputTypes.keys());
+
+  for (const model of dmmf.models) {
+    if (
+      !resolverFiles.has(`${resolversDir}/${model.name}Resolver.ts`) ||
+      !inputTypeNames.has(`${model.name}WhereInput`)
+    ) {
+      continue;
+    }
+    const ops = getModelOperations(model, inputTypeNames, config);
+    const subscriptions = getModelSubscriptions(model, ops);
+    if (subscriptions.length === 0) continue;
+
+    const filePath = `${resolversDir}/${model.name}SubscriptionsResolver.ts`;
+    const sourceFile = project.createSourceFile(filePath, '', { overwrite: true });
+    generateSubscriptionsFile(sourceFile, filePath, model, dmmf, config, subscriptions);
+    files.set(filePath, sourceFile);
+    resolverFiles.get(`${resolversDir}/index.ts`)?.addExportDeclaration({
+      moduleSpecifier: `./${model.name}SubscriptionsResolver`,
+    });
+  }
+
+  return files;
+}
+
+/**
+ * Generate a resolver with the created/updated/deleted subscriptions of a
+ * model, filtered by a `where` evaluated against the published record
+ */
+function generateSubscriptionsFile(
+  sourceFile: SourceFile,
+  filePath: string,
+  model: Model,
+  dmmf: DMMFDocument,
+  config: GeneratorConfig,
+  subscriptions: ModelSubscription[],
+): void {
+  const modelName = model.name;
+  const names = dmmf.getModelMapping(modelName)!;
+  const typeName = names.typeName;
+  const className = `${modelName}SubscriptionsResolver`;
+  const whereInput = `${modelName}WhereInput`;
+  // There are no hooks or events here, so the context is only read for the client and tenant
+  const access = getPrismaAccess(
+    { ...config, baseResolvers: false, generateEvents: false },
+    filePath,
+  );
+  const key = getRecordKey(model);
+  const refetches = key !== undefined && subscriptions.some(s => s.event !== 'deleted');
+  const tenancy = getModelTenancy(model, dmmf.models, config);
+  const softDelete = getModelSoftDelete(model, dmmf.models);
+  // Scoped models filter the events on the tenant, refetches keep their relations to it
+  const scopesEvents = !!tenancy?.scoped;
+  const readsContext = scopesEvents || (refetches && tenancy !== undefined);
+  const clientOnContext = access.client.startsWith('ctx.');
+  const usesContext = clientOnContext || tenancy !== undefined;
+  // Refetched list relations keep to the tenant and leave soft deleted records out
+  const selectOptions = [
+    ...(tenancy ? ['relationScope: scope'] : []),
+    ...(softDelete?.relations ? ['deletedFields: DELETED_FIELDS'] : []),
+  ];
+
+  sourceFile.addImportDeclaration({ moduleSpecifier: '@nestjs/common', namedImports: ['Inject'] });
+  sourceFile.addImportDeclaration({
+    moduleSpecifier: '@nestjs/graphql',
+    namedImports: ['Args', 'Resolver', 'Subscription'],
+  });
+  if (refetches) {
+    sourceFile.addImportDeclaration({
+      moduleSpecifier: 'graphql',
+      namedImports: ['GraphQLResolveInfo'],
+    });
+  }
+  sourceFile.addImportDeclaration({
+    moduleSpecifier: `../${config.outputDirs?.models ?? 'models'}/${modelName}`,
+    namedImports: [typeName],
+  });
+  sourceFile.addImportDeclaration({
+    moduleSpecifier: `../${config.outputDirs?.inputs ?? 'inputs'}/${whereInput}`,
+    namedImports: [whereInput],
+  });
+  sourceFile.addImportDeclarations(
+    mergeImports([
+      {
+        moduleSpecifier: '../helpers',
+        namedImports: [
+          'GraphQLPubSub',
+          'PUB_SUB',
+          'matchesWhere',
+          ...(refetches ? ['transformInfoIntoPrismaArgs'] : []),
+          ...(refetches && softDelete?.relations ? ['DELETED_FIELDS'] : []),
+          ...(readsContext ? ['getTenantScope'] : []),
+          ...(scopesEvents ? ['scopeWhere'] : []),
+        ],
+      },
+      ...(refetches && selectOptions.length > 0
+        ? [
+            {
+              moduleSpecifier: config.prismaClientPath || '@prisma/client',
+              namedImports: ['Prisma'],
+            },
+          ]
+        : []),
+      ...(refetches || readsContext ? access.imports : []),
+      ...getDecoratorImports(model, config, ['class'], filePath),
+    ]),
+  );
+
+  const constructorParams: OptionalKind<ParameterDeclarationStructure>[] = [
+    {
+      name: 'pubSub',
+      type: 'GraphQLPubSub',
+      scope: Scope.Private,
+      isReadonly: true,
+      decorators: [{ name: 'Inject', arguments: ['PUB_SUB'] }],
+    },
+  ];
+  if (refetches && access.serviceType) {
+    constructorParams.push({
+      name: access.serviceName!,
+      type: access.serviceType,
+      scope: Scope.Private,
+      isReadonly: true,
+    });
+  }
+
+  sourceFile.addClass({
+    name: className,
+    isExported: true,
+    decorators: [
+      { name: 'Resolver', arguments: [`() => ${typeName}`] },
+      ...getResolverDecorators(model, config, 'class').map(expression => ({
+        name: expression,
+      })),
+    ],
+    ctors: [{ parameters: constructorParams }],
+    methods: subscriptions.map(subscription => {
+      const resolveStatements = getResolveStatements(
+        subscription,
+        key,
+        access.client,
+        names.delegate,
+        selectOptions.length > 0
+          ? `transformInfoIntoPrismaArgs(info, { dmmf: Prisma.dmmf, modelName: '${modelName}', ${selectOptions.join(', ')} })`
+          : 'transformInfoIntoPrismaArgs(info)',
+      );
+      const statements =
+        tenancy && resolveStatements.length > 1
+          ? [`const scope = ${getTenantScopeCall(tenancy)};`, ...resolveStatements]
+          : resolveStatements;
+      const filter = scopesEvents
+        ? [
+            `  filter: (payload: ${typeName}, variables: { where?: ${whereInput} }, ctx: ${access.contextType}) =>`,
+            `    matchesWhere(payload, scopeWhere(variables.where, ${getTenantScopeCall(tenancy!)})),`,
+          ]
+        : [
+            `  filter: (payload: ${typeName}, variables: { where?: ${whereInput} }) =>`,
+            '    matchesWhere(payload, variables.where),',
+          ];
+      const resolve =
+        statements.length === 1
+          ? `  resolve: (payload: ${typeName}) => payload,`
+          : [
+              '  resolve(',
+              ...(clientOnContext ? [] : [`    this: ${className},`]),
+              `    payload: ${typeName},`,
+              '    _args: unknown,',
+              usesContext ? `    ctx: ${access.contextType},` : '    _ctx: unknown,',
+              '    info: GraphQLResolveInfo,',
+              '  ) {',
+              ...statements.map(statement => `    ${statement}`),
+              '  },',
+            ].join('\n');
+      return {
+        name: subscription.name,
+        decorators: [
+          {
+            name: 'Subscription',
+            arguments: [`() => ${typeName}`, ['{', ...filter, resolve, '}'].join('\n')],
+          },
+        ],
+        parameters: [
+          {
+            name: '_where',
+            type: whereInput,
+            hasQuestionToken: true,
+            decorators: [
+              {
+                name: 'Args',
+                arguments: [`'where'`, `{ type: () => ${whereInput}, nullable: true }`],
+              },
+            ],
+          },
+        ],
+        statements: [
+          `return this.pubSub.asyncIterableIterator<${typeName}>('${subscription.name}');`,
+        ],
+      };
+    }),
+  });
+}
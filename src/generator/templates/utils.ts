@@ -1,3 +1,5 @@
+import { parseFieldAnnotations } from '../dmmf/annotations';
+
 /**
  * Escape a description string for use in generated code
  */
@@ -10,12 +12,10 @@ export function escapeDescription(description: string): string {
     .replace(/\t/g, '\\t'); // Escape tabs
 }
 
-const HIDE_FIELD_PATTERN = /@HideField\(\)|@TypeGraphQL\.omit\(output:\s*true\)/;
-
 /**
  * Check if a field should be hidden from the GraphQL schema
- * based on its documentation containing @HideField() or @TypeGraphQL.omit(output: true)
+ * based on its documentation containing @gql.omit(output), @HideField() or @TypeGraphQL.omit(output: true)
  */
 export function isHiddenField(documentation?: string): boolean {
-  return documentation != null && HIDE_FIELD_PATTERN.test(documentation);
+  return parseFieldAnnotations(documentation).annotations.omitOutput;
 }
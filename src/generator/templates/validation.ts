@@ -0,0 +1,271 @@
+import type { InputField, ModelField } from '../dmmf/types';
+import { findOwningModel, getInputTypeKind } from '../dmmf/transformer';
+
+import { findClosingParen } from '../dmmf/annotations';
+
+import type { DMMFDocument } from '../dmmf/document';
+
+/**
+ * A class-validator / class-transformer decorator to attach to a generated property
+ */
+export interface ValidationDecorator {
+  name: string;
+  arguments: string[];
+}
+
+/**
+ * Describes the value a generated property holds, used to infer validators
+ */
+export interface ValidationTarget {
+  /** Prisma scalar name, enum name or input type name */
+  type: string;
+  kind: 'scalar' | 'enum' | 'input';
+  isList: boolean;
+  isOptional: boolean;
+  /** Expression that resolves the nested input class, e.g. `UserWhereInput` */
+  typeExpression?: string;
+}
+
+/**
+ * class-validator decorators for Prisma scalar types
+ */
+const SCALAR_VALIDATORS: Record<string, string> = {
+  String: 'IsString',
+  Int: 'IsInt',
+  Float: 'IsNumber',
+  Boolean: 'IsBoolean',
+  DateTime: 'IsDate',
+};
+
+/**
+ * Decorators provided by class-transformer rather than class-validator
+ */
+const CLASS_TRANSFORMER_DECORATORS = new Set(['Type']);
+
+const VALIDATOR_ANNOTATION = '@Validator.';
+
+/**
+ * Infer validation decorators for a property from its type metadata
+ */
+export function getValidationDecorators(target: ValidationTarget): ValidationDecorator[] {
+  const decorators: ValidationDecorator[] = [];
+  const each = target.isList ? ['{ each: true }'] : [];
+
+  if (target.isOptional) {
+    decorators.push({ name: 'IsOptional', arguments: [] });
+  }
+  if (target.isList) {
+    decorators.push({ name: 'IsArray', arguments: [] });
+  }
+
+  if (target.kind === 'input') {
+    decorators.push({ name: 'ValidateNested', arguments: each });
+    decorators.push({
+      name: 'Type',
+      arguments: [`() => ${target.typeExpression ?? target.type}`],
+    });
+  } else if (target.kind === 'enum') {
+    decorators.push({ name: 'IsEnum', arguments: [target.type, ...each] });
+  } else {
+    const validator = SCALAR_VALIDATORS[target.type];
+    if (validator) {
+      // IsNumber takes its own options object before the validation options
+      const args = validator === 'IsNumber' && target.isList ? ['{}', ...each] : each;
+      decorators.push({ name: validator, arguments: args });
+    }
+  }
+
+  return decorators;
+}
+
+/**
+ * Extract `@Validator.Name(args)` annotations from a Prisma doc comment,
+ * e.g. `/// @Validator.IsEmail()` or `/// @Validator.Length(3, 20)`
+ */
+export function getDocumentedValidators(documentation?: string): ValidationDecorator[] {
+  const decorators: ValidationDecorator[] = [];
+  if (!documentation) return decorators;
+
+  let index = documentation.indexOf(VALIDATOR_ANNOTATION);
+  while (index !== -1) {
+    const nameStart = index + VALIDATOR_ANNOTATION.length;
+    const nameMatch = /^[A-Za-z_$][\w$]*/.exec(documentation.slice(nameStart));
+    if (!nameMatch) break;
+
+    const name = nameMatch[0];
+    let cursor = nameStart + name.length;
+    let args = '';
+
+    if (documentation[cursor] === '(') {
+      const close = findClosingParen(documentation, cursor);
+      if (close === -1) break;
+      args = documentation.slice(cursor + 1, close).trim();
+      cursor = close + 1;
+    }
+
+    decorators.push({ name, arguments: args ? [args] : [] });
+    index = documentation.indexOf(VALIDATOR_ANNOTATION, cursor);
+  }
+
+  return decorators;
+}
+
+/**
+ * Get validation decorators for a field of a Prisma input type.
+ * Combines type-inferred validators with `@Validator.*` annotations of the
+ * matching model field (create/update inputs only).
+ */
+export function getInputFieldValidators(
+  field: InputField,
+  inputTypeName: string,
+  dmmf: DMMFDocument,
+  typeExpression?: string,
+): ValidationDecorator[] {
+  const kind: ValidationTarget['kind'] = dmmf.isEnum(field.type)
+    ? 'enum'
+    : field.inputTypes.some(t => t.location === 'inputObjectTypes' && t.type === field.type)
+      ? 'input'
+      : 'scalar';
+
+  // Update wrappers of fields with validators validate through their own class
+  const setClass = kind === 'input' ? getValidatedSetClass(field, inputTypeName, dmmf) : undefined;
+  const decorators = getValidationDecorators({
+    type: field.type,
+    kind,
+    isList: field.isList,
+    isOptional: !field.isRequired,
+    typeExpression: setClass?.name ?? typeExpression,
+  });
+
+  if (kind !== 'input') {
+    const modelField = findMutationModelField(field, inputTypeName, dmmf);
+    if (modelField && modelField.type === field.type) {
+      decorators.push(...getDocumentedValidators(modelField.documentation));
+    }
+  }
+
+  return decorators;
+}
+
+/**
+ * A class validating an update input field that takes a
+ * `*FieldUpdateOperationsInput`, with the `@Validator.*` annotations of its
+ * model field on `set`. The wrapper is shared by every field of its type, so
+ * they can't go on it; the field keeps it as its GraphQL type and only
+ * class-transformer instantiates this class, e.g. `UserUpdateInputEmailSet`.
+ */
+export interface ValidatedSetClass {
+  name: string;
+  /** Fields of the wrapper with their validators */
+  fields: { field: InputField; decorators: ValidationDecorator[] }[];
+}
+
+/**
+ * Get the class validating the `set` of an update input field, if the field
+ * takes an update wrapper and its model field has `@Validator.*` annotations
+ */
+export function getValidatedSetClass(
+  field: InputField,
+  inputTypeName: string,
+  dmmf: DMMFDocument,
+): ValidatedSetClass | undefined {
+  const wrapper = dmmf.inputTypes.get(field.type);
+  if (!wrapper?.fields.some(f => f.name === 'set')) return undefined;
+  const modelField = findMutationModelField(field, inputTypeName, dmmf);
+  if (!modelField || modelField.kind === 'object') return undefined;
+  const documented = getDocumentedValidators(modelField.documentation);
+  if (documented.length === 0) return undefined;
+
+  return {
+    name: `${inputTypeName}${field.name.charAt(0).toUpperCase()}${field.name.slice(1)}Set`,
+    fields: wrapper.fields.map(wrapperField => ({
+      field: wrapperField,
+      decorators: [
+        ...getInputFieldValidators(wrapperField, wrapper.name, dmmf),
+        ...(wrapperField.name === 'set' ? documented : []),
+      ],
+    })),
+  };
+}
+
+/**
+ * Get validation decorators for an @ArgsType property from its GraphQL type name.
+ * Nested inputs need @ValidateNested so ValidationPipe descends into `data`/`where`.
+ */
+export function getArgValidators(
+  graphqlType: string,
+  isList: boolean,
+  isOptional: boolean,
+  dmmf: DMMFDocument,
+): ValidationDecorator[] {
+  const kind: ValidationTarget['kind'] = dmmf.isEnum(graphqlType)
+    ? 'enum'
+    : dmmf.inputTypes.has(graphqlType)
+      ? 'input'
+      : 'scalar';
+
+  return getValidationDecorators({ type: graphqlType, kind, isList, isOptional });
+}
+
+/**
+ * Group decorator names by the package that provides them
+ */
+export function getValidationImports(decorators: Iterable<ValidationDecorator>): {
+  classValidator: string[];
+  classTransformer: string[];
+} {
+  const classValidator = new Set<string>();
+  const classTransformer = new Set<string>();
+
+  for (const decorator of decorators) {
+    if (CLASS_TRANSFORMER_DECORATORS.has(decorator.name)) {
+      classTransformer.add(decorator.name);
+    } else {
+      classValidator.add(decorator.name);
+    }
+  }
+
+  return { classValidator: [...classValidator].sort(), classTransformer: [...classTransformer] };
+}
+
+/**
+ * Render decorators as source lines for string-based generation
+ */
+export function renderDecorators(decorators: ValidationDecorator[], indent = '  '): string[] {
+  return decorators.map(d => `${indent}@${d.name}(${d.arguments.join(', ')})`);
+}
+
+/**
+ * Render import statements for the decorators used in a file
+ */
+export function renderValidationImports(decorators: Iterable<ValidationDecorator>): string[] {
+  const { classValidator, classTransformer } = getValidationImports(decorators);
+  const lines: string[] = [];
+  if (classValidator.length > 0) {
+    lines.push(`import { ${classValidator.join(', ')} } from 'class-validator';`);
+  }
+  if (classTransformer.length > 0) {
+    lines.push(`import { ${classTransformer.join(', ')} } from 'class-transformer';`);
+  }
+  return lines;
+}
+
+/**
+ * Find the model field a create/update input field writes to, by name
+ */
+function findMutationModelField(
+  field: InputField,
+  inputTypeName: string,
+  dmmf: DMMFDocument,
+): ModelField | undefined {
+  const modelName = findOwningModel(
+    inputTypeName,
+    dmmf.models.map(m => m.name),
+  );
+  if (!modelName) return undefined;
+
+  const kind = getInputTypeKind(inputTypeName, modelName);
+  if (kind !== 'create' && kind !== 'update') return undefined;
+
+  return dmmf.getModel(modelName)?.fields.find(f => f.name === field.name);
+}
@@ -0,0 +1,339 @@
+import type { CrudOperation, Model, ModelField } from './dmmf/types';
+import type { GeneratorConfig } from '../cli/options-parser';
+import {
+  getNestedWriteModelNames,
+  getNestedWriteRelations,
+  reachesRelatedModel,
+} from './relations';
+
+/**
+ * Operations resolving to records of the model, whose selection may hold
+ * list relations to keep within the tenant
+ */
+const RECORD_OPERATIONS: readonly CrudOperation[] = [
+  'findMany',
+  'findFirst',
+  'findUnique',
+  'create',
+  'update',
+  'upsert',
+  'delete',
+];
+
+/**
+ * How the resolvers of a model keep to the tenant of the request, with `tenantField`
+ */
+export interface ModelTenancy {
+  /** Name of the model, the key of its entry in `TENANT_MODELS` */
+  model: string;
+  /** Scalar field holding the tenant of a record, e.g. `tenantId` */
+  field: string;
+  /** Property path of the tenant on the GraphQL context */
+  contextPath: string;
+  /** The model has `field`, so its own rows are scoped, not only the related ones */
+  scoped: boolean;
+  /** Relation `field` is the foreign key of, which creates connect instead of setting `field` */
+  relation?: { name: string; references: string };
+  /** Its nested writes lead to models with `field` */
+  relations: boolean;
+}
+
+/**
+ * The tenant field of a model in `TENANT_MODELS`, with its relations leading
+ * to models that have it
+ */
+export interface TenantModel {
+  /** Tenant field, when the model has it */
+  field?: string;
+  /** Relation the tenant field is the foreign key of, which nested creates connect */
+  relation?: { name: string; references: string };
+  /** Related model of each relation, and the relation back from it */
+  relations?: Record<string, { model: string; inverse?: string }>;
+}
+
+/**
+ * Whether a model has the tenant field, as a scalar
+ */
+export function isTenantScoped(model: Model, tenantField: string): boolean {
+  return model.fields.some(field => field.name === tenantField && field.kind !== 'object');
+}
+
+/**
+ * Get the tenancy of a model's resolvers: scoped when the model has
+ * `tenantField`, else only its relations when they lead to a model that has
+ * it. Undefined without `tenantField` or when neither applies.
+ */
+export function getModelTenancy(
+  model: Model,
+  models: Model[],
+  config: GeneratorConfig,
+): ModelTenancy | undefined {
+  const field = config.tenantField;
+  if (!field) return undefined;
+
+  const scoped = isTenantScoped(model, field);
+  if (!scoped && !reachesRelatedModel(model, models, m => isTenantScoped(m, field))) {
+    return undefined;
+  }
+
+  const relation = scoped
+    ? model.fields.find(
+        f => f.relationFromFields?.length === 1 && f.relationFromFields[0] === field,
+      )
+    : undefined;
+  const written = getNestedWriteModelNames(models, m => isTenantScoped(m, field));
+  return {
+    model: model.name,
+    field,
+    contextPath: config.contextTenantKey ?? field,
+    scoped,
+    ...(relation?.relationToFields?.[0] && {
+      relation: { name: relation.name, references: relation.relationToFields[0] },
+    }),
+    relations: getNestedWriteRelations(model, written).length > 0,
+  };
+}
+
+/**
+ * Whether the selection of an operation passes the tenant on to its list
+ * relations (`relationScope`)
+ */
+export function scopesRelations(
+  operation: CrudOperation,
+  tenancy: ModelTenancy | undefined,
+): boolean {
+  return tenancy !== undefined && RECORD_OPERATIONS.includes(operation);
+}
+
+/**
+ * Statements starting a resolver method body: reading the tenant filter from
+ * the context into `scope`, then ANDing it into `args.where`, or setting the
+ * tenant of the records a write creates, nested ones included
+ */
+export function getScopeStatements(
+  operation: CrudOperation,
+  tenancy: ModelTenancy | undefined,
+): string[] {
+  if (!tenancy || (!tenancy.scoped && !scopesRelations(operation, tenancy))) return [];
+
+  const statements = [`const scope = ${getTenantScopeCall(tenancy)};`];
+  const call = (data: string, write: 'create' | 'update', scalars = false) =>
+    `withTenant(${data}, '${tenancy.model}', '${write}', scope, TENANT_MODELS${scalars ? ', true' : ''})`;
+  if (!tenancy.scoped) {
+    if (!tenancy.relations) return statements;
+    switch (operation) {
+      case 'create':
+        statements.push(`args = { ...args, data: ${call('args.data', 'create')} };`);
+        break;
+      case 'update':
+        statements.push(`args = { ...args, data: ${call('args.data', 'update')} };`);
+        break;
+      case 'upsert':
+        statements.push(
+          `args = { ...args, create: ${call('args.create', 'create')}, update: ${call('args.update', 'update')} };`,
+        );
+        break;
+    }
+    return statements;
+  }
+
+  switch (operation) {
+    case 'create':
+      statements.push(`args = { ...args, data: ${call('args.data', 'create')} };`);
+      break;
+    case 'createMany':
+      // Bulk writes take no relations, so they set the tenant field
+      statements.push(`args = { ...args, data: ${call('args.data', 'create', true)} };`);
+      break;
+    case 'update':
+      statements.push(
+        tenancy.relations
+          ? `args = { ...args, where: scopeWhere(args.where, scope), data: ${call('args.data', 'update')} };`
+          : 'args = { ...args, where: scopeWhere(args.where, scope) };',
+      );
+      break;
+    case 'upsert':
+      statements.push(
+        `args = { ...args, where: scopeWhere(args.where, scope), create: ${call('args.create', 'create')}${tenancy.relations ? `, update: ${call('args.update', 'update')}` : ''} };`,
+      );
+      break;
+    default:
+      statements.push('args = { ...args, where: scopeWhere(args.where, scope) };');
+  }
+  return statements;
+}
+
+/**
+ * Expression reading the tenant filter of a request from `ctx`
+ */
+export function getTenantScopeCall(tenancy: ModelTenancy): string {
+  return `getTenantScope(ctx, '${tenancy.field}', '${tenancy.contextPath}')`;
+}
+
+/**
+ * Runtime helpers the scope statements of the given operations call, to import
+ */
+export function getScopeHelpers(
+  operations: Iterable<CrudOperation>,
+  tenancy: ModelTenancy | undefined,
+): string[] {
+  const statements = [...operations].flatMap(op => getScopeStatements(op, tenancy)).join('\n');
+  return [
+    ...['getTenantScope', 'scopeWhere', 'withTenant'].filter(helper =>
+      statements.includes(`${helper}(`),
+    ),
+    ...(statements.includes('TENANT_MODELS') ? ['TENANT_MODELS'] : []),
+  ];
+}
+
+/**
+ * The tenant field and relations of each model whose writes set it, for
+ * `TENANT_MODELS`
+ */
+export function getTenantModels(models: Model[], tenantField: string): Record<string, TenantModel> {
+  const written = getNestedWriteModelNames(models, m => isTenantScoped(m, tenantField));
+  const byName = new Map(models.map(model => [model.name, model]));
+
+  return Object.fromEntries(
+    models
+      .filter(model => written.has(model.name))
+      .map(model => {
+        const relations = getNestedWriteRelations(model, written).map(field => {
+          const inverse = findInverseRelation(field, model, byName.get(field.type)!);
+          return [field.name, { model: field.type, ...(inverse && { inverse: inverse.name }) }];
+        });
+        const scoped = isTenantScoped(model, tenantField);
+        const relation = scoped
+          ? model.fields.find(
+              f => f.relationFromFields?.length === 1 && f.relationFromFields[0] === tenantField,
+            )
+          : undefined;
+        const entry: TenantModel = {
+          ...(scoped && { field: tenantField }),
+          ...(relation?.relationToFields?.[0] && {
+            relation: { name: relation.name, references: relation.relationToFields[0] },
+          }),
+          ...(relations.length > 0 && { relations: Object.fromEntries(relations) }),
+        };
+        return [model.name, entry];
+      }),
+  );
+}
+
+/**
+ * Problems with `tenantField` worth a warning: it matches no model
+ */
+export function getTenancyWarnings(models: Model[], config: GeneratorConfig): string[] {
+  const field = config.tenantField;
+  if (!field || models.some(model => isTenantScoped(model, field))) return [];
+  return [`tenantField "${field}" is not a scalar field of any model`];
+}
+
+function findInverseRelation(
+  field: ModelField,
+  model: Model,
+  related: Model,
+): ModelField | undefined {
+  return related.fields.find(
+    f =>
+      f.kind === 'object' &&
+      f.relationName === field.relationName &&
+      !(related.name === model.name && f.name === field.name),
+  );
+}
+
+/**
+ * Runtime helper ANDing a filter into a Prisma `where`, part of helpers.ts as
+ * the selections keep list relations within `relationScope` with it
+ */
+export const SCOPE_WHERE_HELPER = `
+/**
+ * AND a filter into a Prisma \`where\`, keeping the fields of the original at
+ * the top level so a \`WhereUniqueInput\` still names its unique fields
+ */
+export function scopeWhere<T extends object>(
+  where: T | null | undefined,
+  scope: Record<string, unknown>,
+): T {
+  if (!where) return scope as T;
+
+  const { AND } = where as { AND?: unknown };
+  const conditions = AND === undefined ? [] : Array.isArray(AND) ? AND : [AND];
+  return { ...where, AND: [...conditions, scope] };
+}
+`;
+
+/**
+ * Runtime helpers of the resolvers scoped to a tenant, appended to helpers.ts
+ * with `tenantField` and the tenant field and relations of each model
+ */
+export function getTenancyHelpersSource(tenantModels: Record<string, TenantModel>): string {
+  return `
+/**
+ * The tenant field of a model, with its relations leading to models that have it
+ */
+export interface TenantModel {
+  field?: string;
+  relation?: { name: string; references: string };
+  relations?: Record<string, { model: string; inverse?: string }>;
+}
+
+/**
+ * Tenant field and relations of each model whose writes set it, for withTenant
+ */
+export const TENANT_MODELS: Record<string, TenantModel> = ${JSON.stringify(tenantModels, null, 2)};
+
+/**
+ * Filter on the tenant of a request, e.g. \`{ tenantId: 'acme' }\`, read from the
+ * GraphQL context at \`path\`. Throws when the context has no tenant, so no
+ * operation runs unscoped.
+ */
+export function getTenantScope(ctx: unknown, field: string, path: string): Record<string, unknown> {
+  const tenant = readContextPath(ctx, path);
+  if (tenant === null || tenant === undefined) {
+    throw new Error(\`No tenant found in the GraphQL context at "\${path}"\`);
+  }
+  return { [field]: tenant };
+}
+
+/**
+ * Set the tenant of the records a Prisma \`data\` creates, nested ones included,
+ * to the one of \`scope\`. With \`scalars\`, for bulk writes, the tenant field is
+ * set instead of connecting its relation.
+ */
+export function withTenant<T>(
+  data: T,
+  model: string,
+  write: 'create' | 'update',
+  scope: Record<string, unknown>,
+  models: Record<string, TenantModel>,
+  scalars = false,
+  inverse?: string,
+): T {
+  const tenancy = models[model];
+  if (!tenancy || data === null || typeof data !== 'object') return data;
+  if (Array.isArray(data)) {
+    return data.map(item => withTenant(item, model, write, scope, models, scalars, inverse)) as T;
+  }
+
+  const result = { ...(data as Record<string, unknown>) };
+  for (const [name, related] of Object.entries(tenancy.relations ?? {})) {
+    const writes = result[name];
+    if (writes !== null && typeof writes === 'object') {
+      result[name] = mapNestedWrites(writes as Record<string, unknown>, (nested, nestedWrite, bulk) =>
+        withTenant(nested, related.model, nestedWrite, scope, models, bulk, related.inverse),
+      );
+    }
+  }
+  // Records created under their tenant get it from Prisma
+  if (write === 'create' && tenancy.field && (inverse === undefined || tenancy.relation?.name !== inverse)) {
+    if (tenancy.relation && !scalars) {
+      result[tenancy.relation.name] = { connect: { [tenancy.relation.references]: scope[tenancy.field] } };
+    } else {
+      result[tenancy.field] = scope[tenancy.field];
+    }
+  }
+  return result as T;
+}
+`;
+}
@@ -0,0 +1,212 @@
+import type { GeneratedFile } from '../dmmf/types';
+import path from 'path';
+import { ts } from 'ts-morph';
+
+/**
+ * Interfaces of the packages generated code imports from. Only the syntax is
+ * analysed, so these can't be told apart from classes otherwise.
+ */
+const PACKAGE_TYPE_EXPORTS: Record<string, string[]> = {
+  graphql: ['GraphQLResolveInfo', 'FieldNode', 'SelectionNode', 'FragmentDefinitionNode'],
+};
+
+/**
+ * Rewrite generated sources as ES modules for `"module": "NodeNext"` projects:
+ * relative imports get explicit `.js` / `/index.js` paths, and imports only
+ * used as types become `import type`, so nothing is loaded just for a type.
+ *
+ * Names referenced by decorator metadata (the types of decorated properties and
+ * parameters) stay value imports, since the compiled code refers to them.
+ */
+export function convertToEsm(files: GeneratedFile[]): GeneratedFile[] {
+  const paths = new Set(files.map(f => f.path));
+  const typeNames = new Set<string>();
+  for (const file of files) {
+    for (const match of file.content.matchAll(/^export (?:interface|type) (\w+)/gm)) {
+      typeNames.add(match[1]!);
+    }
+  }
+
+  return files.map(file =>
+    file.path.endsWith('.ts') && !file.path.endsWith('.d.ts')
+      ? { ...file, content: convertSource(file, paths, typeNames) }
+      : file,
+  );
+}
+
+function convertSource(file: GeneratedFile, paths: Set<string>, typeNames: Set<string>): string {
+  const sourceFile = ts.createSourceFile(
+    file.path,
+    file.content,
+    ts.ScriptTarget.ES2021,
+    true,
+    ts.ScriptKind.TS,
+  );
+  const { valueNames, metadataNames } = collectUsages(sourceFile);
+
+  const isTypeOnly = (name: string, moduleSpecifier: string): boolean =>
+    !valueNames.has(name) &&
+    (!metadataNames.has(name) ||
+      (moduleSpecifier.startsWith('.')
+        ? typeNames.has(name)
+        : (PACKAGE_TYPE_EXPORTS[moduleSpecifier]?.includes(name) ?? false)));
+
+  const edits: { start: number; end: number; text: string }[] = [];
+
+  for (const statement of sourceFile.statements) {
+    if (
+      (!ts.isImportDeclaration(statement) && !ts.isExportDeclaration(statement)) ||
+      !statement.moduleSpecifier ||
+      !ts.isStringLiteral(statement.moduleSpecifier)
+    ) {
+      continue;
+    }
+
+    const literal = statement.moduleSpecifier;
+    const moduleSpecifier = literal.text;
+    const resolved = resolveSpecifier(file.path, moduleSpecifier, paths);
+    const quote = literal.getText(sourceFile)[0]!;
+
+    const bindings = ts.isImportDeclaration(statement)
+      ? statement.importClause?.namedBindings
+      : undefined;
+    if (
+      ts.isImportDeclaration(statement) &&
+      !statement.importClause!.isTypeOnly &&
+      !statement.importClause!.name &&
+      bindings &&
+      ts.isNamedImports(bindings)
+    ) {
+      const elements = bindings.elements.map(element => ({
+        text: element.getText(sourceFile).replace(/^type /, ''),
+        isType: element.isTypeOnly || isTypeOnly(element.name.text, moduleSpecifier),
+      }));
+      const allTypes = elements.every(element => element.isType);
+      const clause = elements
+        .map(element => (element.isType && !allTypes ? `type ${element.text}` : element.text))
+        .join(', ');
+      edits.push({
+        start: statement.getStart(sourceFile),
+        end: statement.getEnd(),
+        text: `import ${allTypes ? 'type ' : ''}{ ${clause} } from ${quote}${resolved}${quote};`,
+      });
+    } else if (resolved !== moduleSpecifier) {
+      edits.push({
+        start: literal.getStart(sourceFile),
+        end: literal.getEnd(),
+        text: `${quote}${resolved}${quote}`,
+      });
+    }
+  }
+
+  let content = file.content;
+  for (const edit of edits.reverse()) {
+    content = content.slice(0, edit.start) + edit.text + content.slice(edit.end);
+  }
+  return content;
+}
+
+/**
+ * Point a relative specifier at the generated file it means: `./model` becomes
+ * `./model.js` and the directory import `./models` becomes `./models/index.js`
+ */
+function resolveSpecifier(filePath: string, moduleSpecifier: string, paths: Set<string>): string {
+  if (!moduleSpecifier.startsWith('.')) return moduleSpecifier;
+
+  const target = path.posix.join(path.posix.dirname(filePath), moduleSpecifier);
+  if (paths.has(`${target}.ts`)) return `${moduleSpecifier}.js`;
+  if (paths.has(`${target}/index.ts`)) return `${moduleSpecifier}/index.js`;
+  return moduleSpecifier;
+}
+
+/**
+ * Collect the names a module uses at runtime: in expressions, and as the
+ * outermost type of decorated properties and parameters, which end up in
+ * `design:type` / `design:paramtypes` metadata
+ */
+function collectUsages(sourceFile: ts.SourceFile): {
+  valueNames: Set<string>;
+  metadataNames: Set<string>;
+} {
+  const valueNames = new Set<string>();
+  const metadataNames = new Set<string>();
+
+  const addMetadataName = (type: ts.TypeNode | undefined): void => {
+    const name = getSerializedTypeName(type);
+    if (name) metadataNames.add(name);
+  };
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isImportDeclaration(node) || ts.isTypeNode(node) || ts.isInterfaceDeclaration(node)) {
+      // `extends Base<T>` in a class heritage is an expression, not a type
+      if (!ts.isExpressionWithTypeArguments(node)) return;
+    }
+    if (ts.isTypeAliasDeclaration(node)) return;
+
+    if (ts.isIdentifier(node) && !isDeclarationOrMemberName(node)) {
+      valueNames.add(node.text);
+    }
+
+    if (ts.isClassDeclaration(node) && ts.getDecorators(node)?.length) {
+      const constructor = node.members.find(ts.isConstructorDeclaration);
+      constructor?.parameters.forEach(parameter => addMetadataName(parameter.type));
+    }
+    if (ts.isPropertyDeclaration(node) && ts.getDecorators(node)?.length) {
+      addMetadataName(node.type);
+    }
+    if (ts.isMethodDeclaration(node) && ts.getDecorators(node)?.length) {
+      addMetadataName(node.type);
+      node.parameters.forEach(parameter => addMetadataName(parameter.type));
+    }
+    if (ts.isParameter(node) && ts.getDecorators(node)?.length) {
+      ts.forEachChild(node.parent, child => {
+        if (ts.isParameter(child)) addMetadataName(child.type);
+      });
+    }
+
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return { valueNames, metadataNames };
+}
+
+/**
+ * The name TypeScript serializes for a type annotation, if it refers to a
+ * declaration: `User`, `User | null` and `Prisma.Decimal` (as `Prisma`)
+ */
+function getSerializedTypeName(type: ts.TypeNode | undefined): string | undefined {
+  while (type && ts.isParenthesizedTypeNode(type)) type = type.type;
+  if (!type) return undefined;
+
+  if (ts.isUnionTypeNode(type)) {
+    const members = type.types.filter(
+      member =>
+        member.kind !== ts.SyntaxKind.UndefinedKeyword &&
+        !(ts.isLiteralTypeNode(member) && member.literal.kind === ts.SyntaxKind.NullKeyword),
+    );
+    return members.length === 1 ? getSerializedTypeName(members[0]) : undefined;
+  }
+  if (!ts.isTypeReferenceNode(type)) return undefined;
+
+  let name: ts.EntityName = type.typeName;
+  while (ts.isQualifiedName(name)) name = name.left;
+  return name.text;
+}
+
+function isDeclarationOrMemberName(node: ts.Identifier): boolean {
+  const parent = node.parent;
+  return (
+    (ts.isPropertyAccessExpression(parent) && parent.name === node) ||
+    (ts.isPropertyAssignment(parent) && parent.name === node) ||
+    ((ts.isClassDeclaration(parent) ||
+      ts.isPropertyDeclaration(parent) ||
+      ts.isMethodDeclaration(parent) ||
+      ts.isParameter(parent) ||
+      ts.isFunctionDeclaration(parent) ||
+      ts.isVariableDeclaration(parent) ||
+      ts.isEnumDeclaration(parent) ||
+      ts.isEnumMember(parent)) &&
+      parent.name === node)
+  );
+}
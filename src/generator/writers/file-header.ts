@@ -0,0 +1,56 @@
+import type { GeneratedFile } from '../dmmf/types';
+import { createHash } from 'crypto';
+
+/**
+ * Number of lines the header takes, including the blank line after it
+ */
+const HEADER_LINES = 5;
+
+const HASH_PATTERN = /^\/\/ @generated-hash sha256:([0-9a-f]{64})$/;
+
+/**
+ * Whether a file still matches the hash in its header
+ */
+export type FileHeaderStatus = 'unmodified' | 'modified' | 'missing';
+
+/**
+ * Prefix a generated source with the generator version, a do-not-edit notice,
+ * lint/type-check pragmas and the hash of the content below the header
+ */
+export function addFileHeader(content: string, version: string): string {
+  return [
+    `// Generated by nestjs-prisma-graphql-generator v${version}. Do not edit, changes are overwritten.`,
+    `// @generated-hash sha256:${hashContent(content)}`,
+    '/* eslint-disable */',
+    '// @ts-nocheck',
+    '',
+    content,
+  ].join('\n');
+}
+
+/**
+ * Add headers to the TypeScript and JavaScript files among the generated files
+ */
+export function addFileHeaders(files: GeneratedFile[], version: string): GeneratedFile[] {
+  return files.map(file =>
+    /\.[cm]?[jt]s$/.test(file.path)
+      ? { ...file, content: addFileHeader(file.content, version) }
+      : file,
+  );
+}
+
+/**
+ * Check whether a generated file was edited since it was generated
+ */
+export function checkFileHeader(content: string): FileHeaderStatus {
+  const lines = content.split('\n');
+  const match = HASH_PATTERN.exec(lines[1] ?? '');
+  if (!match || lines.length < HEADER_LINES) return 'missing';
+
+  const body = lines.slice(HEADER_LINES).join('\n');
+  return hashContent(body) === match[1] ? 'unmodified' : 'modified';
+}
+
+function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
@@ -1,24 +1,162 @@
 import type { GeneratedFile } from '../dmmf/types';
+import { checkFileHeader } from './file-header';
+import { createHash } from 'crypto';
 import { promises as fs } from 'fs';
 import path from 'path';
 
+/**
+ * Name of the manifest that records which files the previous generation wrote
+ */
+export const MANIFEST_FILE = '.generated-manifest.json';
+
+/**
+ * Subdirectories of the staging directory: the new files, and the previous
+ * ones they replace or prune until all of them are in place
+ */
+const STAGED_DIR = 'staged';
+const PREVIOUS_DIR = 'previous';
+
+/**
+ * Contents of the manifest file: generated file paths mapped to their content hash
+ */
+export interface GenerationManifest {
+  version: 1;
+  files: Record<string, string>;
+}
+
+/**
+ * What writing a set of generated files will do to the output directory
+ */
+export interface WritePlan {
+  /** Files that do not exist yet */
+  added: GeneratedFile[];
+  /** Files whose content differs from what is on disk */
+  changed: GeneratedFile[];
+  /** Previously generated files that are no longer produced */
+  removed: string[];
+  /** Files whose content is already up to date */
+  unchanged: string[];
+  /** Changed files that were edited by hand since they were generated */
+  edited: string[];
+}
+
+/**
+ * Summary of a completed write, as relative file paths
+ */
+export interface WriteResult {
+  added: string[];
+  changed: string[];
+  removed: string[];
+  unchanged: string[];
+  /** Files whose hand edits were overwritten */
+  edited: string[];
+}
+
+/**
+ * Compare generated files against the output directory and the previous manifest
+ */
+export async function planWrites(outputDir: string, files: GeneratedFile[]): Promise<WritePlan> {
+  const plan: WritePlan = { added: [], changed: [], removed: [], unchanged: [], edited: [] };
+  const generatedPaths = new Set<string>();
+
+  for (const file of files) {
+    generatedPaths.add(normalizePath(file.path));
+
+    const existing = await readFileIfExists(path.join(outputDir, file.path));
+    if (existing === null) {
+      plan.added.push(file);
+    } else if (existing !== file.content) {
+      plan.changed.push(file);
+      if (checkFileHeader(existing) === 'modified') plan.edited.push(file.path);
+    } else {
+      plan.unchanged.push(file.path);
+    }
+  }
+
+  // Only files recorded by a previous generation are pruned, never user files,
+  // nor anything a manifest entry like `../src/app.ts` points at outside the output
+  const manifest = await readManifest(outputDir);
+  if (manifest) {
+    for (const previousPath of Object.keys(manifest.files).sort()) {
+      if (!generatedPaths.has(previousPath) && isInsideDir(outputDir, previousPath)) {
+        plan.removed.push(previousPath);
+      }
+    }
+  }
+
+  return plan;
+}
+
 /**
  * Write generated files to the output directory
+ *
+ * Only added and changed files are written, so unchanged files keep their
+ * mtime and don't retrigger watchers. New content is first staged in a sibling
+ * temp directory and then renamed into place, keeping the files it replaces or
+ * prunes there until every rename succeeded: a failure while writing or
+ * renaming puts them back, leaving the previous output untouched. Files
+ * produced by the previous generation that are no longer generated are removed.
  */
-export async function writeFiles(outputDir: string, files: GeneratedFile[]): Promise<void> {
+export async function writeFiles(outputDir: string, files: GeneratedFile[]): Promise<WriteResult> {
   // Ensure output directory exists
   await fs.mkdir(outputDir, { recursive: true });
 
-  // Write each file
-  for (const file of files) {
-    const filePath = path.join(outputDir, file.path);
-    const fileDir = path.dirname(filePath);
+  const plan = await planWrites(outputDir, files);
+  const pending = [...plan.added, ...plan.changed];
+
+  if (pending.length > 0 || plan.removed.length > 0) {
+    // Stage next to the output directory so renames stay on the same filesystem
+    const stagingDir = await fs.mkdtemp(
+      path.join(path.dirname(path.resolve(outputDir)), `.${path.basename(outputDir)}-`),
+    );
+    let keepStaging = false;
+
+    try {
+      for (const file of pending) {
+        const stagedPath = path.join(stagingDir, STAGED_DIR, file.path);
+        await fs.mkdir(path.dirname(stagedPath), { recursive: true });
+        await fs.writeFile(stagedPath, file.content, 'utf-8');
+      }
 
-    // Ensure directory exists
-    await fs.mkdir(fileDir, { recursive: true });
+      keepStaging = !(await moveIntoPlace(
+        outputDir,
+        stagingDir,
+        pending.map(f => f.path),
+        plan.removed,
+      ));
+    } finally {
+      if (!keepStaging) await fs.rm(stagingDir, { recursive: true, force: true });
+    }
+  }
 
-    // Write file content
-    await fs.writeFile(filePath, file.content, 'utf-8');
+  for (const removedPath of plan.removed) {
+    await removeEmptyDirs(outputDir, path.dirname(removedPath));
+  }
+
+  await writeManifest(outputDir, files);
+
+  return {
+    added: plan.added.map(f => f.path),
+    changed: plan.changed.map(f => f.path),
+    removed: plan.removed,
+    unchanged: plan.unchanged,
+    edited: plan.edited,
+  };
+}
+
+/**
+ * Read the manifest left by the previous generation, if any
+ */
+export async function readManifest(outputDir: string): Promise<GenerationManifest | null> {
+  const content = await readFileIfExists(path.join(outputDir, MANIFEST_FILE));
+  if (content === null) return null;
+
+  try {
+    const manifest = JSON.parse(content) as GenerationManifest;
+    return manifest && typeof manifest.files === 'object' ? manifest : null;
+  } catch {
+    // A corrupt manifest only disables pruning, it must not break generation
+    return null;
   }
 }
 
@@ -35,3 +173,110 @@ export async function cleanOutputDir(outputDir: string): Promise<void> {
     }
   }
 }
+
+/**
+ * Rename the staged files into the output directory and the pruned ones out of
+ * it, moving the files they replace to the staging directory first. When a
+ * rename fails the moved files are put back and the error rethrown; when
+ * putting them back fails too, the staging directory holds the previous files
+ * and is kept. Returns whether the staging directory can be removed.
+ */
+async function moveIntoPlace(
+  outputDir: string,
+  stagingDir: string,
+  written: string[],
+  removed: string[],
+): Promise<boolean> {
+  const moved: { filePath: string; previousPath: string | null }[] = [];
+
+  try {
+    for (const [index, relativePath] of [...written, ...removed].entries()) {
+      const filePath = path.join(outputDir, relativePath);
+      const previousPath = path.join(stagingDir, PREVIOUS_DIR, relativePath);
+      await fs.mkdir(path.dirname(previousPath), { recursive: true });
+      const existed = await renameIfExists(filePath, previousPath);
+      moved.push({ filePath, previousPath: existed ? previousPath : null });
+
+      if (index < written.length) {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.rename(path.join(stagingDir, STAGED_DIR, relativePath), filePath);
+      }
+    }
+    return true;
+  } catch (error) {
+    try {
+      for (const { filePath, previousPath } of moved.reverse()) {
+        await fs.rm(filePath, { force: true });
+        if (previousPath) await fs.rename(previousPath, filePath);
+      }
+    } catch {
+      throw new Error(
+        `Failed to write ${outputDir} (${(error as Error).message}), and to restore its previous files, which are in ${stagingDir}`,
+      );
+    }
+    throw error;
+  }
+}
+
+async function renameIfExists(from: string, to: string): Promise<boolean> {
+  try {
+    await fs.rename(from, to);
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+    throw error;
+  }
+}
+
+async function writeManifest(outputDir: string, files: GeneratedFile[]): Promise<void> {
+  const manifest: GenerationManifest = { version: 1, files: {} };
+  for (const file of [...files].sort((a, b) => a.path.localeCompare(b.path))) {
+    manifest.files[normalizePath(file.path)] = createHash('sha256')
+      .update(file.content)
+      .digest('hex');
+  }
+
+  const manifestPath = path.join(outputDir, MANIFEST_FILE);
+  const content = `${JSON.stringify(manifest, null, 2)}\n`;
+  if ((await readFileIfExists(manifestPath)) === content) return;
+
+  const tempPath = `${manifestPath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, content, 'utf-8');
+  await fs.rename(tempPath, manifestPath);
+}
+
+/**
+ * Remove directories left empty after pruning, walking up to the output directory
+ */
+async function removeEmptyDirs(outputDir: string, relativeDir: string): Promise<void> {
+  let current = relativeDir;
+  while (current && current !== '.' && current !== path.sep) {
+    const dirPath = path.join(outputDir, current);
+    try {
+      if ((await fs.readdir(dirPath)).length > 0) return;
+      await fs.rmdir(dirPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+    current = path.dirname(current);
+  }
+}
+
+async function readFileIfExists(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+function isInsideDir(dir: string, relativePath: string): boolean {
+  const root = path.resolve(dir);
+  const resolved = path.resolve(root, relativePath);
+  return resolved.startsWith(root + path.sep);
+}
+
+function normalizePath(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
@@ -0,0 +1,149 @@
+import type { GeneratedFile } from '../dmmf/types';
+import { createRequire } from 'module';
+import path from 'path';
+
+/**
+ * A single-line import statement: `import [type] { A, B } from 'module';`
+ */
+const IMPORT_PATTERN = /^import (type )?(\{[^}]*\}|[^'"{}]+) from (['"])([^'"]+)\3;$/;
+
+interface ImportStatement {
+  isType: boolean;
+  clause: string;
+  quote: string;
+  moduleSpecifier: string;
+}
+
+/**
+ * The subset of the Prettier API used for formatting, shared by Prettier 2 and 3
+ */
+interface Prettier {
+  resolveConfig(filePath: string): Promise<Record<string, unknown> | null>;
+  format(source: string, options: Record<string, unknown>): string | Promise<string>;
+}
+
+/**
+ * Make generated sources independent of collection order and template
+ * whitespace: files sorted by path, leading imports sorted and blank lines
+ * collapsed
+ */
+export function normalizeGeneratedFiles(files: GeneratedFile[]): GeneratedFile[] {
+  return files
+    .map(file =>
+      file.path.endsWith('.ts') ? { ...file, content: normalizeSource(file.content) } : file,
+    )
+    .sort((a, b) => compare(a.path, b.path));
+}
+
+/**
+ * Sort the leading import statements (packages, then parent, then sibling
+ * modules) and their named imports, drop trailing whitespace, repeated blank
+ * lines and blank lines just inside braces
+ */
+export function normalizeSource(content: string): string {
+  const lines = content.split('\n').map(line => line.trimEnd());
+
+  const imports: ImportStatement[] = [];
+  let bodyStart = 0;
+  for (; bodyStart < lines.length; bodyStart++) {
+    const line = lines[bodyStart]!;
+    if (line === '') continue;
+    const match = IMPORT_PATTERN.exec(line);
+    if (!match) break;
+    imports.push({
+      isType: match[1] !== undefined,
+      clause: match[2]!,
+      quote: match[3]!,
+      moduleSpecifier: match[4]!,
+    });
+  }
+
+  const result = [...new Set(imports.sort(compareImports).map(renderImport))];
+  if (result.length > 0) result.push('');
+
+  const body = lines.slice(bodyStart);
+  for (let i = 0; i < body.length; i++) {
+    const line = body[i]!;
+    if (line === '') {
+      const previous = result[result.length - 1];
+      const next = body.slice(i + 1).find(l => l !== '');
+      const isRedundant =
+        previous === undefined || previous === '' || previous.endsWith('{') || next === undefined;
+      if (isRedundant || /^\s*\}/.test(next!)) continue;
+    }
+    result.push(line);
+  }
+
+  return `${result.join('\n')}\n`;
+}
+
+/**
+ * Format TypeScript files with the Prettier installation and config of the
+ * project around the output directory. Returns null when Prettier can't be found.
+ */
+export async function formatWithPrettier(
+  files: GeneratedFile[],
+  outputDir: string,
+): Promise<GeneratedFile[] | null> {
+  const prettier = loadPrettier(outputDir);
+  if (!prettier) return null;
+
+  const formatted: GeneratedFile[] = [];
+  for (const file of files) {
+    if (!file.path.endsWith('.ts')) {
+      formatted.push(file);
+      continue;
+    }
+    const filepath = path.join(outputDir, file.path);
+    const options = (await prettier.resolveConfig(filepath)) ?? {};
+    formatted.push({
+      ...file,
+      content: await prettier.format(file.content, { ...options, filepath }),
+    });
+  }
+  return formatted;
+}
+
+function loadPrettier(outputDir: string): Prettier | null {
+  const projectRequire = createRequire(path.join(path.resolve(outputDir), 'index.js'));
+  try {
+    return projectRequire('prettier') as Prettier;
+  } catch {
+    return null;
+  }
+}
+
+function compareImports(a: ImportStatement, b: ImportStatement): number {
+  return (
+    importRank(a.moduleSpecifier) - importRank(b.moduleSpecifier) ||
+    compare(a.moduleSpecifier, b.moduleSpecifier) ||
+    Number(a.isType) - Number(b.isType) ||
+    compare(a.clause, b.clause)
+  );
+}
+
+function importRank(moduleSpecifier: string): number {
+  if (moduleSpecifier.startsWith('../')) return 1;
+  if (moduleSpecifier.startsWith('./')) return 2;
+  return 0;
+}
+
+function renderImport({ isType, clause, quote, moduleSpecifier }: ImportStatement): string {
+  const sortedClause = clause.startsWith('{')
+    ? `{ ${clause
+        .slice(1, -1)
+        .split(',')
+        .map(name => name.trim())
+        .filter(name => name !== '')
+        .sort(compare)
+        .join(', ')} }`
+    : clause;
+  return `import ${isType ? 'type ' : ''}${sortedClause} from ${quote}${moduleSpecifier}${quote};`;
+}
+
+/**
+ * Locale-independent string comparison, so output doesn't depend on the machine
+ */
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
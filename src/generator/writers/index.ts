@@ -1 +1,4 @@
+export * from './esm';
+export * from './file-header';
 export * from './file-writer';
+export * from './format';
@@ -72,6 +72,7 @@ export interface PrismaDMMF {
         name: string;
         kind: string;
         type: string;
+        isList?: boolean;
       }>;
     }>;
   };
@@ -85,6 +86,8 @@ export interface ModelFieldInfo {
   scalars: Set<string>;
   /** Relation field name -> related model name */
   relations: Map<string, string>;
+  /** Names of the relation fields holding lists */
+  listRelations: Set<string>;
 }
 
 /**
@@ -285,16 +288,18 @@ export function getModelFields(dmmf: PrismaDMMF, modelName: string): ModelFieldI
 
   const scalars = new Set<string>();
   const relations = new Map<string, string>();
+  const listRelations = new Set<string>();
 
   for (const field of model.fields) {
     if (field.kind === 'object') {
       relations.set(field.name, field.type);
+      if (field.isList) listRelations.add(field.name);
     } else {
       scalars.add(field.name);
     }
   }
 
-  const info: ModelFieldInfo = { scalars, relations };
+  const info: ModelFieldInfo = { scalars, relations, listRelations };
   modelFieldsCache.set(modelName, info);
   return info;
 }
@@ -351,6 +356,34 @@ export interface TransformOptions {
    * });
    */
   includeDefaultScalars?: boolean | string[];
+
+  /**
+   * Filter ANDed into the `where` of every selected list relation whose model
+   * has all of its fields, at all nesting levels. Requires dmmf and modelName.
+   * The generated resolvers pass the tenant of the request with `tenantField`.
+   *
+   * @example
+   * transformInfoIntoPrismaArgs(info, {
+   *   dmmf: Prisma.dmmf,
+   *   modelName: 'User',
+   *   relationScope: { tenantId: 'acme' },
+   * });
+   */
+  relationScope?: Record<string, unknown>;
+
+  /**
+   * Field set on the deletion of records, by soft deleted model name. Selected
+   * list relations to those models leave their deleted records out, at all
+   * nesting levels. Requires dmmf and modelName.
+   *
+   * @example
+   * transformInfoIntoPrismaArgs(info, {
+   *   dmmf: Prisma.dmmf,
+   *   modelName: 'User',
+   *   deletedFields: { Post: 'deletedAt' },
+   * });
+   */
+  deletedFields?: Record<string, string>;
 }
 
 /**
@@ -433,7 +466,9 @@ function extractFieldArgs(
  * Parse a selection set into a Prisma select object
  * This function works directly with the AST without schema type introspection.
  * It also extracts relation arguments (where, orderBy, take, skip, cursor, distinct).
- * When dmmf and modelFields are provided, filters out fields not in Prisma model.
+ * When dmmf and modelFields are provided, filters out fields not in Prisma model
+ * and keeps list relations within relationScope, without the deleted records of
+ * deletedFields models.
  */
 function parseSelectionSetSimple(
   selectionSet: SelectionSetNode | undefined,
@@ -442,6 +477,8 @@ function parseSelectionSetSimple(
   dmmf?: PrismaDMMF,
   modelFields?: ModelFieldInfo,
   defaultScalars?: true | Set<string>,
+  relationScope?: Record<string, unknown>,
+  deletedFields?: Record<string, string>,
 ): Record<string, boolean | PrismaRelation> {
   const select: Record<string, boolean | PrismaRelation> = {};
 
@@ -493,9 +530,28 @@ function parseSelectionSetSimple(
             dmmf,
             relatedModelFields,
             defaultScalars,
+            relationScope,
+            deletedFields,
           );
 
           const relationArgs = extractFieldArgs(fieldNode, variableValues);
+          if (
+            relationScope &&
+            modelFields.listRelations.has(fieldName) &&
+            Object.keys(relationScope).every(key => relatedModelFields.scalars.has(key))
+          ) {
+            relationArgs['where'] = scopeWhere(
+              relationArgs['where'] as Record<string, unknown> | undefined,
+              relationScope,
+            );
+          }
+          const deletedField = deletedFields?.[relatedModelName];
+          if (deletedField && modelFields.listRelations.has(fieldName)) {
+            relationArgs['where'] = scopeWhere(
+              relationArgs['where'] as Record<string, unknown> | undefined,
+              { [deletedField]: null },
+            );
+          }
 
           if (Object.keys(nestedSelect).length > 0) {
             select[fieldName] = { select: nestedSelect, ...relationArgs };
@@ -549,6 +605,8 @@ function parseSelectionSetSimple(
           dmmf,
           modelFields,
           defaultScalars,
+          relationScope,
+          deletedFields,
         );
         Object.assign(select, fragmentSelect);
       }
@@ -563,6 +621,8 @@ function parseSelectionSetSimple(
           dmmf,
           modelFields,
           defaultScalars,
+          relationScope,
+          deletedFields,
         );
         Object.assign(select, inlineSelect);
       }
@@ -637,6 +697,8 @@ export function transformInfoIntoPrismaArgs(
     options?.dmmf,
     modelFields,
     defaultScalars,
+    options?.relationScope,
+    options?.deletedFields,
   );
 
   if (Object.keys(select).length === 0) {
@@ -769,3 +831,396 @@ export function mergePrismaSelects(...selects: PrismaSelect[]): PrismaSelect {
   }
   return result;
 }
+
+/**
+ * AND a filter into a Prisma \`where\`, keeping the fields of the original at
+ * the top level so a \`WhereUniqueInput\` still names its unique fields
+ *
+ * @param where - Filter of the query, if any
+ * @param scope - Filter every result has to match, e.g. \`{ tenantId: 'acme' }\`
+ * @returns The filter matching both
+ */
+export function scopeWhere<T extends object>(
+  where: T | null | undefined,
+  scope: Record<string, unknown>,
+): T {
+  if (!where) return scope as T;
+
+  const { AND } = where as { AND?: unknown };
+  const conditions = AND === undefined ? [] : Array.isArray(AND) ? AND : [AND];
+  return { ...where, AND: [...conditions, scope] };
+}
+
+/**
+ * Leave the records whose soft delete field is set out of the args of a
+ * Prisma query, unless \`withDeleted\` asks for them
+ *
+ * @param args - Args of the query, with \`withDeleted\` if the GraphQL args have it
+ * @param field - Soft delete field of the model, e.g. \`deletedAt\`
+ * @returns The args for Prisma, without \`withDeleted\`
+ */
+export function excludeDeleted<T extends { where?: object | null; withDeleted?: boolean | null }>(
+  args: T,
+  field: string,
+): T {
+  const { withDeleted, ...rest } = args;
+  if (withDeleted) return rest as T;
+  return { ...rest, where: scopeWhere(rest.where as object | undefined, { [field]: null }) } as T;
+}
+
+/**
+ * Select every scalar field next to the selected relations, so the record a
+ * mutation publishes or emits has all of its fields
+ *
+ * @param select - Selection built from the GraphQL query
+ * @returns The selection as an `include`, or `{}` for scalars only
+ */
+export function includeScalars(select: PrismaSelect): PrismaSelect {
+  if (!select.select) return select;
+
+  const include: Record<string, boolean | PrismaRelation> = {};
+  for (const [field, value] of Object.entries(select.select)) {
+    if (typeof value === 'object' || field === '_count') include[field] = value;
+  }
+  return Object.keys(include).length > 0 ? { include } : {};
+}
+
+/**
+ * Whether a record matches a Prisma `where` filter. Scalar filters (equals, in,
+ * lt, contains, ...) and AND / OR / NOT are evaluated; relation filters never match.
+ *
+ * @param record - Record with its scalar fields, e.g. a published subscription payload
+ * @param where - Filter of a subscriber, if any
+ */
+export function matchesWhere(record: object, where?: object | null): boolean {
+  if (!where) return true;
+
+  return Object.entries(where).every(([key, condition]) => {
+    if (condition === undefined) return true;
+    const conditions: object[] = Array.isArray(condition) ? condition : [condition];
+    if (key === 'AND') return conditions.every(c => matchesWhere(record, c));
+    if (key === 'OR') return conditions.some(c => matchesWhere(record, c));
+    if (key === 'NOT') return !conditions.some(c => matchesWhere(record, c));
+    return key in record && matchesFilter((record as Record<string, unknown>)[key], condition);
+  });
+}
+
+function matchesFilter(value: unknown, filter: unknown): boolean {
+  if (!isFilterObject(filter)) return isEqual(value, filter);
+
+  const insensitive = filter.mode === 'insensitive';
+  const text = (v: unknown) => (insensitive && typeof v === 'string' ? v.toLowerCase() : v);
+
+  return Object.entries(filter).every(([operator, operand]) => {
+    if (operand === undefined || operator === 'mode') return true;
+    switch (operator) {
+      case 'equals':
+        return isEqual(text(value), text(operand));
+      case 'not':
+        return isFilterObject(operand)
+          ? !matchesFilter(value, operand)
+          : !isEqual(text(value), text(operand));
+      case 'in':
+        return Array.isArray(operand) && operand.some(o => isEqual(text(value), text(o)));
+      case 'notIn':
+        return Array.isArray(operand) && !operand.some(o => isEqual(text(value), text(o)));
+      case 'lt':
+        return compare(value, operand) < 0;
+      case 'lte':
+        return compare(value, operand) <= 0;
+      case 'gt':
+        return compare(value, operand) > 0;
+      case 'gte':
+        return compare(value, operand) >= 0;
+      case 'contains':
+      case 'startsWith':
+      case 'endsWith': {
+        const [a, b] = [text(value), text(operand)];
+        if (typeof a !== 'string' || typeof b !== 'string') return false;
+        return operator === 'contains'
+          ? a.includes(b)
+          : operator === 'startsWith'
+            ? a.startsWith(b)
+            : a.endsWith(b);
+      }
+      default:
+        return false;
+    }
+  });
+}
+
+function isFilterObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date) &&
+    !isDecimalLike(value)
+  );
+}
+
+function isDecimalLike(value: unknown): value is { toNumber(): number } {
+  return typeof (value as { toNumber?: unknown } | null)?.toNumber === 'function';
+}
+
+/**
+ * Dates and decimals compare by value
+ */
+function toComparable(value: unknown): unknown {
+  if (value instanceof Date) return value.getTime();
+  if (isDecimalLike(value)) return value.toNumber();
+  return value;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return toComparable(a) === toComparable(b);
+}
+
+/**
+ * Order of two values, NaN when either is missing
+ */
+function compare(a: unknown, b: unknown): number {
+  const [x, y] = [toComparable(a), toComparable(b)];
+  if (x === null || x === undefined || y === null || y === undefined) return NaN;
+  return (x as number) < (y as number) ? -1 : (x as number) > (y as number) ? 1 : 0;
+}
+
+/**
+ * Read a value from the GraphQL context at a property path
+ *
+ * @param ctx - GraphQL context
+ * @param path - Property path on the context, e.g. `req.user.id`
+ * @returns The value, or undefined when a property along the path is missing
+ */
+export function readContextPath(ctx: unknown, path: string): unknown {
+  let value = ctx;
+  for (const key of path.split('.')) {
+    value =
+      value === null || value === undefined ? undefined : (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * Filter on the tenant of a request, read from the GraphQL context. Throws
+ * when the context has no tenant, so no operation runs unscoped.
+ *
+ * @param ctx - GraphQL context
+ * @param field - Field holding the tenant of a record, e.g. \`tenantId\`
+ * @param path - Property path of the tenant on the context, e.g. \`req.user.tenantId\`
+ * @returns The filter, e.g. \`{ tenantId: 'acme' }\`
+ */
+export function getTenantScope(ctx: unknown, field: string, path: string): Record<string, unknown> {
+  const tenant = readContextPath(ctx, path);
+  if (tenant === null || tenant === undefined) {
+    throw new Error(`No tenant found in the GraphQL context at "${path}"`);
+  }
+  return { [field]: tenant };
+}
+
+/**
+ * Map the data of each record the nested writes of a relation create or
+ * update, e.g. `{ create: [...], update: [{ where, data }] }`
+ *
+ * @param writes - Nested writes of a relation
+ * @param apply - Maps the data of a record; `scalars` is set for bulk writes, which take no relations
+ * @returns The nested writes with the mapped data
+ */
+function mapNestedWrites(
+  writes: Record<string, unknown>,
+  apply: (data: unknown, write: 'create' | 'update', scalars: boolean) => unknown,
+): Record<string, unknown> {
+  const each = (value: unknown, map: (write: Record<string, unknown>) => unknown) =>
+    Array.isArray(value)
+      ? value.map(map)
+      : value !== null && typeof value === 'object'
+        ? map(value as Record<string, unknown>)
+        : value;
+  // A to-one update is its data, a to-many one has `where` and `data`
+  const isWhereData = (write: Record<string, unknown>) =>
+    'data' in write && Object.keys(write).every(key => key === 'where' || key === 'data');
+
+  const result = { ...writes };
+  if ('create' in result) result.create = apply(result.create, 'create', false);
+  if ('createMany' in result) {
+    result.createMany = each(result.createMany, w => ({
+      ...w,
+      data: apply(w.data, 'create', true),
+    }));
+  }
+  if ('connectOrCreate' in result) {
+    result.connectOrCreate = each(result.connectOrCreate, w => ({
+      ...w,
+      create: apply(w.create, 'create', false),
+    }));
+  }
+  if ('upsert' in result) {
+    result.upsert = each(result.upsert, w => ({
+      ...w,
+      create: apply(w.create, 'create', false),
+      update: apply(w.update, 'update', false),
+    }));
+  }
+  if ('update' in result) {
+    result.update = each(result.update, w =>
+      isWhereData(w) ? { ...w, data: apply(w.data, 'update', false) } : apply(w, 'update', false),
+    );
+  }
+  if ('updateMany' in result) {
+    result.updateMany = each(result.updateMany, w => ({
+      ...w,
+      data: apply(w.data, 'update', true),
+    }));
+  }
+  return result;
+}
+
+/**
+ * The tenant field of a model, with its relations leading to models that have it
+ */
+export interface TenantModel {
+  /** Tenant field, when the model has it */
+  field?: string;
+  /** Relation the tenant field is the foreign key of, which nested creates connect */
+  relation?: { name: string; references: string };
+  /** Related model of each relation, and the relation back from it */
+  relations?: Record<string, { model: string; inverse?: string }>;
+}
+
+/**
+ * Set the tenant of the records a Prisma `data` creates, nested ones included,
+ * to the one of the request
+ *
+ * @param data - Data of a create or update, or a list of them for bulk writes
+ * @param model - Name of the model `data` writes
+ * @param write - `create` sets the tenant of the record, `update` only of the nested records it creates
+ * @param scope - Filter on the tenant of the request, from getTenantScope
+ * @param models - Tenant field and relations of each model, `TENANT_MODELS`
+ * @param scalars - Set the tenant field instead of connecting its relation, for bulk writes
+ * @param inverse - Relation back to the parent record of nested writes, which Prisma sets
+ * @returns The data with the tenant set
+ */
+export function withTenant<T>(
+  data: T,
+  model: string,
+  write: 'create' | 'update',
+  scope: Record<string, unknown>,
+  models: Record<string, TenantModel>,
+  scalars = false,
+  inverse?: string,
+): T {
+  const tenancy = models[model];
+  if (!tenancy || data === null || typeof data !== 'object') return data;
+  if (Array.isArray(data)) {
+    return data.map(item => withTenant(item, model, write, scope, models, scalars, inverse)) as T;
+  }
+
+  const result = { ...(data as Record<string, unknown>) };
+  for (const [name, related] of Object.entries(tenancy.relations ?? {})) {
+    const writes = result[name];
+    if (writes !== null && typeof writes === 'object') {
+      result[name] = mapNestedWrites(
+        writes as Record<string, unknown>,
+        (nested, nestedWrite, bulk) =>
+          withTenant(nested, related.model, nestedWrite, scope, models, bulk, related.inverse),
+      );
+    }
+  }
+  // Records created under their tenant get it from Prisma
+  if (
+    write === 'create' &&
+    tenancy.field &&
+    (inverse === undefined || tenancy.relation?.name !== inverse)
+  ) {
+    if (tenancy.relation && !scalars) {
+      result[tenancy.relation.name] = {
+        connect: { [tenancy.relation.references]: scope[tenancy.field] },
+      };
+    } else {
+      result[tenancy.field] = scope[tenancy.field];
+    }
+  }
+  return result as T;
+}
+
+/**
+ * An audit field, with the relation it is the foreign key of
+ */
+export interface AuditField {
+  field: string;
+  relation?: { name: string; references: string };
+}
+
+/**
+ * The audit fields of a model, with its relations leading to models with audit fields
+ */
+export interface AuditModel {
+  createdBy?: AuditField;
+  updatedBy?: AuditField;
+  /** Related model of each relation */
+  relations?: Record<string, { model: string }>;
+}
+
+/**
+ * The user of a request, read from the GraphQL context. Throws when the
+ * context has no user, so no audited record is written without one.
+ *
+ * @param ctx - GraphQL context
+ * @param path - Property path of the user on the context, e.g. `req.user.id`
+ * @returns The user, e.g. its id
+ */
+export function getAuditUser(ctx: unknown, path: string): unknown {
+  const user = readContextPath(ctx, path);
+  if (user === null || user === undefined) {
+    throw new Error(`No user found in the GraphQL context at "${path}"`);
+  }
+  return user;
+}
+
+/**
+ * Set the audit fields of the records a Prisma `data` writes, nested ones
+ * included, to the user of the request
+ *
+ * @param data - Data of a create or update, or a list of them for bulk writes
+ * @param model - Name of the model `data` writes
+ * @param write - `create` sets `createdBy` and `updatedBy`, `update` only `updatedBy`
+ * @param user - Reads the user of the request with getAuditUser, only once a record has audit fields
+ * @param models - Audit fields and relations of each model, `AUDIT_MODELS`
+ * @param scalars - Set the foreign keys instead of connecting their relation, for bulk writes
+ * @returns The data with the audit fields set
+ */
+export function withAuditFields<T>(
+  data: T,
+  model: string,
+  write: 'create' | 'update',
+  user: () => unknown,
+  models: Record<string, AuditModel>,
+  scalars = false,
+): T {
+  const audit = models[model];
+  if (!audit || data === null || typeof data !== 'object') return data;
+  if (Array.isArray(data)) {
+    return data.map(item => withAuditFields(item, model, write, user, models, scalars)) as T;
+  }
+
+  const result = { ...(data as Record<string, unknown>) };
+  for (const [name, related] of Object.entries(audit.relations ?? {})) {
+    const writes = result[name];
+    if (writes !== null && typeof writes === 'object') {
+      result[name] = mapNestedWrites(
+        writes as Record<string, unknown>,
+        (nested, nestedWrite, bulk) =>
+          withAuditFields(nested, related.model, nestedWrite, user, models, bulk),
+      );
+    }
+  }
+  for (const field of write === 'create' ? [audit.createdBy, audit.updatedBy] : [audit.updatedBy]) {
+    if (!field) continue;
+    if (field.relation && !scalars) {
+      result[field.relation.name] = { connect: { [field.relation.references]: user() } };
+    } else {
+      result[field.field] = user();
+    }
+  }
+  return result as T;
+}
@@ -0,0 +1,53 @@
+import type {
+  FieldAnnotations,
+  Model,
+  ModelAnnotations,
+  ModelField,
+} from '../../src/generator/dmmf/types';
+
+/**
+ * A model field by the properties a test cares about; the rest are those of
+ * a required `Int` scalar without annotations
+ */
+export type FieldFixture = Partial<Omit<ModelField, 'annotations'>> & {
+  name: string;
+  annotations?: Partial<FieldAnnotations>;
+};
+
+export function field({ annotations, ...properties }: FieldFixture): ModelField {
+  return {
+    type: 'Int',
+    kind: 'scalar',
+    isList: false,
+    isRequired: true,
+    isUnique: false,
+    isId: false,
+    isReadOnly: false,
+    isGenerated: false,
+    isUpdatedAt: false,
+    hasDefaultValue: false,
+    ...properties,
+    annotations: { omitOutput: false, omitInput: [], readonly: false, ...annotations },
+  };
+}
+
+/**
+ * A model as the DMMF transformer leaves it, built from its fields and
+ * annotations
+ */
+export function model(
+  name: string,
+  fields: FieldFixture[],
+  annotations: ModelAnnotations = {},
+): Model {
+  return {
+    name,
+    dbName: null,
+    fields: fields.map(field),
+    primaryKey: null,
+    uniqueFields: [],
+    uniqueIndexes: [],
+    annotations,
+    isGenerated: false,
+  };
+}
@@ -0,0 +1,777 @@
+import {
+  AnnotationError,
+  parseEnumAnnotations,
+  parseFieldAnnotations,
+  parseModelAnnotations,
+} from '../../src/generator/dmmf/annotations';
+
+import type { DMMF } from '@prisma/generator-helper';
+import { DMMFDocument } from '../../src/generator/dmmf/document';
+import type { GeneratorConfig } from '../../src/cli/options-parser';
+import { generateCode } from '../../src/generator/generate';
+
+describe('Schema annotations', () => {
+  describe('parseFieldAnnotations', () => {
+    it('should return defaults for undocumented fields', () => {
+      expect(parseFieldAnnotations(undefined)).toEqual({
+        annotations: { omitOutput: false, omitInput: [], readonly: false },
+        description: undefined,
+        diagnostics: [],
+      });
+    });
+
+    it('should omit from everything without arguments', () => {
+      const { annotations } = parseFieldAnnotations('@gql.omit');
+      expect(annotations.omitOutput).toBe(true);
+      expect(annotations.omitInput).toEqual(['create', 'update', 'where', 'orderBy']);
+    });
+
+    it('should parse input kinds and output flags', () => {
+      expect(parseFieldAnnotations('@gql.omit(input: [update, create])').annotations).toEqual({
+        omitOutput: false,
+        omitInput: ['create', 'update'],
+        readonly: false,
+      });
+      expect(parseFieldAnnotations('@gql.omit(output)').annotations.omitOutput).toBe(true);
+      expect(parseFieldAnnotations('@gql.omit(output: true, input: [where])').annotations).toEqual({
+        omitOutput: true,
+        omitInput: ['where'],
+        readonly: false,
+      });
+    });
+
+    it('should parse @gql.readonly', () => {
+      expect(parseFieldAnnotations('@gql.readonly').annotations.readonly).toBe(true);
+    });
+
+    it('should parse the audit annotations', () => {
+      expect(parseFieldAnnotations('@gql.createdBy').annotations.audit).toBe('createdBy');
+      expect(parseFieldAnnotations('@gql.updatedBy').annotations.audit).toBe('updatedBy');
+      expect(parseFieldAnnotations('@gql.updatedBy(id)').diagnostics).toEqual([
+        '@gql.updatedBy(id) does not take arguments',
+      ]);
+    });
+
+    it('should keep supporting legacy hide annotations', () => {
+      expect(parseFieldAnnotations('@HideField()').annotations.omitOutput).toBe(true);
+      expect(parseFieldAnnotations('@TypeGraphQL.omit(output: true)').annotations.omitOutput).toBe(
+        true,
+      );
+    });
+
+    it('should strip annotations from the description', () => {
+      expect(
+        parseFieldAnnotations(
+          'The password hash\n@gql.omit(output)\n@Validator.MinLength(8)\nNever exposed @HideField()',
+        ).description,
+      ).toBe('The password hash\nNever exposed');
+      expect(parseFieldAnnotations('@gql.readonly').description).toBeUndefined();
+    });
+
+    it('should report unknown annotations and arguments', () => {
+      expect(parseFieldAnnotations('@gql.hidden').diagnostics).toEqual([
+        'Unknown annotation @gql.hidden; expected one of @gql.omit, @gql.readonly, @gql.name, @gql.plural, @gql.operations, @gql.ignore, @gql.subscriptions, @gql.softDelete, @gql.createdBy, @gql.updatedBy',
+      ]);
+      expect(parseFieldAnnotations('@gql.omit(input: [delete])').diagnostics).toEqual([
+        'Unknown input kind "delete" in @gql.omit(input: [delete]); expected one of create, update, where, orderBy',
+      ]);
+      expect(parseFieldAnnotations('@gql.omit(secret)').diagnostics).toHaveLength(1);
+      expect(parseFieldAnnotations('@gql.readonly(true)').diagnostics).toEqual([
+        '@gql.readonly(true) does not take arguments',
+      ]);
+    });
+
+    it('should report malformed annotations', () => {
+      expect(parseFieldAnnotations('@gql.omit(input: [create]').diagnostics).toEqual([
+        'Unclosed parenthesis in @gql.omit(',
+      ]);
+      expect(parseFieldAnnotations('@gql.omit(input: {})').diagnostics).toEqual([
+        'Malformed argument "input: {}" in @gql.omit(input: {})',
+      ]);
+      expect(parseFieldAnnotations('See @gql.').diagnostics).toEqual([
+        'Malformed annotation "See @gql."',
+      ]);
+    });
+
+    it('should reject annotations that do not apply to fields', () => {
+      expect(parseFieldAnnotations('@gql.name(Email)').diagnostics).toEqual([
+        '@gql.name is not supported on fields',
+      ]);
+    });
+  });
+
+  describe('parseModelAnnotations / parseEnumAnnotations', () => {
+    it('should parse @gql.name with identifiers and strings', () => {
+      expect(parseModelAnnotations('A user account\n@gql.name(Account)')).toEqual({
+        annotations: { name: 'Account' },
+        description: 'A user account',
+        diagnostics: [],
+      });
+      expect(parseEnumAnnotations('@gql.name("AccountRole")').annotations.name).toBe('AccountRole');
+    });
+
+    it('should parse @gql.omit and @gql.ignore on models', () => {
+      expect(parseModelAnnotations('@gql.omit').annotations).toEqual({ hidden: true });
+      expect(parseModelAnnotations('@gql.ignore').annotations).toEqual({ hidden: true });
+      expect(parseModelAnnotations('@HideField()').annotations).toEqual({ hidden: true });
+      expect(parseModelAnnotations('@gql.omit(output)').diagnostics).toEqual([
+        '@gql.omit(output) takes no arguments on models',
+      ]);
+    });
+
+    it('should parse @gql.plural', () => {
+      expect(parseModelAnnotations('@gql.plural(People)').annotations).toEqual({
+        plural: 'People',
+      });
+      expect(parseModelAnnotations('@gql.plural').diagnostics).toEqual([
+        '@gql.plural expects a single name, e.g. @gql.plural(People)',
+      ]);
+    });
+
+    it('should parse @gql.operations', () => {
+      expect(parseModelAnnotations('@gql.operations(findMany, count)').annotations).toEqual({
+        operations: ['findMany', 'count'],
+      });
+      expect(parseModelAnnotations('@gql.operations()').annotations.operations).toEqual([]);
+      expect(parseModelAnnotations('@gql.operations(findMany, remove)').diagnostics).toEqual([
+        'Unknown operation "remove" in @gql.operations(findMany, remove); expected one of findMany, findFirst, findUnique, create, createMany, update, updateMany, upsert, delete, deleteMany, aggregate, groupBy, count',
+      ]);
+      expect(parseModelAnnotations('@gql.operations').diagnostics).toEqual([
+        '@gql.operations expects a list of operations, e.g. @gql.operations(findMany, findUnique)',
+      ]);
+    });
+
+    it('should parse @gql.subscriptions', () => {
+      expect(parseModelAnnotations('@gql.subscriptions').annotations).toEqual({
+        subscriptions: true,
+      });
+      expect(parseModelAnnotations('@gql.subscriptions(created)').diagnostics).toEqual([
+        '@gql.subscriptions(created) does not take arguments',
+      ]);
+    });
+
+    it('should parse @gql.softDelete', () => {
+      expect(parseModelAnnotations('@gql.softDelete').annotations).toEqual({
+        softDelete: { field: 'deletedAt', restore: false, withDeleted: false },
+      });
+      expect(
+        parseModelAnnotations('@gql.softDelete(field: removedAt, restore, withDeleted)')
+          .annotations,
+      ).toEqual({ softDelete: { field: 'removedAt', restore: true, withDeleted: true } });
+      expect(parseModelAnnotations('@gql.softDelete(purge)').diagnostics).toEqual([
+        'Invalid argument in @gql.softDelete(purge); expected field: <name>, restore or withDeleted',
+      ]);
+    });
+
+    it('should reject invalid names', () => {
+      expect(parseModelAnnotations('@gql.name("my-type")').diagnostics).toEqual([
+        '"my-type" in @gql.name("my-type") is not a valid GraphQL name',
+      ]);
+      expect(parseModelAnnotations('@gql.name(A, B)').diagnostics).toEqual([
+        '@gql.name(A, B) expects a single name, e.g. @gql.name(Account)',
+      ]);
+      expect(parseModelAnnotations('@gql.readonly').diagnostics).toEqual([
+        '@gql.readonly is not supported on models',
+      ]);
+    });
+  });
+
+  describe('generation', () => {
+    const config: GeneratorConfig = {
+      outputDirs: {
+        models: 'models',
+        inputs: 'inputs',
+        args: 'args',
+        enums: 'enums',
+        resolvers: 'resolvers',
+      },
+      groupByModel: true,
+      generateResolvers: true,
+      useValidation: false,
+      prismaClientPath: '@prisma/client',
+      emitCompiled: false,
+    };
+
+    const createDMMF = (
+      modelDocumentation: string | undefined,
+      fieldDocumentation: string | undefined,
+    ): DMMF.Document => ({
+      datamodel: {
+        models: [
+          {
+            name: 'User',
+            dbName: null,
+            schema: null,
+            documentation: modelDocumentation,
+            fields: [
+              {
+                name: 'id',
+                kind: 'scalar',
+                isList: false,
+                isRequired: true,
+                isUnique: true,
+                isId: true,
+                isReadOnly: false,
+                hasDefaultValue: true,
+                type: 'Int',
+                isGenerated: false,
+                isUpdatedAt: false,
+              },
+              {
+                name: 'password',
+                kind: 'scalar',
+                isList: false,
+                isRequired: true,
+                isUnique: false,
+                isId: false,
+                isReadOnly: false,
+                hasDefaultValue: false,
+                type: 'String',
+                isGenerated: false,
+                isUpdatedAt: false,
+                documentation: fieldDocumentation,
+              },
+            ],
+            primaryKey: null,
+            uniqueFields: [],
+            uniqueIndexes: [],
+            isGenerated: false,
+          },
+        ],
+        enums: [],
+        types: [],
+        indexes: [],
+      },
+      schema: {
+        inputObjectTypes: {
+          prisma: [
+            {
+              name: 'UserWhereInput',
+              constraints: { maxNumFields: null, minNumFields: null },
+              fields: [
+                {
+                  name: 'id',
+                  isRequired: false,
+                  isNullable: false,
+                  inputTypes: [{ type: 'Int', isList: false, location: 'scalar' }],
+                },
+                {
+                  name: 'password',
+                  isRequired: false,
+                  isNullable: false,
+                  inputTypes: [{ type: 'String', isList: false, location: 'scalar' }],
+                },
+              ],
+            },
+            {
+              name: 'UserCreateInput',
+              constraints: { maxNumFields: null, minNumFields: null },
+              fields: [
+                {
+                  name: 'id',
+                  isRequired: false,
+                  isNullable: false,
+                  inputTypes: [{ type: 'Int', isList: false, location: 'scalar' }],
+                },
+                {
+                  name: 'password',
+                  isRequired: true,
+                  isNullable: false,
+                  inputTypes: [{ type: 'String', isList: false, location: 'scalar' }],
+                },
+              ],
+            },
+            {
+              name: 'UserUpdateInput',
+              constraints: { maxNumFields: null, minNumFields: null },
+              fields: [
+                {
+                  name: 'id',
+                  isRequired: false,
+                  isNullable: false,
+                  inputTypes: [{ type: 'Int', isList: false, location: 'scalar' }],
+                },
+                {
+                  name: 'password',
+                  isRequired: false,
+                  isNullable: false,
+                  inputTypes: [{ type: 'String', isList: false, location: 'scalar' }],
+                },
+              ],
+            },
+          ],
+          model: [],
+        },
+        outputObjectTypes: { prisma: [], model: [] },
+        enumTypes: { prisma: [], model: [] },
+        fieldRefTypes: { prisma: [] },
+      },
+      mappings: {
+        modelOperations: [],
+        otherOperations: { read: [], write: [] },
+      },
+    });
+
+    const extendDMMF = (
+      dmmf: DMMF.Document,
+      extra: {
+        models?: DMMF.Model[];
+        inputTypes?: DMMF.InputType[];
+        enumTypes?: DMMF.SchemaEnum[];
+      },
+    ): DMMF.Document => ({
+      ...dmmf,
+      datamodel: {
+        ...dmmf.datamodel,
+        models: [...dmmf.datamodel.models, ...(extra.models ?? [])],
+      },
+      schema: {
+        ...dmmf.schema,
+        inputObjectTypes: {
+          ...dmmf.schema.inputObjectTypes,
+          prisma: [...(dmmf.schema.inputObjectTypes.prisma ?? []), ...(extra.inputTypes ?? [])],
+        },
+        enumTypes: { ...dmmf.schema.enumTypes, prisma: extra.enumTypes ?? [] },
+      },
+    });
+
+    it('should apply @gql.name and keep annotations out of descriptions', async () => {
+      const dmmf = createDMMF(
+        'A registered account\n@gql.name(Account)',
+        'Hashed password\n@gql.omit(output)',
+      );
+      const files = await generateCode(new DMMFDocument(dmmf, config), config);
+      const model = files.find(f => f.path === 'models/User/model.ts')!.content;
+
+      expect(model).toContain("@ObjectType('Account', { description: 'A registered account' })");
+      expect(model).toContain('export class User {');
+      expect(model).toContain('  @HideField()\n  password!: string;');
+      expect(model).not.toContain('@gql.');
+    });
+
+    it('should throw an AnnotationError with schema locations', async () => {
+      const dmmf = createDMMF('@gql.label(People)', '@gql.omit(input: [create], secret)');
+
+      await expect(generateCode(new DMMFDocument(dmmf, config), config)).rejects.toThrow(
+        AnnotationError,
+      );
+      await expect(generateCode(new DMMFDocument(dmmf, config), config)).rejects.toThrow(
+        [
+          'Invalid schema annotations:',
+          '  - model User: Unknown annotation @gql.label; expected one of @gql.omit, @gql.readonly, @gql.name, @gql.plural, @gql.operations, @gql.ignore, @gql.subscriptions, @gql.softDelete, @gql.createdBy, @gql.updatedBy',
+          '  - model User, field password: Invalid argument in @gql.omit(input: [create], secret); expected input, output, input: [create, update, where, orderBy] or output: true|false',
+        ].join('\n'),
+      );
+    });
+
+    const getInputFields = (content: string, className: string) =>
+      content
+        .split(`export class ${className} {`)[1]!
+        .split('\n}')[0]!
+        .match(/^  \w+/gm)!
+        .map(name => name.trim());
+
+    it('should omit fields from the selected input kinds', async () => {
+      const dmmf = createDMMF(undefined, '@gql.omit(input: [create])');
+      const files = await generateCode(new DMMFDocument(dmmf, config), config);
+      const inputs = files.find(f => f.path === 'models/User/inputs.ts')!.content;
+
+      expect(getInputFields(inputs, 'UserCreateInput')).toEqual(['id']);
+      expect(getInputFields(inputs, 'UserUpdateInput')).toEqual(['id', 'password']);
+      expect(getInputFields(inputs, 'UserWhereInput')).toEqual(['id', 'password']);
+    });
+
+    it('should keep hidden fields out of filters, ordering and field enums', async () => {
+      const dmmf = extendDMMF(createDMMF(undefined, '@gql.omit(output)'), {
+        inputTypes: [
+          {
+            name: 'UserOrderByWithRelationInput',
+            constraints: { maxNumFields: null, minNumFields: null },
+            fields: ['id', 'password'].map(name => ({
+              name,
+              isRequired: false,
+              isNullable: false,
+              inputTypes: [{ type: 'SortOrder', isList: false, location: 'enumTypes' as const }],
+            })),
+          },
+        ],
+        enumTypes: [
+          { name: 'SortOrder', values: ['asc', 'desc'] },
+          { name: 'UserScalarFieldEnum', values: ['id', 'password'] },
+        ],
+      });
+      const doc = new DMMFDocument(dmmf, config);
+      const fieldNames = (name: string) => doc.inputTypes.get(name)!.fields.map(f => f.name);
+
+      expect(fieldNames('UserWhereInput')).toEqual(['id']);
+      expect(fieldNames('UserOrderByWithRelationInput')).toEqual(['id']);
+      expect(fieldNames('UserCreateInput')).toEqual(['id', 'password']);
+      expect(doc.getEnum('UserScalarFieldEnum')!.values.map(v => v.name)).toEqual(['id']);
+
+      const files = await generateCode(doc, config);
+      const aggregations = files.find(f => f.path === 'models/User/aggregations.ts')!.content;
+      expect(aggregations).toContain('export class UserCountAggregate {');
+      expect(aggregations).not.toContain('password');
+    });
+
+    // Adds a Post model whose required author relation points at User
+    const withPost = (base: DMMF.Document): DMMF.Document => {
+      const emptyConstraints = { maxNumFields: null, minNumFields: null };
+      return extendDMMF(base, {
+        models: [
+          {
+            ...base.datamodel.models[0]!,
+            name: 'Post',
+            documentation: undefined,
+            fields: [
+              base.datamodel.models[0]!.fields[0]!,
+              {
+                name: 'author',
+                kind: 'object',
+                isList: false,
+                isRequired: true,
+                isUnique: false,
+                isId: false,
+                isReadOnly: false,
+                hasDefaultValue: false,
+                type: 'User',
+                relationName: 'PostToUser',
+                isGenerated: false,
+                isUpdatedAt: false,
+              },
+            ],
+          },
+        ],
+        inputTypes: [
+          {
+            name: 'PostWhereInput',
+            constraints: emptyConstraints,
+            fields: [
+              {
+                name: 'id',
+                isRequired: false,
+                isNullable: false,
+                inputTypes: [{ type: 'Int', isList: false, location: 'scalar' }],
+              },
+              {
+                name: 'author',
+                isRequired: false,
+                isNullable: false,
+                inputTypes: [
+                  { type: 'UserScalarRelationFilter', isList: false, location: 'inputObjectTypes' },
+                  { type: 'UserWhereInput', isList: false, location: 'inputObjectTypes' },
+                ],
+              },
+            ],
+          },
+          {
+            name: 'PostCreateInput',
+            constraints: emptyConstraints,
+            fields: [
+              {
+                name: 'author',
+                isRequired: true,
+                isNullable: false,
+                inputTypes: [
+                  {
+                    type: 'UserCreateNestedOneWithoutPostsInput',
+                    isList: false,
+                    location: 'inputObjectTypes',
+                  },
+                ],
+              },
+            ],
+          },
+          {
+            name: 'UserCreateNestedOneWithoutPostsInput',
+            constraints: emptyConstraints,
+            fields: [
+              {
+                name: 'connect',
+                isRequired: false,
+                isNullable: false,
+                inputTypes: [
+                  { type: 'UserWhereUniqueInput', isList: false, location: 'inputObjectTypes' },
+                ],
+              },
+            ],
+          },
+        ],
+      });
+    };
+
+    it('should leave models annotated with @gql.omit out of the API', () => {
+      const doc = new DMMFDocument(withPost(createDMMF('@gql.omit', undefined)), config);
+
+      expect(doc.hiddenModelNames).toEqual(new Set(['User']));
+      expect(doc.models.map(m => m.name)).toEqual(['Post']);
+      expect(doc.getModel('Post')!.fields.map(f => f.name)).toEqual(['id']);
+      expect([...doc.inputTypes.keys()]).toEqual(['PostWhereInput']);
+      expect(doc.inputTypes.get('PostWhereInput')!.fields.map(f => f.name)).toEqual(['id']);
+    });
+
+    it('should leave models excluded by includeModels/excludeModels out and warn', () => {
+      const dmmf = withPost(createDMMF(undefined, undefined));
+
+      const excluded = new DMMFDocument(dmmf, { ...config, excludeModels: ['Us?r', 'Audit*'] });
+      expect(excluded.models.map(m => m.name)).toEqual(['Post']);
+      expect([...excluded.inputTypes.keys()]).toEqual(['PostWhereInput']);
+      expect(excluded.warnings).toEqual([
+        'excludeModels pattern "Audit*" does not match any model',
+        'Relation Post.author points at excluded model User and was dropped',
+      ]);
+
+      const included = new DMMFDocument(dmmf, { ...config, includeModels: ['P*'] });
+      expect(included.hiddenModelNames).toEqual(new Set(['User']));
+
+      const ignored = new DMMFDocument(withPost(createDMMF('@gql.ignore', undefined)), config);
+      expect(ignored.hiddenModelNames).toEqual(new Set(['User']));
+      expect(new DMMFDocument(dmmf, config).warnings).toEqual([]);
+    });
+
+    it('should apply config file model settings beneath schema annotations', async () => {
+      const modelConfig: GeneratorConfig = {
+        ...config,
+        models: {
+          User: {
+            name: 'Member',
+            plural: 'members',
+            hiddenFields: ['password'],
+            scalars: { id: { name: 'GraphQLPositiveInt', from: 'graphql-scalars' } },
+          },
+          Ghost: { hidden: true },
+        },
+      };
+      const doc = new DMMFDocument(createDMMF('@gql.name(Account)', undefined), modelConfig);
+      const user = doc.getModel('User')!;
+
+      expect(user.annotations.name).toBe('Account');
+      expect(user.annotations.plural).toBe('members');
+      expect(user.fields.find(f => f.name === 'password')!.annotations.omitOutput).toBe(true);
+      expect(doc.warnings).toEqual(['Config file settings for model Ghost do not match any model']);
+
+      const files = await generateCode(doc, modelConfig);
+      const model = files.find(f => f.path === 'models/User/model.ts')!.content;
+      expect(model).toContain(`import { GraphQLPositiveInt } from 'graphql-scalars';`);
+      expect(model).toContain('@Field(() => GraphQLPositiveInt)\n  id!: number;');
+      expect(model).toContain('@HideField()\n  password!: string;');
+    });
+
+    it('should generate subscriptions published by the mutations of @gql.subscriptions models', async () => {
+      const dmmf = createDMMF('@gql.subscriptions', undefined);
+      const files = await generateCode(new DMMFDocument(dmmf, config), config);
+      const content = (path: string) => files.find(f => f.path === path)?.content;
+
+      const subscriptions = content('models/User/subscriptions.ts')!;
+      expect(subscriptions).toContain('export class UserSubscriptionsResolver {');
+      expect(subscriptions).toContain(
+        'constructor(@Inject(PUB_SUB) private readonly pubSub: GraphQLPubSub) {}',
+      );
+      expect(subscriptions).toContain('matchesWhere(payload, variables.where)');
+      expect(subscriptions).toContain(
+        'return ctx.prisma.user.findFirst({ where: { id: payload.id }, ...select } as any);',
+      );
+      expect(subscriptions).toContain(
+        "return this.pubSub.asyncIterableIterator<User>('userCreated');",
+      );
+      // Only create is available, so there is nothing to report updates or deletes
+      expect(subscriptions).not.toContain('userUpdated');
+      expect(subscriptions).not.toContain('userDeleted');
+
+      const resolver = content('models/User/resolver.ts')!;
+      expect(resolver).toContain(
+        "const select = includeScalars(transformInfoIntoPrismaArgs(info, 'User'));",
+      );
+      expect(resolver).toContain(
+        "const record = await ctx.prisma.user.create({ ...args, ...select } as any);\n    await this.pubSub.publish('userCreated', record);\n    return record;",
+      );
+      expect(content('helpers.ts')).toContain('export function matchesWhere(');
+      expect(content('module.ts')).toContain('UserSubscriptionsResolver],');
+
+      const flat = await generateCode(new DMMFDocument(dmmf, config), {
+        ...config,
+        groupByModel: false,
+      });
+      expect(flat.map(f => f.path)).toContain('resolvers/UserSubscriptionsResolver.ts');
+      expect(flat.find(f => f.path === 'resolvers/index.ts')!.content).toContain(
+        'export * from "./UserSubscriptionsResolver";',
+      );
+    });
+
+    it('should not generate subscriptions without @gql.subscriptions', async () => {
+      const files = await generateCode(
+        new DMMFDocument(createDMMF(undefined, undefined), config),
+        config,
+      );
+
+      expect(files.map(f => f.path)).not.toContain('models/User/subscriptions.ts');
+      expect(files.find(f => f.path === 'helpers.ts')!.content).not.toContain('PUB_SUB');
+    });
+
+    it('should emit typed events from the mutations with generateEvents', async () => {
+      const eventsConfig = { ...config, generateEvents: true };
+      const dmmf = createDMMF(undefined, undefined);
+      const files = await generateCode(new DMMFDocument(dmmf, eventsConfig), eventsConfig);
+      const content = (path: string) => files.find(f => f.path === path)?.content;
+
+      const events = content('models/User/events.ts')!;
+      expect(events).toContain('export class UserCreatedEvent {');
+      expect(events).toContain("static readonly eventName = 'user.created';");
+      expect(content('models/User/index.ts')).toContain("export * from './events';");
+      expect(content('event-emitter.ts')).toContain('export class MutationEventsModule {');
+      expect(content('index.ts')).toContain("export * from './event-emitter';");
+
+      const resolver = content('models/User/resolver.ts')!;
+      expect(resolver).toContain(
+        '@Inject(MUTATION_EVENT_EMITTER) private readonly events: MutationEventEmitter',
+      );
+      expect(resolver).toContain(
+        'const record = await ctx.prisma.user.create({ ...args, ...select } as any);\n    await this.events.emit(UserCreatedEvent.eventName, new UserCreatedEvent(null, record, ctx));\n    return record;',
+      );
+
+      const flatConfig = { ...eventsConfig, groupByModel: false };
+      const flat = await generateCode(new DMMFDocument(dmmf, flatConfig), flatConfig);
+      expect(flat.find(f => f.path === 'events/UserEvents.ts')!.content).toContain(
+        'export class UserCreatedEvent {',
+      );
+      expect(flat.find(f => f.path === 'index.ts')!.content).toContain('export * from "./events";');
+    });
+
+    it('should scope the resolvers to the tenant of the request with tenantField', async () => {
+      const tenancyConfig = { ...config, tenantField: 'tenantId', contextTenantKey: 'req.tenant' };
+      const dmmf = JSON.parse(
+        JSON.stringify(createDMMF(undefined, undefined)).replace(/password/g, 'tenantId'),
+      );
+      const files = await generateCode(new DMMFDocument(dmmf, tenancyConfig), tenancyConfig);
+      const content = (path: string) => files.find(f => f.path === path)!.content;
+
+      const resolver = content('models/User/resolver.ts');
+      expect(resolver).toContain(
+        "const scope = getTenantScope(ctx, 'tenantId', 'req.tenant');\n    args = { ...args, where: scopeWhere(args.where, scope) };\n    const select = transformInfoIntoPrismaArgs(info, 'User', { relationScope: scope });\n    return ctx.prisma.user.findMany(",
+      );
+      expect(resolver).toContain(
+        "args = { ...args, data: withTenant(args.data, 'User', 'create', scope, TENANT_MODELS) };",
+      );
+      expect(content('helpers.ts')).toContain('export function getTenantScope(');
+      expect(content('helpers.ts')).toContain(
+        'export const TENANT_MODELS: Record<string, TenantModel> = {\n  "User": {\n    "field": "tenantId"\n  }\n};',
+      );
+
+      const flatConfig = { ...tenancyConfig, groupByModel: false };
+      const flat = await generateCode(new DMMFDocument(dmmf, flatConfig), flatConfig);
+      const createInput = flat.find(f => f.path === 'inputs/UserCreateInput.ts')!.content;
+      expect(createInput).not.toContain('tenantId');
+      expect(new DMMFDocument(dmmf, { ...config, tenantField: 'orgId' }).warnings).toEqual([
+        'tenantField "orgId" is not a scalar field of any model',
+      ]);
+    });
+
+    it('should set the field of @gql.softDelete models instead of deleting them', async () => {
+      const dmmf = extendDMMF(
+        JSON.parse(
+          JSON.stringify(createDMMF('@gql.softDelete(restore, withDeleted)', undefined))
+            .replace(/password/g, 'deletedAt')
+            .replace(/"type":"String"/g, '"type":"DateTime"')
+            .replace('"isRequired":true,"isUnique":false', '"isRequired":false,"isUnique":false'),
+        ),
+        {
+          inputTypes: [
+            {
+              name: 'UserWhereUniqueInput',
+              constraints: { maxNumFields: null, minNumFields: null },
+              fields: [
+                {
+                  name: 'id',
+                  isRequired: false,
+                  isNullable: false,
+                  inputTypes: [{ type: 'Int', isList: false, location: 'scalar' }],
+                },
+              ],
+            },
+          ],
+        },
+      );
+      const files = await generateCode(new DMMFDocument(dmmf, config), config);
+      const content = (path: string) => files.find(f => f.path === path)!.content;
+
+      const resolver = content('models/User/resolver.ts');
+      expect(resolver).toContain(
+        "args = excludeDeleted(args, 'deletedAt');\n    const select = transformInfoIntoPrismaArgs(info, 'User');\n    return ctx.prisma.user.findMany(",
+      );
+      expect(resolver).toContain(
+        'return ctx.prisma.user.update({ ...args, data: { deletedAt: new Date() }, ...select } as any);',
+      );
+      expect(resolver).toContain('async restoreOneUser(');
+      expect(resolver).toContain(
+        'return ctx.prisma.user.update({ where: { ...args.where, deletedAt: { not: null } }, data: { deletedAt: null }, ...select } as any);',
+      );
+      expect(content('models/User/args.ts')).toContain('withDeleted?: boolean;');
+      expect(getInputFields(content('models/User/inputs.ts'), 'UserCreateInput')).toEqual(['id']);
+
+      // The restore runs through the hooks and events of an update
+      const hookedConfig = { ...config, baseResolvers: true, generateEvents: true };
+      const hooked = await generateCode(new DMMFDocument(dmmf, hookedConfig), hookedConfig);
+      const hookedResolver = hooked.find(f => f.path === 'models/User/resolver.ts')!.content;
+      expect(hookedResolver).toContain(
+        'protected async afterRestore(result: User | null, ctx: GraphQLContext<PrismaClient>): Promise<User | null> {',
+      );
+      expect(hookedResolver).toContain(
+        "args = await this.transformArgs('restore', args, ctx);\n      await this.beforeRestore(args, ctx);",
+      );
+      expect(hookedResolver).toContain(
+        'const before = await ctx.prisma.user.findUnique({ where: args.where } as any);\n      const result = await ctx.prisma.user.update({ where: { ...args.where, deletedAt: { not: null } }',
+      );
+      expect(hookedResolver).toContain(
+        'await this.events.emit(UserUpdatedEvent.eventName, new UserUpdatedEvent(before, record, ctx));',
+      );
+      expect(content('helpers.ts')).toContain(
+        "export const DELETED_FIELDS: Record<string, string> = { User: 'deletedAt' };",
+      );
+
+      const invalid = createDMMF('@gql.softDelete(field: password)', undefined);
+      await expect(generateCode(new DMMFDocument(invalid, config), config)).rejects.toThrow(
+        'Soft delete field "password" must be a nullable DateTime field',
+      );
+    });
+
+    it('should fill the audit fields of mutations from the user on the context', async () => {
+      const auditConfig = { ...config, contextUserKey: 'req.user.id' };
+      const dmmf = createDMMF(undefined, '@gql.createdBy');
+      const files = await generateCode(new DMMFDocument(dmmf, auditConfig), auditConfig);
+      const content = (path: string) => files.find(f => f.path === path)!.content;
+
+      expect(content('models/User/resolver.ts')).toContain(
+        "const user = () => getAuditUser(ctx, 'req.user.id');\n    args = { ...args, data: withAuditFields(args.data, 'User', 'create', user, AUDIT_MODELS) };\n    const select = transformInfoIntoPrismaArgs(info, 'User');\n    return ctx.prisma.user.create(",
+      );
+      expect(getInputFields(content('models/User/inputs.ts'), 'UserCreateInput')).toEqual(['id']);
+      expect(content('helpers.ts')).toContain('export function withAuditFields<T>(');
+      expect(content('helpers.ts')).toContain('const user = readContextPath(ctx, path);');
+
+      const namedConfig = { ...config, groupByModel: false, createdByField: 'password' };
+      const named = await generateCode(
+        new DMMFDocument(createDMMF(undefined, undefined), namedConfig),
+        namedConfig,
+      );
+      expect(named.find(f => f.path === 'inputs/UserCreateInput.ts')!.content).not.toContain(
+        'password',
+      );
+      expect(named.find(f => f.path === 'resolvers/UserResolver.ts')!.content).toContain(
+        "const user = () => getAuditUser(ctx, 'user.id');",
+      );
+      expect(new DMMFDocument(dmmf, { ...config, updatedByField: 'updatedById' }).warnings).toEqual(
+        ['updatedByField "updatedById" is not a scalar field of any model'],
+      );
+    });
+
+    it('should omit @gql.readonly fields from create and update inputs in flat mode', async () => {
+      const flatConfig = { ...config, groupByModel: false };
+      const dmmf = createDMMF(undefined, '@gql.readonly');
+      const files = await generateCode(new DMMFDocument(dmmf, flatConfig), flatConfig);
+      const content = (name: string) => files.find(f => f.path === `inputs/${name}.ts`)!.content;
+
+      expect(content('UserCreateInput')).not.toContain('password');
+      expect(content('UserUpdateInput')).not.toContain('password');
+      expect(content('UserWhereInput')).toContain('password');
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import type { Model } from '../../src/generator/dmmf/types';
+import {
+  getAuditHelpers,
+  getAuditModels,
+  getAuditStatements,
+  getAuditWarnings,
+  getModelAudit,
+} from '../../src/generator/audit';
+import { applyAuditInverseRelations } from '../../src/generator/dmmf/annotations';
+import { getSoftDeleteCall } from '../../src/generator/soft-delete';
+import { model } from '../fixtures/models';
+
+// Audit fields and their relations as applyAuditFields leaves them: read-only
+const POST = model('Post', [
+  { name: 'id', kind: 'scalar' },
+  { name: 'createdById', kind: 'scalar', annotations: { audit: 'createdBy' } },
+  { name: 'updatedById', kind: 'scalar', annotations: { audit: 'updatedBy' } },
+  {
+    name: 'createdBy',
+    kind: 'object',
+    type: 'User',
+    relationName: 'PostCreatedBy',
+    relationFromFields: ['createdById'],
+    relationToFields: ['id'],
+    annotations: { readonly: true },
+  },
+  { name: 'blog', kind: 'object', type: 'Blog', relationName: 'BlogPosts' },
+]);
+const BLOG = model('Blog', [
+  { name: 'id', kind: 'scalar' },
+  { name: 'posts', kind: 'object', type: 'Post', relationName: 'BlogPosts' },
+]);
+// The relation back from an audit relation, as applyAuditInverseRelations leaves it: read-only
+const USER = model('User', [
+  { name: 'id', kind: 'scalar' },
+  {
+    name: 'posts',
+    kind: 'object',
+    type: 'Post',
+    relationName: 'PostCreatedBy',
+    annotations: { readonly: true },
+  },
+]);
+const COUNTRY = model('Country', [{ name: 'code', kind: 'scalar' }]);
+const MODELS = [POST, BLOG, USER, COUNTRY];
+
+describe('getModelAudit', () => {
+  it('should set the audit fields of models that have some', () => {
+    expect(getModelAudit(POST, MODELS, { contextUserKey: 'req.user.id' })).toEqual({
+      model: 'Post',
+      createdBy: 'createdById',
+      updatedBy: 'updatedById',
+      relations: true,
+      contextPath: 'req.user.id',
+    });
+  });
+
+  it('should only set those of the nested writes of models leading to one', () => {
+    expect(getModelAudit(BLOG, MODELS, {})).toEqual({
+      model: 'Blog',
+      relations: true,
+      contextPath: 'user.id',
+    });
+    expect(getModelAudit(COUNTRY, MODELS, {})).toBeUndefined();
+  });
+});
+
+describe('getAuditStatements', () => {
+  const audit = getModelAudit(POST, MODELS, {});
+
+  it('should set the audit fields of the written records', () => {
+    expect(getAuditStatements('upsert', audit)).toEqual([
+      "const user = () => getAuditUser(ctx, 'user.id');",
+      "args = { ...args, create: withAuditFields(args.create, 'Post', 'create', user, AUDIT_MODELS), update: withAuditFields(args.update, 'Post', 'update', user, AUDIT_MODELS) };",
+    ]);
+    expect(getAuditStatements('findMany', audit)).toEqual([]);
+  });
+
+  it('should set the foreign keys of bulk writes', () => {
+    expect(getAuditStatements('updateMany', audit)).toEqual([
+      "const user = () => getAuditUser(ctx, 'user.id');",
+      "args = { ...args, data: withAuditFields(args.data, 'Post', 'update', user, AUDIT_MODELS, true) };",
+    ]);
+  });
+
+  it('should leave the bulk writes of models without audit fields alone', () => {
+    const related = getModelAudit(BLOG, MODELS, {});
+
+    expect(getAuditStatements('createMany', related)).toEqual([]);
+    expect(getAuditHelpers(['createMany', 'update'], related)).toEqual([
+      'getAuditUser',
+      'withAuditFields',
+      'AUDIT_MODELS',
+    ]);
+    expect(getAuditHelpers(['create'], undefined)).toEqual([]);
+  });
+});
+
+describe('soft deletes', () => {
+  const audit = getModelAudit(POST, MODELS, {});
+  const softDelete = {
+    records: { field: 'deletedAt', restore: true, withDeleted: false },
+    relations: false,
+  };
+
+  it('should set the updatedBy field along the soft delete field', () => {
+    expect(getAuditStatements('delete', audit, softDelete)).toEqual([
+      "const user = () => getAuditUser(ctx, 'user.id');",
+    ]);
+    expect(getSoftDeleteCall('deleteMany', softDelete, audit).data).toBe(
+      "withAuditFields({ deletedAt: new Date() }, 'Post', 'update', user, AUDIT_MODELS, true)",
+    );
+    expect(getSoftDeleteCall('restore', softDelete, audit).data).toBe(
+      "withAuditFields({ deletedAt: null }, 'Post', 'update', user, AUDIT_MODELS, true)",
+    );
+  });
+
+  it('should leave them alone on models without an updatedBy field', () => {
+    const related = getModelAudit(BLOG, MODELS, {});
+
+    expect(getAuditStatements('restore', related, softDelete)).toEqual([]);
+    expect(getSoftDeleteCall('delete', softDelete, related).data).toBe('{ deletedAt: new Date() }');
+  });
+});
+
+describe('getAuditModels', () => {
+  it('should list the audit fields and the relations leading to them', () => {
+    expect(getAuditModels(MODELS)).toEqual({
+      Post: {
+        createdBy: { field: 'createdById', relation: { name: 'createdBy', references: 'id' } },
+        updatedBy: { field: 'updatedById' },
+        relations: { blog: { model: 'Blog' } },
+      },
+      Blog: { relations: { posts: { model: 'Post' } } },
+    });
+  });
+});
+
+describe('applyAuditInverseRelations', () => {
+  it('should make the relations back from audit relations read-only', () => {
+    const user = model('User', [
+      { name: 'id', kind: 'scalar' },
+      { name: 'posts', kind: 'object', type: 'Post', relationName: 'PostCreatedBy' },
+    ]);
+    const [, blog, applied] = applyAuditInverseRelations([POST, BLOG, user]) as [
+      Model,
+      Model,
+      Model,
+    ];
+
+    expect(applied.fields.find(f => f.name === 'posts')!.annotations.readonly).toBe(true);
+    expect(blog.fields.find(f => f.name === 'posts')!.annotations.readonly).toBe(false);
+    expect(getModelAudit(applied, [POST, BLOG, applied], {})).toBeUndefined();
+  });
+});
+
+describe('getAuditWarnings', () => {
+  it('should warn about audit fields no model has', () => {
+    expect(getAuditWarnings(MODELS, { createdByField: 'authorId' })).toEqual([
+      'createdByField "authorId" is not a scalar field of any model',
+    ]);
+    expect(getAuditWarnings(MODELS, { updatedByField: 'updatedById' })).toEqual([]);
+  });
+});
@@ -0,0 +1,81 @@
+import type { GeneratedFile } from '../../src/generator/dmmf/types';
+import { applyBarrels } from '../../src/generator/barrels';
+
+const FILES: GeneratedFile[] = [
+  { path: 'index.ts', content: "export * from './models';\nexport * from './helpers';\n" },
+  { path: 'helpers.ts', content: 'export const helper = 1;\n' },
+  { path: 'models/index.ts', content: "export * from './User';\nexport * from './Post';\n" },
+  {
+    path: 'models/User/index.ts',
+    content: "export * from './model';\nexport * from './resolver';\n",
+  },
+  { path: 'models/User/model.ts', content: '@ObjectType()\nexport class User {}\n' },
+  {
+    path: 'models/User/resolver.ts',
+    content: '@Resolver(() => User)\n@UseGuards(AuthGuard)\nexport class UserResolver {}\n',
+  },
+  {
+    path: 'models/Post/resolver.ts',
+    content: [
+      '@Resolver(() => Post)',
+      'export class PostResolver {}',
+      '',
+      '@Resolver()',
+      'export class PostAggregateResolver {}',
+      '',
+    ].join('\n'),
+  },
+  { path: 'schema.graphql', content: 'type Query { ok: Boolean }\n' },
+];
+
+describe('applyBarrels', () => {
+  it('should keep every barrel by default', () => {
+    expect(applyBarrels(FILES, {})).toBe(FILES);
+    expect(applyBarrels(FILES, { barrels: 'all' })).toBe(FILES);
+  });
+
+  it('should drop barrels and list the resolvers for none', () => {
+    const files = applyBarrels(FILES, { barrels: 'none' });
+
+    expect(files.map(f => f.path)).toEqual([
+      'helpers.ts',
+      'models/User/model.ts',
+      'models/User/resolver.ts',
+      'models/Post/resolver.ts',
+      'schema.graphql',
+      'resolvers.ts',
+    ]);
+    expect(files.find(f => f.path === 'resolvers.ts')!.content).toBe(
+      [
+        "import { PostResolver, PostAggregateResolver } from './models/Post/resolver';",
+        "import { UserResolver } from './models/User/resolver';",
+        '',
+        '/**',
+        ' * Every generated resolver class, for the `providers` of a Nest module',
+        ' */',
+        'export const resolvers = [',
+        '  PostResolver,',
+        '  PostAggregateResolver,',
+        '  UserResolver,',
+        '];',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('should re-export every module from the root index for root', () => {
+    const files = applyBarrels(FILES, { barrels: 'root' });
+
+    expect(files.filter(f => f.path.endsWith('index.ts')).map(f => f.path)).toEqual(['index.ts']);
+    expect(files.find(f => f.path === 'index.ts')!.content).toBe(
+      [
+        "export * from './helpers';",
+        "export * from './models/User/model';",
+        "export * from './models/User/resolver';",
+        "export * from './models/Post/resolver';",
+        "export * from './resolvers';",
+        '',
+      ].join('\n'),
+    );
+  });
+});
@@ -0,0 +1,60 @@
+import { getHookMethods, wrapWithHooks } from '../../src/generator/base-resolver';
+
+describe('getHookMethods', () => {
+  it('should add shared hooks and a before and after hook per operation', () => {
+    const hooks = getHookMethods(
+      [{ operation: 'findMany', argsType: 'FindManyUserArgs', resultType: 'User[]' }],
+      'AppContext',
+    );
+
+    expect(hooks.map(hook => hook.name)).toEqual([
+      'transformArgs',
+      'onError',
+      'beforeFindMany',
+      'afterFindMany',
+    ]);
+    expect(hooks[0]).toMatchObject({
+      typeParameters: ['T'],
+      returnType: 'Promise<T>',
+      statements: ['return args;'],
+    });
+    expect(hooks[1]!.statements).toEqual(['throw error;']);
+    expect(hooks[2]).toMatchObject({
+      parameters: [
+        { name: 'args', type: 'FindManyUserArgs' },
+        { name: 'ctx', type: 'AppContext' },
+      ],
+      returnType: 'Promise<void>',
+      statements: [],
+    });
+    expect(hooks[3]).toMatchObject({
+      parameters: [
+        { name: 'result', type: 'User[]' },
+        { name: 'ctx', type: 'AppContext' },
+      ],
+      returnType: 'Promise<User[]>',
+      statements: ['return result;'],
+    });
+  });
+});
+
+describe('wrapWithHooks', () => {
+  it('should run the body between the hooks and hand errors to onError', () => {
+    expect(
+      wrapWithHooks('create', [
+        'const select = transformInfoIntoPrismaArgs(info);',
+        'return ctx.prisma.user.create({ ...args, ...select } as any);',
+      ]),
+    ).toEqual([
+      'try {',
+      "  args = await this.transformArgs('create', args, ctx);",
+      '  await this.beforeCreate(args, ctx);',
+      '  const select = transformInfoIntoPrismaArgs(info);',
+      '  const result = await ctx.prisma.user.create({ ...args, ...select } as any);',
+      '  return await this.afterCreate(result, ctx);',
+      '} catch (error) {',
+      "  return this.onError('create', error, ctx);",
+      '}',
+    ]);
+  });
+});
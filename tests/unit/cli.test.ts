@@ -0,0 +1,185 @@
+import { parseCliArgs, runGenerate, watchSchema } from '../../src/cli/cli';
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+const SCHEMA = `
+datasource db {
+  provider = "postgresql"
+}
+
+generator nestjsGraphql {
+  provider     = "nestjs-prisma-graphql-generator"
+  output       = "./generated"
+  groupByModel = "true"
+}
+
+model User {
+  id    Int    @id @default(autoincrement())
+  email String @unique
+  posts Post[]
+}
+
+model Post {
+  id       Int  @id @default(autoincrement())
+  authorId Int
+  author   User @relation(fields: [authorId], references: [id])
+}
+`;
+
+describe('CLI', () => {
+  describe('parseCliArgs', () => {
+    it('should default to generating from prisma/schema.prisma', () => {
+      expect(parseCliArgs([])).toEqual({
+        command: 'generate',
+        schema: path.join('prisma', 'schema.prisma'),
+        output: undefined,
+        generator: undefined,
+        options: {},
+        watch: false,
+        dryRun: false,
+        stats: false,
+      });
+    });
+
+    it('should parse flags and option overrides', () => {
+      const options = parseCliArgs([
+        'generate',
+        '--schema',
+        'db/schema.prisma',
+        '--option',
+        'groupByModel=true',
+        '--option',
+        'operations=findMany,create',
+        '--dry-run',
+        '--stats',
+      ]);
+
+      expect(options.schema).toBe('db/schema.prisma');
+      expect(options.options).toEqual({ groupByModel: 'true', operations: 'findMany,create' });
+      expect(options.dryRun).toBe(true);
+      expect(options.stats).toBe(true);
+    });
+
+    it('should reject unknown commands and malformed options', () => {
+      expect(() => parseCliArgs(['build'])).toThrow('Unknown command "build"');
+      expect(() => parseCliArgs(['--option', 'groupByModel'])).toThrow(
+        '--option expects key=value, got "groupByModel"',
+      );
+    });
+  });
+
+  describe('runGenerate', () => {
+    let rootDir: string;
+    let schema: string;
+
+    beforeEach(async () => {
+      rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cli-'));
+      schema = path.join(rootDir, 'schema.prisma');
+      await fs.writeFile(schema, SCHEMA);
+    });
+
+    afterEach(async () => {
+      await fs.rm(rootDir, { recursive: true, force: true });
+    });
+
+    it('should report planned changes without writing on dry runs', async () => {
+      const messages: string[] = [];
+      const stats = await runGenerate(parseCliArgs(['--schema', schema, '--dry-run']), m =>
+        messages.push(m),
+      );
+
+      expect(messages[0]).toMatch(/^🔍 Dry run for .*generated: \d+ to add, 0 to change/);
+      expect(messages).toContain('  + models/User/model.ts');
+      expect(stats.models).toBe(2);
+      expect(Object.keys(stats.timings)).toEqual(['schema', 'generate', 'plan']);
+      await expect(fs.access(path.join(rootDir, 'generated'))).rejects.toThrow();
+    });
+
+    it('should write to the generator output and apply option overrides', async () => {
+      const messages: string[] = [];
+      const options = parseCliArgs([
+        '--schema',
+        schema,
+        '--option',
+        'namingStyle=short',
+        '--stats',
+      ]);
+      const stats = await runGenerate(options, m => messages.push(m));
+
+      const resolver = await fs.readFile(
+        path.join(rootDir, 'generated/models/User/resolver.ts'),
+        'utf-8',
+      );
+      expect(resolver).toMatch(/^\/\/ Generated by nestjs-prisma-graphql-generator v/);
+      expect(resolver).toContain('async createUser(');
+      expect(stats.files).toBeGreaterThan(0);
+      expect(stats.lines).toBeGreaterThan(stats.files);
+      expect(messages).toContain(`📊 2 models, ${stats.files} files, ${stats.lines} lines`);
+
+      // A second run only reports unchanged files
+      await runGenerate({ ...options, dryRun: true }, m => messages.push(m));
+      expect(messages).toContain(
+        `🔍 Dry run for ${path.join(rootDir, 'generated')}: 0 to add, 0 to change, 0 to remove, ${stats.files} unchanged`,
+      );
+    });
+  });
+
+  describe('watchSchema', () => {
+    let rootDir: string;
+
+    beforeEach(async () => {
+      rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cli-watch-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(rootDir, { recursive: true, force: true });
+    });
+
+    it('should regenerate when the config file changes', async () => {
+      const schema = path.join(rootDir, 'schema.prisma');
+      const configFile = path.join(rootDir, 'config', 'nestjs-graphql.json');
+      await fs.mkdir(path.dirname(configFile));
+      await fs.writeFile(configFile, JSON.stringify({ operations: ['findMany'] }));
+      await fs.writeFile(
+        schema,
+        SCHEMA.replace(
+          'groupByModel = "true"',
+          'groupByModel = "true"\n  configFile   = "./config/nestjs-graphql.json"',
+        ),
+      );
+
+      const messages: string[] = [];
+      let watching: () => void = () => {};
+      const watched = (count: number) =>
+        new Promise<void>(resolve => {
+          watching = () => {
+            if (messages.filter(m => m.startsWith('👀')).length === count) resolve();
+          };
+        });
+      const firstRun = watched(1);
+      const stop = watchSchema(parseCliArgs(['--schema', schema]), m => {
+        messages.push(m);
+        watching();
+      });
+
+      try {
+        await firstRun;
+        expect(messages).toContain(`👀 Watching ${schema}, ${configFile} for changes...`);
+
+        const secondRun = watched(2);
+        await fs.writeFile(configFile, JSON.stringify({ operations: ['findMany', 'create'] }));
+        await secondRun;
+      } finally {
+        stop();
+      }
+
+      const resolver = await fs.readFile(
+        path.join(rootDir, 'generated/models/User/resolver.ts'),
+        'utf-8',
+      );
+      expect(resolver).toContain('async createOneUser(');
+    });
+  });
+});
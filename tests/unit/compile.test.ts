@@ -0,0 +1,88 @@
+import { compileGeneratedFiles } from '../../src/generator/compile';
+import path from 'path';
+
+describe('compileGeneratedFiles', () => {
+  const outputDir = path.join(__dirname, '__generated__');
+
+  it('should emit .js and .d.ts pairs with decorator metadata', () => {
+    const files = compileGeneratedFiles(
+      [
+        {
+          path: 'models/User.ts',
+          content: [
+            "import { ObjectType, Field } from '@nestjs/graphql';",
+            '',
+            '@ObjectType()',
+            'export class User {',
+            '  @Field(() => String)',
+            '  email!: string;',
+            '',
+            '  @Field(() => Date, { nullable: true })',
+            '  createdAt?: Date;',
+            '}',
+            '',
+          ].join('\n'),
+        },
+        { path: 'index.ts', content: "export * from './models/User';\n" },
+      ],
+      outputDir,
+    );
+
+    expect(files.map(f => f.path).sort()).toEqual([
+      'index.d.ts',
+      'index.js',
+      'models/User.d.ts',
+      'models/User.js',
+    ]);
+
+    const js = files.find(f => f.path === 'models/User.js')!.content;
+    expect(js).toContain('require("@nestjs/graphql")');
+    expect(js).toContain('__metadata("design:type", String)');
+    expect(js).toContain('__metadata("design:type", Date)');
+    // Decorated fields must not be emitted as class field initializers
+    expect(js).not.toMatch(/^\s+email;$/m);
+
+    const dts = files.find(f => f.path === 'models/User.d.ts')!.content;
+    expect(dts).toContain('export declare class User {');
+    expect(dts).toContain('email: string;');
+  });
+
+  it('should emit ES modules when moduleFormat is esm', () => {
+    const files = compileGeneratedFiles(
+      [
+        {
+          path: 'models/User.ts',
+          content: [
+            "import { ObjectType, Field } from '@nestjs/graphql';",
+            '',
+            '@ObjectType()',
+            'export class User {',
+            '  @Field(() => String)',
+            '  email!: string;',
+            '}',
+            '',
+          ].join('\n'),
+        },
+        { path: 'index.ts', content: "export * from './models/User.js';\n" },
+      ],
+      outputDir,
+      'esm',
+    );
+
+    const js = files.find(f => f.path === 'models/User.js')!.content;
+    expect(js).toContain("import { ObjectType, Field } from '@nestjs/graphql';");
+    expect(js).not.toContain('require(');
+    expect(files.find(f => f.path === 'index.js')!.content).toContain(
+      "export * from './models/User.js';",
+    );
+  });
+
+  it('should pass through files that are not TypeScript sources', () => {
+    const files = compileGeneratedFiles(
+      [{ path: 'schema.graphql', content: 'type Query { ok: Boolean }\n' }],
+      outputDir,
+    );
+
+    expect(files).toEqual([{ path: 'schema.graphql', content: 'type Query { ok: Boolean }\n' }]);
+  });
+});
@@ -0,0 +1,176 @@
+import { GeneratorConfigError } from '../../src/cli/options-parser';
+import { loadConfigFile, resolveGeneratorConfig } from '../../src/cli/config-file';
+import { parseCliArgs, runGenerate } from '../../src/cli/cli';
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+const SCHEMA = `
+datasource db {
+  provider = "postgresql"
+}
+
+generator nestjsGraphql {
+  provider     = "nestjs-prisma-graphql-generator"
+  output       = "./generated"
+  configFile   = "./nestjs-graphql.config.ts"
+}
+
+model User {
+  id       Int    @id @default(autoincrement())
+  email    String @unique
+  password String
+}
+`;
+
+const CONFIG = `
+import { defineConfig } from '@k0lyan/nestjs-prisma-graphql-generator';
+import type { GeneratedFile } from '@k0lyan/nestjs-prisma-graphql-generator';
+
+const written: string[] = [];
+
+export default defineConfig({
+  groupByModel: true,
+  namingStyle: 'prisma',
+  operations: ['findMany', 'findUnique', 'create'],
+  models: {
+    User: { hiddenFields: ['password'] },
+  },
+  decorators: [
+    {
+      expression: 'UseGuards(AdminGuard)',
+      imports: [
+        { name: 'UseGuards', from: '@nestjs/common' },
+        { name: 'AdminGuard', from: '../auth/admin.guard' },
+      ],
+      on: 'mutations',
+    },
+  ],
+  hooks: {
+    afterGenerate: (files: GeneratedFile[]) => [
+      ...files,
+      { path: 'README.md', content: 'Generated, do not edit\\n' },
+    ],
+    afterWrite: result => {
+      written.push(...result.added);
+      (globalThis as any).writtenFiles = written;
+    },
+  },
+});
+`;
+
+describe('Config file', () => {
+  let rootDir: string;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'config-file-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+    delete (globalThis as any).writtenFiles;
+  });
+
+  it('should load TypeScript, CommonJS and JSON config files', async () => {
+    await fs.writeFile(path.join(rootDir, 'a.ts'), CONFIG);
+    await fs.writeFile(path.join(rootDir, 'b.js'), 'module.exports = { groupByModel: true };');
+    await fs.writeFile(path.join(rootDir, 'c.json'), '{ "typePrefix": "Gql" }');
+
+    const config = await loadConfigFile(path.join(rootDir, 'a.ts'));
+    expect(config.operations).toEqual(['findMany', 'findUnique', 'create']);
+    expect(typeof config.hooks?.afterGenerate).toBe('function');
+    await expect(loadConfigFile(path.join(rootDir, 'b.js'))).resolves.toEqual({
+      groupByModel: true,
+    });
+    await expect(loadConfigFile(path.join(rootDir, 'c.json'))).resolves.toEqual({
+      typePrefix: 'Gql',
+    });
+    await expect(loadConfigFile(path.join(rootDir, 'd.ts'))).rejects.toThrow('not found');
+  });
+
+  it('should only transpile TypeScript and CommonJS config files', async () => {
+    await fs.writeFile(path.join(rootDir, 'package.json'), '{ "type": "module" }');
+    await fs.writeFile(path.join(rootDir, 'a.cts'), CONFIG);
+    await fs.writeFile(path.join(rootDir, 'b.cjs'), 'module.exports = { groupByModel: true };');
+    await fs.writeFile(path.join(rootDir, 'c.js'), 'export default { groupByModel: true };');
+    await fs.writeFile(path.join(rootDir, 'd.mjs'), 'export default { groupByModel: true };');
+
+    const config = await loadConfigFile(path.join(rootDir, 'a.cts'));
+    expect(config.operations).toEqual(['findMany', 'findUnique', 'create']);
+    await expect(loadConfigFile(path.join(rootDir, 'b.cjs'))).resolves.toEqual({
+      groupByModel: true,
+    });
+    // ES modules go through import(), which Jest only runs with --experimental-vm-modules
+    await expect(loadConfigFile(path.join(rootDir, 'c.js'))).rejects.toThrow(
+      'experimental-vm-modules',
+    );
+    await expect(loadConfigFile(path.join(rootDir, 'd.mjs'))).rejects.toThrow(
+      'experimental-vm-modules',
+    );
+  });
+
+  it('should merge the file beneath the generator block options', async () => {
+    await fs.writeFile(path.join(rootDir, 'nestjs-graphql.config.ts'), CONFIG);
+
+    const config = await resolveGeneratorConfig(
+      { configFile: './nestjs-graphql.config.ts', namingStyle: 'short' },
+      rootDir,
+    );
+    expect(config.groupByModel).toBe(true);
+    expect(config.namingStyle).toBe('short');
+    expect(config.operations).toEqual(['findMany', 'findUnique', 'create']);
+    expect(config.models).toEqual({ User: { hiddenFields: ['password'] } });
+    expect(config.configFile).toBe('./nestjs-graphql.config.ts');
+  });
+
+  it('should report invalid file options with the file name', async () => {
+    await fs.writeFile(
+      path.join(rootDir, 'config.js'),
+      `module.exports = {
+        groupByModle: true,
+        operations: ['findMany', 'remove'],
+        models: { User: { operations: ['list'], hide: ['password'] } },
+        decorators: [{ expression: 'UseGuards(AdminGuard)', on: ['mutation'] }, { on: 'class' }],
+      };`,
+    );
+
+    let error: GeneratorConfigError | undefined;
+    try {
+      await resolveGeneratorConfig({ configFile: 'config.js' }, rootDir);
+    } catch (e) {
+      error = e as GeneratorConfigError;
+    }
+    expect(error).toBeInstanceOf(GeneratorConfigError);
+    expect(error!.errors).toEqual([
+      'config.js: Unknown option "groupByModle" (did you mean "groupByModel"?)',
+      'config.js: Invalid operations value "remove"; expected one of findMany, findFirst, findUnique, create, createMany, update, updateMany, upsert, delete, deleteMany, aggregate, groupBy, count',
+      'config.js: Unknown setting "hide" for model User; expected one of operations, name, plural, hidden, subscriptions, softDelete, hiddenFields, scalars, decorators',
+      'config.js: Invalid operation "list" for model User; expected one of findMany, findFirst, findUnique, create, createMany, update, updateMany, upsert, delete, deleteMany, aggregate, groupBy, count',
+      'config.js: Invalid target "mutation" for decorator UseGuards(AdminGuard); expected one of class, queries, mutations, findMany, findFirst, findUnique, create, createMany, update, updateMany, upsert, delete, deleteMany, aggregate, groupBy, count',
+      'config.js: Every entry of decorators needs an expression, e.g. "UseGuards(AdminGuard)"',
+    ]);
+  });
+
+  it('should apply model settings and run hooks when generating', async () => {
+    const schema = path.join(rootDir, 'schema.prisma');
+    await fs.writeFile(schema, SCHEMA);
+    await fs.writeFile(path.join(rootDir, 'nestjs-graphql.config.ts'), CONFIG);
+
+    await runGenerate(parseCliArgs(['--schema', schema]), () => {});
+
+    const generated = path.join(rootDir, 'generated');
+    const model = await fs.readFile(path.join(generated, 'models/User/model.ts'), 'utf-8');
+    const resolver = await fs.readFile(path.join(generated, 'models/User/resolver.ts'), 'utf-8');
+    expect(model).toContain('@HideField()\n  password!: string;');
+    expect(resolver).toContain('async findManyUser(');
+    expect(resolver).not.toContain('deleteUser');
+    expect(resolver).toContain("import { AdminGuard } from '../../../auth/admin.guard';");
+    expect(resolver).toContain('@UseGuards(AdminGuard)\n  async createUser(');
+    expect(resolver).not.toContain('@UseGuards(AdminGuard)\n  async findManyUser(');
+    await expect(fs.readFile(path.join(generated, 'README.md'), 'utf-8')).resolves.toBe(
+      'Generated, do not edit\n',
+    );
+    expect((globalThis as any).writtenFiles).toContain('README.md');
+  });
+});
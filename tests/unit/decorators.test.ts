@@ -0,0 +1,70 @@
+import type { GeneratorConfig } from '../../src/cli/options-parser';
+import { getDecoratorImports, getResolverDecorators } from '../../src/generator/decorators';
+import { model } from '../fixtures/models';
+
+const MODEL = model('User', [], {
+  decorators: [
+    {
+      expression: "Roles('superadmin')",
+      imports: [{ name: 'Roles', from: './auth/roles' }],
+      on: ['deleteMany', 'class'],
+    },
+  ],
+});
+
+const CONFIG: GeneratorConfig = {
+  decorators: [
+    {
+      expression: 'UseGuards(AdminGuard)',
+      imports: [
+        { name: 'UseGuards', from: '@nestjs/common' },
+        { name: 'AdminGuard', from: './auth/admin.guard' },
+      ],
+      on: 'mutations',
+    },
+    { expression: 'UseInterceptors(LoggingInterceptor)', on: ['findMany', 'aggregate'] },
+  ],
+};
+
+describe('getResolverDecorators', () => {
+  it('should pick the global and model decorators for each target', () => {
+    expect(getResolverDecorators(MODEL, CONFIG, 'class')).toEqual(["Roles('superadmin')"]);
+    expect(getResolverDecorators(MODEL, CONFIG, 'findMany')).toEqual([
+      'UseInterceptors(LoggingInterceptor)',
+    ]);
+    expect(getResolverDecorators(MODEL, CONFIG, 'create')).toEqual(['UseGuards(AdminGuard)']);
+    expect(getResolverDecorators(MODEL, CONFIG, 'deleteMany')).toEqual([
+      'UseGuards(AdminGuard)',
+      "Roles('superadmin')",
+    ]);
+    expect(getResolverDecorators(MODEL, CONFIG, 'count')).toEqual([]);
+  });
+
+  it('should attach decorators without a target to the resolver class', () => {
+    const config: GeneratorConfig = { decorators: [{ expression: 'UseGuards(AuthGuard)' }] };
+    const plain = { ...MODEL, annotations: {} };
+
+    expect(getResolverDecorators(plain, config, 'class')).toEqual(['UseGuards(AuthGuard)']);
+    expect(getResolverDecorators(plain, config, 'findMany')).toEqual([]);
+  });
+});
+
+describe('getDecoratorImports', () => {
+  it('should import what the decorators of the given targets use', () => {
+    expect(
+      getDecoratorImports(
+        MODEL,
+        CONFIG,
+        ['class', 'findMany', 'create'],
+        'models/User/resolver.ts',
+      ),
+    ).toEqual([
+      { moduleSpecifier: '@nestjs/common', namedImports: ['UseGuards'] },
+      { moduleSpecifier: '../../auth/admin.guard', namedImports: ['AdminGuard'] },
+      { moduleSpecifier: '../../auth/roles', namedImports: ['Roles'] },
+    ]);
+    expect(getDecoratorImports(MODEL, CONFIG, ['count'], 'models/User/aggregations.ts')).toEqual(
+      [],
+    );
+  });
+});
@@ -0,0 +1,112 @@
+import { convertToEsm } from '../../src/generator/writers/esm';
+
+describe('convertToEsm', () => {
+  it('should add .js extensions to relative imports and exports', () => {
+    const files = convertToEsm([
+      { path: 'index.ts', content: "export * from './models';\nexport * from './helpers';\n" },
+      { path: 'helpers.ts', content: 'export const helper = 1;\n' },
+      { path: 'models/index.ts', content: "export * from './User/model';\n" },
+      {
+        path: 'models/User/model.ts',
+        content: [
+          "import { helper } from '../../helpers';",
+          "import { Role } from '../../enums';",
+          '',
+          'export const user = [helper, Role];',
+          '',
+        ].join('\n'),
+      },
+    ]);
+
+    expect(files.map(f => f.content)).toEqual([
+      "export * from './models/index.js';\nexport * from './helpers.js';\n",
+      'export const helper = 1;\n',
+      "export * from './User/model.js';\n",
+      [
+        "import { helper } from '../../helpers.js';",
+        // Not generated, so left as is
+        "import { Role } from '../../enums';",
+        '',
+        'export const user = [helper, Role];',
+        '',
+      ].join('\n'),
+    ]);
+  });
+
+  it('should import names only used as types with import type', () => {
+    const [resolver] = convertToEsm([
+      {
+        path: 'models/User/resolver.ts',
+        content: [
+          "import { Args, Context, Info, Int, Query, Resolver } from '@nestjs/graphql';",
+          "import { PrismaClient } from '@prisma/client';",
+          "import { GraphQLResolveInfo } from 'graphql';",
+          "import { GraphQLContext, transformInfoIntoPrismaArgs } from '../../helpers';",
+          "import { FindManyUserArgs } from './args';",
+          "import { User } from './model';",
+          '',
+          '@Resolver(() => User)',
+          'export class UserResolver {',
+          '  @Query(() => [User])',
+          '  async users(',
+          '    @Args() args: FindManyUserArgs,',
+          '    @Context() ctx: GraphQLContext<PrismaClient>,',
+          '    @Info() info: GraphQLResolveInfo,',
+          '  ): Promise<User[]> {',
+          '    return ctx.prisma.user.findMany(transformInfoIntoPrismaArgs(info, args));',
+          '  }',
+          '}',
+          '',
+        ].join('\n'),
+      },
+      {
+        path: 'helpers.ts',
+        content: 'export interface GraphQLContext<T> {\n  prisma: T;\n}\n',
+      },
+      { path: 'models/User/args.ts', content: 'export class FindManyUserArgs {}\n' },
+      { path: 'models/User/model.ts', content: 'export class User {}\n' },
+    ]);
+
+    expect(resolver!.content.split('\n').slice(0, 6)).toEqual([
+      "import { Args, Context, Info, type Int, Query, Resolver } from '@nestjs/graphql';",
+      "import type { PrismaClient } from '@prisma/client';",
+      "import type { GraphQLResolveInfo } from 'graphql';",
+      "import { type GraphQLContext, transformInfoIntoPrismaArgs } from '../../helpers.js';",
+      // Referenced by the design:paramtypes metadata of the decorated method
+      "import { FindManyUserArgs } from './args.js';",
+      "import { User } from './model.js';",
+    ]);
+  });
+
+  it('should keep classes in decorated property types as value imports', () => {
+    const [model] = convertToEsm([
+      {
+        path: 'models/Post/model.ts',
+        content: [
+          "import { Field, ObjectType } from '@nestjs/graphql';",
+          "import { Prisma } from '@prisma/client';",
+          "import { Role } from '../../enums';",
+          "import { Comment } from '../Comment/model';",
+          '',
+          '@ObjectType()',
+          'export class Post {',
+          '  @Field(() => Role, { nullable: true })',
+          '  role?: Role | null;',
+          '  @Field(() => String)',
+          '  price!: Prisma.Decimal;',
+          '  comments?: Comment[];',
+          '}',
+          '',
+        ].join('\n'),
+      },
+      { path: 'models/Comment/model.ts', content: 'export class Comment {}\n' },
+    ]);
+
+    expect(model!.content.split('\n').slice(0, 4)).toEqual([
+      "import { Field, ObjectType } from '@nestjs/graphql';",
+      "import { Prisma } from '@prisma/client';",
+      "import { Role } from '../../enums';",
+      "import type { Comment } from '../Comment/model.js';",
+    ]);
+  });
+});
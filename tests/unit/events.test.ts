@@ -0,0 +1,136 @@
+import type { CrudOperation } from '../../src/generator/dmmf/types';
+import type { TypedOperation } from '../../src/generator/operations';
+import {
+  emitsRecord,
+  getEmitStatements,
+  getEventContext,
+  getEventEmitterSource,
+  getExistingLookup,
+  getModelEvents,
+} from '../../src/generator/events';
+
+function typed(...operations: CrudOperation[]): TypedOperation[] {
+  return operations.map(operation => ({
+    operation,
+    argsType: `${operation.charAt(0).toUpperCase()}${operation.slice(1)}UserArgs`,
+    resultType: 'User',
+  }));
+}
+
+describe('getModelEvents', () => {
+  it('should add the events of the enabled mutations', () => {
+    const events = getModelEvents('User', 'User', typed('findMany', 'upsert', 'deleteMany'), 'Ctx');
+
+    expect(events.map(e => [e.className, e.eventName])).toEqual([
+      ['UserCreatedEvent', 'user.created'],
+      ['UserUpdatedEvent', 'user.updated'],
+      ['UserDeletedManyEvent', 'user.deletedMany'],
+    ]);
+    expect(events[1]!.properties).toEqual([
+      { name: 'before', type: 'User | null' },
+      { name: 'after', type: 'User' },
+      { name: 'ctx', type: 'Ctx' },
+    ]);
+    expect(events[2]).toMatchObject({
+      argsType: 'DeleteManyUserArgs',
+      properties: [
+        { name: 'where', type: "DeleteManyUserArgs['where']" },
+        { name: 'count', type: 'number' },
+        { name: 'ctx', type: 'Ctx' },
+      ],
+    });
+  });
+
+  it('should not add events to read-only models', () => {
+    expect(getModelEvents('User', 'User', typed('findMany', 'count'), 'Ctx')).toEqual([]);
+  });
+});
+
+describe('getEmitStatements', () => {
+  const events = getModelEvents(
+    'User',
+    'User',
+    typed('create', 'update', 'upsert', 'updateMany'),
+    'Ctx',
+  );
+
+  it('should emit a created or updated event for upserts, depending on the record read first', () => {
+    expect(getEmitStatements('upsert', events)).toEqual([
+      'if (before) {',
+      '  await this.events.emit(UserUpdatedEvent.eventName, new UserUpdatedEvent(before, record, ctx));',
+      '} else {',
+      '  await this.events.emit(UserCreatedEvent.eventName, new UserCreatedEvent(null, record, ctx));',
+      '}',
+    ]);
+  });
+
+  it('should report the filter and count of bulk operations', () => {
+    expect(getEmitStatements('updateMany', events)).toEqual([
+      'await this.events.emit(UserUpdatedManyEvent.eventName, new UserUpdatedManyEvent(args.where, args.data, record.count, ctx));',
+    ]);
+  });
+
+  it('should emit nothing for queries or without events', () => {
+    expect(getEmitStatements('findMany', events)).toEqual([]);
+    expect(getEmitStatements('create', [])).toEqual([]);
+    expect(emitsRecord('create', events)).toBe(true);
+    expect(emitsRecord('updateMany', events)).toBe(false);
+  });
+
+  it('should read the record updates change first', () => {
+    expect(getExistingLookup('update', events, 'ctx.prisma', 'user', false)).toEqual([
+      'const before = await ctx.prisma.user.findUnique({ where: args.where } as any);',
+    ]);
+    expect(getExistingLookup('upsert', events, 'this.service', 'user', true)).toEqual([
+      'const before = await this.service.findExisting(args.where);',
+    ]);
+    expect(getExistingLookup('create', events, 'ctx.prisma', 'user', false)).toEqual([]);
+  });
+});
+
+describe('getEventContext', () => {
+  it('should type the context like the resolvers', () => {
+    expect(getEventContext({}, 'models/User/events.ts')).toEqual({
+      contextType: 'GraphQLContext<PrismaClient>',
+      imports: [
+        { moduleSpecifier: '@prisma/client', namedImports: ['PrismaClient'] },
+        { moduleSpecifier: '../../helpers', namedImports: ['GraphQLContext'] },
+      ],
+    });
+    expect(
+      getEventContext(
+        { prismaSource: 'inject', contextType: 'AppContext', contextTypePath: '../context' },
+        'events/UserEvents.ts',
+      ),
+    ).toEqual({
+      contextType: 'AppContext',
+      imports: [{ moduleSpecifier: '../../context', namedImports: ['AppContext'] }],
+    });
+    expect(getEventContext({ prismaSource: 'inject' }, 'events/UserEvents.ts')).toEqual({
+      contextType: 'unknown',
+      imports: [],
+    });
+  });
+});
+
+describe('getEventEmitterSource', () => {
+  it('should default forRoot to the @nestjs/event-emitter adapter', () => {
+    const source = getEventEmitterSource('nest');
+
+    expect(source).toContain("import { EventEmitter2 } from '@nestjs/event-emitter';");
+    expect(source).toContain(
+      'static forRoot(emitter: Type<MutationEventEmitter> = NestMutationEventEmitter): DynamicModule {',
+    );
+  });
+
+  it('should leave the adapter out for custom emitters', () => {
+    const source = getEventEmitterSource('custom');
+
+    expect(source).not.toContain('@nestjs/event-emitter');
+    expect(source).not.toContain('NestMutationEventEmitter');
+    expect(source).toContain("import { DynamicModule, Module, Type } from '@nestjs/common';");
+    expect(source).toContain(
+      'static forRoot(emitter: Type<MutationEventEmitter>): DynamicModule {',
+    );
+  });
+});
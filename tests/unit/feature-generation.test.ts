@@ -0,0 +1,266 @@
+import type { DMMF } from '@prisma/generator-helper';
+import { DMMFDocument } from '../../src/generator/dmmf/document';
+import { generateCodeGrouped } from '../../src/generator/generate-grouped-fast';
+import { getDMMF } from '@prisma/internals';
+import { parseGeneratorConfig } from '../../src/cli/options-parser';
+
+const SCHEMA = `
+datasource db {
+  provider = "postgresql"
+}
+
+model Tenant {
+  id       Int       @id @default(autoincrement())
+  name     String
+  projects Project[]
+}
+
+model Project {
+  id          Int    @id @default(autoincrement())
+  name        String
+  tenantId    Int
+  tenant      Tenant @relation(fields: [tenantId], references: [id])
+  createdById Int?
+  updatedById Int?
+}
+
+/// @gql.softDelete(restore)
+model Post {
+  id        Int       @id @default(autoincrement())
+  title     String
+  deletedAt DateTime?
+}
+
+/// @gql.subscriptions
+model Comment {
+  id   Int    @id @default(autoincrement())
+  body String
+}
+`;
+
+const INJECT = {
+  prismaSource: 'inject',
+  prismaService: 'PrismaService',
+  prismaServicePath: '../prisma/prisma.service',
+};
+
+describe('Feature generation', () => {
+  let dmmf: DMMF.Document;
+
+  beforeAll(async () => {
+    dmmf = await getDMMF({ datamodel: SCHEMA });
+  });
+
+  const generate = async (options: Record<string, string> = {}) => {
+    const config = parseGeneratorConfig(options);
+    const files = await generateCodeGrouped(new DMMFDocument(dmmf, config), config);
+    return (path: string) => files.find(f => f.path === path)?.content;
+  };
+
+  it('should scope the resolvers to the tenant of the request with tenantField', async () => {
+    const file = await generate({ tenantField: 'tenantId', contextTenantKey: 'req.tenantId' });
+
+    const resolver = file('models/Project/resolver.ts')!;
+    expect(resolver).toContain(
+      "import { transformInfoIntoPrismaArgs, getTenantScope, scopeWhere, withTenant, TENANT_MODELS, GraphQLContext } from '../../helpers';",
+    );
+    expect(resolver).toContain(
+      "const scope = getTenantScope(ctx, 'tenantId', 'req.tenantId');\n    args = { ...args, where: scopeWhere(args.where, scope) };\n    const select = transformInfoIntoPrismaArgs(info, 'Project', { relationScope: scope });\n    return ctx.prisma.project.update(",
+    );
+    expect(resolver).toContain(
+      "args = { ...args, data: withTenant(args.data, 'Project', 'create', scope, TENANT_MODELS, true) };\n    const select = transformInfoIntoPrismaArgs(info, 'Project');\n    return ctx.prisma.project.createMany(",
+    );
+    expect(resolver).toContain(
+      "args = { ...args, where: scopeWhere(args.where, scope), create: withTenant(args.create, 'Project', 'create', scope, TENANT_MODELS) };",
+    );
+
+    // Tenants aren't scoped themselves, but their projects are
+    const tenantResolver = file('models/Tenant/resolver.ts')!;
+    expect(tenantResolver).not.toContain('scopeWhere');
+    expect(tenantResolver).toContain(
+      "args = { ...args, data: withTenant(args.data, 'Tenant', 'create', scope, TENANT_MODELS) };",
+    );
+
+    const inputs = file('models/Project/inputs.ts')!;
+    expect(inputs).not.toContain('tenantId!: number;');
+    expect(inputs).not.toContain('TenantCreateNestedOneWithoutProjectsInput');
+
+    const helpers = file('helpers.ts')!;
+    expect(helpers).toContain(
+      'export function getTenantScope(ctx: unknown, field: string, path: string): Record<string, unknown> {',
+    );
+    expect(helpers).toContain('export function withTenant<T>(');
+    expect(helpers).toContain(
+      'export const TENANT_MODELS: Record<string, TenantModel> = {\n  "Tenant": {\n    "relations": {\n      "projects": {\n        "model": "Project",\n        "inverse": "tenant"\n      }\n    }\n  },\n  "Project": {\n    "field": "tenantId",',
+    );
+
+    const plain = await generate();
+    expect(plain('models/Project/resolver.ts')).not.toContain('getTenantScope');
+    expect(plain('helpers.ts')).not.toContain('TENANT_MODELS');
+  });
+
+  it('should set the field of @gql.softDelete models instead of deleting them', async () => {
+    const file = await generate();
+
+    const resolver = file('models/Post/resolver.ts')!;
+    expect(resolver).toContain(
+      "args = excludeDeleted(args, 'deletedAt');\n    const select = transformInfoIntoPrismaArgs(info, 'Post');\n    return ctx.prisma.post.findMany(",
+    );
+    expect(resolver).toContain(
+      'return ctx.prisma.post.update({ ...args, data: { deletedAt: new Date() }, ...select } as any);',
+    );
+    expect(resolver).toContain(
+      'return ctx.prisma.post.updateMany({ ...args, data: { deletedAt: new Date() }, ...select } as any);',
+    );
+    expect(resolver).toContain('async restoreOnePost(');
+    expect(resolver).toContain(
+      'return ctx.prisma.post.update({ where: { ...args.where, deletedAt: { not: null } }, data: { deletedAt: null }, ...select } as any);',
+    );
+    expect(resolver).not.toContain('ctx.prisma.post.delete(');
+
+    const helpers = file('helpers.ts')!;
+    expect(helpers).toContain(
+      "export const DELETED_FIELDS: Record<string, string> = { Post: 'deletedAt' };",
+    );
+    expect(helpers).toContain('export function excludeDeleted<');
+
+    expect(file('models/Comment/resolver.ts')).toContain('ctx.prisma.comment.delete(');
+  });
+
+  it('should fill the audit fields of mutations from the user on the context', async () => {
+    const file = await generate({ createdByField: 'createdById', updatedByField: 'updatedById' });
+
+    const resolver = file('models/Project/resolver.ts')!;
+    expect(resolver).toContain(
+      "const user = () => getAuditUser(ctx, 'user.id');\n    args = { ...args, data: withAuditFields(args.data, 'Project', 'create', user, AUDIT_MODELS) };",
+    );
+    expect(resolver).toContain(
+      "args = { ...args, data: withAuditFields(args.data, 'Project', 'update', user, AUDIT_MODELS, true) };\n    const select = transformInfoIntoPrismaArgs(info, 'Project');\n    return ctx.prisma.project.updateMany(",
+    );
+    expect(resolver).toContain(
+      "args = { ...args, create: withAuditFields(args.create, 'Project', 'create', user, AUDIT_MODELS), update: withAuditFields(args.update, 'Project', 'update', user, AUDIT_MODELS) };",
+    );
+    expect(file('models/Post/resolver.ts')).not.toContain('getAuditUser');
+    expect(file('models/Project/inputs.ts')).not.toContain('createdById?: number | undefined;');
+
+    const helpers = file('helpers.ts')!;
+    expect(helpers).toContain(
+      'export function getAuditUser(ctx: unknown, path: string): unknown {',
+    );
+    expect(helpers).toContain('export function withAuditFields<T>(');
+    expect(helpers).toContain(
+      '"Project": {\n    "createdBy": {\n      "field": "createdById"\n    },\n    "updatedBy": {\n      "field": "updatedById"\n    },',
+    );
+  });
+
+  it('should emit typed events from the mutations with generateEvents', async () => {
+    const file = await generate({ generateEvents: 'true' });
+
+    const resolver = file('models/Project/resolver.ts')!;
+    expect(resolver).toContain(
+      'constructor(@Inject(MUTATION_EVENT_EMITTER) private readonly events: MutationEventEmitter) {}',
+    );
+    expect(resolver).toContain(
+      'const before = await ctx.prisma.project.findUnique({ where: args.where } as any);\n    const record = await ctx.prisma.project.update({ ...args, ...select } as any);\n    if (record) {\n      await this.events.emit(ProjectUpdatedEvent.eventName, new ProjectUpdatedEvent(before, record, ctx));\n    }',
+    );
+    expect(resolver).toContain(
+      'await this.events.emit(ProjectDeletedManyEvent.eventName, new ProjectDeletedManyEvent(args.where, record.count, ctx));',
+    );
+
+    // A restore is reported as an update
+    expect(file('models/Post/resolver.ts')).toContain(
+      'await this.events.emit(PostUpdatedEvent.eventName, new PostUpdatedEvent(before, record, ctx));',
+    );
+
+    const events = file('models/Project/events.ts')!;
+    expect(events).toContain('export class ProjectCreatedEvent {');
+    expect(events).toContain("static readonly eventName = 'project.created';");
+    expect(file('event-emitter.ts')).toContain(
+      'export class NestMutationEventEmitter implements MutationEventEmitter {',
+    );
+    expect(file('index.ts')).toContain("export * from './event-emitter';");
+
+    const custom = await generate({ generateEvents: 'true', eventEmitter: 'custom' });
+    expect(custom('event-emitter.ts')).not.toContain('EventEmitter2');
+  });
+
+  it('should publish the mutations of @gql.subscriptions models', async () => {
+    const file = await generate();
+
+    const resolver = file('models/Comment/resolver.ts')!;
+    expect(resolver).toContain(
+      'constructor(@Inject(PUB_SUB) private readonly pubSub: GraphQLPubSub) {}',
+    );
+    expect(resolver).toContain(
+      "const record = await ctx.prisma.comment.delete({ ...args, ...select } as any);\n    await this.pubSub.publish('commentDeleted', record);\n    return record;",
+    );
+    expect(file('models/Post/resolver.ts')).not.toContain('pubSub');
+
+    const subscriptions = file('models/Comment/subscriptions.ts')!;
+    expect(subscriptions).toContain('export class CommentSubscriptionsResolver {');
+    expect(subscriptions).toContain(
+      'return ctx.prisma.comment.findFirst({ where: { id: payload.id }, ...select } as any);',
+    );
+    expect(subscriptions).toContain(
+      "return this.pubSub.asyncIterableIterator<Comment>('commentUpdated');",
+    );
+
+    expect(file('helpers.ts')).toContain("export const PUB_SUB = 'PUB_SUB';");
+    expect(file('helpers.ts')).toContain('export function matchesWhere(');
+    expect(file('module.ts')).toContain(
+      'Comment: [CommentResolver, CommentAggregateResolver, CommentSubscriptionsResolver],',
+    );
+  });
+
+  it('should run the queries of every feature through the services with generateServices', async () => {
+    const file = await generate({
+      ...INJECT,
+      generateServices: 'true',
+      generateEvents: 'true',
+      tenantField: 'tenantId',
+      createdByField: 'createdById',
+      updatedByField: 'updatedById',
+    });
+
+    // The resolver applies the scope, the audit fields and the events around the service call
+    const resolver = file('models/Project/resolver.ts')!;
+    expect(resolver).toContain(
+      'constructor(\n    private readonly service: ProjectService,\n    @Inject(MUTATION_EVENT_EMITTER) private readonly events: MutationEventEmitter,',
+    );
+    expect(resolver).toContain(
+      "args = { ...args, data: withTenant(args.data, 'Project', 'create', scope, TENANT_MODELS) };\n    const user = () => getAuditUser(ctx, 'user.id');\n    args = { ...args, data: withAuditFields(args.data, 'Project', 'create', user, AUDIT_MODELS) };\n    const select = includeScalars(transformInfoIntoPrismaArgs(info, 'Project', { relationScope: scope }));\n    const record = await this.service.create(args, select);\n    await this.events.emit(ProjectCreatedEvent.eventName, new ProjectCreatedEvent(null, record, ctx));",
+    );
+
+    const service = file('models/Project/service.ts')!;
+    expect(service).toContain("import { PrismaService } from '../../../prisma/prisma.service';");
+    expect(service).toContain('export class ProjectService {');
+    expect(service).toContain(
+      'async create(args: CreateProjectArgs, select: PrismaSelect = {}): Promise<Project> {\n    return this.prisma.project.create({ ...args, ...select } as any);\n  }',
+    );
+
+    // Soft deletes and restores take their data from the resolver
+    const postService = file('models/Post/service.ts')!;
+    expect(postService).toContain(
+      "async delete(args: DeletePostArgs, select: PrismaSelect = {}, data: Record<string, unknown> = { deletedAt: new Date() }): Promise<Post | null> {\n    args = excludeDeleted(args, 'deletedAt');\n    return this.prisma.post.update({ ...args, data, ...select } as any);\n  }",
+    );
+    expect(postService).toContain(
+      'async restore(args: DeletePostArgs, select: PrismaSelect = {}, data: Record<string, unknown> = { deletedAt: null }): Promise<Post | null> {\n    return this.prisma.post.update({ where: { ...args.where, deletedAt: { not: null } }, data, ...select } as any);\n  }',
+    );
+    const postResolver = file('models/Post/resolver.ts')!;
+    expect(postResolver).toContain(
+      'const before = await this.service.findExisting(args.where);\n    const record = await this.service.restore(args, select, { deletedAt: null });',
+    );
+
+    const subscriptions = file('models/Comment/subscriptions.ts')!;
+    expect(subscriptions).toContain('private readonly prisma: PrismaService,');
+    expect(subscriptions).toContain(
+      'return this.prisma.comment.findFirst({ where: { id: payload.id }, ...select } as any);',
+    );
+
+    const module = file('module.ts')!;
+    expect(module).toContain(
+      'export const MODEL_SERVICES: Partial<Record<GeneratedModelName, Provider>> = {',
+    );
+    expect(module).toContain('exports: services,');
+  });
+});
@@ -0,0 +1,176 @@
+import { MANIFEST_FILE, planWrites, writeFiles } from '../../src/generator/writers/file-writer';
+import { addFileHeader, checkFileHeader } from '../../src/generator/writers/file-header';
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('File Writer', () => {
+  let rootDir: string;
+  let outputDir: string;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-writer-'));
+    outputDir = path.join(rootDir, 'generated');
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  const read = (filePath: string) => fs.readFile(path.join(outputDir, filePath), 'utf-8');
+  const exists = (filePath: string) =>
+    fs.access(path.join(outputDir, filePath)).then(
+      () => true,
+      () => false,
+    );
+
+  it('should write files and record them in the manifest', async () => {
+    const result = await writeFiles(outputDir, [
+      { path: 'index.ts', content: "export * from './models';\n" },
+      { path: 'models/User/model.ts', content: 'export class User {}\n' },
+    ]);
+
+    expect(result.added).toEqual(['index.ts', 'models/User/model.ts']);
+    expect(await read('models/User/model.ts')).toBe('export class User {}\n');
+
+    const manifest = JSON.parse(await read(MANIFEST_FILE));
+    expect(Object.keys(manifest.files)).toEqual(['index.ts', 'models/User/model.ts']);
+  });
+
+  it('should not rewrite unchanged files', async () => {
+    const files = [
+      { path: 'index.ts', content: 'export {};\n' },
+      { path: 'common.ts', content: 'export const a = 1;\n' },
+    ];
+    await writeFiles(outputDir, files);
+    const before = await fs.stat(path.join(outputDir, 'index.ts'));
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+    const result = await writeFiles(outputDir, [
+      files[0]!,
+      { path: 'common.ts', content: 'export const a = 2;\n' },
+    ]);
+
+    expect(result.unchanged).toEqual(['index.ts']);
+    expect(result.changed).toEqual(['common.ts']);
+    expect((await fs.stat(path.join(outputDir, 'index.ts'))).mtimeMs).toBe(before.mtimeMs);
+    expect(await read('common.ts')).toBe('export const a = 2;\n');
+  });
+
+  it('should prune previously generated files and leave user files alone', async () => {
+    await writeFiles(outputDir, [
+      { path: 'models/Old/model.ts', content: 'export class Old {}\n' },
+      { path: 'models/User/model.ts', content: 'export class User {}\n' },
+    ]);
+    await fs.writeFile(path.join(outputDir, 'custom.ts'), 'export {};\n');
+
+    const result = await writeFiles(outputDir, [
+      { path: 'models/User/model.ts', content: 'export class User {}\n' },
+    ]);
+
+    expect(result.removed).toEqual(['models/Old/model.ts']);
+    expect(await exists('models/Old')).toBe(false);
+    expect(await exists('models/User/model.ts')).toBe(true);
+    expect(await exists('custom.ts')).toBe(true);
+  });
+
+  it('should leave no staging directories behind', async () => {
+    await writeFiles(outputDir, [{ path: 'index.ts', content: 'export {};\n' }]);
+
+    expect(await fs.readdir(rootDir)).toEqual(['generated']);
+  });
+
+  it('should put the previous files back when a rename fails', async () => {
+    await writeFiles(outputDir, [
+      { path: 'a.ts', content: 'a1\n' },
+      { path: 'b.ts', content: 'b1\n' },
+      { path: 'old.ts', content: 'old\n' },
+    ]);
+    const rename = fs.rename;
+    const spy = jest.spyOn(fs, 'rename').mockImplementation(async (from, to) => {
+      // Only the new b.ts fails, putting the previous one back works
+      if (
+        to === path.join(outputDir, 'b.ts') &&
+        String(from).includes(`${path.sep}staged${path.sep}`)
+      ) {
+        throw new Error('disk full');
+      }
+      return rename(from, to);
+    });
+
+    try {
+      await expect(
+        writeFiles(outputDir, [
+          { path: 'a.ts', content: 'a2\n' },
+          { path: 'b.ts', content: 'b2\n' },
+          { path: 'c.ts', content: 'c\n' },
+        ]),
+      ).rejects.toThrow(/^disk full$/);
+    } finally {
+      spy.mockRestore();
+    }
+
+    expect(await read('a.ts')).toBe('a1\n');
+    expect(await read('b.ts')).toBe('b1\n');
+    expect(await read('old.ts')).toBe('old\n');
+    expect(await exists('c.ts')).toBe(false);
+    expect(await fs.readdir(rootDir)).toEqual(['generated']);
+  });
+
+  it('should not prune manifest entries outside the output directory', async () => {
+    await fs.mkdir(outputDir, { recursive: true });
+    await fs.writeFile(path.join(rootDir, 'app.ts'), 'export {};\n');
+    await fs.writeFile(
+      path.join(outputDir, MANIFEST_FILE),
+      JSON.stringify({ version: 1, files: { '../app.ts': 'x', 'gone.ts': 'y' } }),
+    );
+
+    const plan = await planWrites(outputDir, []);
+
+    expect(plan.removed).toEqual(['gone.ts']);
+    await writeFiles(outputDir, []);
+    expect(await fs.readFile(path.join(rootDir, 'app.ts'), 'utf-8')).toBe('export {};\n');
+  });
+
+  it('should plan writes without touching the output directory', async () => {
+    await writeFiles(outputDir, [
+      { path: 'a.ts', content: 'a\n' },
+      { path: 'b.ts', content: 'b\n' },
+    ]);
+
+    const plan = await planWrites(outputDir, [
+      { path: 'a.ts', content: 'a\n' },
+      { path: 'c.ts', content: 'c\n' },
+    ]);
+
+    expect(plan.added.map(f => f.path)).toEqual(['c.ts']);
+    expect(plan.changed).toEqual([]);
+    expect(plan.unchanged).toEqual(['a.ts']);
+    expect(plan.removed).toEqual(['b.ts']);
+    expect(await exists('c.ts')).toBe(false);
+    expect(await exists('b.ts')).toBe(true);
+  });
+
+  it('should add headers whose hash detects hand edits', async () => {
+    const content = addFileHeader('export class User {}\n', '1.2.3');
+
+    expect(content.split('\n').slice(0, 4)).toEqual([
+      '// Generated by nestjs-prisma-graphql-generator v1.2.3. Do not edit, changes are overwritten.',
+      expect.stringMatching(/^\/\/ @generated-hash sha256:[0-9a-f]{64}$/),
+      '/* eslint-disable */',
+      '// @ts-nocheck',
+    ]);
+    expect(checkFileHeader(content)).toBe('unmodified');
+    expect(checkFileHeader(content.replace('User', 'Account'))).toBe('modified');
+    expect(checkFileHeader('export class User {}\n')).toBe('missing');
+
+    await writeFiles(outputDir, [{ path: 'a.ts', content }]);
+    await fs.writeFile(path.join(outputDir, 'a.ts'), `${content}// local change\n`);
+    const result = await writeFiles(outputDir, [
+      { path: 'a.ts', content: addFileHeader('export class Account {}\n', '1.2.3') },
+    ]);
+    expect(result.changed).toEqual(['a.ts']);
+    expect(result.edited).toEqual(['a.ts']);
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  formatWithPrettier,
+  normalizeGeneratedFiles,
+  normalizeSource,
+} from '../../src/generator/writers/format';
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('Output formatting', () => {
+  describe('normalizeSource', () => {
+    it('should sort leading imports and their named imports', () => {
+      const source = [
+        "import { User } from './User';",
+        "import { Role, SortOrder } from '../../enums';",
+        "import { InputType, Field, Int } from '@nestjs/graphql';",
+        "import type { Post } from '../Post/model';",
+        "import { Prisma } from '@prisma/client';",
+        "import { Role, SortOrder } from '../../enums';",
+        '',
+        'export class A {}',
+      ].join('\n');
+
+      expect(normalizeSource(source)).toBe(
+        [
+          "import { Field, InputType, Int } from '@nestjs/graphql';",
+          "import { Prisma } from '@prisma/client';",
+          "import { Role, SortOrder } from '../../enums';",
+          "import type { Post } from '../Post/model';",
+          "import { User } from './User';",
+          '',
+          'export class A {}',
+          '',
+        ].join('\n'),
+      );
+    });
+
+    it('should collapse blank lines and trailing whitespace', () => {
+      const source = '\n\nexport class A {\n\n  a!: string;  \n\n\n  b!: string;\n\n}\n\n\n';
+
+      expect(normalizeSource(source)).toBe('export class A {\n  a!: string;\n\n  b!: string;\n}\n');
+    });
+
+    it('should leave imports after other statements in place', () => {
+      const source = "import { b } from 'b';\n// note\nimport { a } from 'a';\n";
+      expect(normalizeSource(source)).toBe(
+        "import { b } from 'b';\n\n// note\nimport { a } from 'a';\n",
+      );
+    });
+  });
+
+  it('should order files by path', () => {
+    const files = normalizeGeneratedFiles([
+      { path: 'models/User/model.ts', content: '' },
+      { path: 'index.ts', content: '' },
+      { path: 'models/Post/model.ts', content: '' },
+    ]);
+
+    expect(files.map(f => f.path)).toEqual([
+      'index.ts',
+      'models/Post/model.ts',
+      'models/User/model.ts',
+    ]);
+  });
+
+  describe('formatWithPrettier', () => {
+    let rootDir: string;
+
+    beforeEach(async () => {
+      rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'format-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(rootDir, { recursive: true, force: true });
+    });
+
+    it("should format with the project's Prettier and config", async () => {
+      // Stands in for the project's Prettier, resolved from the output directory
+      const prettierDir = path.join(rootDir, 'node_modules/prettier');
+      await fs.mkdir(prettierDir, { recursive: true });
+      await fs.writeFile(
+        path.join(prettierDir, 'index.js'),
+        `const path = require('path');
+        exports.resolveConfig = async () => ({ singleQuote: true });
+        exports.format = async (source, options) =>
+          '// ' + path.basename(options.filepath) + ' ' + options.singleQuote + '\\n' + source;`,
+      );
+
+      const files = await formatWithPrettier(
+        [
+          { path: 'models/a.ts', content: 'export const a = 1;\n' },
+          { path: 'README.md', content: '# Title\n' },
+        ],
+        path.join(rootDir, 'src/generated'),
+      );
+
+      expect(files).toEqual([
+        { path: 'models/a.ts', content: '// a.ts true\nexport const a = 1;\n' },
+        { path: 'README.md', content: '# Title\n' },
+      ]);
+    });
+
+    it('should return null when Prettier is not installed', async () => {
+      expect(await formatWithPrettier([], rootDir)).toBeNull();
+    });
+  });
+});
@@ -1401,4 +1401,496 @@ describe('Grouped Generation', () => {
     expect(content).toContain('price?: Prisma.Decimal;');
     expect(content).not.toContain('price?: Decimal;');
   });
+
+  it('should emit class-validator decorators on inputs and args when useValidation is enabled', async () => {
+    const mockDMMF: DMMF.Document = {
+      datamodel: {
+        models: [
+          {
+            name: 'User',
+            dbName: 'users',
+            schema: null,
+            fields: [
+              {
+                name: 'id',
+                kind: 'scalar',
+                isList: false,
+                isRequired: true,
+                isUnique: true,
+                isId: true,
+                isReadOnly: false,
+                hasDefaultValue: true,
+                type: 'Int',
+                isGenerated: false,
+                isUpdatedAt: false,
+              },
+              {
+                name: 'email',
+                kind: 'scalar',
+                isList: false,
+                isRequired: true,
+                isUnique: true,
+                isId: false,
+                isReadOnly: false,
+                hasDefaultValue: false,
+                type: 'String',
+                isGenerated: false,
+                isUpdatedAt: false,
+                documentation:
+                  '@Validator.IsEmail()\n@Validator.MaxLength(255, { message: "too long" })',
+              },
+              {
+                name: 'role',
+                kind: 'enum',
+                isList: false,
+                isRequired: false,
+                isUnique: false,
+                isId: false,
+                isReadOnly: false,
+                hasDefaultValue: false,
+                type: 'Role',
+                isGenerated: false,
+                isUpdatedAt: false,
+              },
+            ],
+            primaryKey: null,
+            uniqueFields: [],
+            uniqueIndexes: [],
+            isGenerated: false,
+          },
+        ],
+        enums: [
+          {
+            name: 'Role',
+            values: [
+              { name: 'USER', dbName: null },
+              { name: 'ADMIN', dbName: null },
+            ],
+          },
+          {
+            name: 'UserScalarFieldEnum',
+            values: [
+              { name: 'id', dbName: null },
+              { name: 'email', dbName: null },
+              { name: 'role', dbName: null },
+            ],
+          },
+        ],
+        types: [],
+        indexes: [],
+      },
+      schema: {
+        inputObjectTypes: {
+          prisma: [
+            {
+              name: 'UserWhereInput',
+              constraints: { maxNumFields: null, minNumFields: null },
+              fields: [
+                {
+                  name: 'AND',
+                  isRequired: false,
+                  isNullable: false,
+                  inputTypes: [
+                    { type: 'UserWhereInput', isList: true, location: 'inputObjectTypes' },
+                  ],
+                },
+                {
+                  name: 'email',
+                  isRequired: false,
+                  isNullable: false,
+                  inputTypes: [{ type: 'String', isList: false, location: 'scalar' }],
+                },
+              ],
+            },
+            {
+              name: 'UserWhereUniqueInput',
+              constraints: { maxNumFields: null, minNumFields: null },
+              fields: [
+                {
+                  name: 'id',
+                  isRequired: false,
+                  isNullable: false,
+                  inputTypes: [{ type: 'Int', isList: false, location: 'scalar' }],
+                },
+              ],
+            },
+            {
+              name: 'UserCreateInput',
+              constraints: { maxNumFields: null, minNumFields: null },
+              fields: [
+                {
+                  name: 'email',
+                  isRequired: true,
+                  isNullable: false,
+                  inputTypes: [{ type: 'String', isList: false, location: 'scalar' }],
+                },
+                {
+                  name: 'role',
+                  isRequired: false,
+                  isNullable: true,
+                  inputTypes: [{ type: 'Role', isList: false, location: 'enumTypes' }],
+                },
+              ],
+            },
+            {
+              name: 'UserUpdateInput',
+              constraints: { maxNumFields: null, minNumFields: null },
+              fields: [
+                {
+                  name: 'email',
+                  isRequired: false,
+                  isNullable: false,
+                  inputTypes: [
+                    { type: 'String', isList: false, location: 'scalar' },
+                    {
+                      type: 'StringFieldUpdateOperationsInput',
+                      isList: false,
+                      location: 'inputObjectTypes',
+                    },
+                  ],
+                },
+              ],
+            },
+            {
+              name: 'StringFieldUpdateOperationsInput',
+              constraints: { maxNumFields: null, minNumFields: null },
+              fields: [
+                {
+                  name: 'set',
+                  isRequired: false,
+                  isNullable: false,
+                  inputTypes: [{ type: 'String', isList: false, location: 'scalar' }],
+                },
+              ],
+            },
+          ],
+          model: [],
+        },
+        outputObjectTypes: { prisma: [], model: [] },
+        enumTypes: { prisma: [], model: [] },
+        fieldRefTypes: { prisma: [] },
+      },
+      mappings: {
+        modelOperations: [],
+        otherOperations: { read: [], write: [] },
+      },
+    };
+
+    config.useValidation = true;
+    const dmmfDoc = new DMMFDocument(mockDMMF, config);
+    const files = await generateCodeGrouped(dmmfDoc, config);
+
+    const inputs = files.find(f => f.path === 'models/User/inputs.ts')!.content;
+    expect(inputs).toContain(
+      "import { IsArray, IsEmail, IsEnum, IsInt, IsOptional, IsString, MaxLength, ValidateNested } from 'class-validator';",
+    );
+    expect(inputs).toContain("import { Type } from 'class-transformer';");
+    // Nested inputs are validated recursively
+    expect(inputs).toContain(
+      '  @IsOptional()\n  @IsArray()\n  @ValidateNested({ each: true })\n  @Type(() => UserWhereInput)\n  AND?:',
+    );
+    // Documented validators are only applied to create/update inputs
+    expect(inputs).toContain(
+      '  @IsString()\n  @IsEmail()\n  @MaxLength(255, { message: "too long" })\n  email!: string;',
+    );
+    // Updates keep the shared wrapper as their GraphQL type and validate its `set`
+    expect(inputs).toContain(
+      '  @Field(() => StringFieldUpdateOperationsInput, { nullable: true })\n  @IsOptional()\n  @ValidateNested()\n  @Type(() => UserUpdateInputEmailSet)\n  email?:',
+    );
+    expect(inputs).toContain(
+      'class UserUpdateInputEmailSet {\n  @IsOptional()\n  @IsString()\n  @IsEmail()\n  @MaxLength(255, { message: "too long" })\n  set?: string;\n}',
+    );
+    expect(inputs.match(/@IsEmail\(\)/g)).toHaveLength(2);
+    expect(inputs).toContain('  @IsOptional()\n  @IsEnum(Role)\n  role?:');
+
+    const args = files.find(f => f.path === 'models/User/args.ts')!.content;
+    expect(args).toContain(
+      '  @ValidateNested()\n  @Type(() => UserCreateInput)\n  data!: UserCreateInput;',
+    );
+    expect(args).toContain('  @IsOptional()\n  @IsInt()\n  take?: number;');
+    expect(args).toContain('@IsEnum(UserScalarFieldEnum, { each: true })');
+  });
+
+  it('should not emit class-validator decorators by default', async () => {
+    const mockDMMF: DMMF.Document = {
+      datamodel: {
+        models: [
+          {
+            name: 'User',
+            dbName: null,
+            schema: null,
+            fields: [
+              {
+                name: 'id',
+                kind: 'scalar',
+                isList: false,
+                isRequired: true,
+                isUnique: true,
+                isId: true,
+                isReadOnly: false,
+                hasDefaultValue: true,
+                type: 'Int',
+                isGenerated: false,
+                isUpdatedAt: false,
+              },
+            ],
+            primaryKey: null,
+            uniqueFields: [],
+            uniqueIndexes: [],
+            isGenerated: false,
+          },
+        ],
+        enums: [],
+        types: [],
+        indexes: [],
+      },
+      schema: {
+        inputObjectTypes: {
+          prisma: [
+            {
+              name: 'UserWhereInput',
+              constraints: { maxNumFields: null, minNumFields: null },
+              fields: [
+                {
+                  name: 'id',
+                  isRequired: false,
+                  isNullable: false,
+                  inputTypes: [{ type: 'Int', isList: false, location: 'scalar' }],
+                },
+              ],
+            },
+          ],
+          model: [],
+        },
+        outputObjectTypes: { prisma: [], model: [] },
+        enumTypes: { prisma: [], model: [] },
+        fieldRefTypes: { prisma: [] },
+      },
+      mappings: {
+        modelOperations: [],
+        otherOperations: { read: [], write: [] },
+      },
+    };
+
+    const dmmfDoc = new DMMFDocument(mockDMMF, config);
+    const files = await generateCodeGrouped(dmmfDoc, config);
+
+    for (const file of files) {
+      expect(file.content).not.toContain('class-validator');
+    }
+  });
+
+  it('should only generate the selected operations and the inputs they use', async () => {
+    const stringField = (name: string, isRequired = false) => ({
+      name,
+      isRequired,
+      isNullable: false,
+      inputTypes: [{ type: 'String', isList: false, location: 'scalar' as const }],
+    });
+    const inputType = (name: string, fields: ReturnType<typeof stringField>[]) => ({
+      name,
+      constraints: { maxNumFields: null, minNumFields: null },
+      fields,
+    });
+    const createDMMF = (documentation?: string): DMMF.Document => ({
+      datamodel: {
+        models: [
+          {
+            name: 'User',
+            dbName: null,
+            schema: null,
+            documentation,
+            fields: [
+              {
+                name: 'id',
+                kind: 'scalar',
+                isList: false,
+                isRequired: true,
+                isUnique: true,
+                isId: true,
+                isReadOnly: false,
+                hasDefaultValue: true,
+                type: 'String',
+                isGenerated: false,
+                isUpdatedAt: false,
+              },
+            ],
+            primaryKey: null,
+            uniqueFields: [],
+            uniqueIndexes: [],
+            isGenerated: false,
+          },
+        ],
+        enums: [],
+        types: [],
+        indexes: [],
+      },
+      schema: {
+        inputObjectTypes: {
+          prisma: [
+            inputType('UserWhereInput', [stringField('id')]),
+            inputType('UserWhereUniqueInput', [stringField('id')]),
+            inputType('UserCreateInput', [stringField('id')]),
+            inputType('UserCreateManyInput', [stringField('id')]),
+            inputType('UserUpdateInput', [stringField('id')]),
+            inputType('UserUpdateManyMutationInput', [stringField('id')]),
+          ],
+          model: [],
+        },
+        outputObjectTypes: { prisma: [], model: [] },
+        enumTypes: { prisma: [], model: [] },
+        fieldRefTypes: { prisma: [] },
+      },
+      mappings: { modelOperations: [], otherOperations: { read: [], write: [] } },
+    });
+    const generate = async (documentation?: string) => {
+      const files = await generateCodeGrouped(
+        new DMMFDocument(createDMMF(documentation), config),
+        config,
+      );
+      return (path: string) => files.find(f => f.path === path)?.content;
+    };
+
+    config.operations = ['findMany', 'findUnique', 'create'];
+    let file = await generate();
+
+    const resolver = file('models/User/resolver.ts')!;
+    expect(resolver).toContain('async users(');
+    expect(resolver).toContain('async user(');
+    expect(resolver).toContain('async createOneUser(');
+    expect(resolver).not.toContain('updateOneUser');
+    expect(resolver).not.toContain('deleteManyUser');
+    expect(resolver).not.toContain('findFirstUser');
+
+    const args = file('models/User/args.ts')!;
+    expect(args).toContain(
+      "import { UserWhereInput, UserWhereUniqueInput, UserCreateInput } from './inputs';",
+    );
+    expect(args).not.toContain('UpdateUserArgs');
+    expect(args).not.toContain('DeleteUserArgs');
+
+    const inputs = file('models/User/inputs.ts')!;
+    expect(inputs).toContain('export class UserCreateInput {');
+    expect(inputs).not.toContain('UserCreateManyInput');
+    expect(inputs).not.toContain('UserUpdateInput');
+    expect(inputs).not.toContain('UserUpdateManyMutationInput');
+
+    expect(file('models/User/aggregations.ts')).toBeUndefined();
+    expect(file('models/User/index.ts')).not.toContain('aggregations');
+
+    // A model annotation overrides the global option
+    file = await generate('@gql.operations(count)');
+
+    expect(file('models/User/resolver.ts')).not.toContain('async users(');
+    const aggregations = file('models/User/aggregations.ts')!;
+    expect(aggregations).toContain('async userCount(');
+    expect(aggregations).not.toContain('aggregateUser');
+    expect(aggregations).not.toContain('UserCountAggregate');
+    expect(file('models/User/args.ts')).toContain('export class AggregateUserArgs {');
+  });
+
+  it('should apply the naming style and type affixes to every reference', async () => {
+    const scalarField = (name: string) => ({
+      name,
+      kind: 'scalar' as const,
+      isList: false,
+      isRequired: true,
+      isUnique: false,
+      isId: name === 'id',
+      isReadOnly: false,
+      hasDefaultValue: false,
+      type: 'Int',
+      isGenerated: false,
+      isUpdatedAt: false,
+    });
+    const relationField = (name: string, type: string, isList: boolean) => ({
+      ...scalarField(name),
+      kind: 'object' as const,
+      isList,
+      isRequired: !isList,
+      type,
+      relationName: 'PersonToPet',
+    });
+    const inputType = (name: string) => ({
+      name,
+      constraints: { maxNumFields: null, minNumFields: null },
+      fields: [
+        {
+          name: 'id',
+          isRequired: false,
+          isNullable: false,
+          inputTypes: [{ type: 'Int', isList: false, location: 'scalar' as const }],
+        },
+      ],
+    });
+    const model = (name: string, documentation: string | undefined, fields: DMMF.Field[]) => ({
+      name,
+      dbName: null,
+      schema: null,
+      documentation,
+      fields,
+      primaryKey: null,
+      uniqueFields: [],
+      uniqueIndexes: [],
+      isGenerated: false,
+    });
+    const dmmf: DMMF.Document = {
+      datamodel: {
+        models: [
+          model('Person', '@gql.plural(People)', [
+            scalarField('id'),
+            relationField('pets', 'Pet', true),
+          ]),
+          model('Pet', undefined, [
+            scalarField('id'),
+            scalarField('ownerId'),
+            relationField('owner', 'Person', false),
+          ]),
+        ],
+        enums: [],
+        types: [],
+        indexes: [],
+      },
+      schema: {
+        inputObjectTypes: {
+          prisma: ['Person', 'Pet'].flatMap(m => [
+            inputType(`${m}WhereInput`),
+            inputType(`${m}WhereUniqueInput`),
+            inputType(`${m}CreateInput`),
+            inputType(`${m}UpdateManyMutationInput`),
+          ]),
+          model: [],
+        },
+        outputObjectTypes: { prisma: [], model: [] },
+        enumTypes: { prisma: [], model: [] },
+        fieldRefTypes: { prisma: [] },
+      },
+      mappings: { modelOperations: [], otherOperations: { read: [], write: [] } },
+    };
+
+    config = { ...config, typePrefix: 'Gql', typeSuffix: 'Type', namingStyle: 'short' };
+    const files = await generateCodeGrouped(new DMMFDocument(dmmf, config), config);
+    const file = (path: string) => files.find(f => f.path === path)!.content;
+
+    const petModel = file('models/Pet/model.ts');
+    expect(petModel).toContain("import type { GqlPersonType } from '../Person/model';");
+    expect(petModel).toContain('export class GqlPetType {');
+    expect(petModel).toContain('owner!: GqlPersonType;');
+
+    const resolver = file('models/Person/resolver.ts');
+    expect(resolver).toContain("import { GqlPersonType } from './model';");
+    expect(resolver).toContain('@Resolver(() => GqlPersonType)');
+    expect(resolver).toContain('@Query(() => [GqlPersonType])\n  async people(');
+    expect(resolver).toContain('async person(');
+    expect(resolver).toContain('async createPerson(');
+    expect(resolver).toContain('async updateManyPeople(');
+    expect(resolver).toContain('ctx.prisma.person.findMany(');
+
+    const relations = file('models/Person/relations.ts');
+    expect(relations).toContain("import { GqlPetType } from '../Pet/model';");
+    expect(relations).toContain('@Parent() parent: GqlPersonType');
+    expect(relations).toContain('@ResolveField(() => [GqlPetType]');
+
+    expect(file('models/Person/aggregations.ts')).toContain('async personCount(');
+  });
 });
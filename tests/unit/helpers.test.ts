@@ -1,9 +1,18 @@
 import type { GraphQLResolveInfo, SelectionSetNode } from 'graphql';
 import {
   PrismaSelect,
+  excludeDeleted,
+  getAuditUser,
   getPrismaFromContext,
+  getTenantScope,
+  includeScalars,
+  matchesWhere,
   mergePrismaSelects,
+  readContextPath,
+  scopeWhere,
   transformInfoIntoPrismaArgs,
+  withAuditFields,
+  withTenant,
 } from '../../src/runtime/helpers';
 
 import { Kind } from 'graphql';
@@ -875,4 +884,362 @@ describe('Runtime Helpers', () => {
       });
     });
   });
+
+  describe('relationScope', () => {
+    const mockDmmf = {
+      datamodel: {
+        models: [
+          {
+            name: 'Team',
+            fields: [
+              { name: 'id', kind: 'scalar', type: 'Int' },
+              { name: 'tenantId', kind: 'scalar', type: 'String' },
+              { name: 'members', kind: 'object', type: 'Member', isList: true },
+              { name: 'lead', kind: 'object', type: 'Member' },
+              { name: 'labels', kind: 'object', type: 'Label', isList: true },
+            ],
+          },
+          {
+            name: 'Member',
+            fields: [
+              { name: 'id', kind: 'scalar', type: 'Int' },
+              { name: 'name', kind: 'scalar', type: 'String' },
+              { name: 'tenantId', kind: 'scalar', type: 'String' },
+            ],
+          },
+          {
+            name: 'Label',
+            fields: [{ name: 'name', kind: 'scalar', type: 'String' }],
+          },
+        ],
+      },
+    };
+
+    it('should keep list relations within the scope', () => {
+      const mockInfo = {
+        fieldNodes: [
+          createFieldNode(
+            'teams',
+            createSelectionSet([
+              createFieldNode('members', createSelectionSet([createFieldNode('name')]), [
+                {
+                  kind: 'Argument',
+                  name: { value: 'where' },
+                  value: {
+                    kind: 'ObjectValue',
+                    fields: [
+                      { name: { value: 'name' }, value: { kind: 'StringValue', value: 'Ada' } },
+                    ],
+                  },
+                },
+              ]),
+              createFieldNode('lead', createSelectionSet([createFieldNode('name')])),
+              createFieldNode('labels', createSelectionSet([createFieldNode('name')])),
+            ]),
+          ),
+        ],
+        fragments: {},
+        variableValues: {},
+      } as unknown as GraphQLResolveInfo;
+
+      const result = transformInfoIntoPrismaArgs(mockInfo, {
+        dmmf: mockDmmf,
+        modelName: 'Team',
+        relationScope: { tenantId: 'acme' },
+      });
+
+      // To-one relations can't be filtered, and Label has no tenantId
+      expect(result).toEqual({
+        select: {
+          members: {
+            select: { name: true },
+            where: { name: 'Ada', AND: [{ tenantId: 'acme' }] },
+          },
+          lead: { select: { name: true } },
+          labels: { select: { name: true } },
+        },
+      });
+    });
+
+    it('should leave deleted records out of list relations to soft deleted models', () => {
+      const mockInfo = {
+        fieldNodes: [
+          createFieldNode(
+            'teams',
+            createSelectionSet([
+              createFieldNode('members', createSelectionSet([createFieldNode('name')])),
+              createFieldNode('lead', createSelectionSet([createFieldNode('name')])),
+            ]),
+          ),
+        ],
+        fragments: {},
+        variableValues: {},
+      } as unknown as GraphQLResolveInfo;
+
+      const result = transformInfoIntoPrismaArgs(mockInfo, {
+        dmmf: mockDmmf,
+        modelName: 'Team',
+        deletedFields: { Member: 'name' },
+      });
+
+      expect(result).toEqual({
+        select: {
+          members: { select: { name: true }, where: { name: null } },
+          lead: { select: { name: true } },
+        },
+      });
+    });
+  });
+
+  describe('excludeDeleted', () => {
+    it('should leave deleted records out unless withDeleted is set', () => {
+      expect(excludeDeleted({ where: { id: 1 }, withDeleted: false }, 'deletedAt')).toEqual({
+        where: { id: 1, AND: [{ deletedAt: null }] },
+      });
+      expect(excludeDeleted({ where: null, take: 5 }, 'deletedAt')).toEqual({
+        take: 5,
+        where: { deletedAt: null },
+      });
+      expect(excludeDeleted({ where: { id: 1 }, withDeleted: true }, 'deletedAt')).toEqual({
+        where: { id: 1 },
+      });
+    });
+  });
+
+  describe('scopeWhere', () => {
+    it('should AND the scope into a filter', () => {
+      expect(scopeWhere({ id: 1, AND: { name: 'Ada' } }, { tenantId: 'acme' })).toEqual({
+        id: 1,
+        AND: [{ name: 'Ada' }, { tenantId: 'acme' }],
+      });
+      expect(scopeWhere(undefined, { tenantId: 'acme' })).toEqual({ tenantId: 'acme' });
+    });
+  });
+
+  describe('readContextPath', () => {
+    it('should read the value at a property path of the context', () => {
+      expect(readContextPath({ req: { user: { id: 7 } } }, 'req.user.id')).toBe(7);
+      expect(readContextPath({ req: null }, 'req.user.id')).toBeUndefined();
+    });
+  });
+
+  describe('getTenantScope', () => {
+    it('should read the tenant from the context', () => {
+      expect(
+        getTenantScope({ req: { user: { tenantId: 'acme' } } }, 'tenantId', 'req.user.tenantId'),
+      ).toEqual({ tenantId: 'acme' });
+    });
+
+    it('should throw without a tenant on the context', () => {
+      expect(() => getTenantScope({ req: {} }, 'tenantId', 'req.user.tenantId')).toThrow(
+        'No tenant found in the GraphQL context at "req.user.tenantId"',
+      );
+    });
+  });
+
+  describe('withTenant', () => {
+    const models = {
+      Project: {
+        field: 'tenantId',
+        relation: { name: 'tenant', references: 'id' },
+        relations: { tasks: { model: 'Task', inverse: 'project' } },
+      },
+      Task: { field: 'tenantId', relations: { project: { model: 'Project', inverse: 'tasks' } } },
+      Tenant: { relations: { projects: { model: 'Project', inverse: 'tenant' } } },
+    };
+    const scope = { tenantId: 'acme' };
+
+    it('should set the tenant of nested creates', () => {
+      expect(
+        withTenant(
+          {
+            name: 'Docs',
+            tasks: {
+              create: [{ title: 'Write' }],
+              createMany: { data: [{ title: 'Review' }] },
+              connectOrCreate: { where: { id: 1 }, create: { title: 'Ship' } },
+            },
+          },
+          'Project',
+          'create',
+          scope,
+          models,
+        ),
+      ).toEqual({
+        name: 'Docs',
+        tenant: { connect: { id: 'acme' } },
+        tasks: {
+          create: [{ title: 'Write', tenantId: 'acme' }],
+          createMany: { data: [{ title: 'Review', tenantId: 'acme' }] },
+          connectOrCreate: { where: { id: 1 }, create: { title: 'Ship', tenantId: 'acme' } },
+        },
+      });
+    });
+
+    it('should only set the tenant of the records an update creates', () => {
+      expect(
+        withTenant(
+          { name: 'Docs', tasks: { upsert: [{ where: { id: 1 }, create: {}, update: {} }] } },
+          'Project',
+          'update',
+          scope,
+          models,
+        ),
+      ).toEqual({
+        name: 'Docs',
+        tasks: { upsert: [{ where: { id: 1 }, create: { tenantId: 'acme' }, update: {} }] },
+      });
+    });
+
+    it('should leave the relation to the tenant created along to Prisma', () => {
+      expect(
+        withTenant(
+          { name: 'Acme', projects: { create: { name: 'Docs' } } },
+          'Tenant',
+          'create',
+          scope,
+          models,
+        ),
+      ).toEqual({ name: 'Acme', projects: { create: { name: 'Docs' } } });
+    });
+  });
+
+  describe('getAuditUser', () => {
+    it('should read the user from the context', () => {
+      expect(getAuditUser({ req: { user: { id: 7 } } }, 'req.user.id')).toBe(7);
+    });
+
+    it('should throw without a user on the context', () => {
+      expect(() => getAuditUser({ req: null }, 'req.user.id')).toThrow(
+        'No user found in the GraphQL context at "req.user.id"',
+      );
+    });
+  });
+
+  describe('withAuditFields', () => {
+    const models = {
+      Post: {
+        createdBy: { field: 'authorId', relation: { name: 'author', references: 'id' } },
+        updatedBy: { field: 'editorId' },
+        relations: { comments: { model: 'Comment' } },
+      },
+      Comment: {
+        createdBy: { field: 'authorId' },
+        relations: { post: { model: 'Post' } },
+      },
+    };
+    const user = () => 7;
+
+    it('should connect the relations of created records and set the updated ones', () => {
+      expect(withAuditFields({ title: 'Hi' }, 'Post', 'create', user, models)).toEqual({
+        title: 'Hi',
+        author: { connect: { id: 7 } },
+        editorId: 7,
+      });
+      expect(withAuditFields({ title: 'Hi' }, 'Post', 'update', user, models)).toEqual({
+        title: 'Hi',
+        editorId: 7,
+      });
+    });
+
+    it('should set the foreign keys of bulk writes', () => {
+      expect(withAuditFields([{ title: 'Hi' }], 'Post', 'create', user, models, true)).toEqual([
+        { title: 'Hi', authorId: 7, editorId: 7 },
+      ]);
+    });
+
+    it('should set the audit fields of nested writes', () => {
+      expect(
+        withAuditFields(
+          {
+            comments: {
+              create: [{ text: 'a' }],
+              update: [{ where: { id: 1 }, data: { text: 'b' } }],
+              createMany: { data: [{ text: 'c' }] },
+            },
+          },
+          'Post',
+          'update',
+          user,
+          models,
+        ),
+      ).toEqual({
+        comments: {
+          create: [{ text: 'a', authorId: 7 }],
+          update: [{ where: { id: 1 }, data: { text: 'b' } }],
+          createMany: { data: [{ text: 'c', authorId: 7 }] },
+        },
+        editorId: 7,
+      });
+    });
+
+    it('should not read the user without audit fields to set', () => {
+      const noUser = () => {
+        throw new Error('No user');
+      };
+
+      expect(withAuditFields({ name: 'Ada' }, 'User', 'create', noUser, models)).toEqual({
+        name: 'Ada',
+      });
+    });
+  });
+
+  describe('includeScalars', () => {
+    it('should include every scalar next to the selected relations', () => {
+      expect(
+        includeScalars({
+          select: {
+            id: true,
+            posts: { select: { title: true } },
+            _count: { select: { posts: true } },
+          },
+        }),
+      ).toEqual({
+        include: { posts: { select: { title: true } }, _count: { select: { posts: true } } },
+      });
+    });
+
+    it('should select all fields without relations', () => {
+      expect(includeScalars({ select: { id: true, name: true } })).toEqual({});
+      expect(includeScalars({})).toEqual({});
+    });
+  });
+
+  describe('matchesWhere', () => {
+    const record = {
+      id: 1,
+      name: 'Alice',
+      role: 'ADMIN',
+      age: 30,
+      createdAt: new Date('2024-01-01'),
+    };
+
+    it('should match without a filter', () => {
+      expect(matchesWhere(record)).toBe(true);
+      expect(matchesWhere(record, null)).toBe(true);
+    });
+
+    it('should evaluate equality and scalar filters', () => {
+      expect(matchesWhere(record, { id: 1 })).toBe(true);
+      expect(matchesWhere(record, { id: 2 })).toBe(false);
+      expect(matchesWhere(record, { role: { in: ['ADMIN', 'EDITOR'] } })).toBe(true);
+      expect(matchesWhere(record, { role: { notIn: ['ADMIN'] } })).toBe(false);
+      expect(matchesWhere(record, { age: { gte: 30, lt: 40 } })).toBe(true);
+      expect(matchesWhere(record, { age: { not: { gt: 20 } } })).toBe(false);
+      expect(matchesWhere(record, { createdAt: { lt: new Date('2025-01-01') } })).toBe(true);
+      expect(matchesWhere(record, { name: { startsWith: 'al', mode: 'insensitive' } })).toBe(true);
+      expect(matchesWhere(record, { name: { contains: 'li' } })).toBe(true);
+      expect(matchesWhere(record, { name: { endsWith: 'E' } })).toBe(false);
+    });
+
+    it('should combine filters with AND, OR and NOT', () => {
+      expect(matchesWhere(record, { OR: [{ id: 2 }, { name: 'Alice' }] })).toBe(true);
+      expect(matchesWhere(record, { AND: [{ id: 1 }, { age: { gt: 40 } }] })).toBe(false);
+      expect(matchesWhere(record, { NOT: { role: 'EDITOR' } })).toBe(true);
+    });
+
+    it('should not match relation filters', () => {
+      expect(matchesWhere(record, { posts: { some: { published: true } } })).toBe(false);
+    });
+  });
 });
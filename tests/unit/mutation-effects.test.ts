@@ -0,0 +1,83 @@
+import {
+  beforeReturn,
+  getRecordSelectCall,
+  withReturnedRecord,
+} from '../../src/generator/mutation-effects';
+
+const PUBLISH = "await this.pubSub.publish('userCreated', record);";
+
+describe('withReturnedRecord', () => {
+  it('should run the effects with the returned record', () => {
+    expect(
+      withReturnedRecord(
+        [
+          `const select = ${getRecordSelectCall('transformInfoIntoPrismaArgs(info)')};`,
+          'return ctx.prisma.user.create({ ...args, ...select });',
+        ],
+        [PUBLISH, 'if (record) {', '  log(record);', '}'],
+      ),
+    ).toEqual([
+      'const select = includeScalars(transformInfoIntoPrismaArgs(info));',
+      'const record = await ctx.prisma.user.create({ ...args, ...select });',
+      PUBLISH,
+      'if (record) {',
+      '  log(record);',
+      '}',
+      'return record;',
+    ]);
+  });
+
+  it('should keep a result expression spanning several lines', () => {
+    expect(
+      withReturnedRecord(
+        ['  return this.prisma.user.delete({', '    ...args,', '  });'],
+        [PUBLISH],
+      ),
+    ).toEqual([
+      '  const record = await this.prisma.user.delete({',
+      '    ...args,',
+      '  });',
+      `  ${PUBLISH}`,
+      '  return record;',
+    ]);
+  });
+
+  it('should use what an after hook returns', () => {
+    expect(
+      withReturnedRecord(
+        [
+          'const result = await this.service.update(args, select);',
+          'return await this.afterUpdate(result, ctx);',
+        ],
+        [PUBLISH],
+      ),
+    ).toEqual([
+      'const result = await this.service.update(args, select);',
+      'const record = await this.afterUpdate(result, ctx);',
+      PUBLISH,
+      'return record;',
+    ]);
+  });
+
+  it('should leave the body alone without effects', () => {
+    const statements = ['return ctx.prisma.user.create(args);'];
+
+    expect(withReturnedRecord(statements, [])).toBe(statements);
+  });
+});
+
+describe('beforeReturn', () => {
+  it('should insert the lines ahead of the returned Prisma call', () => {
+    expect(
+      beforeReturn(
+        ['const select = {};', '  return this.prisma.user.update({', '  });'],
+        ['const before = await read();'],
+      ),
+    ).toEqual([
+      'const select = {};',
+      '  const before = await read();',
+      '  return this.prisma.user.update({',
+      '  });',
+    ]);
+  });
+});
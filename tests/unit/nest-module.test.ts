@@ -0,0 +1,114 @@
+import type { ModelResolvers } from '../../src/generator/nest-module';
+import { generateNestModules } from '../../src/generator/nest-module';
+
+const MODELS: ModelResolvers[] = [
+  {
+    model: 'User',
+    resolvers: [
+      { className: 'UserResolver', filePath: 'models/User/resolver.ts' },
+      { className: 'UserRelationsResolver', filePath: 'models/User/relations.ts' },
+    ],
+  },
+  {
+    model: 'Post',
+    resolvers: [{ className: 'PostResolver', filePath: 'models/Post/resolver.ts' }],
+  },
+  { model: 'Outbox', resolvers: [] },
+];
+
+describe('generateNestModules', () => {
+  it('should register every resolver by model in GeneratedGraphQLModule', () => {
+    const files = generateNestModules(MODELS, {}, model => `models/${model}/module.ts`);
+
+    expect(files.map(f => f.path)).toEqual(['module.ts']);
+    const content = files[0]!.content;
+    expect(content).toContain("import { DynamicModule, Module, Provider } from '@nestjs/common';");
+    expect(content).toContain("import { UserRelationsResolver } from './models/User/relations';");
+    expect(content).toContain(
+      [
+        'export const MODEL_RESOLVERS = {',
+        '  User: [UserResolver, UserRelationsResolver],',
+        '  Post: [PostResolver],',
+        '};',
+      ].join('\n'),
+    );
+    expect(content).toContain('static forRoot(options: GeneratedGraphQLModuleOptions = {})');
+    expect(content).toContain(
+      'providers: models.flatMap<Provider>(model => MODEL_RESOLVERS[model]),',
+    );
+  });
+
+  it('should import a module per model with featureModules', () => {
+    const files = generateNestModules(
+      MODELS,
+      { featureModules: true },
+      model => `models/${model}/module.ts`,
+    );
+
+    expect(files.map(f => f.path)).toEqual([
+      'models/User/module.ts',
+      'models/Post/module.ts',
+      'module.ts',
+    ]);
+    expect(files[0]!.content).toBe(
+      [
+        "import { Module } from '@nestjs/common';",
+        "import { UserResolver } from './resolver';",
+        "import { UserRelationsResolver } from './relations';",
+        '',
+        '/**',
+        ' * Registers the generated resolvers of User',
+        ' */',
+        '@Module({',
+        '  providers: [UserResolver, UserRelationsResolver],',
+        '})',
+        'export class UserGraphQLModule {}',
+        '',
+      ].join('\n'),
+    );
+    const content = files[2]!.content;
+    expect(content).toContain("import { PostGraphQLModule } from './models/Post/module';");
+    expect(content).toContain('  User: UserGraphQLModule,');
+    expect(content).toContain('imports: models.map(model => MODEL_MODULES[model]),');
+  });
+
+  it('should register and export the model services', () => {
+    const models: ModelResolvers[] = MODELS.map(m => ({
+      ...m,
+      service:
+        m.model === 'User'
+          ? { className: 'UserService', filePath: 'models/User/service.ts' }
+          : undefined,
+    }));
+
+    const content = generateNestModules(models, {}, model => model)[0]!.content;
+    expect(content).toContain("import { UserService } from './models/User/service';");
+    expect(content).toContain(
+      [
+        'export const MODEL_SERVICES: Partial<Record<GeneratedModelName, Provider>> = {',
+        '  User: UserService,',
+        '};',
+      ].join('\n'),
+    );
+    expect(content).toContain(
+      'const services = models.flatMap(model => MODEL_SERVICES[model] ?? []);',
+    );
+    expect(content).toContain('      exports: services,');
+
+    const [feature] = generateNestModules(
+      models,
+      { featureModules: true },
+      model => `models/${model}/module.ts`,
+    );
+    expect(feature!.content).toContain(
+      [
+        '  providers: [UserService, UserResolver, UserRelationsResolver],',
+        '  exports: [UserService],',
+      ].join('\n'),
+    );
+  });
+
+  it('should generate nothing without resolvers', () => {
+    expect(generateNestModules([], {}, model => model)).toEqual([]);
+  });
+});
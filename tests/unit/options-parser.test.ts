@@ -1,4 +1,8 @@
-import { parseGeneratorConfig } from '../../src/cli/options-parser';
+import {
+  GeneratorConfigError,
+  parseGeneratorConfig,
+  validateGeneratorConfig,
+} from '../../src/cli/options-parser';
 
 describe('Options Parser', () => {
   describe('parseGeneratorConfig', () => {
@@ -18,10 +22,10 @@ describe('Options Parser', () => {
 
     it('should parse emitOnly option', () => {
       const config = parseGeneratorConfig({
-        emitOnly: 'models,resolvers',
+        emitOnly: 'models, enums',
       });
 
-      expect(config.emitOnly).toEqual(['models', 'resolvers']);
+      expect(config.emitOnly).toEqual(['models', 'enums']);
     });
 
     it('should parse generateResolvers option', () => {
@@ -87,5 +91,185 @@ describe('Options Parser', () => {
       expect(configFalse.usePrismaEnums).toBe(false);
       expect(configDefault.usePrismaEnums).toBe(false);
     });
+
+    it('should parse operations option', () => {
+      const config = parseGeneratorConfig({ operations: 'findMany, findUnique,create,' });
+
+      expect(config.operations).toEqual(['findMany', 'findUnique', 'create']);
+      expect(parseGeneratorConfig({}).operations).toBeUndefined();
+    });
+
+    it('should parse includeModels and excludeModels options', () => {
+      const config = parseGeneratorConfig({ includeModels: 'User, Blog*', excludeModels: '_*' });
+
+      expect(config.includeModels).toEqual(['User', 'Blog*']);
+      expect(config.excludeModels).toEqual(['_*']);
+    });
+  });
+
+  describe('validateGeneratorConfig', () => {
+    it('should accept valid options', () => {
+      expect(
+        validateGeneratorConfig({
+          groupByModel: 'true',
+          namingStyle: 'short',
+          moduleFormat: 'esm',
+          barrels: 'none',
+          featureModules: 'true',
+          operations: 'findMany,create',
+          typePrefix: 'Gql',
+          includeModels: 'User*',
+        }),
+      ).toEqual([]);
+      expect(
+        validateGeneratorConfig({
+          prismaSource: 'inject',
+          prismaService: 'PrismaService',
+          prismaServicePath: '../prisma/prisma.service',
+          generateServices: 'true',
+        }),
+      ).toEqual([]);
+      expect(
+        validateGeneratorConfig({
+          contextPrismaKey: 'req.prisma',
+          contextType: 'AppContext',
+          contextTypePath: '../context',
+        }),
+      ).toEqual([]);
+      expect(
+        validateGeneratorConfig({
+          prismaSource: 'inject',
+          baseResolvers: 'true',
+          contextType: 'AppContext',
+          contextTypePath: '../context',
+        }),
+      ).toEqual([]);
+      expect(
+        validateGeneratorConfig({
+          prismaSource: 'inject',
+          generateEvents: 'true',
+          contextType: 'AppContext',
+          contextTypePath: '../context',
+        }),
+      ).toEqual([]);
+      expect(
+        validateGeneratorConfig({
+          prismaSource: 'inject',
+          tenantField: 'tenantId',
+          contextTenantKey: 'req.user.tenantId',
+          contextType: 'AppContext',
+          contextTypePath: '../context',
+        }),
+      ).toEqual([]);
+      expect(
+        validateGeneratorConfig({
+          prismaSource: 'inject',
+          createdByField: 'createdById',
+          updatedByField: 'updatedById',
+          contextUserKey: 'req.user.id',
+          contextType: 'AppContext',
+          contextTypePath: '../context',
+        }),
+      ).toEqual([]);
+      expect(
+        validateGeneratorConfig({
+          emitOnly: 'models,args,helpers,resolvers',
+          modelsOutput: 'types',
+        }),
+      ).toEqual([]);
+    });
+
+    it('should reject unknown options and suggest the nearest one', () => {
+      expect(validateGeneratorConfig({ groupByModle: 'true', verbose: 'true' })).toEqual([
+        'Unknown option "groupByModle" (did you mean "groupByModel"?)',
+        'Unknown option "verbose"',
+      ]);
+    });
+
+    it('should reject invalid values', () => {
+      expect(
+        validateGeneratorConfig({
+          groupByModel: 'yes',
+          emitOnly: 'modles,enums',
+          namingStyle: 'shrot',
+          operations: 'findMany,remove',
+          typeSuffix: 'Type!',
+          contextPrismaKey: 'req..prisma',
+          tenantField: 'tenant.id',
+        }),
+      ).toEqual([
+        'groupByModel must be "true" or "false", got "yes"',
+        'Invalid emitOnly value "modles"; expected one of models, inputs, args, enums, resolvers, helpers (did you mean "models"?)',
+        'Invalid namingStyle "shrot"; expected one of default, short, prisma (did you mean "short"?)',
+        'Invalid operations value "remove"; expected one of findMany, findFirst, findUnique, create, createMany, update, updateMany, upsert, delete, deleteMany, aggregate, groupBy, count',
+        'typeSuffix must only contain letters, digits or underscores, got "Type!"',
+        'contextPrismaKey must only contain identifiers separated by dots, got "req..prisma"',
+        'tenantField must only contain an identifier, got "tenant.id"',
+      ]);
+    });
+
+    it('should reject conflicting options', () => {
+      expect(
+        validateGeneratorConfig({
+          groupByModel: 'true',
+          modelsOutput: 'types',
+          emitOnly: 'models',
+        }),
+      ).toEqual([
+        'modelsOutput only applies when groupByModel is "false"',
+        'emitOnly only applies when groupByModel is "false"',
+      ]);
+      expect(
+        validateGeneratorConfig({ moduleFormat: 'esm', useRequireForRelations: 'true' }),
+      ).toEqual(['useRequireForRelations only applies when moduleFormat is "commonjs"']);
+      expect(
+        validateGeneratorConfig({
+          prismaSource: 'inject',
+          contextPrismaKey: 'req.prisma',
+          prismaService: 'PrismaService',
+        }),
+      ).toEqual([
+        'contextPrismaKey only applies when prismaSource is "context"',
+        'prismaService needs prismaServicePath to import it from',
+      ]);
+      expect(validateGeneratorConfig({ generateServices: 'true' })).toEqual([
+        'generateServices only applies when prismaSource is "inject"',
+      ]);
+      expect(
+        validateGeneratorConfig({
+          prismaSource: 'inject',
+          contextType: 'AppContext',
+          contextTypePath: '../context',
+        }),
+      ).toEqual([
+        'contextType only applies when prismaSource is "context", baseResolvers or generateEvents is "true", or with tenantField or audit fields',
+        'contextTypePath only applies when prismaSource is "context", baseResolvers or generateEvents is "true", or with tenantField or audit fields',
+      ]);
+      expect(validateGeneratorConfig({ eventEmitter: 'custom' })).toEqual([
+        'eventEmitter only applies when generateEvents is "true"',
+      ]);
+      expect(validateGeneratorConfig({ contextTenantKey: 'req.user.tenantId' })).toEqual([
+        'contextTenantKey only applies together with tenantField',
+      ]);
+      expect(validateGeneratorConfig({ prismaServicePath: './prisma.service' })).toEqual([
+        'prismaServicePath only applies when prismaSource is "inject"',
+        'prismaServicePath only applies together with prismaService',
+      ]);
+      expect(validateGeneratorConfig({ emitOnly: 'models,resolvers' })).toEqual([
+        'emitOnly includes resolvers, which import args, helpers; add them to emitOnly or set generateResolvers = "false"',
+      ]);
+      expect(
+        validateGeneratorConfig({ emitOnly: 'models,resolvers', generateResolvers: 'false' }),
+      ).toEqual([]);
+    });
+
+    it('should make parseGeneratorConfig throw with every problem', () => {
+      expect(() => parseGeneratorConfig({ groupByModel: 'yes', emitOnly: 'modles' })).toThrow(
+        new GeneratorConfigError([
+          'groupByModel must be "true" or "false", got "yes"',
+          'Invalid emitOnly value "modles"; expected one of models, inputs, args, enums, resolvers, helpers (did you mean "models"?)',
+        ]),
+      );
+    });
   });
 });
@@ -0,0 +1,119 @@
+import { getPrismaAccess } from '../../src/generator/prisma-access';
+import { mergeImports } from '../../src/generator/imports';
+
+describe('getPrismaAccess', () => {
+  it('should read the client from the GraphQL context by default', () => {
+    expect(getPrismaAccess({}, 'models/User/resolver.ts')).toEqual({
+      imports: [
+        { moduleSpecifier: '@prisma/client', namedImports: ['PrismaClient'] },
+        { moduleSpecifier: '../../helpers', namedImports: ['GraphQLContext'] },
+      ],
+      contextType: 'GraphQLContext<PrismaClient>',
+      client: 'ctx.prisma',
+    });
+  });
+
+  it('should use the configured context key and type', () => {
+    const access = getPrismaAccess(
+      { contextPrismaKey: 'req.prisma', contextType: 'AppContext', contextTypePath: '../context' },
+      'resolvers/UserResolver.ts',
+    );
+
+    expect(access).toEqual({
+      imports: [{ moduleSpecifier: '../../context', namedImports: ['AppContext'] }],
+      contextType: 'AppContext',
+      client: 'ctx.req.prisma',
+    });
+  });
+
+  it('should inject the Prisma service through the constructor', () => {
+    expect(
+      getPrismaAccess(
+        {
+          prismaSource: 'inject',
+          prismaService: 'PrismaService',
+          prismaServicePath: '@app/prisma',
+        },
+        'models/User/resolver.ts',
+      ),
+    ).toEqual({
+      imports: [{ moduleSpecifier: '@app/prisma', namedImports: ['PrismaService'] }],
+      serviceType: 'PrismaService',
+      serviceName: 'prisma',
+      client: 'this.prisma',
+    });
+    expect(
+      getPrismaAccess(
+        { prismaSource: 'inject', prismaClientPath: './generated/client' },
+        'resolvers/UserResolver.ts',
+      ).imports,
+    ).toEqual([{ moduleSpecifier: './generated/client', namedImports: ['PrismaClient'] }]);
+  });
+
+  it('should still pass the context to base resolver hooks when injecting', () => {
+    expect(getPrismaAccess({ prismaSource: 'inject', baseResolvers: true }, 'x.ts')).toEqual({
+      imports: [{ moduleSpecifier: '@prisma/client', namedImports: ['PrismaClient'] }],
+      contextType: 'unknown',
+      serviceType: 'PrismaClient',
+      serviceName: 'prisma',
+      client: 'this.prisma',
+    });
+  });
+
+  it('should pass the context to mutations emitting events when injecting', () => {
+    expect(getPrismaAccess({ prismaSource: 'inject', generateEvents: true }, 'x.ts')).toMatchObject(
+      {
+        contextType: 'unknown',
+        client: 'this.prisma',
+      },
+    );
+  });
+
+  it('should pass the context to resolvers scoped to a tenant when injecting', () => {
+    expect(
+      getPrismaAccess({ prismaSource: 'inject', tenantField: 'tenantId' }, 'x.ts'),
+    ).toMatchObject({
+      contextType: 'unknown',
+      client: 'this.prisma',
+    });
+  });
+
+  it('should pass the context to resolvers setting audit fields when injecting', () => {
+    expect(
+      getPrismaAccess({ prismaSource: 'inject', contextUserKey: 'user.id' }, 'x.ts'),
+    ).toMatchObject({
+      contextType: 'unknown',
+      client: 'this.prisma',
+    });
+  });
+
+  it('should inject the generated model service with generateServices', () => {
+    const access = getPrismaAccess(
+      { prismaSource: 'inject', generateServices: true },
+      'models/User/resolver.ts',
+      { className: 'UserService', modulePath: './models/User/service' },
+    );
+
+    expect(access).toEqual({
+      imports: [{ moduleSpecifier: './service', namedImports: ['UserService'] }],
+      serviceType: 'UserService',
+      serviceName: 'service',
+      client: 'this.service',
+    });
+  });
+});
+
+describe('mergeImports', () => {
+  it('should combine named imports from the same module', () => {
+    expect(
+      mergeImports([
+        { moduleSpecifier: '../helpers', namedImports: ['GraphQLContext'] },
+        { moduleSpecifier: '@prisma/client', namedImports: ['PrismaClient'] },
+        { moduleSpecifier: '../helpers', namedImports: ['PrismaSelect', 'GraphQLContext'] },
+      ]),
+    ).toEqual([
+      { moduleSpecifier: '../helpers', namedImports: ['GraphQLContext', 'PrismaSelect'] },
+      { moduleSpecifier: '@prisma/client', namedImports: ['PrismaClient'] },
+    ]);
+  });
+});
@@ -0,0 +1,107 @@
+import { getServiceCall, getServiceMethods } from '../../src/generator/services';
+
+describe('getServiceMethods', () => {
+  it('should run each operation on the Prisma delegate with an optional selection', () => {
+    const methods = getServiceMethods(
+      [
+        { operation: 'findMany', argsType: 'FindManyUserArgs', resultType: 'User[]' },
+        { operation: 'deleteMany', argsType: 'DeleteManyUserArgs', resultType: 'AffectedRows' },
+        { operation: 'groupBy', argsType: 'GroupByUserArgs', resultType: 'UserGroupBy[]' },
+        { operation: 'count', argsType: 'FindManyUserArgs', resultType: 'number' },
+      ],
+      'user',
+    );
+
+    expect(methods).toEqual([
+      {
+        name: 'findMany',
+        parameters: [
+          { name: 'args', type: 'FindManyUserArgs' },
+          { name: 'select', type: 'PrismaSelect', initializer: '{}' },
+        ],
+        returnType: 'Promise<User[]>',
+        statements: ['return this.prisma.user.findMany({ ...args, ...select } as any);'],
+      },
+      {
+        name: 'deleteMany',
+        parameters: [{ name: 'args', type: 'DeleteManyUserArgs' }],
+        returnType: 'Promise<AffectedRows>',
+        statements: ['return this.prisma.user.deleteMany(args as any);'],
+      },
+      {
+        name: 'groupBy',
+        parameters: [
+          { name: 'args', type: 'GroupByUserArgs' },
+          { name: 'aggregateArgs', type: 'PrismaAggregateArgs', initializer: '{}' },
+        ],
+        returnType: 'Promise<UserGroupBy[]>',
+        statements: ['return this.prisma.user.groupBy({ ...args, ...aggregateArgs } as any);'],
+      },
+      {
+        name: 'count',
+        parameters: [{ name: 'args', type: 'FindManyUserArgs' }],
+        returnType: 'Promise<number>',
+        statements: ['return this.prisma.user.count({ where: args.where } as any);'],
+      },
+    ]);
+  });
+
+  it('should set the field of a soft deleted model instead of deleting, and restore it', () => {
+    const softDelete = {
+      records: { field: 'deletedAt', restore: true, withDeleted: false },
+      relations: false,
+    };
+    const methods = getServiceMethods(
+      [
+        { operation: 'delete', argsType: 'DeleteUserArgs', resultType: 'User | null' },
+        { operation: 'deleteMany', argsType: 'DeleteManyUserArgs', resultType: 'AffectedRows' },
+      ],
+      'user',
+      softDelete,
+    );
+
+    expect(methods.map(method => method.statements)).toEqual([
+      [
+        "args = excludeDeleted(args, 'deletedAt');",
+        'return this.prisma.user.update({ ...args, data, ...select } as any);',
+      ],
+      [
+        "args = excludeDeleted(args, 'deletedAt');",
+        'return this.prisma.user.updateMany({ ...args, data } as any);',
+      ],
+      [
+        'return this.prisma.user.update({ where: { ...args.where, deletedAt: { not: null } }, data, ...select } as any);',
+      ],
+    ]);
+    expect(methods[0]!.parameters[2]).toEqual({
+      name: 'data',
+      type: 'Record<string, unknown>',
+      initializer: '{ deletedAt: new Date() }',
+    });
+    expect(methods[2]!.name).toBe('restore');
+    expect(methods[2]!.parameters[0]).toEqual({ name: 'args', type: 'DeleteUserArgs' });
+    expect(methods[2]!.parameters[2]).toEqual({
+      name: 'data',
+      type: 'Record<string, unknown>',
+      initializer: '{ deletedAt: null }',
+    });
+  });
+});
+
+describe('getServiceCall', () => {
+  it('should pass the selection of the GraphQL query to the service', () => {
+    expect(getServiceCall('findMany', 'this.service', 'transformInfoIntoPrismaArgs(info)')).toEqual(
+      [
+        'const select = transformInfoIntoPrismaArgs(info);',
+        'return this.service.findMany(args, select);',
+      ],
+    );
+    expect(getServiceCall('aggregate', 'this.service', '')).toEqual([
+      'const aggregateArgs = transformInfoIntoPrismaAggregateArgs(info);',
+      'return this.service.aggregate(args, aggregateArgs);',
+    ]);
+    expect(getServiceCall('updateMany', 'this.service', '')).toEqual([
+      'return this.service.updateMany(args);',
+    ]);
+  });
+});
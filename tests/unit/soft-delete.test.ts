@@ -0,0 +1,80 @@
+import {
+  getDeletedFields,
+  getModelSoftDelete,
+  getRestoreCall,
+  getRestoreName,
+  getRestoreOperation,
+  getSoftDeleteCall,
+  getSoftDeleteStatements,
+  hasRestore,
+} from '../../src/generator/soft-delete';
+import { model } from '../fixtures/models';
+
+const POST = model(
+  'Post',
+  [
+    { name: 'id', kind: 'scalar' },
+    { name: 'deletedAt', kind: 'scalar' },
+  ],
+  { softDelete: { field: 'deletedAt', restore: true, withDeleted: false } },
+);
+const USER = model('User', [
+  { name: 'id', kind: 'scalar' },
+  { name: 'posts', kind: 'object', type: 'Post' },
+]);
+const COUNTRY = model('Country', [{ name: 'code', kind: 'scalar' }]);
+const MODELS = [POST, USER, COUNTRY];
+
+describe('getModelSoftDelete', () => {
+  it('should soft delete annotated models and the relations leading to them', () => {
+    expect(getModelSoftDelete(POST, MODELS)).toEqual({
+      records: { field: 'deletedAt', restore: true, withDeleted: false },
+      relations: false,
+    });
+    expect(getModelSoftDelete(USER, MODELS)).toEqual({ relations: true });
+    expect(getModelSoftDelete(COUNTRY, MODELS)).toBeUndefined();
+    expect(getDeletedFields(MODELS)).toEqual({ Post: 'deletedAt' });
+  });
+});
+
+describe('getSoftDeleteStatements', () => {
+  const softDelete = getModelSoftDelete(POST, MODELS);
+
+  it('should leave deleted records out of reads and deletes', () => {
+    expect(getSoftDeleteStatements('count', softDelete)).toEqual([
+      "args = excludeDeleted(args, 'deletedAt');",
+    ]);
+    expect(getSoftDeleteStatements('deleteMany', softDelete)).toHaveLength(1);
+    expect(getSoftDeleteStatements('update', softDelete)).toEqual([]);
+    expect(getSoftDeleteStatements('findMany', getModelSoftDelete(USER, MODELS))).toEqual([]);
+  });
+
+  it('should set the field instead of deleting', () => {
+    expect(getSoftDeleteCall('delete', softDelete)).toEqual({
+      method: 'update',
+      data: '{ deletedAt: new Date() }',
+    });
+    expect(getSoftDeleteCall('deleteMany', softDelete).method).toBe('updateMany');
+    expect(getSoftDeleteCall('delete', undefined)).toEqual({ method: 'delete' });
+  });
+
+  it('should restore next to the delete mutation', () => {
+    expect(hasRestore(['findMany', 'delete'], softDelete)).toBe(true);
+    expect(hasRestore(['findMany'], softDelete)).toBe(false);
+    expect(getRestoreName('deleteOnePost')).toBe('restoreOnePost');
+    expect(
+      getRestoreOperation(
+        [{ operation: 'delete', argsType: 'DeletePostArgs', resultType: 'Post | null' }],
+        softDelete,
+      ),
+    ).toEqual({ operation: 'restore', argsType: 'DeletePostArgs', resultType: 'Post | null' });
+  });
+
+  it('should only restore deleted records', () => {
+    const { data } = getSoftDeleteCall('restore', softDelete);
+
+    expect(getRestoreCall('ctx.prisma.post', softDelete!.records!, 'select', data!)).toBe(
+      'ctx.prisma.post.update({ where: { ...args.where, deletedAt: { not: null } }, data: { deletedAt: null }, ...select } as any)',
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import type { CrudOperation } from '../../src/generator/dmmf/types';
+import { field, model } from '../fixtures/models';
+import {
+  getModelSubscriptions,
+  getPublishedSubscription,
+  getRecordKey,
+  getPublishStatement,
+  getResolveStatements,
+} from '../../src/generator/subscriptions';
+
+const MODEL = model(
+  'BlogPost',
+  [
+    { name: 'id', isId: true },
+    { name: 'slug', type: 'String', isUnique: true },
+  ],
+  { subscriptions: true },
+);
+
+describe('getModelSubscriptions', () => {
+  it('should add one subscription per event an enabled mutation publishes', () => {
+    const ops = new Set<CrudOperation>(['findMany', 'create', 'upsert', 'deleteMany']);
+
+    expect(getModelSubscriptions(MODEL, ops)).toEqual([
+      { event: 'created', name: 'blogPostCreated', operations: ['create'] },
+      { event: 'updated', name: 'blogPostUpdated', operations: ['upsert'] },
+    ]);
+  });
+
+  it('should use the GraphQL name of the model', () => {
+    const renamed = { ...MODEL, annotations: { subscriptions: true, name: 'Article' } };
+
+    expect(getModelSubscriptions(renamed, new Set(['delete'])).map(s => s.name)).toEqual([
+      'articleDeleted',
+    ]);
+  });
+
+  it('should not add subscriptions without @gql.subscriptions', () => {
+    const plain = { ...MODEL, annotations: {} };
+
+    expect(getModelSubscriptions(plain, new Set(['create', 'delete']))).toEqual([]);
+  });
+
+  it('should find the subscription a mutation publishes to', () => {
+    const subscriptions = getModelSubscriptions(MODEL, new Set(['update', 'upsert']));
+
+    expect(getPublishedSubscription(subscriptions, 'upsert')?.name).toBe('blogPostUpdated');
+    expect(getPublishedSubscription(subscriptions, 'updateMany')).toBeUndefined();
+    expect(getPublishStatement('blogPostUpdated')).toBe(
+      "await this.pubSub.publish('blogPostUpdated', record);",
+    );
+  });
+});
+
+describe('getRecordKey', () => {
+  it('should prefer the id field', () => {
+    expect(getRecordKey(MODEL)).toEqual(['id']);
+  });
+
+  it('should fall back to the compound primary key, then unique fields', () => {
+    const fields = [field({ name: 'a' }), field({ name: 'b' })];
+
+    expect(
+      getRecordKey({ ...MODEL, fields, primaryKey: { name: null, fields: ['a', 'b'] } }),
+    ).toEqual(['a', 'b']);
+    expect(getRecordKey({ ...MODEL, fields: [MODEL.fields[1]!] })).toEqual(['slug']);
+    expect(getRecordKey({ ...MODEL, fields, uniqueFields: [['b', 'a']] })).toEqual(['b', 'a']);
+    expect(getRecordKey({ ...MODEL, fields })).toBeUndefined();
+  });
+});
+
+describe('getResolveStatements', () => {
+  const [created, , deleted] = getModelSubscriptions(
+    MODEL,
+    new Set(['create', 'update', 'delete']),
+  );
+
+  it('should fetch the published record again with the subscriber selection', () => {
+    expect(
+      getResolveStatements(
+        created!,
+        ['a', 'b'],
+        'ctx.prisma',
+        'blogPost',
+        'transformInfoIntoPrismaArgs(info)',
+      ),
+    ).toEqual([
+      'const select = transformInfoIntoPrismaArgs(info);',
+      'return ctx.prisma.blogPost.findFirst({ where: { a: payload.a, b: payload.b }, ...select } as any);',
+    ]);
+  });
+
+  it('should return deleted records and records without a key as published', () => {
+    expect(getResolveStatements(deleted!, ['id'], 'ctx.prisma', 'blogPost', 's')).toEqual([
+      'return payload;',
+    ]);
+    expect(getResolveStatements(created!, undefined, 'ctx.prisma', 'blogPost', 's')).toEqual([
+      'return payload;',
+    ]);
+  });
+});
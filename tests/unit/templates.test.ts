@@ -6,6 +6,10 @@ import { generateEnums } from '../../src/generator/templates/enum';
 import { generateModels } from '../../src/generator/templates/model';
 import { generateResolvers } from '../../src/generator/templates/resolver';
 import { isHiddenField } from '../../src/generator/templates/utils';
+import {
+  getDocumentedValidators,
+  getValidationDecorators,
+} from '../../src/generator/templates/validation';
 
 describe('isHiddenField', () => {
   it('should return true for @HideField()', () => {
@@ -33,6 +37,33 @@ describe('isHiddenField', () => {
   });
 });
 
+describe('validation decorators', () => {
+  it('should parse @Validator annotations with nested arguments', () => {
+    expect(
+      getDocumentedValidators(
+        'The email\n@Validator.IsEmail()\n@Validator.Matches(/^(a|b)$/, { message: "x)" })',
+      ),
+    ).toEqual([
+      { name: 'IsEmail', arguments: [] },
+      { name: 'Matches', arguments: ['/^(a|b)$/, { message: "x)" }'] },
+    ]);
+  });
+
+  it('should return no validators for undefined documentation', () => {
+    expect(getDocumentedValidators(undefined)).toEqual([]);
+  });
+
+  it('should infer list validators for scalars', () => {
+    expect(
+      getValidationDecorators({ type: 'Float', kind: 'scalar', isList: true, isOptional: true }),
+    ).toEqual([
+      { name: 'IsOptional', arguments: [] },
+      { name: 'IsArray', arguments: [] },
+      { name: 'IsNumber', arguments: ['{}', '{ each: true }'] },
+    ]);
+  });
+});
+
 describe('Template Generators', () => {
   let project: Project;
   let config: GeneratorConfig;
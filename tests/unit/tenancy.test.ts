@@ -0,0 +1,132 @@
+import {
+  getModelTenancy,
+  getScopeHelpers,
+  getScopeStatements,
+  getTenancyWarnings,
+  getTenantModels,
+} from '../../src/generator/tenancy';
+import { model } from '../fixtures/models';
+
+// The tenant field and its relation as applyTenantField leaves them: read-only
+const PROJECT = model('Project', [
+  { name: 'id', kind: 'scalar' },
+  { name: 'tenantId', kind: 'scalar', annotations: { readonly: true } },
+  {
+    name: 'tenant',
+    kind: 'object',
+    type: 'Tenant',
+    relationName: 'TenantProjects',
+    relationFromFields: ['tenantId'],
+    relationToFields: ['id'],
+    annotations: { readonly: true },
+  },
+  { name: 'tasks', kind: 'object', type: 'Task', relationName: 'ProjectTasks' },
+]);
+const TASK = model('Task', [
+  { name: 'id', kind: 'scalar' },
+  { name: 'tenantId', kind: 'scalar', annotations: { readonly: true } },
+  { name: 'project', kind: 'object', type: 'Project', relationName: 'ProjectTasks' },
+]);
+const TENANT = model('Tenant', [
+  { name: 'id', kind: 'scalar' },
+  { name: 'projects', kind: 'object', type: 'Project', relationName: 'TenantProjects' },
+]);
+const COUNTRY = model('Country', [{ name: 'code', kind: 'scalar' }]);
+const MODELS = [PROJECT, TASK, TENANT, COUNTRY];
+
+describe('getModelTenancy', () => {
+  it('should scope models with the tenant field, connecting its relation', () => {
+    expect(getModelTenancy(PROJECT, MODELS, { tenantField: 'tenantId' })).toEqual({
+      model: 'Project',
+      field: 'tenantId',
+      contextPath: 'tenantId',
+      scoped: true,
+      relation: { name: 'tenant', references: 'id' },
+      relations: true,
+    });
+  });
+
+  it('should only scope the relations of models leading to a scoped model', () => {
+    expect(
+      getModelTenancy(TENANT, MODELS, { tenantField: 'tenantId', contextTenantKey: 'user.org' }),
+    ).toEqual({
+      model: 'Tenant',
+      field: 'tenantId',
+      contextPath: 'user.org',
+      scoped: false,
+      relations: true,
+    });
+    expect(getModelTenancy(COUNTRY, MODELS, { tenantField: 'tenantId' })).toBeUndefined();
+    expect(getModelTenancy(PROJECT, MODELS, {})).toBeUndefined();
+  });
+});
+
+describe('getScopeStatements', () => {
+  const tenancy = getModelTenancy(PROJECT, MODELS, { tenantField: 'tenantId' });
+
+  it('should AND the tenant into the filter', () => {
+    expect(getScopeStatements('updateMany', tenancy)).toEqual([
+      "const scope = getTenantScope(ctx, 'tenantId', 'tenantId');",
+      'args = { ...args, where: scopeWhere(args.where, scope) };',
+    ]);
+  });
+
+  it('should set the tenant of created records, nested ones included', () => {
+    expect(getScopeStatements('upsert', tenancy)).toEqual([
+      "const scope = getTenantScope(ctx, 'tenantId', 'tenantId');",
+      "args = { ...args, where: scopeWhere(args.where, scope), create: withTenant(args.create, 'Project', 'create', scope, TENANT_MODELS), update: withTenant(args.update, 'Project', 'update', scope, TENANT_MODELS) };",
+    ]);
+    expect(getScopeStatements('createMany', tenancy)).toEqual([
+      "const scope = getTenantScope(ctx, 'tenantId', 'tenantId');",
+      "args = { ...args, data: withTenant(args.data, 'Project', 'create', scope, TENANT_MODELS, true) };",
+    ]);
+  });
+
+  it('should only read the tenant for the selections of unscoped models', () => {
+    const related = getModelTenancy(TENANT, MODELS, { tenantField: 'tenantId' });
+
+    expect(getScopeStatements('findMany', related)).toEqual([
+      "const scope = getTenantScope(ctx, 'tenantId', 'tenantId');",
+    ]);
+    expect(getScopeStatements('count', related)).toEqual([]);
+    expect(getScopeHelpers(['count', 'findMany'], related)).toEqual(['getTenantScope']);
+  });
+
+  it('should set the tenant of the records the nested writes of unscoped models create', () => {
+    const related = getModelTenancy(TENANT, MODELS, { tenantField: 'tenantId' });
+
+    expect(getScopeStatements('create', related)).toEqual([
+      "const scope = getTenantScope(ctx, 'tenantId', 'tenantId');",
+      "args = { ...args, data: withTenant(args.data, 'Tenant', 'create', scope, TENANT_MODELS) };",
+    ]);
+    expect(getScopeHelpers(['create'], related)).toEqual([
+      'getTenantScope',
+      'withTenant',
+      'TENANT_MODELS',
+    ]);
+    expect(getScopeHelpers(['create'], undefined)).toEqual([]);
+  });
+});
+
+describe('getTenantModels', () => {
+  it('should list the tenant field and the relations leading to it', () => {
+    expect(getTenantModels(MODELS, 'tenantId')).toEqual({
+      Project: {
+        field: 'tenantId',
+        relation: { name: 'tenant', references: 'id' },
+        relations: { tasks: { model: 'Task', inverse: 'project' } },
+      },
+      Task: { field: 'tenantId', relations: { project: { model: 'Project', inverse: 'tasks' } } },
+      Tenant: { relations: { projects: { model: 'Project', inverse: 'tenant' } } },
+    });
+  });
+});
+
+describe('getTenancyWarnings', () => {
+  it('should warn about a tenant field no model has', () => {
+    expect(getTenancyWarnings(MODELS, { tenantField: 'orgId' })).toEqual([
+      'tenantField "orgId" is not a scalar field of any model',
+    ]);
+    expect(getTenancyWarnings(MODELS, { tenantField: 'tenantId' })).toEqual([]);
+  });
+});
@@ -3,6 +3,7 @@ import {
   extractRelations,
   generateModelMappings,
   getIdFields,
+  getInputTypeKind,
   getUniqueFields,
   isEnumField,
   isRelationField,
@@ -167,6 +168,7 @@ describe('DMMF Transformer', () => {
               isGenerated: false,
               isUpdatedAt: false,
               hasDefaultValue: true,
+              annotations: { omitOutput: false, omitInput: [], readonly: false },
             },
             {
               name: 'posts',
@@ -181,11 +183,13 @@ describe('DMMF Transformer', () => {
               isUpdatedAt: false,
               hasDefaultValue: false,
               relationName: 'UserPosts',
+              annotations: { omitOutput: false, omitInput: [], readonly: false },
             },
           ],
           primaryKey: null,
           uniqueFields: [],
           uniqueIndexes: [],
+          annotations: {},
           isGenerated: false,
         },
         {
@@ -204,6 +208,7 @@ describe('DMMF Transformer', () => {
               isGenerated: false,
               isUpdatedAt: false,
               hasDefaultValue: true,
+              annotations: { omitOutput: false, omitInput: [], readonly: false },
             },
             {
               name: 'author',
@@ -218,11 +223,13 @@ describe('DMMF Transformer', () => {
               isUpdatedAt: false,
               hasDefaultValue: false,
               relationName: 'UserPosts',
+              annotations: { omitOutput: false, omitInput: [], readonly: false },
             },
           ],
           primaryKey: null,
           uniqueFields: [],
           uniqueIndexes: [],
+          annotations: {},
           isGenerated: false,
         },
       ];
@@ -245,6 +252,7 @@ describe('DMMF Transformer', () => {
           primaryKey: null,
           uniqueFields: [],
           uniqueIndexes: [],
+          annotations: {},
           isGenerated: false,
         },
       ];
@@ -259,6 +267,84 @@ describe('DMMF Transformer', () => {
       expect(mappings[0]?.create).toBe('createOneUser');
       expect(mappings[0]?.delete).toBe('deleteOneUser');
     });
+
+    it('should apply naming styles, plural overrides and type affixes', () => {
+      const model = {
+        name: 'Person',
+        dbName: null,
+        fields: [],
+        primaryKey: null,
+        uniqueFields: [],
+        uniqueIndexes: [],
+        annotations: { plural: 'People' },
+        isGenerated: false,
+      };
+
+      const [short] = generateModelMappings([model], {
+        namingStyle: 'short',
+        typePrefix: 'Gql',
+        typeSuffix: 'Type',
+      });
+      expect(short).toMatchObject({
+        typeName: 'GqlPersonType',
+        delegate: 'person',
+        findMany: 'people',
+        findUnique: 'person',
+        create: 'createPerson',
+        updateMany: 'updateManyPeople',
+        count: 'personCount',
+      });
+
+      const [prisma] = generateModelMappings([{ ...model, annotations: {} }], {
+        namingStyle: 'prisma',
+      });
+      expect(prisma).toMatchObject({
+        typeName: 'Person',
+        findMany: 'findManyPerson',
+        findUnique: 'findUniquePerson',
+        create: 'createPerson',
+        count: 'countPerson',
+      });
+    });
+
+    it('should name operations after @gql.name and keep plural models distinct', () => {
+      const base = {
+        dbName: null,
+        fields: [],
+        primaryKey: null,
+        uniqueFields: [],
+        uniqueIndexes: [],
+        isGenerated: false,
+      };
+
+      const [account, news] = generateModelMappings([
+        { ...base, name: 'User', annotations: { name: 'Account' } },
+        { ...base, name: 'News', annotations: {} },
+      ]);
+      expect(account).toMatchObject({ typeName: 'User', findMany: 'accounts', delegate: 'user' });
+      expect(news).toMatchObject({ findMany: 'findManyNews', findUnique: 'findUniqueNews' });
+    });
+  });
+
+  describe('getInputTypeKind', () => {
+    it('should classify input types that mirror model fields', () => {
+      expect(getInputTypeKind('UserCreateInput', 'User')).toBe('create');
+      expect(getInputTypeKind('UserUncheckedCreateWithoutPostsInput', 'User')).toBe('create');
+      expect(getInputTypeKind('PostCreateManyAuthorInput', 'Post')).toBe('create');
+      expect(getInputTypeKind('UserUpdateManyMutationInput', 'User')).toBe('update');
+      expect(getInputTypeKind('PostUncheckedUpdateManyWithoutAuthorInput', 'Post')).toBe('update');
+      expect(getInputTypeKind('UserScalarWhereWithAggregatesInput', 'User')).toBe('where');
+      expect(getInputTypeKind('UserWhereUniqueInput', 'User')).toBe('where');
+      expect(getInputTypeKind('UserMaxOrderByAggregateInput', 'User')).toBe('orderBy');
+    });
+
+    it('should classify relation wrappers as other', () => {
+      expect(getInputTypeKind('UserCreateNestedOneWithoutPostsInput', 'User')).toBe('other');
+      expect(getInputTypeKind('PostUpdateManyWithoutAuthorNestedInput', 'Post')).toBe('other');
+      expect(getInputTypeKind('PostCreateManyAuthorInputEnvelope', 'Post')).toBe('other');
+      expect(getInputTypeKind('PostUpdateWithWhereUniqueWithoutAuthorInput', 'Post')).toBe('other');
+      expect(getInputTypeKind('UserScalarRelationFilter', 'User')).toBe('other');
+    });
   });
 
   describe('utility functions', () => {
@@ -306,6 +392,7 @@ describe('DMMF Transformer', () => {
         primaryKey: null,
         uniqueFields: [],
         uniqueIndexes: [],
+        annotations: {},
         isGenerated: false,
       };
 
@@ -327,6 +414,7 @@ describe('DMMF Transformer', () => {
         primaryKey: null,
         uniqueFields: [],
         uniqueIndexes: [],
+        annotations: {},
         isGenerated: false,
       };
 